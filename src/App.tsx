@@ -11,9 +11,17 @@ import Index from "./pages/Index";
 import BusinessPage from "./pages/BusinessPage";
 import PersonalPage from "./pages/PersonalPage";
 import ClientsPage from "./pages/ClientsPage";
+import ClientDetailPage from "./pages/ClientDetailPage";
 import IncomePage from "./pages/IncomePage";
 import InvestmentsPage from "./pages/InvestmentsPage";
+import CreditCardsPage from "./pages/CreditCardsPage";
+import AccountsPage from "./pages/AccountsPage";
+import ForecastPage from "./pages/ForecastPage";
 import DREPage from "./pages/DREPage";
+import YearComparisonPage from "./pages/YearComparisonPage";
+import ImportPage from "./pages/ImportPage";
+import DASNPage from "./pages/DASNPage";
+import ProfilePage from "./pages/ProfilePage";
 import NotFound from "./pages/NotFound";
 import Login from "./pages/Login";
 
@@ -38,9 +46,17 @@ const App = () => {
                       <Route path="/empresa" element={<BusinessPage />} />
                       <Route path="/pessoal" element={<PersonalPage />} />
                       <Route path="/clientes" element={<ClientsPage />} />
+                      <Route path="/clientes/:id" element={<ClientDetailPage />} />
                       <Route path="/recebimentos" element={<IncomePage />} />
                       <Route path="/investimentos" element={<InvestmentsPage />} />
+                      <Route path="/cartoes" element={<CreditCardsPage />} />
+                      <Route path="/contas" element={<AccountsPage />} />
+                      <Route path="/previsao" element={<ForecastPage />} />
                       <Route path="/dre" element={<DREPage />} />
+                      <Route path="/comparativo" element={<YearComparisonPage />} />
+                      <Route path="/importar" element={<ImportPage />} />
+                      <Route path="/dasn" element={<DASNPage />} />
+                      <Route path="/perfil" element={<ProfilePage />} />
                       <Route path="*" element={<NotFound />} />
                     </Routes>
                   </div>
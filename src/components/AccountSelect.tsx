@@ -0,0 +1,40 @@
+import { useFinance } from "@/contexts/FinanceContext";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { accountTypeLabels, getDefaultAccount, getSelectableAccounts } from "@/lib/accounts";
+
+interface AccountSelectProps {
+  value: string; // Empty for the default account of the side
+  onChange: (accountId: string) => void;
+  side: 'business' | 'personal';
+  label?: string;
+}
+
+// Account a record moves; hidden until the user registers accounts
+export function AccountSelect({ value, onChange, side, label = "Conta" }: AccountSelectProps) {
+  const { accounts } = useFinance();
+  if (accounts.length === 0) return null;
+
+  const defaultAccount = getDefaultAccount(accounts, side);
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value || "default"} onValueChange={(v) => onChange(v === "default" ? "" : v)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="default">
+            {defaultAccount ? `Conta padrão (${defaultAccount.name})` : 'Conta padrão'}
+          </SelectItem>
+          {getSelectableAccounts(accounts, value).map((account) => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.name} • {accountTypeLabels[account.type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useMemo } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Hourglass } from "lucide-react";
+import { AGING_BUCKETS, AgingBucket, getAgingReport } from "@/lib/receivables";
+import { getClientHistoryStart } from "@/lib/clientStats";
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL'
+  }).format(value);
+};
+
+const bucketColor = (bucket: AgingBucket) => {
+  if (bucket === 'current') return 'text-foreground';
+  if (bucket === '0-30') return 'text-warning';
+  return 'text-danger';
+};
+
+// Open receivables of every client, regardless of the selected month
+export function AgingReport() {
+  const { incomes, fiscalSettings, getClientById, loadPeriod } = useFinance();
+
+  const historyStart = useMemo(() => {
+    return getClientHistoryStart(undefined, fiscalSettings?.openingDate);
+  }, [fiscalSettings?.openingDate]);
+
+  useEffect(() => {
+    loadPeriod(historyStart, new Date());
+  }, [historyStart, loadPeriod]);
+
+  const report = useMemo(() => getAgingReport(incomes), [incomes]);
+
+  const totals = useMemo(() => {
+    const buckets = Object.fromEntries(AGING_BUCKETS.map(({ key }) => [
+      key,
+      report.reduce((sum, row) => sum + row.buckets[key], 0),
+    ])) as Record<AgingBucket, number>;
+    return { buckets, total: report.reduce((sum, row) => sum + row.total, 0) };
+  }, [report]);
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+          <Hourglass className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+          Contas a Receber por Atraso
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+        {report.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            Nenhum valor em aberto
+          </div>
+        ) : (
+          <>
+            {/* Mobile Cards View */}
+            <div className="space-y-3 md:hidden">
+              {report.map(row => (
+                <div key={row.clientId} className="p-3 rounded-lg border border-border bg-card">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <h3 className="font-medium text-sm text-foreground truncate">
+                      {getClientById(row.clientId)?.name || 'N/A'}
+                    </h3>
+                    <span className="font-display font-bold text-sm">{formatCurrency(row.total)}</span>
+                  </div>
+                  <div className="space-y-1 text-xs">
+                    {AGING_BUCKETS.filter(({ key }) => row.buckets[key] > 0).map(({ key, label }) => (
+                      <div key={key} className="flex justify-between">
+                        <span className="text-muted-foreground">{label}</span>
+                        <span className={`font-medium ${bucketColor(key)}`}>{formatCurrency(row.buckets[key])}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Cliente</TableHead>
+                      {AGING_BUCKETS.map(({ key, label }) => (
+                        <TableHead key={key} className="text-right">{label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.map(row => (
+                      <TableRow key={row.clientId} className="hover:bg-muted/30">
+                        <TableCell className="font-medium">{getClientById(row.clientId)?.name || 'N/A'}</TableCell>
+                        {AGING_BUCKETS.map(({ key }) => (
+                          <TableCell key={key} className={`text-right ${row.buckets[key] > 0 ? bucketColor(key) : 'text-muted-foreground'}`}>
+                            {formatCurrency(row.buckets[key])}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-bold">{formatCurrency(row.total)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-muted/50 font-bold">
+                      <TableCell>Total</TableCell>
+                      {AGING_BUCKETS.map(({ key }) => (
+                        <TableCell key={key} className="text-right">{formatCurrency(totals.buckets[key])}</TableCell>
+                      ))}
+                      <TableCell className="text-right">{formatCurrency(totals.total)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
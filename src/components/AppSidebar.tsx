@@ -6,7 +6,14 @@ import {
   TrendingUp,
   Receipt,
   PiggyBank,
+  CreditCard,
+  Landmark,
+  LineChart,
   FileSpreadsheet,
+  BarChart3,
+  FileCheck,
+  Upload,
+  Settings,
   Menu,
   X,
   LogOut
@@ -15,6 +22,7 @@ import { NavLink, useLocation } from "react-router-dom";
 import { useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { SyncStatus } from "@/components/SyncStatus";
 
 const menuItems = [
   { 
@@ -53,12 +61,54 @@ const menuItems = [
     icon: PiggyBank,
     description: "Na empresa"
   },
+  { 
+    title: "Cartões", 
+    url: "/cartoes", 
+    icon: CreditCard,
+    description: "Faturas e parcelas"
+  },
+  { 
+    title: "Contas", 
+    url: "/contas", 
+    icon: Landmark,
+    description: "Saldos e extratos"
+  },
+  { 
+    title: "Previsão", 
+    url: "/previsao", 
+    icon: LineChart,
+    description: "Caixa dos próximos meses"
+  },
   { 
     title: "DRE", 
     url: "/dre", 
     icon: FileSpreadsheet,
     description: "Resultado do exercício"
   },
+  { 
+    title: "Comparativo", 
+    url: "/comparativo", 
+    icon: BarChart3,
+    description: "Ano contra ano"
+  },
+  { 
+    title: "DASN-SIMEI", 
+    url: "/dasn", 
+    icon: FileCheck,
+    description: "Declaração anual"
+  },
+  { 
+    title: "Importar", 
+    url: "/importar", 
+    icon: Upload,
+    description: "Extratos e planilhas"
+  },
+  { 
+    title: "Perfil", 
+    url: "/perfil", 
+    icon: Settings,
+    description: "Dados fiscais do MEI"
+  },
 ];
 
 export function AppSidebar() {
@@ -145,7 +195,8 @@ export function AppSidebar() {
         <nav className="flex-1 py-4 overflow-y-auto">
           <ul className="space-y-1 px-2">
             {menuItems.map((item) => {
-              const isActive = location.pathname === item.url;
+              const isActive = location.pathname === item.url ||
+                (item.url !== "/" && location.pathname.startsWith(`${item.url}/`));
               return (
                 <li key={item.url}>
                   <NavLink
@@ -178,6 +229,7 @@ export function AppSidebar() {
         {/* Footer */}
         <div className="p-4 border-t border-sidebar-border">
           <div className="bg-sidebar-accent/50 rounded-lg p-3">
+            <SyncStatus />
             <p className="text-xs text-sidebar-muted mb-2">
               Sistema de gestão financeira pessoal para MEI
             </p>
@@ -0,0 +1,226 @@
+import { useEffect, useMemo } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Package } from "lucide-react";
+import { addMonths, endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  DEFAULT_DEPRECIATION_SETTINGS,
+  getAssetRegister,
+  getBookValueTimeline,
+  getDepreciationLookback,
+  getUsefulLife,
+  isDepreciable,
+} from "@/lib/depreciation";
+
+interface ChartData {
+  month: string;
+  fullMonth: string;
+  bookValue: number;
+  depreciation: number;
+}
+
+// Depreciable assets with their book value at the end of the selected month, plus the
+// book value of all of them from the first purchase until the last one is fully depreciated
+export function AssetRegister() {
+  const { investments, fiscalSettings, selectedMonth, loadPeriod } = useFinance();
+  const settings = fiscalSettings ?? DEFAULT_DEPRECIATION_SETTINGS;
+  const lookback = getDepreciationLookback(investments, settings);
+
+  useEffect(() => {
+    loadPeriod(subMonths(startOfMonth(selectedMonth), lookback), endOfMonth(selectedMonth));
+  }, [selectedMonth, lookback, loadPeriod]);
+
+  const assets = useMemo(() => getAssetRegister(investments, settings, selectedMonth), [investments, settings, selectedMonth]);
+
+  const chartData = useMemo((): ChartData[] => {
+    const depreciable = investments.filter(investment => isDepreciable(investment, settings));
+    if (depreciable.length === 0) return [];
+
+    const dates = depreciable.map(investment => investment.date.getTime());
+    const ends = depreciable.map(investment =>
+      addMonths(startOfMonth(investment.date), getUsefulLife(investment, settings) - 1).getTime()
+    );
+    const first = new Date(Math.min(...dates));
+    const last = new Date(Math.max(...ends));
+
+    return getBookValueTimeline(depreciable, settings, first, last).map(point => ({
+      month: format(point.month, "MMM/yy", { locale: ptBR }),
+      fullMonth: format(point.month, "MMMM 'de' yyyy", { locale: ptBR }),
+      bookValue: point.bookValue,
+      depreciation: point.depreciation,
+    }));
+  }, [investments, settings]);
+
+  const totals = assets.reduce(
+    (acc, asset) => ({
+      cost: acc.cost + asset.investment.amount,
+      accumulated: acc.accumulated + asset.accumulatedDepreciation,
+      bookValue: acc.bookValue + asset.bookValue,
+    }),
+    { cost: 0, accumulated: 0, bookValue: 0 }
+  );
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const formatCompact = (value: number) =>
+    new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+      notation: "compact",
+    }).format(value);
+
+  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: ChartData }[] }) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-popover border border-border rounded-lg p-3 shadow-lg">
+          <p className="font-medium text-foreground capitalize">{data.fullMonth}</p>
+          <div className="mt-2 space-y-1">
+            <p className="text-sm text-investment">Valor contábil: {formatCurrency(data.bookValue)}</p>
+            <p className="text-sm text-muted-foreground">Depreciação: {formatCurrency(data.depreciation)}</p>
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const selectedLabel = format(selectedMonth, "MMM/yy", { locale: ptBR });
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <Package className="h-5 w-5 text-primary" />
+          Registro de Ativos
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Valor contábil dos bens em {format(selectedMonth, "MMMM 'de' yyyy", { locale: ptBR })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+        {assets.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            Nenhum bem em depreciação até este mês
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Custo de aquisição</p>
+                <p className="text-sm sm:text-base font-semibold">{formatCurrency(totals.cost)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/50">
+                <p className="text-xs text-muted-foreground">Depreciação acumulada</p>
+                <p className="text-sm sm:text-base font-semibold text-expense">{formatCurrency(totals.accumulated)}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-investment-light">
+                <p className="text-xs text-muted-foreground">Valor contábil</p>
+                <p className="text-sm sm:text-base font-semibold text-investment">{formatCurrency(totals.bookValue)}</p>
+              </div>
+            </div>
+
+            {chartData.length > 1 && (
+              <ResponsiveContainer width="100%" height={250}>
+                <AreaChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="month" className="text-xs fill-muted-foreground" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={formatCompact} className="text-xs fill-muted-foreground" tick={{ fontSize: 12 }} />
+                  <Tooltip content={<CustomTooltip />} />
+                  {chartData.some(point => point.month === selectedLabel) && (
+                    <ReferenceLine x={selectedLabel} stroke="hsl(var(--primary))" strokeDasharray="5 5" />
+                  )}
+                  <Area
+                    type="monotone"
+                    dataKey="bookValue"
+                    name="Valor contábil"
+                    stroke="hsl(var(--investment))"
+                    fill="hsl(var(--investment))"
+                    fillOpacity={0.15}
+                    strokeWidth={2}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            )}
+
+            {/* Mobile Cards View */}
+            <div className="space-y-3 md:hidden">
+              {assets.map((asset) => (
+                <div key={asset.investment.id} className="p-3 rounded-lg border border-border bg-card">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-sm text-foreground truncate">{asset.investment.description}</h3>
+                      <p className="text-lg font-display font-bold text-investment">
+                        {formatCurrency(asset.bookValue)}
+                      </p>
+                    </div>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      de {formatCurrency(asset.investment.amount)}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-investment-light text-investment text-xs font-medium">
+                      {asset.investment.category}
+                    </span>
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                      {format(asset.investment.date, "MM/yyyy", { locale: ptBR })}
+                    </span>
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                      {asset.usefulLife} meses
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Bem</TableHead>
+                    <TableHead>Aquisição</TableHead>
+                    <TableHead>Vida útil</TableHead>
+                    <TableHead className="text-right">Custo</TableHead>
+                    <TableHead className="text-right">Depreciação no mês</TableHead>
+                    <TableHead className="text-right">Acumulada</TableHead>
+                    <TableHead className="text-right">Valor contábil</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assets.map((asset) => (
+                    <TableRow key={asset.investment.id} className="hover:bg-muted/30">
+                      <TableCell>
+                        <p className="font-medium">{asset.investment.description}</p>
+                        <p className="text-xs text-muted-foreground">{asset.investment.category}</p>
+                      </TableCell>
+                      <TableCell>{format(asset.investment.date, "dd/MM/yyyy", { locale: ptBR })}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {asset.usefulLife} meses
+                        <span className="block text-xs">
+                          {asset.bookValue === 0 ? 'Totalmente depreciado' : `até ${format(asset.fullyDepreciatedOn, "MM/yyyy")}`}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(asset.investment.amount)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatCurrency(asset.monthlyDepreciation)}</TableCell>
+                      <TableCell className="text-right text-expense">{formatCurrency(asset.accumulatedDepreciation)}</TableCell>
+                      <TableCell className="text-right font-medium text-investment">{formatCurrency(asset.bookValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useMemo } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { BudgetForm } from "./forms/BudgetForm";
+import { AlertTriangle, Target, Trash2, XCircle } from "lucide-react";
+import { endOfMonth, format, isSameMonth } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { BUDGET_ATTENTION_PERCENTAGE, BudgetStatus, getBudgetHistoryStart, getBudgetStatus } from "@/lib/budgets";
+
+const getStorageKey = (month: Date) => `budget_alerts_shown_${format(month, 'yyyy-MM')}`;
+
+interface AlertsShown {
+  attention: boolean;
+  exceeded: boolean;
+}
+
+const getAlertsShown = (month: Date): Record<string, AlertsShown> => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(month));
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error("Error reading budget alerts from localStorage", e);
+  }
+  return {};
+};
+
+const setAlertShown = (month: Date, budgetId: string, alertKey: keyof AlertsShown) => {
+  const current = getAlertsShown(month);
+  current[budgetId] = { attention: false, exceeded: false, ...current[budgetId], [alertKey]: true };
+  localStorage.setItem(getStorageKey(month), JSON.stringify(current));
+};
+
+interface BudgetProgressProps {
+  type: 'business' | 'personal';
+}
+
+export function BudgetProgress({ type }: BudgetProgressProps) {
+  const { budgets, expenses, creditCards, cardPurchases, removeBudget, selectedMonth, isPeriodLoaded, loadPeriod } = useFinance();
+
+  const typeBudgets = useMemo(() => budgets.filter(b => b.type === type), [budgets, type]);
+
+  // Rollovers look at earlier months
+  const historyStart = useMemo(() => {
+    if (typeBudgets.length === 0) return null;
+    return typeBudgets
+      .map(budget => getBudgetHistoryStart(budget, selectedMonth))
+      .reduce((min, date) => date < min ? date : min);
+  }, [typeBudgets, selectedMonth]);
+  const historyLoaded = !historyStart || isPeriodLoaded(historyStart, endOfMonth(selectedMonth));
+
+  useEffect(() => {
+    if (historyStart) loadPeriod(historyStart, endOfMonth(selectedMonth));
+  }, [historyStart, selectedMonth, loadPeriod]);
+
+  const statuses = useMemo(() => {
+    const records = { expenses, creditCards, cardPurchases };
+    return typeBudgets
+      .map(budget => getBudgetStatus(budget, records, selectedMonth))
+      .filter((status): status is BudgetStatus => status !== null)
+      .sort((a, b) => b.percentage - a.percentage);
+  }, [typeBudgets, expenses, creditCards, cardPurchases, selectedMonth]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Alerts are only raised while the month is running, once per category and threshold, and
+  // only once the earlier months are in: without them the rollovers would be short
+  useEffect(() => {
+    if (!historyLoaded || !isSameMonth(selectedMonth, new Date())) return;
+
+    const alertsShown = getAlertsShown(selectedMonth);
+    statuses.forEach(({ budget, percentage, spent, available }) => {
+      const shown = alertsShown[budget.id];
+      if (percentage >= 100 && !shown?.exceeded) {
+        toast.error(`Orçamento de ${budget.category} estourado: ${formatCurrency(spent)} de ${formatCurrency(available)}`, {
+          icon: <XCircle className="w-4 h-4" />,
+          duration: 8000,
+        });
+        setAlertShown(selectedMonth, budget.id, 'attention');
+        setAlertShown(selectedMonth, budget.id, 'exceeded');
+      } else if (percentage >= BUDGET_ATTENTION_PERCENTAGE && percentage < 100 && !shown?.attention) {
+        toast.warning(`Atenção: ${budget.category} já usou ${Math.round(percentage)}% do orçamento do mês`, {
+          icon: <AlertTriangle className="w-4 h-4" />,
+          duration: 6000,
+        });
+        setAlertShown(selectedMonth, budget.id, 'attention');
+      }
+    });
+  }, [statuses, selectedMonth, historyLoaded]);
+
+  const getProgressColor = (percentage: number) => {
+    if (percentage >= 100) return '#ef4444'; // red-500
+    if (percentage >= BUDGET_ATTENTION_PERCENTAGE) return '#eab308'; // yellow-500
+    return '#22c55e'; // green-500
+  };
+
+  const totalAvailable = statuses.reduce((sum, s) => sum + s.available, 0);
+  const totalSpent = statuses.reduce((sum, s) => sum + s.spent, 0);
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <Target className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+            Orçamento x Realizado
+          </CardTitle>
+          <BudgetForm type={type} />
+        </div>
+        {statuses.length > 0 && (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            {formatCurrency(totalSpent)} de {formatCurrency(totalAvailable)} planejados
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+        {statuses.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            Nenhum orçamento para este mês
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {statuses.map(({ budget, carried, available, spent, percentage }) => (
+              <div key={budget.id} className="space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-medium text-sm text-foreground truncate">{budget.category}</span>
+                    {percentage >= 100 ? (
+                      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-expense-light text-expense text-xs flex-shrink-0">
+                        <XCircle className="w-3 h-3" />
+                        Estourado
+                      </span>
+                    ) : percentage >= BUDGET_ATTENTION_PERCENTAGE && (
+                      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-700 text-xs flex-shrink-0">
+                        <AlertTriangle className="w-3 h-3" />
+                        {Math.round(percentage)}%
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <BudgetForm type={type} budget={budget} editMode={true} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeBudget(budget.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress
+                  value={Math.min(percentage, 100)}
+                  className="h-2.5"
+                  style={{
+                    '--progress-color': getProgressColor(percentage)
+                  } as React.CSSProperties}
+                />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span className={cn(percentage >= 100 && "text-expense font-medium")}>
+                    {formatCurrency(spent)} de {formatCurrency(available)}
+                  </span>
+                  <span>
+                    {carried > 0 && `+${formatCurrency(carried)} de sobras • `}
+                    {spent <= available ? `Restam ${formatCurrency(available - spent)}` : `Excedeu ${formatCurrency(spent - available)}`}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
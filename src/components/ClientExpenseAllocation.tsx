@@ -2,6 +2,8 @@ import { useFinance } from "@/contexts/FinanceContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users, AlertTriangle, CheckCircle } from "lucide-react";
 import { useMemo } from "react";
+import { getReceivedAmount } from "@/lib/receivables";
+import { getPaidBySource, getRemainingAmount } from "@/lib/expensePayments";
 
 function formatCurrency(value: number): string {
   return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
@@ -11,28 +13,25 @@ export function ClientExpenseAllocation() {
   const { clients, filteredIncomes, filteredExpenses } = useFinance();
 
   const clientAllocations = useMemo(() => {
-    const today = new Date();
-    
     return clients.map(client => {
-      // Total received from this client (payment date <= today)
+      // Total received from this client (payments already recorded)
       const totalReceived = filteredIncomes
-        .filter(inc => inc.clientId === client.id && new Date(inc.paymentDate) <= today)
-        .reduce((sum, inc) => sum + inc.amount, 0);
+        .filter(inc => inc.clientId === client.id)
+        .reduce((sum, inc) => sum + getReceivedAmount(inc), 0);
 
-      // Total expected (all income from this client)
+      // Total expected (every invoice of this client that wasn't cancelled)
       const totalExpected = filteredIncomes
-        .filter(inc => inc.clientId === client.id)
+        .filter(inc => inc.clientId === client.id && !inc.cancelled)
         .reduce((sum, inc) => sum + inc.amount, 0);
 
-      // Total expenses allocated to this client (paid) - excluding "Saque" category
+      // Total paid with this client's revenue, payment by payment
       const paidExpenses = filteredExpenses
-        .filter(exp => exp.paymentSourceId === client.id && exp.status === 'paid' && exp.category !== 'Saque')
-        .reduce((sum, exp) => sum + exp.amount, 0);
+        .reduce((sum, exp) => sum + (getPaidBySource(exp)[client.id] || 0), 0);
 
-      // Total expenses allocated to this client (unpaid/saved) - excluding "Saque" category
+      // What is still open on expenses allocated to this client
       const plannedExpenses = filteredExpenses
-        .filter(exp => exp.paymentSourceId === client.id && (exp.status === 'unpaid' || exp.status === 'saved') && exp.category !== 'Saque')
-        .reduce((sum, exp) => sum + exp.amount, 0);
+        .filter(exp => exp.paymentSourceId === client.id)
+        .reduce((sum, exp) => sum + getRemainingAmount(exp), 0);
 
       const totalAllocated = paidExpenses + plannedExpenses;
       const balance = totalReceived - totalAllocated;
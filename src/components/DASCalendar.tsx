@@ -0,0 +1,179 @@
+import { useFinance } from "@/contexts/FinanceContext";
+import { MEIActivity } from "@/types/finance";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CalendarDays, Check, Clock, Plus } from "lucide-react";
+import { format, isSameMonth, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  MEI_ACTIVITY_LABELS,
+  calculateDASCharges,
+  getDASDueDate,
+  getDASValues,
+  isDASOverdue,
+} from "@/lib/das";
+import { isBeforeOpening } from "@/lib/meiLimit";
+
+export function DASCalendar() {
+  const { expenses, selectedMonth, fiscalSettings, updateFiscalSettings, generateDAS } = useFinance();
+
+  const year = selectedMonth.getFullYear();
+  const currentMonth = startOfMonth(new Date());
+  const activity = fiscalSettings?.activityType;
+  const values = activity ? getDASValues(year, activity) : null;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const competence = new Date(year, i, 1);
+    const expense = expenses.find(e => e.dasCompetence && isSameMonth(e.dasCompetence, competence));
+    const overdue = expense ? isDASOverdue(expense) : false;
+    const charges = expense && overdue ? calculateDASCharges(expense.amount, new Date(expense.dueDate)) : null;
+    const beforeOpening = fiscalSettings ? isBeforeOpening(fiscalSettings, competence) : false;
+    return { competence, expense, overdue, charges, beforeOpening };
+  });
+
+  const totalPaid = months
+    .filter(m => m.expense?.status === 'paid')
+    .reduce((sum, m) => sum + m.expense.amount, 0);
+  const totalOpen = months
+    .filter(m => m.expense && m.expense.status !== 'paid')
+    .reduce((sum, m) => sum + (m.charges ? m.charges.total : m.expense.amount), 0);
+
+  const handleActivityChange = async (value: string) => {
+    const ok = await updateFiscalSettings({ activityType: value as MEIActivity });
+    if (ok) toast.success('Atividade MEI atualizada');
+  };
+
+  const handleGenerate = async (competence: Date) => {
+    const ok = await generateDAS([competence]);
+    if (ok) toast.success(`DAS de ${format(competence, "MMMM/yyyy", { locale: ptBR })} gerado`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-primary" />
+              DAS-MEI {year}
+            </CardTitle>
+            {values && (
+              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                {formatCurrency(values.total)}/mês · INSS {formatCurrency(values.inss)}
+                {values.icms > 0 && ` · ICMS ${formatCurrency(values.icms)}`}
+                {values.iss > 0 && ` · ISS ${formatCurrency(values.iss)}`}
+              </p>
+            )}
+          </div>
+          <Select value={activity} onValueChange={handleActivityChange}>
+            <SelectTrigger className="sm:w-[220px]">
+              <SelectValue placeholder="Atividade do MEI" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MEI_ACTIVITY_LABELS) as MEIActivity[]).map(value => (
+                <SelectItem key={value} value={value}>{MEI_ACTIVITY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+        {!activity ? (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            Selecione a atividade do MEI para gerar as guias do DAS automaticamente
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 sm:gap-3">
+              {months.map(({ competence, expense, overdue, charges, beforeOpening }) => {
+                const isPaid = expense?.status === 'paid';
+                const dueDate = expense ? new Date(expense.dueDate) : getDASDueDate(competence);
+                return (
+                  <div
+                    key={competence.getMonth()}
+                    className={cn(
+                      "p-3 rounded-lg border text-xs space-y-1",
+                      isPaid && "border-success/40 bg-success-light/40",
+                      overdue && "border-expense/50 bg-expense-light/50",
+                      !expense && "border-dashed border-border",
+                      beforeOpening && !expense && "opacity-50"
+                    )}
+                  >
+                    <p className="font-medium text-sm text-foreground capitalize">
+                      {format(competence, "MMM/yy", { locale: ptBR })}
+                    </p>
+                    <p className="text-muted-foreground">
+                      Vence {format(dueDate, "dd/MM", { locale: ptBR })}
+                    </p>
+                    <p className="font-display font-bold text-foreground">
+                      {formatCurrency(charges ? charges.total : expense?.amount ?? values.total)}
+                    </p>
+                    {isPaid && (
+                      <span className="inline-flex items-center gap-1 text-success">
+                        <Check className="w-3 h-3" />
+                        Pago
+                      </span>
+                    )}
+                    {overdue && charges && (
+                      <span className="inline-flex items-center gap-1 text-expense" title={`Multa ${formatCurrency(charges.fine)} · Juros ${formatCurrency(charges.interest)}`}>
+                        <AlertTriangle className="w-3 h-3" />
+                        Vencido há {charges.daysLate}d
+                      </span>
+                    )}
+                    {expense && !isPaid && !overdue && (
+                      <span className="inline-flex items-center gap-1 text-warning">
+                        <Clock className="w-3 h-3" />
+                        A vencer
+                      </span>
+                    )}
+                    {!expense && beforeOpening && (
+                      <span className="text-muted-foreground">Antes da abertura</span>
+                    )}
+                    {!expense && !beforeOpening && competence <= currentMonth && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-1 text-xs gap-1"
+                        onClick={() => handleGenerate(competence)}
+                      >
+                        <Plus className="w-3 h-3" />
+                        Gerar
+                      </Button>
+                    )}
+                    {!expense && !beforeOpening && competence > currentMonth && (
+                      <span className="text-muted-foreground">Prevista</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 text-sm">
+              <p className="text-muted-foreground">
+                Pago no ano: <span className="font-semibold text-success">{formatCurrency(totalPaid)}</span>
+              </p>
+              <p className="text-muted-foreground">
+                Em aberto: <span className="font-semibold text-expense">{formatCurrency(totalOpen)}</span>
+              </p>
+            </div>
+            {months.some(m => m.overdue) && (
+              <p className="text-xs text-muted-foreground">
+                Multa de 0,33% ao dia (máx. 20%) e juros pela Selic estimados; o valor exato é calculado ao emitir a guia no PGMEI.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
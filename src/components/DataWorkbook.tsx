@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { downloadFile } from "@/lib/download";
+import {
+  WorkbookImport,
+  WorkbookRowError,
+  WorkbookSheet,
+  buildWorkbook,
+  parseWorkbook,
+  workbookSheetLabels,
+} from "@/lib/workbook";
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const SHEETS: WorkbookSheet[] = ['clients', 'incomes', 'expenses', 'investments'];
+
+// Full export and import of clients, incomes, expenses and investments, to keep a copy
+// outside the app or bring in the spreadsheets used before it
+export function DataWorkbook() {
+  const { clients, accounts, creditCards, recurringExpenses, fetchAllRecords, importWorkbook } = useFinance();
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<WorkbookImport | null>(null);
+  const [errors, setErrors] = useState<WorkbookRowError[]>([]);
+
+  const validRows = parsed ? SHEETS.reduce((sum, sheet) => sum + parsed[sheet].length, 0) : 0;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const data = await fetchAllRecords();
+      const buffer = await buildWorkbook(data);
+      downloadFile(buffer, `financas_${format(new Date(), 'yyyy-MM-dd')}.xlsx`, XLSX_TYPE);
+      toast.success('Planilha exportada com sucesso!');
+    } catch (error) {
+      console.error('Error exporting spreadsheet:', error);
+      toast.error('Erro ao exportar planilha');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const result = await parseWorkbook(await file.arrayBuffer(), {
+        clients,
+        accountIds: accounts.map(account => account.id),
+        creditCardIds: creditCards.map(card => card.id),
+        recurringExpenseIds: recurringExpenses.map(template => template.id),
+      });
+      setFileName(file.name);
+      setParsed(result);
+      setErrors(result.errors);
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      toast.error('Não foi possível ler o arquivo, envie uma planilha .xlsx');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setImporting(true);
+    const { saved, errors: saveErrors } = await importWorkbook(parsed);
+    setImporting(false);
+
+    if (saveErrors.length > 0) {
+      toast.error(`${saveErrors.length} linha(s) não puderam ser salvas`);
+    }
+    if (saved > 0) {
+      toast.success(`Planilha importada: ${saved} registro(s) salvos`);
+    }
+    setParsed(null);
+    setErrors(saveErrors);
+  };
+
+  const handleCancel = () => {
+    setParsed(null);
+    setErrors([]);
+    setFileName("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <FileSpreadsheet className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+              Planilha completa
+            </CardTitle>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+              Clientes, receitas, despesas e investimentos em abas de um arquivo .xlsx. Linhas com o id de um
+              registro existente o atualizam; as demais são adicionadas. Faturas e despesas fixas só voltam
+              para a conta em que o cartão ou a despesa fixa existe
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={exporting} className="gap-2">
+            <Download className="w-4 h-4" />
+            {exporting ? 'Exportando...' : 'Exportar planilha'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="workbook-file">Importar planilha</Label>
+          <Input
+            id="workbook-file"
+            type="file"
+            accept=".xlsx"
+            onChange={handleFile}
+            disabled={importing}
+          />
+        </div>
+
+        {parsed && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/30">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-foreground truncate">{fileName}</p>
+              <p className="text-xs text-muted-foreground">
+                {SHEETS.map(sheet => `${parsed[sheet].length} ${workbookSheetLabels[sheet].toLowerCase()}`).join(' · ')}
+                {parsed.errors.length > 0 && ` · ${parsed.errors.length} linha(s) com erro serão ignoradas`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleCancel} disabled={importing}>
+                Cancelar
+              </Button>
+              <Button onClick={handleImport} disabled={importing || validRows === 0} className="gap-2">
+                <Upload className="w-4 h-4" />
+                {importing ? 'Importando...' : `Importar ${validRows} linha(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-2 text-sm font-medium text-expense">
+              <AlertTriangle className="w-4 h-4" />
+              {errors.length} linha(s) com erro
+            </p>
+            <div className="rounded-lg border border-border overflow-hidden">
+              <div className="max-h-[320px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead className="w-[120px]">Aba</TableHead>
+                      <TableHead className="w-[70px]">Linha</TableHead>
+                      <TableHead>Erro</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {errors.map((error, index) => (
+                      <TableRow key={`${error.sheet}-${error.row}-${index}`} className="hover:bg-muted/30">
+                        <TableCell className="whitespace-nowrap">{workbookSheetLabels[error.sheet]}</TableCell>
+                        <TableCell>{error.row}</TableCell>
+                        <TableCell className="text-xs sm:text-sm">{error.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Client } from "@/types/finance";
+import { getClientHistoryStart } from "@/lib/clientStats";
+
+type DeleteAction = 'reassign' | 'archive';
+
+interface DeleteClientDialogProps {
+  client: Client;
+}
+
+// Deleting a client that still has records requires moving them to another client first;
+// archiving keeps them as they are and only hides the client from the forms
+export function DeleteClientDialog({ client }: DeleteClientDialogProps) {
+  const {
+    incomes,
+    expenses,
+    investments,
+    recurringExpenses,
+    withdrawals,
+    fiscalSettings,
+    getSelectableClients,
+    isPeriodLoaded,
+    loadPeriod,
+    countClientRecords,
+    reassignClientRecords,
+    setClientArchived,
+    removeClient,
+  } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [action, setAction] = useState<DeleteAction>("reassign");
+  const [targetId, setTargetId] = useState("");
+  const [working, setWorking] = useState(false);
+  // Counted on the server: records imported or moved here may be older than the loaded history
+  const [serverCount, setServerCount] = useState<number | null>(null);
+
+  const historyStart = useMemo(() => {
+    return getClientHistoryStart(client, fiscalSettings?.openingDate);
+  }, [client, fiscalSettings?.openingDate]);
+  const historyLoaded = isPeriodLoaded(historyStart, new Date());
+
+  useEffect(() => {
+    if (open) loadPeriod(historyStart, new Date());
+  }, [open, historyStart, loadPeriod]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setServerCount(null);
+    countClientRecords(client.id).then(count => {
+      if (!cancelled) setServerCount(count);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, client.id, countClientRecords]);
+
+  const affected = useMemo(() => ({
+    incomes: incomes.filter(i => i.clientId === client.id),
+    expenses: expenses.filter(e => e.paymentSourceId === client.id || e.payments.some(p => p.sourceId === client.id)),
+    investments: investments.filter(i => i.paymentSourceId === client.id),
+    recurringExpenses: recurringExpenses.filter(t => t.paymentSourceId === client.id),
+    withdrawals: withdrawals.filter(w => w.sourceClientId === client.id),
+  }), [incomes, expenses, investments, recurringExpenses, withdrawals, client.id]);
+
+  const loadedCount = affected.incomes.length + affected.expenses.length +
+    affected.investments.length + affected.recurringExpenses.length + affected.withdrawals.length;
+  // Records created offline may not have reached the server yet
+  const affectedCount = Math.max(loadedCount, serverCount ?? 0);
+  const olderCount = affectedCount - loadedCount;
+  const checked = historyLoaded && serverCount !== null;
+  const otherClients = getSelectableClients().filter(c => c.id !== client.id);
+  // Without another client to receive the records, archiving is the only way out
+  const selectedAction: DeleteAction = otherClients.length === 0 ? 'archive' : action;
+  const archiving = affectedCount > 0 && selectedAction === 'archive';
+
+  const recentRecords = [
+    ...affected.incomes.map(i => ({ id: i.id, description: i.description, date: i.paymentDate, amount: i.amount, kind: 'Receita' })),
+    ...affected.expenses.map(e => ({ id: e.id, description: e.description, date: e.dueDate, amount: e.amount, kind: 'Despesa' })),
+    ...affected.investments.map(i => ({ id: i.id, description: i.description, date: i.date, amount: i.amount, kind: 'Investimento' })),
+    ...affected.withdrawals.map(w => ({ id: w.id, description: w.description || 'Saque', date: w.date, amount: w.amount, kind: 'Saque' })),
+  ]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 5);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const resetState = () => {
+    setAction("reassign");
+    setTargetId("");
+    setServerCount(null);
+  };
+
+  const handleConfirm = async () => {
+    setWorking(true);
+    if (archiving) {
+      await setClientArchived(client.id, true);
+    } else {
+      const reassigned = affectedCount === 0 || await reassignClientRecords(client.id, targetId);
+      if (reassigned) await removeClient(client.id);
+    }
+    setWorking(false);
+    setOpen(false);
+    resetState();
+  };
+
+  const canConfirm = checked && !working &&
+    (affectedCount === 0 || archiving || !!targetId);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen) resetState();
+    }}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="text-muted-foreground hover:text-destructive h-8 w-8"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Excluir {client.name}</DialogTitle>
+          <DialogDescription>
+            {!checked
+              ? 'Verificando os registros do cliente...'
+              : affectedCount === 0
+                ? 'Este cliente não tem registros e pode ser excluído.'
+                : 'Este cliente ainda tem registros. Transfira-os para outro cliente antes de excluir, ou arquive o cliente para manter o histórico.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {checked && affectedCount > 0 && (
+          <>
+            <div className="rounded-lg border border-border p-3 space-y-2 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <p className="text-muted-foreground">Receitas: <span className="text-foreground font-medium">{affected.incomes.length}</span></p>
+                <p className="text-muted-foreground">Despesas: <span className="text-foreground font-medium">{affected.expenses.length}</span></p>
+                <p className="text-muted-foreground">Investimentos: <span className="text-foreground font-medium">{affected.investments.length}</span></p>
+                <p className="text-muted-foreground">Despesas fixas: <span className="text-foreground font-medium">{affected.recurringExpenses.length}</span></p>
+              </div>
+              {olderCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  E mais {olderCount} {olderCount === 1 ? 'registro anterior' : 'registros anteriores'} ao cadastro do cliente.
+                </p>
+              )}
+              {recentRecords.length > 0 && (
+                <ul className="pt-2 border-t border-border space-y-1">
+                  {recentRecords.map(record => (
+                    <li key={record.id} className="flex justify-between gap-2 text-xs">
+                      <span className="truncate">
+                        {format(new Date(record.date), "dd/MM/yy", { locale: ptBR })} • {record.kind} • {record.description}
+                      </span>
+                      <span className="flex-shrink-0 font-medium">{formatCurrency(record.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <RadioGroup value={selectedAction} onValueChange={(v) => setAction(v as DeleteAction)} className="py-2">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="reassign" id="delete-reassign" disabled={otherClients.length === 0} />
+                <Label htmlFor="delete-reassign" className="font-normal cursor-pointer">
+                  Transferir os registros e excluir
+                </Label>
+              </div>
+              {selectedAction === 'reassign' && (
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger className="ml-6 w-[calc(100%-1.5rem)]">
+                    <SelectValue placeholder="Selecione o cliente" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherClients.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="archive" id="delete-archive" />
+                <Label htmlFor="delete-archive" className="font-normal cursor-pointer">
+                  Arquivar o cliente e manter os registros
+                </Label>
+              </div>
+            </RadioGroup>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            variant={archiving ? 'default' : 'destructive'}
+            disabled={!canConfirm}
+            onClick={handleConfirm}
+          >
+            {archiving ? 'Arquivar' : 'Excluir'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { StatusBadge } from "@/components/StatusBadge";
+import { Banknote, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { Expense } from "@/types/finance";
+import { getPaidAmount, getRemainingAmount, withExpensePayments } from "@/lib/expensePayments";
+
+interface ExpensePaymentsDialogProps {
+  expense: Expense;
+}
+
+// Payments made towards an expense, each one with its date and source client
+export function ExpensePaymentsDialog({ expense }: ExpensePaymentsDialogProps) {
+  const { updateExpense, getClientById, getSelectableClients } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState("");
+  const [amount, setAmount] = useState("");
+  const [sourceId, setSourceId] = useState("");
+
+  const paidAmount = getPaidAmount(expense);
+  const remainingAmount = getRemainingAmount(expense);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const resetForm = () => {
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setAmount(remainingAmount > 0 ? remainingAmount.toString() : "");
+    setSourceId(expense.paymentSourceId || "");
+  };
+
+  const handleAddPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !amount) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+    if (parsedAmount > remainingAmount + 0.005) {
+      toast.error(`O valor excede o saldo a pagar de ${formatCurrency(remainingAmount)}`);
+      return;
+    }
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+    const payment = {
+      date: new Date(year, month - 1, day, 12, 0, 0),
+      amount: parsedAmount,
+      sourceId: sourceId || undefined,
+    };
+
+    updateExpense(expense.id, withExpensePayments(expense, [...expense.payments, payment]));
+    setOpen(false);
+  };
+
+  const handleRemovePayment = (index: number) => {
+    updateExpense(expense.id, withExpensePayments(expense, expense.payments.filter((_, i) => i !== index)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-success">
+          <Banknote className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pagamentos de {expense.description}</DialogTitle>
+          <DialogDescription>
+            Vencimento em {format(new Date(expense.dueDate), "dd/MM/yyyy", { locale: ptBR })}
+            {expense.installmentCount && ` • parcela ${expense.installmentNumber}/${expense.installmentCount}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border border-border p-3 space-y-1.5 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Valor:</span>
+            <span className="font-medium">{formatCurrency(expense.amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Pago:</span>
+            <span className="font-medium text-success">{formatCurrency(paidAmount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">A pagar:</span>
+            <span className="font-medium text-warning">{formatCurrency(remainingAmount)}</span>
+          </div>
+          <div className="flex justify-between items-center pt-1.5 border-t border-border">
+            <span className="text-muted-foreground">Status:</span>
+            <StatusBadge status={expense.status} />
+          </div>
+        </div>
+
+        {expense.payments.length > 0 && (
+          <ul className="space-y-1">
+            {expense.payments.map((payment, index) => (
+              <li key={index} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {format(new Date(payment.date), "dd/MM/yyyy", { locale: ptBR })}
+                  {payment.sourceId && ` • ${getClientById(payment.sourceId)?.name || 'N/A'}`}
+                </span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span className="font-medium text-success">{formatCurrency(payment.amount)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemovePayment(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {remainingAmount > 0 && (
+          <form onSubmit={handleAddPayment} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="expensePaymentDate">Data</Label>
+                <Input
+                  id="expensePaymentDate"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="expensePaymentAmount">Valor (R$)</Label>
+                <Input
+                  id="expensePaymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Fonte de Pagamento (Cliente)</Label>
+              <Select value={sourceId || "none"} onValueChange={(v) => setSourceId(v === "none" ? "" : v)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Fonte" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Sem fonte</SelectItem>
+                  {getSelectableClients(sourceId).map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full">Registrar pagamento</Button>
+          </form>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Fechar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
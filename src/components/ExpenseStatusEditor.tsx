@@ -10,7 +10,7 @@ interface ExpenseStatusEditorProps {
 }
 
 export function ExpenseStatusEditor({ expenseId, currentStatus, currentSourceId }: ExpenseStatusEditorProps) {
-  const { updateExpenseStatus, clients } = useFinance();
+  const { updateExpenseStatus, getSelectableClients } = useFinance();
 
   const handleStatusChange = (newStatus: PaymentStatus) => {
     updateExpenseStatus(expenseId, newStatus, currentSourceId);
@@ -46,7 +46,7 @@ export function ExpenseStatusEditor({ expenseId, currentStatus, currentSourceId
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="none">Sem fonte</SelectItem>
-            {clients.map((client) => (
+            {getSelectableClients(currentSourceId).map((client) => (
               <SelectItem key={client.id} value={client.id}>
                 {client.name}
               </SelectItem>
@@ -1,13 +1,18 @@
+import { useState } from "react";
 import { useFinance } from "@/contexts/FinanceContext";
 import { Expense } from "@/types/finance";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { ExpenseStatusEditor } from "./ExpenseStatusEditor";
 import { ExpenseForm } from "./forms/ExpenseForm";
-import { Trash2, Repeat, Calendar, Tag } from "lucide-react";
+import { ExpensePaymentsDialog } from "./ExpensePaymentsDialog";
+import { RecurrenceScopeDialog } from "./RecurrenceScopeDialog";
+import { Trash2, Repeat, Calendar, Tag, AlertTriangle, CreditCard } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Card, CardContent } from "@/components/ui/card";
+import { calculateDASCharges, isDASOverdue } from "@/lib/das";
+import { getPaidAmount, isPartiallyPaid } from "@/lib/expensePayments";
 
 interface ExpenseTableProps {
   expenses: Expense[];
@@ -15,7 +20,16 @@ interface ExpenseTableProps {
 }
 
 export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps) {
-  const { removeExpense, getClientById } = useFinance();
+  const { removeExpense, removeRecurringExpense, getClientById } = useFinance();
+  const [pendingRemoval, setPendingRemoval] = useState<Expense | null>(null);
+
+  const handleRemove = (expense: Expense) => {
+    if (expense.recurringExpenseId) {
+      setPendingRemoval(expense);
+    } else {
+      removeExpense(expense.id);
+    }
+  };
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -24,6 +38,37 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
     }).format(value);
   };
 
+  // Overdue DAS guides show the estimated multa and juros
+  const renderDASCharges = (expense: Expense) => {
+    if (!expense.dasCompetence || !isDASOverdue(expense)) return null;
+    const charges = calculateDASCharges(expense.amount, new Date(expense.dueDate));
+    return (
+      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-expense-light text-expense text-xs flex-shrink-0">
+        <AlertTriangle className="w-3 h-3" />
+        Vencido · +{formatCurrency(charges.fine + charges.interest)}
+      </span>
+    );
+  };
+
+  const renderInstallment = (expense: Expense) => {
+    if (!expense.installmentCount) return null;
+    return (
+      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-primary/10 text-primary text-xs flex-shrink-0">
+        <CreditCard className="w-3 h-3" />
+        {expense.installmentNumber}/{expense.installmentCount}
+      </span>
+    );
+  };
+
+  const renderPartialPayment = (expense: Expense) => {
+    if (!isPartiallyPaid(expense)) return null;
+    return (
+      <p className="text-xs font-normal text-muted-foreground">
+        Pago {formatCurrency(getPaidAmount(expense))}
+      </p>
+    );
+  };
+
   if (expenses.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -48,12 +93,16 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                         <Repeat className="w-3 h-3" />
                       </span>
                     )}
+                    {renderInstallment(expense)}
                   </div>
+                  {renderDASCharges(expense)}
                   <p className="text-lg font-display font-bold text-expense">
                     {formatCurrency(expense.amount)}
                   </p>
+                  {renderPartialPayment(expense)}
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
+                  <ExpensePaymentsDialog expense={expense} />
                   <ExpenseForm 
                     type={expense.type} 
                     expense={expense} 
@@ -63,7 +112,7 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                     variant="ghost"
                     size="icon"
                     className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                    onClick={() => removeExpense(expense.id)}
+                    onClick={() => handleRemove(expense)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -110,7 +159,7 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                 <TableHead>Vencimento</TableHead>
                 <TableHead className="text-right">Valor</TableHead>
                 <TableHead>Status / Fonte</TableHead>
-                <TableHead className="w-[100px]"></TableHead>
+                <TableHead className="w-[130px]"></TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -125,6 +174,8 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                           Fixa
                         </span>
                       )}
+                      {renderInstallment(expense)}
+                      {renderDASCharges(expense)}
                     </div>
                   </TableCell>
                   <TableCell>
@@ -146,6 +197,7 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                   </TableCell>
                   <TableCell className="text-right font-medium text-expense">
                     {formatCurrency(expense.amount)}
+                    {renderPartialPayment(expense)}
                   </TableCell>
                   <TableCell>
                     <ExpenseStatusEditor 
@@ -156,6 +208,7 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
+                      <ExpensePaymentsDialog expense={expense} />
                       <ExpenseForm 
                         type={expense.type} 
                         expense={expense} 
@@ -165,7 +218,7 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
                         variant="ghost"
                         size="icon"
                         className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                        onClick={() => removeExpense(expense.id)}
+                        onClick={() => handleRemove(expense)}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -177,6 +230,13 @@ export function ExpenseTable({ expenses, showType = false }: ExpenseTableProps)
           </Table>
         </div>
       </div>
+
+      <RecurrenceScopeDialog
+        open={pendingRemoval !== null}
+        onOpenChange={(isOpen) => !isOpen && setPendingRemoval(null)}
+        action="remove"
+        onConfirm={(scope) => pendingRemoval && removeRecurringExpense(pendingRemoval, scope)}
+      />
     </>
   );
 }
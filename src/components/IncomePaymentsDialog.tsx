@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ReceivableStatusBadge } from "@/components/StatusBadge";
+import { Ban, HandCoins, RotateCcw, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { Income } from "@/types/finance";
+import {
+  getIncomePaymentDate,
+  getOpenAmount,
+  getReceivableStatus,
+  getReceivedAmount,
+  withPayments,
+} from "@/lib/receivables";
+
+interface IncomePaymentsDialogProps {
+  income: Income;
+}
+
+// Payments received for an invoice, plus cancelling it
+export function IncomePaymentsDialog({ income }: IncomePaymentsDialogProps) {
+  const { updateIncome } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const openAmount = getOpenAmount(income);
+  const receivedAmount = getReceivedAmount(income);
+  const status = getReceivableStatus(income);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const resetForm = () => {
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setAmount(openAmount > 0 ? openAmount.toString() : "");
+  };
+
+  const handleAddPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !amount) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+    if (parsedAmount > openAmount + 0.005) {
+      toast.error(`O valor excede o saldo em aberto de ${formatCurrency(openAmount)}`);
+      return;
+    }
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+    const payment = { date: new Date(year, month - 1, day, 12, 0, 0), amount: parsedAmount };
+
+    updateIncome(income.id, withPayments(income, [...income.payments, payment]));
+    setOpen(false);
+  };
+
+  const handleRemovePayment = (index: number) => {
+    updateIncome(income.id, withPayments(income, income.payments.filter((_, i) => i !== index)));
+  };
+
+  const handleToggleCancelled = () => {
+    const cancelled = !income.cancelled;
+    updateIncome(income.id, { cancelled, paymentDate: getIncomePaymentDate({ ...income, cancelled }) });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-income">
+          <HandCoins className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Recebimentos de {income.description}</DialogTitle>
+          <DialogDescription>
+            Vencimento em {format(new Date(income.dueDate), "dd/MM/yyyy", { locale: ptBR })}
+            {income.issueDate && ` • emitida em ${format(new Date(income.issueDate), "dd/MM/yyyy", { locale: ptBR })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border border-border p-3 space-y-1.5 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Valor:</span>
+            <span className="font-medium">{formatCurrency(income.amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Recebido:</span>
+            <span className="font-medium text-income">{formatCurrency(receivedAmount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Em aberto:</span>
+            <span className="font-medium text-warning">{formatCurrency(openAmount)}</span>
+          </div>
+          <div className="flex justify-between items-center pt-1.5 border-t border-border">
+            <span className="text-muted-foreground">Situação:</span>
+            <ReceivableStatusBadge status={status} />
+          </div>
+        </div>
+
+        {income.payments.length > 0 && (
+          <ul className="space-y-1">
+            {income.payments.map((payment, index) => (
+              <li key={index} className="flex items-center justify-between gap-2 text-sm">
+                <span>{format(new Date(payment.date), "dd/MM/yyyy", { locale: ptBR })}</span>
+                <div className="flex items-center gap-1">
+                  <span className="font-medium text-income">{formatCurrency(payment.amount)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleRemovePayment(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!income.cancelled && openAmount > 0 && (
+          <form onSubmit={handleAddPayment} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="paymentDate">Data</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentAmount">Valor (R$)</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full">Registrar recebimento</Button>
+          </form>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button type="button" variant="ghost" className="gap-2 text-muted-foreground" onClick={handleToggleCancelled}>
+            {income.cancelled ? <RotateCcw className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+            {income.cancelled ? 'Reabrir cobrança' : 'Cancelar cobrança'}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Fechar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { History } from "lucide-react";
+import { Expense } from "@/types/finance";
+import { canConvertLegacyWithdrawal } from "@/lib/withdrawals";
+
+// "Saque" expenses recorded before withdrawals had their own records are only converted once the
+// user confirms; the open ones are listed so they can be paid or removed first
+export function LegacyWithdrawals() {
+  const { findLegacyWithdrawals, convertLegacyWithdrawals } = useFinance();
+  const [legacy, setLegacy] = useState<Expense[]>([]);
+  const [converting, setConverting] = useState(false);
+
+  const loadLegacy = useCallback(async () => {
+    setLegacy(await findLegacyWithdrawals());
+  }, [findLegacyWithdrawals]);
+
+  useEffect(() => {
+    loadLegacy();
+  }, [loadLegacy]);
+
+  const convertible = legacy.filter(canConvertLegacyWithdrawal);
+  const open = legacy.length - convertible.length;
+
+  const handleConvert = async () => {
+    setConverting(true);
+    await convertLegacyWithdrawals(convertible);
+    await loadLegacy();
+    setConverting(false);
+  };
+
+  if (legacy.length === 0) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 mb-4 rounded-lg border border-border bg-muted/30">
+      <div className="flex items-start gap-2 min-w-0">
+        <History className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+        <div className="text-xs sm:text-sm">
+          <p className="font-medium text-foreground">
+            {legacy.length} despesa(s) da categoria "Saque" de antes dos saques terem registro próprio
+          </p>
+          {open > 0 && (
+            <p className="text-muted-foreground">
+              {open} ainda em aberto continua(m) como despesa até ser(em) paga(s) ou removida(s)
+            </p>
+          )}
+        </div>
+      </div>
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" size="sm" disabled={converting || convertible.length === 0}>
+            {converting ? 'Convertendo...' : `Converter ${convertible.length} em saques`}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Converter despesas em saques</AlertDialogTitle>
+            <AlertDialogDescription>
+              As {convertible.length} despesa(s) "Saque" pagas serão excluídas e cada pagamento vira um saque na
+              data em que foi pago. Despesas em aberto não são alteradas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConvert}>Converter</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -21,14 +21,16 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-
-const MEI_LIMITS = {
-  annual: 81000,
-  alert70: 56700,
-  alert90: 72900,
-  tolerance: 97200,
-  monthlyAverage: 6750
-};
+import {
+  DEFAULT_LIMIT_SETTINGS,
+  MEI_TOLERANCE,
+  getAnnualLimit,
+  getFiscalYear,
+  getMonthlyLimit,
+  getMonthsActive,
+  getMonthsElapsed,
+} from "@/lib/meiLimit";
+import { DEFAULT_ACCOUNTING_BASIS, getIncomeInPeriod } from "@/lib/dre";
 
 const PROBLEMATIC_CATEGORIES = [
   "Importação",
@@ -36,54 +38,70 @@ const PROBLEMATIC_CATEGORIES = [
   "Serviços financeiros"
 ];
 
-const CURRENT_YEAR = 2026;
-const STORAGE_KEY = `mei_alerts_shown_${CURRENT_YEAR}`;
+const CRITICAL_PERCENTAGE = 100 + MEI_TOLERANCE * 100;
+
+const getStorageKey = (year: number) => `mei_alerts_shown_${year}`;
 
 interface AlertsShown {
-  alert70: boolean;
-  alert90: boolean;
-  alert100: boolean;
-  alert120: boolean;
+  attention: boolean;
+  urgent: boolean;
+  exceeded: boolean;
+  critical: boolean;
 }
 
-const getAlertsShown = (): AlertsShown => {
+const getAlertsShown = (year: number): AlertsShown => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(getStorageKey(year));
     if (stored) {
       return JSON.parse(stored);
     }
   } catch (e) {
     console.error("Error reading alerts from localStorage", e);
   }
-  return { alert70: false, alert90: false, alert100: false, alert120: false };
+  return { attention: false, urgent: false, exceeded: false, critical: false };
 };
 
-const setAlertShown = (alertKey: keyof AlertsShown) => {
-  const current = getAlertsShown();
+const setAlertShown = (year: number, alertKey: keyof AlertsShown) => {
+  const current = getAlertsShown(year);
   current[alertKey] = true;
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  localStorage.setItem(getStorageKey(year), JSON.stringify(current));
 };
 
 export function MEILimitAlert() {
-  const { incomes } = useFinance();
-  const [alertsShown, setAlertsShown] = useState<AlertsShown>(getAlertsShown);
+  const { incomes, fiscalSettings } = useFinance();
+  const settings = fiscalSettings ?? DEFAULT_LIMIT_SETTINGS;
+  const { attentionThreshold, urgentThreshold } = settings;
+  const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+  const year = getFiscalYear();
+  const [alertsShown, setAlertsShown] = useState<AlertsShown>(() => getAlertsShown(year));
+
+  // In the opening year the limit, its alerts and the 20% tolerance are all proportional
+  const limits = useMemo(() => {
+    const annual = getAnnualLimit(settings, year);
+    return {
+      annual,
+      monthsActive: getMonthsActive(settings, year),
+      attention: annual * attentionThreshold / 100,
+      urgent: annual * urgentThreshold / 100,
+      tolerance: annual * (1 + MEI_TOLERANCE),
+    };
+  }, [settings, year, attentionThreshold, urgentThreshold]);
 
   // Calculate accumulated revenue for the current year
   const yearlyData = useMemo(() => {
     const today = new Date();
-    const startOfYear = new Date(CURRENT_YEAR, 0, 1);
-    
-    // Filter incomes from Jan 1 to today
-    const yearIncomes = incomes.filter(income => {
-      const incomeDate = new Date(income.paymentDate);
-      return incomeDate >= startOfYear && incomeDate <= today;
-    });
+    const startOfYear = new Date(year, 0, 1);
+
+    // Revenue from Jan 1 to today under the regime the business follows: what was received
+    // under the cash basis, what was invoiced under the accrual basis
+    const yearIncomes = incomes.filter(income => getIncomeInPeriod(income, basis, startOfYear, today) > 0);
 
-    const accumulated = yearIncomes.reduce((sum, income) => sum + income.amount, 0);
-    const currentMonth = today.getMonth() + 1; // 1-12
-    const projection = currentMonth > 0 ? (accumulated / currentMonth) * 12 : 0;
-    const percentage = (accumulated / MEI_LIMITS.annual) * 100;
-    const projectionPercentage = (projection / MEI_LIMITS.annual) * 100;
+    const accumulated = yearIncomes.reduce((sum, income) => sum + getIncomeInPeriod(income, basis, startOfYear, today), 0);
+    // Average over the months the business has been open, projected over the months active in the year
+    const monthsElapsed = getMonthsElapsed(settings, today);
+    const projection = monthsElapsed > 0 ? (accumulated / monthsElapsed) * limits.monthsActive : 0;
+    const percentage = limits.annual > 0 ? (accumulated / limits.annual) * 100 : 0;
+    const projectionPercentage = limits.annual > 0 ? (projection / limits.annual) * 100 : 0;
 
     // Check for problematic categories
     const problematicIncomes = yearIncomes.filter(income => 
@@ -96,17 +114,17 @@ export function MEILimitAlert() {
       projection,
       percentage,
       projectionPercentage,
-      currentMonth,
+      monthsElapsed,
       problematicCategories,
       yearIncomes
     };
-  }, [incomes]);
+  }, [incomes, year, limits, settings, basis]);
 
   const { accumulated, projection, percentage, projectionPercentage, problematicCategories } = yearlyData;
 
   // Determine zone and colors
   const getZoneInfo = () => {
-    if (percentage >= 120) {
+    if (percentage >= CRITICAL_PERCENTAGE) {
       return {
         zone: 'critical',
         color: 'bg-red-800',
@@ -121,25 +139,25 @@ export function MEILimitAlert() {
         color: 'bg-red-500',
         borderColor: 'border-red-500',
         textColor: 'text-red-500',
-        status: '❌ Limite ultrapassado! Você tem até R$ 97.200 antes de penalidades',
+        status: `❌ Limite ultrapassado! Você tem até ${formatCurrency(limits.tolerance)} antes de penalidades`,
         icon: XCircle
       };
-    } else if (percentage >= 90) {
+    } else if (percentage >= urgentThreshold) {
       return {
         zone: 'urgent',
         color: 'bg-orange-500',
         borderColor: 'border-orange-500',
         textColor: 'text-orange-500',
-        status: '🚨 Urgente: você já utilizou 90% do limite anual',
+        status: `🚨 Urgente: você já utilizou ${urgentThreshold}% do limite anual`,
         icon: AlertCircle
       };
-    } else if (percentage >= 70) {
+    } else if (percentage >= attentionThreshold) {
       return {
         zone: 'attention',
         color: 'bg-yellow-500',
         borderColor: 'border-yellow-500',
         textColor: 'text-yellow-500',
-        status: '⚠️ Atenção: você já utilizou 70% do limite anual',
+        status: `⚠️ Atenção: você já utilizou ${attentionThreshold}% do limite anual`,
         icon: AlertTriangle
       };
     } else {
@@ -154,36 +172,36 @@ export function MEILimitAlert() {
     }
   };
 
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { 
+      style: 'currency', 
+      currency: 'BRL' 
+    }).format(value);
+  };
+
   const zoneInfo = getZoneInfo();
 
   // Calculate remaining amount to next threshold
   const getRemainingInfo = () => {
-    if (percentage < 70) {
-      const remaining = MEI_LIMITS.alert70 - accumulated;
-      return `Faltam ${formatCurrency(remaining)} para a zona de atenção (70%)`;
-    } else if (percentage < 90) {
-      const remaining = MEI_LIMITS.alert90 - accumulated;
-      return `Faltam ${formatCurrency(remaining)} para a zona urgente (90%)`;
+    if (percentage < attentionThreshold) {
+      const remaining = limits.attention - accumulated;
+      return `Faltam ${formatCurrency(remaining)} para a zona de atenção (${attentionThreshold}%)`;
+    } else if (percentage < urgentThreshold) {
+      const remaining = limits.urgent - accumulated;
+      return `Faltam ${formatCurrency(remaining)} para a zona urgente (${urgentThreshold}%)`;
     } else if (percentage < 100) {
-      const remaining = MEI_LIMITS.annual - accumulated;
+      const remaining = limits.annual - accumulated;
       return `Faltam ${formatCurrency(remaining)} para o limite MEI (100%)`;
-    } else if (percentage < 120) {
-      const remaining = MEI_LIMITS.tolerance - accumulated;
-      return `Faltam ${formatCurrency(remaining)} para a margem de tolerância (120%)`;
+    } else if (percentage < CRITICAL_PERCENTAGE) {
+      const remaining = limits.tolerance - accumulated;
+      return `Faltam ${formatCurrency(remaining)} para a margem de tolerância (${CRITICAL_PERCENTAGE}%)`;
     }
     return null;
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', { 
-      style: 'currency', 
-      currency: 'BRL' 
-    }).format(value);
-  };
-
   // Get projection alert message
   const getProjectionAlert = () => {
-    if (projectionPercentage > 120) {
+    if (projectionPercentage > CRITICAL_PERCENTAGE) {
       return {
         message: '🚨 Sua projeção indica que você ultrapassará até a margem de tolerância!',
         type: 'critical'
@@ -216,60 +234,60 @@ export function MEILimitAlert() {
         } else {
           toast.info(message, { icon, duration: 5000 });
         }
-        setAlertShown(alertKey);
+        setAlertShown(year, alertKey);
         setAlertsShown(prev => ({ ...prev, [alertKey]: true }));
       }
     };
 
     // Check thresholds in order (from lowest to highest)
-    if (percentage >= 120) {
-      showToastIfNeeded(120, 'alert120', 
+    if (percentage >= CRITICAL_PERCENTAGE) {
+      showToastIfNeeded(CRITICAL_PERCENTAGE, 'critical', 
         'CRÍTICO: Margem de tolerância ultrapassada! Entre em contato com contador',
         <Ban className="w-4 h-4" />,
         'error'
       );
     } else if (percentage >= 100) {
-      showToastIfNeeded(100, 'alert100',
-        'Limite MEI ultrapassado! Você tem até R$ 97.200 antes de penalidades',
+      showToastIfNeeded(100, 'exceeded',
+        `Limite MEI ultrapassado! Você tem até ${formatCurrency(limits.tolerance)} antes de penalidades`,
         <XCircle className="w-4 h-4" />,
         'error'
       );
-    } else if (percentage >= 90) {
-      showToastIfNeeded(90, 'alert90',
-        'Urgente: Você atingiu 90% do limite MEI anual',
+    } else if (percentage >= urgentThreshold) {
+      showToastIfNeeded(urgentThreshold, 'urgent',
+        `Urgente: Você atingiu ${urgentThreshold}% do limite MEI anual`,
         <AlertCircle className="w-4 h-4" />,
         'warning'
       );
-    } else if (percentage >= 70) {
-      showToastIfNeeded(70, 'alert70',
-        'Atenção: Você atingiu 70% do limite MEI anual',
+    } else if (percentage >= attentionThreshold) {
+      showToastIfNeeded(attentionThreshold, 'attention',
+        `Atenção: Você atingiu ${attentionThreshold}% do limite MEI anual`,
         <AlertTriangle className="w-4 h-4" />,
         'warning'
       );
     }
-  }, [percentage, alertsShown]);
+  }, [percentage, alertsShown, year, limits, attentionThreshold, urgentThreshold]);
 
   // Progress bar color based on percentage
   const getProgressColor = () => {
-    if (percentage >= 120) return '#dc2626'; // red-600
+    if (percentage >= CRITICAL_PERCENTAGE) return '#dc2626'; // red-600
     if (percentage >= 100) return '#ef4444'; // red-500
-    if (percentage >= 90) return '#f97316';  // orange-500
-    if (percentage >= 70) return '#eab308';  // yellow-500
+    if (percentage >= urgentThreshold) return '#f97316';  // orange-500
+    if (percentage >= attentionThreshold) return '#eab308';  // yellow-500
     return '#22c55e'; // green-500
   };
 
-  const progressValue = Math.min(percentage, 120);
+  const progressValue = Math.min(percentage, CRITICAL_PERCENTAGE);
 
   return (
     <Card className={`col-span-full transition-all duration-300 ${
-      percentage >= 70 
+      percentage >= attentionThreshold 
         ? `border-2 ${zoneInfo.borderColor} shadow-lg` 
         : 'border'
     }`}>
       <CardHeader className="pb-2 p-4 sm:p-6 sm:pb-2">
         <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
           <Target className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
-          🎯 Limite MEI {CURRENT_YEAR}
+          🎯 Limite MEI {year}
         </CardTitle>
       </CardHeader>
       <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
@@ -280,8 +298,13 @@ export function MEILimitAlert() {
               <span className="font-semibold text-foreground">
                 {formatCurrency(accumulated)}
               </span>
-              {' '}de {formatCurrency(MEI_LIMITS.annual)} ({percentage.toFixed(1)}%)
+              {' '}de {formatCurrency(limits.annual)} ({percentage.toFixed(1)}%)
             </p>
+            {limits.monthsActive < 12 && (
+              <p className="text-xs text-muted-foreground">
+                Limite proporcional: {limits.monthsActive} {limits.monthsActive === 1 ? 'mês' : 'meses'} × {formatCurrency(getMonthlyLimit(settings))}
+              </p>
+            )}
           </div>
 
           {/* Progress Bar */}
@@ -295,8 +318,8 @@ export function MEILimitAlert() {
             />
             {/* Zone markers */}
             <div className="absolute top-0 left-0 w-full h-full pointer-events-none">
-              <div className="absolute top-0 h-full border-l-2 border-yellow-500/50" style={{ left: '70%' }} />
-              <div className="absolute top-0 h-full border-l-2 border-orange-500/50" style={{ left: '90%' }} />
+              <div className="absolute top-0 h-full border-l-2 border-yellow-500/50" style={{ left: `${attentionThreshold}%` }} />
+              <div className="absolute top-0 h-full border-l-2 border-orange-500/50" style={{ left: `${urgentThreshold}%` }} />
               <div className="absolute top-0 h-full border-l-2 border-red-500/50" style={{ left: '100%' }} />
             </div>
           </div>
@@ -304,10 +327,10 @@ export function MEILimitAlert() {
           {/* Zone labels for desktop */}
           <div className="hidden sm:flex justify-between text-[10px] text-muted-foreground px-1">
             <span>0%</span>
-            <span className="text-yellow-600">70%</span>
-            <span className="text-orange-600">90%</span>
+            <span className="text-yellow-600">{attentionThreshold}%</span>
+            <span className="text-orange-600">{urgentThreshold}%</span>
             <span className="text-red-600">100%</span>
-            <span className="text-red-800">120%</span>
+            <span className="text-red-800">{CRITICAL_PERCENTAGE}%</span>
           </div>
         </div>
 
@@ -327,7 +350,7 @@ export function MEILimitAlert() {
         <div className="bg-muted/50 rounded-lg p-3 sm:p-4 space-y-2">
           <div className="flex items-center gap-2 text-sm sm:text-base font-medium">
             <TrendingUp className="w-4 h-4 text-primary" />
-            📊 Projeção para {CURRENT_YEAR}
+            📊 Projeção para {year}
           </div>
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
             <p className="text-lg sm:text-xl font-bold text-foreground">
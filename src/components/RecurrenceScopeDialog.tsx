@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { RecurrenceEditScope } from "@/types/finance";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+const scopeLabels: Record<RecurrenceEditScope, string> = {
+  this: "Apenas esta ocorrência",
+  following: "Esta e as seguintes",
+  all: "Todas as ocorrências",
+};
+
+interface RecurrenceScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: 'edit' | 'remove';
+  onConfirm: (scope: RecurrenceEditScope) => void;
+}
+
+export function RecurrenceScopeDialog({ open, onOpenChange, action, onConfirm }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceEditScope>("this");
+
+  const handleConfirm = () => {
+    onConfirm(scope);
+    onOpenChange(false);
+    setScope("this");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action === 'edit' ? 'Editar despesa fixa' : 'Remover despesa fixa'}</DialogTitle>
+          <DialogDescription>
+            Esta despesa faz parte de uma recorrência. Escolha quais ocorrências devem ser
+            {action === 'edit' ? ' alteradas' : ' removidas'}. Ocorrências já pagas são mantidas no histórico.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={scope} onValueChange={(v) => setScope(v as RecurrenceEditScope)} className="py-2">
+          {(Object.keys(scopeLabels) as RecurrenceEditScope[]).map((value) => (
+            <div key={value} className="flex items-center space-x-2">
+              <RadioGroupItem value={value} id={`scope-${value}`} />
+              <Label htmlFor={`scope-${value}`} className="font-normal cursor-pointer">
+                {scopeLabels[value]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            type="button"
+            variant={action === 'remove' ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+          >
+            {action === 'edit' ? 'Salvar' : 'Remover'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import { useFinance } from "@/contexts/FinanceContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users } from "lucide-react";
+import { getReceivedAmount } from "@/lib/receivables";
 
 export function SourceConsolidation() {
   const { clients, filteredExpenses, filteredIncomes } = useFinance();
@@ -28,7 +29,7 @@ export function SourceConsolidation() {
   const sourceData = clients.map(client => {
     const totalIncome = filteredIncomes
       .filter(i => i.clientId === client.id)
-      .reduce((sum, i) => sum + i.amount, 0);
+      .reduce((sum, i) => sum + getReceivedAmount(i), 0);
 
     const totalAllocated = filteredExpenses
       .filter(e => e.paymentSourceId === client.id)
@@ -1,6 +1,7 @@
 import { cn } from "@/lib/utils";
 import { PaymentStatus } from "@/types/finance";
-import { Check, Clock, PiggyBank } from "lucide-react";
+import { AlertTriangle, Ban, Check, CircleDashed, Clock, PiggyBank } from "lucide-react";
+import { ReceivableStatus, receivableStatusLabels } from "@/lib/receivables";
 
 interface StatusBadgeProps {
   status: PaymentStatus;
@@ -36,3 +37,43 @@ export function StatusBadge({ status, className }: StatusBadgeProps) {
     </span>
   );
 }
+
+interface ReceivableStatusBadgeProps {
+  status: ReceivableStatus;
+  className?: string;
+}
+
+const receivableStatusConfig = {
+  open: {
+    className: 'status-badge bg-muted text-muted-foreground',
+    icon: Clock,
+  },
+  partial: {
+    className: 'status-badge bg-warning-light text-warning',
+    icon: CircleDashed,
+  },
+  paid: {
+    className: 'status-paid',
+    icon: Check,
+  },
+  overdue: {
+    className: 'status-unpaid',
+    icon: AlertTriangle,
+  },
+  cancelled: {
+    className: 'status-badge bg-muted text-muted-foreground line-through',
+    icon: Ban,
+  },
+};
+
+export function ReceivableStatusBadge({ status, className }: ReceivableStatusBadgeProps) {
+  const config = receivableStatusConfig[status];
+  const Icon = config.icon;
+
+  return (
+    <span className={cn(config.className, "gap-1", className)}>
+      <Icon className="w-3 h-3" />
+      {receivableStatusLabels[status]}
+    </span>
+  );
+}
@@ -0,0 +1,35 @@
+import { useFinance } from "@/contexts/FinanceContext";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export function SyncStatus() {
+  const { isOnline, pendingChanges, syncing, syncChanges } = useFinance();
+
+  if (isOnline && pendingChanges === 0) return null;
+
+  const pendingLabel = pendingChanges === 1 ? "1 alteração pendente" : `${pendingChanges} alterações pendentes`;
+
+  if (!isOnline) {
+    return (
+      <div className="flex items-center gap-2 mb-3 text-xs text-warning">
+        <CloudOff className="w-4 h-4 flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="font-medium">Modo offline</p>
+          {pendingChanges > 0 && <p className="text-sidebar-muted truncate">{pendingLabel}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => syncChanges()}
+      disabled={syncing}
+      className="flex items-center gap-2 mb-3 text-xs text-sidebar-foreground hover:text-sidebar-primary transition-colors disabled:opacity-70"
+      title="Sincronizar agora"
+    >
+      <RefreshCw className={cn("w-4 h-4 flex-shrink-0", syncing && "animate-spin")} />
+      <span className="truncate">{syncing ? "Sincronizando..." : pendingLabel}</span>
+    </button>
+  );
+}
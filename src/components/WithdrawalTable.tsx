@@ -0,0 +1,148 @@
+import { useFinance } from "@/contexts/FinanceContext";
+import { Withdrawal } from "@/types/finance";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { WithdrawalForm } from "./forms/WithdrawalForm";
+import { Trash2, Calendar, Landmark } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { getDefaultAccount } from "@/lib/accounts";
+
+interface WithdrawalTableProps {
+  withdrawals: Withdrawal[];
+}
+
+export function WithdrawalTable({ withdrawals }: WithdrawalTableProps) {
+  const { accounts, removeWithdrawal, getClientById } = useFinance();
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const getAccountName = (withdrawal: Withdrawal) => {
+    const account = accounts.find(a => a.id === withdrawal.accountId) ?? getDefaultAccount(accounts, 'personal');
+    return account?.name;
+  };
+
+  if (withdrawals.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        Nenhum saque neste mês
+      </div>
+    );
+  }
+
+  const sorted = [...withdrawals].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return (
+    <>
+      {/* Mobile Cards View */}
+      <div className="space-y-3 md:hidden">
+        {sorted.map((withdrawal) => {
+          const client = withdrawal.sourceClientId ? getClientById(withdrawal.sourceClientId) : undefined;
+          const accountName = getAccountName(withdrawal);
+          return (
+            <div key={withdrawal.id} className="p-3 rounded-lg border border-border bg-muted/30">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium text-sm text-foreground truncate">{withdrawal.description || 'Saque'}</h3>
+                  <p className="text-lg font-display font-bold text-primary">
+                    {formatCurrency(withdrawal.amount)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <WithdrawalForm withdrawal={withdrawal} editMode={true} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeWithdrawal(withdrawal.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {client && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-income-light text-income text-xs font-medium">
+                    {client.name}
+                  </span>
+                )}
+                {accountName && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-muted text-xs">
+                    <Landmark className="w-3 h-3" />
+                    {accountName}
+                  </span>
+                )}
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                  <Calendar className="w-3 h-3" />
+                  {format(new Date(withdrawal.date), "dd/MM", { locale: ptBR })}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Desktop Table View */}
+      <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Data</TableHead>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Origem</TableHead>
+                <TableHead>Destino</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead className="w-[90px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.map((withdrawal) => {
+                const client = withdrawal.sourceClientId ? getClientById(withdrawal.sourceClientId) : undefined;
+                return (
+                  <TableRow key={withdrawal.id} className="hover:bg-muted/30">
+                    <TableCell>
+                      {format(new Date(withdrawal.date), "dd/MM/yyyy", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="font-medium">{withdrawal.description || 'Saque'}</TableCell>
+                    <TableCell>
+                      {client ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-md bg-income-light text-income text-xs font-medium">
+                          {client.name}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{getAccountName(withdrawal) ?? '-'}</TableCell>
+                    <TableCell className="text-right font-medium text-primary">
+                      {formatCurrency(withdrawal.amount)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <WithdrawalForm withdrawal={withdrawal} editMode={true} />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => removeWithdrawal(withdrawal.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  );
+}
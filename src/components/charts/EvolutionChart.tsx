@@ -9,12 +9,11 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
-  ReferenceLine,
 } from "recharts";
-import { format, subMonths, startOfMonth, endOfMonth, isWithinInterval } from "date-fns";
+import { format, subMonths } from "date-fns";
 import { ptBR } from "date-fns/locale";
-
-const MEI_MONTHLY_LIMIT = 6750;
+import { DEFAULT_LIMIT_SETTINGS, getMonthlyLimit, isBeforeOpening } from "@/lib/meiLimit";
+import { DEFAULT_ACCOUNTING_BASIS, getExpenseInMonth, getIncomeInMonth } from "@/lib/dre";
 
 interface ChartData {
   month: string;
@@ -22,29 +21,25 @@ interface ChartData {
   receitas: number;
   despesas: number;
   saldo: number;
+  limite: number | null; // No limit before the business opened
 }
 
 export function EvolutionChart() {
-  const { incomes, expenses } = useFinance();
+  const { incomes, expenses, fiscalSettings } = useFinance();
 
   const chartData = useMemo((): ChartData[] => {
     const data: ChartData[] = [];
     const today = new Date();
+    const settings = fiscalSettings ?? DEFAULT_LIMIT_SETTINGS;
+    const monthlyLimit = getMonthlyLimit(settings);
+    const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
 
     for (let i = 11; i >= 0; i--) {
       const monthDate = subMonths(today, i);
-      const start = startOfMonth(monthDate);
-      const end = endOfMonth(monthDate);
-
-      const monthIncomes = incomes.filter((income) =>
-        isWithinInterval(new Date(income.paymentDate), { start, end })
-      );
-      const monthExpenses = expenses.filter((expense) =>
-        isWithinInterval(new Date(expense.dueDate), { start, end })
-      );
 
-      const receitas = monthIncomes.reduce((sum, i) => sum + i.amount, 0);
-      const despesas = monthExpenses.reduce((sum, e) => sum + e.amount, 0);
+      // Same regime as the monthly summary; cancelled invoices never count
+      const receitas = incomes.reduce((sum, income) => sum + getIncomeInMonth(income, basis, monthDate), 0);
+      const despesas = expenses.reduce((sum, expense) => sum + getExpenseInMonth(expense, basis, monthDate), 0);
 
       data.push({
         month: format(monthDate, "MMM/yy", { locale: ptBR }),
@@ -52,11 +47,12 @@ export function EvolutionChart() {
         receitas,
         despesas,
         saldo: receitas - despesas,
+        limite: isBeforeOpening(settings, monthDate) ? null : monthlyLimit,
       });
     }
 
     return data;
-  }, [incomes, expenses]);
+  }, [incomes, expenses, fiscalSettings]);
 
   const formatCurrency = (value: number) =>
     new Intl.NumberFormat("pt-BR", {
@@ -107,15 +103,15 @@ export function EvolutionChart() {
           wrapperStyle={{ paddingTop: "20px" }}
           formatter={(value) => <span className="text-foreground">{value}</span>}
         />
-        <ReferenceLine 
-          y={MEI_MONTHLY_LIMIT} 
-          stroke="hsl(var(--warning))" 
+        <Line
+          type="stepAfter"
+          dataKey="limite"
+          name="Limite MEI"
+          stroke="hsl(var(--warning))"
           strokeDasharray="5 5"
-          label={{ 
-            value: "Limite MEI", 
-            position: "right",
-            className: "fill-warning text-xs"
-          }}
+          strokeWidth={2}
+          dot={false}
+          activeDot={false}
         />
         <Line
           type="monotone"
@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ForecastMonth } from "@/lib/forecast";
+
+interface ForecastChartProps {
+  forecast: ForecastMonth[];
+}
+
+export function ForecastChart({ forecast }: ForecastChartProps) {
+  const chartData = useMemo(() => forecast.map(month => ({
+    month: format(month.month, "MMM/yy", { locale: ptBR }),
+    empresa: month.businessBalance,
+    pessoal: month.personalBalance,
+  })), [forecast]);
+
+  const formatCompact = (value: number) =>
+    new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+      notation: "compact",
+    }).format(value);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+    }).format(value);
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis
+          dataKey="month"
+          className="text-xs fill-muted-foreground"
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis
+          tickFormatter={formatCompact}
+          className="text-xs fill-muted-foreground"
+          tick={{ fontSize: 12 }}
+        />
+        <Tooltip
+          formatter={(value: number) => formatCurrency(value)}
+          contentStyle={{
+            backgroundColor: "hsl(var(--popover))",
+            border: "1px solid hsl(var(--border))",
+            borderRadius: "0.5rem",
+          }}
+        />
+        <Legend
+          wrapperStyle={{ paddingTop: "20px" }}
+          formatter={(value) => <span className="text-foreground">{value}</span>}
+        />
+        <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="5 5" />
+        <Line
+          type="monotone"
+          dataKey="empresa"
+          name="Caixa empresa"
+          stroke="#1e3a5f"
+          strokeWidth={2}
+          dot={{ fill: "#1e3a5f", strokeWidth: 2 }}
+          activeDot={{ r: 6 }}
+        />
+        <Line
+          type="monotone"
+          dataKey="pessoal"
+          name="Caixa pessoal"
+          stroke="#8b5cf6"
+          strokeWidth={2}
+          dot={{ fill: "#8b5cf6", strokeWidth: 2 }}
+          activeDot={{ r: 6 }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -1,8 +1,9 @@
 import { useMemo } from "react";
-import { useFinance } from "@/contexts/FinanceContext";
 import {
   BarChart,
   Bar,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,67 +11,46 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { format, startOfMonth, endOfMonth, isWithinInterval, setMonth, setYear } from "date-fns";
+import { format, setMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
-
-interface MonthData {
-  month: string;
-  receitas2025: number;
-  receitas2026: number;
-  despesas2025: number;
-  despesas2026: number;
+import { getVariation } from "@/lib/yearComparison";
+
+// The most recent year gets the first color
+const YEAR_COLORS = [
+  "hsl(210, 70%, 45%)",
+  "hsl(160, 60%, 40%)",
+  "hsl(35, 85%, 50%)",
+  "hsl(280, 50%, 55%)",
+  "hsl(0, 65%, 55%)",
+  "hsl(190, 60%, 45%)",
+];
+
+interface YearComparisonChartProps {
+  years: number[]; // Ascending
+  values: number[][]; // One list of 12 monthly values per year, in the order of `years`
+  metricLabel: string;
+  cumulative?: boolean; // Running totals as lines instead of monthly bars
 }
 
-export function YearComparisonChart() {
-  const { incomes, expenses } = useFinance();
+type MonthData = { month: string; fullMonth: string } & Record<string, number | string>;
 
+export function YearComparisonChart({ years, values, metricLabel, cumulative = false }: YearComparisonChartProps) {
   const chartData = useMemo((): MonthData[] => {
-    const data: MonthData[] = [];
-    const currentYear = 2026;
-    const previousYear = 2025;
-
-    for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
-      const monthName = format(setMonth(new Date(), monthIndex), "MMM", { locale: ptBR });
-
-      // Calculate for current year (2026)
-      const currentYearDate = setYear(setMonth(new Date(), monthIndex), currentYear);
-      const currentStart = startOfMonth(currentYearDate);
-      const currentEnd = endOfMonth(currentYearDate);
-
-      const currentIncomes = incomes.filter((income) =>
-        isWithinInterval(new Date(income.paymentDate), { start: currentStart, end: currentEnd })
-      );
-      const currentExpenses = expenses.filter((expense) =>
-        isWithinInterval(new Date(expense.dueDate), { start: currentStart, end: currentEnd })
-      );
-
-      // Calculate for previous year (2025)
-      const previousYearDate = setYear(setMonth(new Date(), monthIndex), previousYear);
-      const previousStart = startOfMonth(previousYearDate);
-      const previousEnd = endOfMonth(previousYearDate);
-
-      const previousIncomes = incomes.filter((income) =>
-        isWithinInterval(new Date(income.paymentDate), { start: previousStart, end: previousEnd })
-      );
-      const previousExpenses = expenses.filter((expense) =>
-        isWithinInterval(new Date(expense.dueDate), { start: previousStart, end: previousEnd })
-      );
-
-      data.push({
-        month: monthName,
-        receitas2025: previousIncomes.reduce((sum, i) => sum + i.amount, 0),
-        receitas2026: currentIncomes.reduce((sum, i) => sum + i.amount, 0),
-        despesas2025: previousExpenses.reduce((sum, e) => sum + e.amount, 0),
-        despesas2026: currentExpenses.reduce((sum, e) => sum + e.amount, 0),
+    return Array.from({ length: 12 }, (_, monthIndex) => {
+      const data: MonthData = {
+        month: format(setMonth(new Date(), monthIndex), "MMM", { locale: ptBR }),
+        fullMonth: format(setMonth(new Date(), monthIndex), "MMMM", { locale: ptBR }),
+      };
+      years.forEach((year, index) => {
+        data[String(year)] = values[index]?.[monthIndex] ?? 0;
       });
-    }
+      return data;
+    });
+  }, [years, values]);
 
-    return data;
-  }, [incomes, expenses]);
+  const hasData = values.some(yearValues => yearValues.some(value => value !== 0));
 
-  const hasData2025 = useMemo(() => {
-    return chartData.some((d) => d.receitas2025 > 0 || d.despesas2025 > 0);
-  }, [chartData]);
+  const getColor = (index: number) => YEAR_COLORS[(years.length - 1 - index) % YEAR_COLORS.length];
 
   const formatCurrency = (value: number) =>
     new Intl.NumberFormat("pt-BR", {
@@ -79,37 +59,33 @@ export function YearComparisonChart() {
       notation: "compact",
     }).format(value);
 
-  const calculateVariation = (current: number, previous: number): string => {
-    if (previous === 0) return current > 0 ? "+100%" : "0%";
-    const variation = ((current - previous) / previous) * 100;
+  const formatVariation = (current: number, previous: number): string => {
+    const variation = getVariation(current, previous);
+    if (variation === null) return "—";
     return `${variation > 0 ? "+" : ""}${variation.toFixed(1)}%`;
   };
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload as MonthData;
       return (
         <div className="bg-popover border border-border rounded-lg p-3 shadow-lg">
-          <p className="font-medium text-foreground capitalize mb-2">{label}</p>
-          <div className="space-y-2">
-            <div>
-              <p className="text-xs text-muted-foreground">Receitas</p>
-              <p className="text-sm">
-                2025: {formatCurrency(data.receitas2025)} | 2026: {formatCurrency(data.receitas2026)}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                Variação: {calculateVariation(data.receitas2026, data.receitas2025)}
-              </p>
-            </div>
-            <div>
-              <p className="text-xs text-muted-foreground">Despesas</p>
-              <p className="text-sm">
-                2025: {formatCurrency(data.despesas2025)} | 2026: {formatCurrency(data.despesas2026)}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                Variação: {calculateVariation(data.despesas2026, data.despesas2025)}
-              </p>
-            </div>
+          <p className="font-medium text-foreground capitalize mb-2">
+            {data.fullMonth} · {metricLabel}{cumulative && " acumulado"}
+          </p>
+          <div className="space-y-1">
+            {years.map((year, index) => {
+              const value = data[String(year)] as number;
+              const previous = index > 0 ? data[String(years[index - 1])] as number : null;
+              return (
+                <p key={year} className="text-sm">
+                  <span style={{ color: getColor(index) }}>{year}:</span> {formatCurrency(value)}
+                  {previous !== null && (
+                    <span className="text-xs text-muted-foreground"> ({formatVariation(value, previous)})</span>
+                  )}
+                </p>
+              );
+            })}
           </div>
         </div>
       );
@@ -117,58 +93,66 @@ export function YearComparisonChart() {
     return null;
   };
 
-  if (!hasData2025) {
+  if (!hasData) {
     return (
       <div className="flex items-center justify-center h-[400px] text-muted-foreground">
-        Dados do ano anterior não disponíveis
+        Nenhum valor nos anos selecionados
       </div>
     );
   }
 
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+      <XAxis
+        dataKey="month"
+        className="text-xs fill-muted-foreground"
+        tick={{ fontSize: 12 }}
+      />
+      <YAxis
+        tickFormatter={formatCurrency}
+        className="text-xs fill-muted-foreground"
+        tick={{ fontSize: 12 }}
+      />
+      <Tooltip content={<CustomTooltip />} />
+      <Legend
+        wrapperStyle={{ paddingTop: "20px" }}
+        formatter={(value) => <span className="text-foreground">{value}</span>}
+      />
+    </>
+  );
+
   return (
     <ResponsiveContainer width="100%" height={400}>
-      <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-        <XAxis 
-          dataKey="month" 
-          className="text-xs fill-muted-foreground"
-          tick={{ fontSize: 12 }}
-        />
-        <YAxis 
-          tickFormatter={formatCurrency}
-          className="text-xs fill-muted-foreground"
-          tick={{ fontSize: 12 }}
-        />
-        <Tooltip content={<CustomTooltip />} />
-        <Legend 
-          wrapperStyle={{ paddingTop: "20px" }}
-          formatter={(value) => <span className="text-foreground">{value}</span>}
-        />
-        <Bar 
-          dataKey="receitas2025" 
-          name="Receitas 2025" 
-          fill="hsl(210, 70%, 70%)" 
-          radius={[2, 2, 0, 0]}
-        />
-        <Bar 
-          dataKey="receitas2026" 
-          name="Receitas 2026" 
-          fill="hsl(210, 70%, 45%)" 
-          radius={[2, 2, 0, 0]}
-        />
-        <Bar 
-          dataKey="despesas2025" 
-          name="Despesas 2025" 
-          fill="hsl(0, 70%, 70%)" 
-          radius={[2, 2, 0, 0]}
-        />
-        <Bar 
-          dataKey="despesas2026" 
-          name="Despesas 2026" 
-          fill="hsl(0, 70%, 45%)" 
-          radius={[2, 2, 0, 0]}
-        />
-      </BarChart>
+      {cumulative ? (
+        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          {axes}
+          {years.map((year, index) => (
+            <Line
+              key={year}
+              type="monotone"
+              dataKey={String(year)}
+              name={String(year)}
+              stroke={getColor(index)}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      ) : (
+        <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          {axes}
+          {years.map((year, index) => (
+            <Bar
+              key={year}
+              dataKey={String(year)}
+              name={String(year)}
+              fill={getColor(index)}
+              radius={[2, 2, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      )}
     </ResponsiveContainer>
   );
 }
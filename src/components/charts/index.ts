@@ -1,3 +1,4 @@
 export { EvolutionChart } from "./EvolutionChart";
 export { ExpenseCategoryChart } from "./ExpenseCategoryChart";
 export { YearComparisonChart } from "./YearComparisonChart";
+export { ForecastChart } from "./ForecastChart";
@@ -0,0 +1,173 @@
+import { useState, useEffect } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Pencil } from "lucide-react";
+import { Account, AccountType } from "@/types/finance";
+import { format } from "date-fns";
+import { accountTypeLabels } from "@/lib/accounts";
+
+interface AccountFormProps {
+  onSuccess?: () => void;
+  account?: Account; // For editing
+  editMode?: boolean;
+}
+
+export function AccountForm({ onSuccess, account, editMode = false }: AccountFormProps) {
+  const { addAccount, updateAccount } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("business");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [openingDate, setOpeningDate] = useState("");
+  const [archived, setArchived] = useState(false);
+
+  // Populate form when editing
+  useEffect(() => {
+    if (account && editMode) {
+      setName(account.name);
+      setType(account.type);
+      setOpeningBalance(account.openingBalance.toString());
+      setOpeningDate(format(new Date(account.openingDate), 'yyyy-MM-dd'));
+      setArchived(account.archived);
+    }
+  }, [account, editMode]);
+
+  const resetForm = () => {
+    setName("");
+    setType("business");
+    setOpeningBalance("");
+    setOpeningDate(format(new Date(), 'yyyy-MM-dd'));
+    setArchived(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !openingDate) return;
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = openingDate.split('-').map(Number);
+
+    const accountData = {
+      name: name.trim(),
+      type,
+      openingBalance: parseFloat(openingBalance) || 0,
+      openingDate: new Date(year, month - 1, day, 12, 0, 0),
+      archived,
+    };
+
+    if (editMode && account) {
+      updateAccount(account.id, accountData);
+    } else {
+      addAccount(accountData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="gap-2">
+            <Plus className="w-4 h-4" />
+            Nova Conta
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Conta' : 'Adicionar Conta'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="accountName">Nome</Label>
+            <Input
+              id="accountName"
+              placeholder="Ex: Inter PJ, Nubank, Dinheiro..."
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select value={type} onValueChange={(v) => setType(v as AccountType)} required>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(accountTypeLabels) as AccountType[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {accountTypeLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="openingBalance">Saldo inicial (R$)</Label>
+              <Input
+                id="openingBalance"
+                type="number"
+                step="0.01"
+                placeholder="0,00"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="openingDate">Saldo em</Label>
+              <Input
+                id="openingDate"
+                type="date"
+                value={openingDate}
+                onChange={(e) => setOpeningDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Lançamentos anteriores a esta data não alteram o saldo da conta
+          </p>
+
+          {editMode && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="accountArchived"
+                checked={archived}
+                onCheckedChange={(checked) => setArchived(checked === true)}
+              />
+              <Label htmlFor="accountArchived" className="text-sm font-normal cursor-pointer">
+                Conta arquivada (não aparece nos formulários)
+              </Label>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Pencil } from "lucide-react";
+import { Budget, BudgetRollover } from "@/types/finance";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { businessCategories, personalCategories } from "@/lib/categories";
+import { INVOICE_CATEGORY } from "@/lib/creditCards";
+import { budgetRolloverLabels } from "@/lib/budgets";
+
+interface BudgetFormProps {
+  type: 'business' | 'personal';
+  onSuccess?: () => void;
+  budget?: Budget; // For editing
+  editMode?: boolean;
+}
+
+export function BudgetForm({ type, onSuccess, budget, editMode = false }: BudgetFormProps) {
+  const { budgets, addBudget, updateBudget, selectedMonth } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [rollover, setRollover] = useState<BudgetRollover>("none");
+  const [startMonth, setStartMonth] = useState("");
+
+  // Invoices are split into the categories of their purchases
+  const categories = (type === 'business' ? businessCategories : personalCategories)
+    .filter(cat => cat !== INVOICE_CATEGORY)
+    .filter(cat => cat === budget?.category || !budgets.some(b => b.type === type && b.category === cat));
+
+  // Populate form when editing
+  useEffect(() => {
+    if (budget && editMode) {
+      setCategory(budget.category);
+      setAmount(budget.amount.toString());
+      setRollover(budget.rollover);
+      setStartMonth(format(budget.startMonth, 'yyyy-MM'));
+    }
+  }, [budget, editMode]);
+
+  const resetForm = () => {
+    setCategory("");
+    setAmount("");
+    setRollover("none");
+    setStartMonth(format(selectedMonth, 'yyyy-MM'));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!category || !amount || !startMonth) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+
+    const [year, month] = startMonth.split('-').map(Number);
+
+    const budgetData = {
+      category,
+      type,
+      amount: parsedAmount,
+      rollover,
+      startMonth: new Date(year, month - 1, 1, 12, 0, 0),
+    };
+
+    if (editMode && budget) {
+      updateBudget(budget.id, budgetData);
+    } else {
+      addBudget(budgetData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" className="gap-2" disabled={categories.length === 0}>
+            <Plus className="w-4 h-4" />
+            Orçamento
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Orçamento' : 'Adicionar Orçamento'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Categoria</Label>
+            <Select value={category} onValueChange={setCategory} required>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a categoria" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((cat) => (
+                  <SelectItem key={cat} value={cat}>
+                    {cat}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="budgetAmount">Valor mensal (R$)</Label>
+              <Input
+                id="budgetAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budgetStartMonth">A partir de</Label>
+              <Input
+                id="budgetStartMonth"
+                type="month"
+                value={startMonth}
+                onChange={(e) => setStartMonth(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sobra do orçamento</Label>
+            <Select value={rollover} onValueChange={(v) => setRollover(v as BudgetRollover)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(budgetRolloverLabels) as BudgetRollover[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {budgetRolloverLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              O que não for gasto no mês pode ser somado ao orçamento dos meses seguintes
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useEffect } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { CardPurchase } from "@/types/finance";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { personalCategories } from "@/lib/categories";
+import { INVOICE_CATEGORY, getInvoiceDueDate, getInvoiceMonth } from "@/lib/creditCards";
+
+// The invoice itself is the "Cartão de crédito" expense, so purchases are classified by what was bought
+const categories = personalCategories.filter(category => category !== INVOICE_CATEGORY);
+
+interface CardPurchaseFormProps {
+  onSuccess?: () => void;
+  purchase?: CardPurchase; // For editing
+  editMode?: boolean;
+  defaultCardId?: string;
+}
+
+export function CardPurchaseForm({ onSuccess, purchase, editMode = false, defaultCardId }: CardPurchaseFormProps) {
+  const { creditCards, addCardPurchase, updateCardPurchase } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [cardId, setCardId] = useState(defaultCardId || "");
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [category, setCategory] = useState("");
+  const [date, setDate] = useState("");
+  const [installmentCount, setInstallmentCount] = useState("1");
+
+  // Populate form when editing
+  useEffect(() => {
+    if (purchase && editMode) {
+      setCardId(purchase.cardId);
+      setDescription(purchase.description);
+      setAmount(purchase.amount.toString());
+      setCategory(purchase.category);
+      setDate(format(new Date(purchase.date), 'yyyy-MM-dd'));
+      setInstallmentCount(purchase.installmentCount.toString());
+    }
+  }, [purchase, editMode]);
+
+  const resetForm = () => {
+    setCardId(defaultCardId || "");
+    setDescription("");
+    setAmount("");
+    setCategory("");
+    setDate("");
+    setInstallmentCount("1");
+  };
+
+  const selectedCard = creditCards.find(c => c.id === cardId);
+
+  // Invoice the purchase (or its first installment) falls on
+  const firstDueDate = (() => {
+    if (!selectedCard || !date) return null;
+    const [year, month, day] = date.split('-').map(Number);
+    return getInvoiceDueDate(selectedCard, getInvoiceMonth(selectedCard, new Date(year, month - 1, day, 12, 0, 0)));
+  })();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cardId || !description.trim() || !amount || !category || !date) return;
+
+    const parsedAmount = parseFloat(amount);
+    const parsedCount = parseInt(installmentCount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+    if (!(parsedCount >= 1 && parsedCount <= 48)) {
+      toast.error('Informe entre 1 e 48 parcelas');
+      return;
+    }
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+
+    const purchaseData = {
+      cardId,
+      description: description.trim(),
+      amount: parsedAmount,
+      category,
+      date: new Date(year, month - 1, day, 12, 0, 0),
+      installmentCount: parsedCount,
+    };
+
+    if (editMode && purchase) {
+      updateCardPurchase(purchase.id, purchaseData);
+    } else {
+      addCardPurchase(purchaseData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button className="gap-2" disabled={creditCards.length === 0}>
+            <Plus className="w-4 h-4" />
+            Nova Compra
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Compra' : 'Adicionar Compra no Cartão'}</DialogTitle>
+          <DialogDescription>
+            A compra entra na fatura do cartão, que é lançada como despesa pessoal
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Cartão</Label>
+            <Select value={cardId} onValueChange={setCardId} required>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o cartão" />
+              </SelectTrigger>
+              <SelectContent>
+                {creditCards.map((card) => (
+                  <SelectItem key={card.id} value={card.id}>
+                    {card.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="purchaseDescription">Descrição</Label>
+            <Input
+              id="purchaseDescription"
+              placeholder="Ex: Supermercado, Passagem..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="purchaseAmount">Valor total (R$)</Label>
+              <Input
+                id="purchaseAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="purchaseDate">Data da compra</Label>
+              <Input
+                id="purchaseDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={category} onValueChange={setCategory} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat} value={cat}>
+                      {cat}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installmentCount">Parcelas</Label>
+              <Input
+                id="installmentCount"
+                type="number"
+                min="1"
+                max="48"
+                step="1"
+                value={installmentCount}
+                onChange={(e) => setInstallmentCount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {firstDueDate && (
+            <p className="text-xs text-muted-foreground">
+              {parseInt(installmentCount) > 1 ? 'Primeira parcela' : 'Entra'} na fatura com vencimento em{' '}
+              {format(firstDueDate, "dd/MM/yyyy", { locale: ptBR })}
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
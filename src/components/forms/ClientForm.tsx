@@ -1,42 +1,158 @@
-import { useState, forwardRef } from "react";
+import { useState, useEffect, forwardRef } from "react";
 import { useFinance } from "@/contexts/FinanceContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus } from "lucide-react";
+import { Plus, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Client, ClientAddress } from "@/types/finance";
+import {
+  getPersonType,
+  isValidCEP,
+  isValidDocument,
+  isValidEmail,
+  isValidPhone,
+  maskCEP,
+  maskDocument,
+  maskPhone,
+  onlyDigits,
+} from "@/lib/documents";
 
 interface ClientFormProps {
   onSuccess?: () => void;
+  client?: Client; // For editing
+  editMode?: boolean;
 }
 
+const emptyAddress: ClientAddress = {
+  cep: "",
+  street: "",
+  number: "",
+  complement: "",
+  district: "",
+  city: "",
+  state: "",
+};
+
 export const ClientForm = forwardRef<HTMLButtonElement, ClientFormProps>(
-  function ClientForm({ onSuccess }, ref) {
-    const { addClient } = useFinance();
+  function ClientForm({ onSuccess, client, editMode = false }, ref) {
+    const { addClient, updateClient } = useFinance();
     const [open, setOpen] = useState(false);
     const [name, setName] = useState("");
+    const [documentNumber, setDocumentNumber] = useState("");
+    const [legalName, setLegalName] = useState("");
+    const [tradeName, setTradeName] = useState("");
+    const [email, setEmail] = useState("");
+    const [phone, setPhone] = useState("");
+    const [address, setAddress] = useState<ClientAddress>(emptyAddress);
+    const [municipalRegistration, setMunicipalRegistration] = useState("");
+    const [notes, setNotes] = useState("");
+
+    // Populate form when editing
+    useEffect(() => {
+      if (client && editMode && open) {
+        setName(client.name);
+        setDocumentNumber(maskDocument(client.document || ""));
+        setLegalName(client.legalName || "");
+        setTradeName(client.tradeName || "");
+        setEmail(client.email || "");
+        setPhone(maskPhone(client.phone || ""));
+        setAddress({ ...emptyAddress, ...client.address, cep: maskCEP(client.address?.cep || "") });
+        setMunicipalRegistration(client.municipalRegistration || "");
+        setNotes(client.notes || "");
+      }
+    }, [client, editMode, open]);
+
+    const resetForm = () => {
+      setName("");
+      setDocumentNumber("");
+      setLegalName("");
+      setTradeName("");
+      setEmail("");
+      setPhone("");
+      setAddress(emptyAddress);
+      setMunicipalRegistration("");
+      setNotes("");
+    };
+
+    const updateAddress = (field: keyof ClientAddress, value: string) => {
+      setAddress(prev => ({ ...prev, [field]: value }));
+    };
+
+    const personType = getPersonType(documentNumber);
 
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (!name.trim()) return;
 
-      addClient({ name: name.trim() });
-      setName("");
+      if (documentNumber && !isValidDocument(documentNumber)) {
+        toast.error(personType === 'PJ' ? 'CNPJ inválido' : 'CPF inválido');
+        return;
+      }
+      if (email.trim() && !isValidEmail(email.trim())) {
+        toast.error('E-mail inválido');
+        return;
+      }
+      if (phone && !isValidPhone(phone)) {
+        toast.error('Telefone inválido, informe o DDD e o número');
+        return;
+      }
+      if (address.cep && !isValidCEP(address.cep)) {
+        toast.error('CEP inválido');
+        return;
+      }
+
+      // Empty address fields are dropped so a client without address stores nothing
+      const addressFields = Object.entries({ ...address, cep: onlyDigits(address.cep || "") })
+        .map(([field, value]) => [field, value.trim()])
+        .filter(([, value]) => value);
+
+      const clientData = {
+        name: name.trim(),
+        document: onlyDigits(documentNumber) || undefined,
+        legalName: legalName.trim() || undefined,
+        tradeName: tradeName.trim() || undefined,
+        email: email.trim() || undefined,
+        phone: onlyDigits(phone) || undefined,
+        address: addressFields.length > 0 ? Object.fromEntries(addressFields) as ClientAddress : undefined,
+        municipalRegistration: municipalRegistration.trim() || undefined,
+        notes: notes.trim() || undefined,
+      };
+
+      if (editMode && client) {
+        updateClient(client.id, clientData);
+      } else {
+        addClient({ ...clientData, archived: false });
+      }
+
+      resetForm();
       setOpen(false);
       onSuccess?.();
     };
 
     return (
-      <Dialog open={open} onOpenChange={setOpen}>
+      <Dialog open={open} onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) resetForm();
+      }}>
         <DialogTrigger asChild>
-          <Button ref={ref} className="gap-2">
-            <Plus className="w-4 h-4" />
-            Novo Cliente
-          </Button>
+          {editMode ? (
+            <Button ref={ref} variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+              <Pencil className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button ref={ref} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Novo Cliente
+            </Button>
+          )}
         </DialogTrigger>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
           <DialogHeader>
-            <DialogTitle>Adicionar Cliente / Fonte de Receita</DialogTitle>
+            <DialogTitle>{editMode ? 'Editar Cliente' : 'Adicionar Cliente / Fonte de Receita'}</DialogTitle>
           </DialogHeader>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
@@ -49,11 +165,163 @@ export const ClientForm = forwardRef<HTMLButtonElement, ClientFormProps>(
                 required
               />
             </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="document">CPF / CNPJ</Label>
+                <Input
+                  id="document"
+                  inputMode="numeric"
+                  placeholder="Opcional"
+                  value={documentNumber}
+                  onChange={(e) => setDocumentNumber(maskDocument(e.target.value))}
+                />
+                {personType && (
+                  <p className="text-xs text-muted-foreground">
+                    {personType === 'PJ' ? 'Pessoa jurídica' : 'Pessoa física'}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="municipalRegistration">Inscrição municipal</Label>
+                <Input
+                  id="municipalRegistration"
+                  placeholder="Opcional"
+                  value={municipalRegistration}
+                  onChange={(e) => setMunicipalRegistration(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="legalName">{personType === 'PF' ? 'Nome completo' : 'Razão social'}</Label>
+                <Input
+                  id="legalName"
+                  placeholder="Opcional"
+                  value={legalName}
+                  onChange={(e) => setLegalName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tradeName">Nome fantasia</Label>
+                <Input
+                  id="tradeName"
+                  placeholder="Opcional"
+                  value={tradeName}
+                  onChange={(e) => setTradeName(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">E-mail</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="Opcional"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Telefone</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  placeholder="(00) 00000-0000"
+                  value={phone}
+                  onChange={(e) => setPhone(maskPhone(e.target.value))}
+                />
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="cep">CEP</Label>
+                <Input
+                  id="cep"
+                  inputMode="numeric"
+                  placeholder="00000-000"
+                  value={address.cep}
+                  onChange={(e) => updateAddress('cep', maskCEP(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="street">Logradouro</Label>
+                <Input
+                  id="street"
+                  value={address.street}
+                  onChange={(e) => updateAddress('street', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="number">Número</Label>
+                <Input
+                  id="number"
+                  value={address.number}
+                  onChange={(e) => updateAddress('number', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="complement">Complemento</Label>
+                <Input
+                  id="complement"
+                  value={address.complement}
+                  onChange={(e) => updateAddress('complement', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="district">Bairro</Label>
+                <Input
+                  id="district"
+                  value={address.district}
+                  onChange={(e) => updateAddress('district', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="city">Cidade</Label>
+                <Input
+                  id="city"
+                  value={address.city}
+                  onChange={(e) => updateAddress('city', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="state">UF</Label>
+                <Input
+                  id="state"
+                  maxLength={2}
+                  value={address.state}
+                  onChange={(e) => updateAddress('state', e.target.value.toUpperCase())}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notes">Observações</Label>
+              <Textarea
+                id="notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
             <div className="flex justify-end gap-2">
               <Button type="button" variant="outline" onClick={() => setOpen(false)}>
                 Cancelar
               </Button>
-              <Button type="submit">Adicionar</Button>
+              <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
             </div>
           </form>
         </DialogContent>
@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { CreditCard } from "@/types/finance";
+
+interface CreditCardFormProps {
+  onSuccess?: () => void;
+  card?: CreditCard; // For editing
+  editMode?: boolean;
+}
+
+export function CreditCardForm({ onSuccess, card, editMode = false }: CreditCardFormProps) {
+  const { addCreditCard, updateCreditCard } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [closingDay, setClosingDay] = useState("");
+  const [dueDay, setDueDay] = useState("");
+
+  // Populate form when editing
+  useEffect(() => {
+    if (card && editMode) {
+      setName(card.name);
+      setClosingDay(card.closingDay.toString());
+      setDueDay(card.dueDay.toString());
+    }
+  }, [card, editMode]);
+
+  const resetForm = () => {
+    setName("");
+    setClosingDay("");
+    setDueDay("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !closingDay || !dueDay) return;
+
+    const parsedClosingDay = parseInt(closingDay);
+    const parsedDueDay = parseInt(dueDay);
+    if ([parsedClosingDay, parsedDueDay].some(day => day < 1 || day > 31)) {
+      toast.error('Os dias de fechamento e vencimento devem estar entre 1 e 31');
+      return;
+    }
+    if (parsedClosingDay === parsedDueDay) {
+      toast.error('O vencimento deve ser em um dia diferente do fechamento');
+      return;
+    }
+
+    const cardData = {
+      name: name.trim(),
+      closingDay: parsedClosingDay,
+      dueDay: parsedDueDay,
+    };
+
+    if (editMode && card) {
+      updateCreditCard(card.id, cardData);
+    } else {
+      addCreditCard(cardData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="gap-2">
+            <Plus className="w-4 h-4" />
+            Novo Cartão
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Cartão' : 'Adicionar Cartão de Crédito'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cardName">Nome</Label>
+            <Input
+              id="cardName"
+              placeholder="Ex: Nubank, Itaú Platinum..."
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="closingDay">Dia do fechamento</Label>
+              <Input
+                id="closingDay"
+                type="number"
+                min="1"
+                max="31"
+                step="1"
+                value={closingDay}
+                onChange={(e) => setClosingDay(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dueDay">Dia do vencimento</Label>
+              <Input
+                id="dueDay"
+                type="number"
+                min="1"
+                max="31"
+                step="1"
+                value={dueDay}
+                onChange={(e) => setDueDay(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Compras feitas a partir do dia do fechamento entram na fatura seguinte
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { useFinance } from "@/contexts/FinanceContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,33 +6,17 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { RecurrenceScopeDialog } from "@/components/RecurrenceScopeDialog";
+import { AccountSelect } from "@/components/AccountSelect";
 import { Plus, Pencil } from "lucide-react";
-import { PaymentStatus, Expense } from "@/types/finance";
-import { format, addMonths, startOfMonth, endOfMonth, isWithinInterval, isSameMonth, isSameYear } from "date-fns";
+import { PaymentStatus, Expense, RecurrenceFrequency, RecurrenceRule, RecurrenceEditScope } from "@/types/finance";
+import { FREQUENCY_LABELS } from "@/lib/recurrence";
+import { businessCategories, personalCategories } from "@/lib/categories";
+import { getPaidAmount, withStatus } from "@/lib/expensePayments";
+import { getBudgetStatus } from "@/lib/budgets";
+import { format } from "date-fns";
 import { toast } from "sonner";
 
-const businessCategories = [
-  "Saque",
-  "Impostos",
-  "Infraestrutura",
-  "Marketing",
-  "Ferramentas",
-  "Serviços",
-  "Outros"
-];
-
-const personalCategories = [
-  "Moradia",
-  "Alimentação",
-  "Transporte",
-  "Saúde",
-  "Lazer",
-  "Educação",
-  "Cartão de crédito",
-  "Poupança",
-  "Outros"
-];
-
 interface ExpenseFormProps {
   type: 'business' | 'personal';
   onSuccess?: () => void;
@@ -42,51 +26,42 @@ interface ExpenseFormProps {
 }
 
 export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode = false }: ExpenseFormProps) {
-  const { addExpense, updateExpense, clients, incomes, expenses, createFixedExpenseCopies } = useFinance();
+  const {
+    addExpense,
+    updateExpense,
+    addExpenseInstallments,
+    getSelectableClients,
+    expenses,
+    creditCards,
+    cardPurchases,
+    budgets,
+    recurringExpenses,
+    addRecurringExpense,
+    updateRecurringExpense,
+  } = useFinance();
   const [open, setOpen] = useState(false);
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
   const [category, setCategory] = useState("");
   const [dueDate, setDueDate] = useState("");
+  const [competenceMonth, setCompetenceMonth] = useState("");
   const [status, setStatus] = useState<PaymentStatus>("unpaid");
   const [paymentSourceId, setPaymentSourceId] = useState("");
+  const [accountId, setAccountId] = useState("");
   const [isFixed, setIsFixed] = useState(false);
-  const [months, setMonths] = useState<number>(0); // Novo campo para meses
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly");
+  const [dayOfMonth, setDayOfMonth] = useState("");
+  const [endType, setEndType] = useState<'none' | 'date' | 'count'>("none");
+  const [endDate, setEndDate] = useState("");
+  const [occurrenceCount, setOccurrenceCount] = useState("");
+  const [hasInstallments, setHasInstallments] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState("");
+  const [pendingEdit, setPendingEdit] = useState<{ data: Omit<Expense, 'id' | 'createdAt'>; rule: RecurrenceRule } | null>(null);
 
   const categories = type === 'business' ? businessCategories : personalCategories;
-
-  // Calculate withdrawal limits
-  const withdrawalLimits = useMemo(() => {
-    // Total income received (payment date <= today)
-    const today = new Date();
-    const totalReceived = incomes
-      .filter(inc => new Date(inc.paymentDate) <= today)
-      .reduce((sum, inc) => sum + inc.amount, 0);
-
-    // Total withdrawals already made (excluding current expense if editing)
-    const existingWithdrawals = expenses
-      .filter(exp => exp.category === 'Saque' && exp.type === 'business' && (!editMode || exp.id !== expense?.id))
-      .reduce((sum, exp) => sum + exp.amount, 0);
-
-    // Available for withdrawal (total)
-    const availableTotal = Math.max(0, totalReceived - existingWithdrawals);
-
-    // Per-client limits
-    const clientLimits: Record<string, number> = {};
-    clients.forEach(client => {
-      const clientIncome = incomes
-        .filter(inc => inc.clientId === client.id && new Date(inc.paymentDate) <= today)
-        .reduce((sum, inc) => sum + inc.amount, 0);
-      
-      const clientWithdrawals = expenses
-        .filter(exp => exp.category === 'Saque' && exp.type === 'business' && exp.paymentSourceId === client.id && (!editMode || exp.id !== expense?.id))
-        .reduce((sum, exp) => sum + exp.amount, 0);
-      
-      clientLimits[client.id] = Math.max(0, clientIncome - clientWithdrawals);
-    });
-
-    return { availableTotal, clientLimits };
-  }, [incomes, expenses, clients, editMode, expense?.id]);
+  const template = expense?.recurringExpenseId
+    ? recurringExpenses.find(t => t.id === expense.recurringExpenseId)
+    : undefined;
 
   // Populate form when editing
   useEffect(() => {
@@ -95,22 +70,76 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
       setAmount(expense.amount.toString());
       setCategory(expense.category);
       setDueDate(format(new Date(expense.dueDate), 'yyyy-MM-dd'));
+      setCompetenceMonth(expense.competenceDate ? format(expense.competenceDate, 'yyyy-MM') : "");
       setStatus(expense.status);
       setPaymentSourceId(expense.paymentSourceId || "");
+      setAccountId(expense.accountId || "");
       setIsFixed(expense.isFixed);
-      setMonths(0); // Reset months when editing
+      const rule = template?.rule;
+      setFrequency(rule?.frequency ?? "monthly");
+      setDayOfMonth(String(rule?.dayOfMonth ?? new Date(expense.dueDate).getDate()));
+      setEndType(rule?.endDate ? "date" : rule?.count !== undefined ? "count" : "none");
+      setEndDate(rule?.endDate ? format(rule.endDate, 'yyyy-MM-dd') : "");
+      setOccurrenceCount(rule?.count !== undefined ? String(rule.count) : "");
     }
-  }, [expense, editMode]);
+  }, [expense, editMode, template]);
 
   const resetForm = () => {
     setDescription("");
     setAmount("");
     setCategory("");
     setDueDate("");
+    setCompetenceMonth("");
     setStatus("unpaid");
     setPaymentSourceId("");
+    setAccountId("");
     setIsFixed(false);
-    setMonths(0);
+    setFrequency("monthly");
+    setDayOfMonth("");
+    setEndType("none");
+    setEndDate("");
+    setOccurrenceCount("");
+    setHasInstallments(false);
+    setInstallmentCount("");
+  };
+
+  const parseDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day, 12, 0, 0);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Planned amount of the category in the month of the expense, while the form is open
+  const budget = budgets.find(b => b.type === type && b.category === category);
+  const budgetStatus = open && budget && dueDate
+    ? getBudgetStatus(budget, { expenses, creditCards, cardPurchases }, parseDate(dueDate))
+    : null;
+
+  const buildRule = (startDate: Date): RecurrenceRule => ({
+    frequency,
+    dayOfMonth: Math.min(Math.max(parseInt(dayOfMonth) || startDate.getDate(), 1), 31),
+    startDate,
+    endDate: endType === 'date' && endDate ? parseDate(endDate) : undefined,
+    count: endType === 'count' && occurrenceCount ? Math.max(parseInt(occurrenceCount), 1) : undefined,
+  });
+
+  const closeForm = () => {
+    if (!editMode) resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  const handleScopeConfirm = (scope: RecurrenceEditScope) => {
+    if (!pendingEdit || !expense) return;
+    updateRecurringExpense(expense, pendingEdit.data, pendingEdit.rule, scope);
+    setPendingEdit(null);
+    closeForm();
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -119,68 +148,65 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
 
     const parsedAmount = parseFloat(amount);
 
-    // Validation for "Saque" category
-    if (category === 'Saque' && type === 'business') {
-      // Check total limit
-      if (parsedAmount > withdrawalLimits.availableTotal) {
-        toast.error(`Saque excede o total disponível. Máximo: ${new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(withdrawalLimits.availableTotal)}`);
-        return;
-      }
+    // Parse date correctly to avoid timezone issues
+    const parsedDate = parseDate(dueDate);
 
-      // Check client-specific limit if a source is selected
-      if (paymentSourceId && withdrawalLimits.clientLimits[paymentSourceId] !== undefined) {
-        if (parsedAmount > withdrawalLimits.clientLimits[paymentSourceId]) {
-          const clientName = clients.find(c => c.id === paymentSourceId)?.name || 'Cliente';
-          toast.error(`Saque excede o disponível de ${clientName}. Máximo: ${new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(withdrawalLimits.clientLimits[paymentSourceId])}`);
-          return;
-        }
-      }
+    if (editMode && expense && parsedAmount < getPaidAmount(expense)) {
+      toast.error('O valor não pode ser menor que o já pago');
+      return;
     }
 
-    // Parse date correctly to avoid timezone issues
-    const [year, month, day] = dueDate.split('-').map(Number);
-    const parsedDate = new Date(year, month - 1, day, 12, 0, 0);
-
     const expenseData = {
       description: description.trim(),
       amount: parsedAmount,
       category,
       dueDate: parsedDate,
-      status,
+      competenceDate: competenceMonth && !isFixed ? parseDate(`${competenceMonth}-01`) : undefined,
+      ...withStatus(
+        { amount: parsedAmount, dueDate: parsedDate, status: expense?.status ?? 'unpaid', payments: expense?.payments ?? [] },
+        status,
+        paymentSourceId || undefined
+      ),
       paymentSourceId: paymentSourceId || undefined,
+      accountId: accountId || undefined,
       type,
       isFixed,
     };
 
-    if (isFixed && months > 0) {
-      // Criar a despesa atual
-      if (editMode && expense) {
-        updateExpense(expense.id, expenseData);
-      } else {
-        addExpense(expenseData);
-      }
+    // Occurrences of a series ask which occurrences the change applies to
+    if (editMode && expense && template) {
+      setPendingEdit({ data: expenseData, rule: buildRule(template.rule.startDate) });
+      return;
+    }
 
-      // Criar cópias para os próximos meses usando a função do contexto
-      const expenseWithRequiredFields: Expense = {
-        ...expenseData,
-        id: 'temp-id', // Temporary ID for the copy function
-        createdAt: new Date(),
-      };
-      createFixedExpenseCopies(expenseWithRequiredFields, months);
-      
-      toast.success(`Despesa fixa criada para ${months} meses à frente!`);
-    } else {
-      // Lógica normal
-      if (editMode && expense) {
-        updateExpense(expense.id, expenseData);
-      } else {
-        addExpense(expenseData);
+    if (isFixed) {
+      addRecurringExpense(
+        {
+          description: expenseData.description,
+          amount: expenseData.amount,
+          category: expenseData.category,
+          type: expenseData.type,
+          paymentSourceId: expenseData.paymentSourceId,
+          accountId: expenseData.accountId,
+          rule: buildRule(parsedDate),
+        },
+        { status: expenseData.status, paymentSourceId: expenseData.paymentSourceId },
+        editMode && expense ? expense.id : undefined
+      );
+    } else if (editMode && expense) {
+      updateExpense(expense.id, expenseData);
+    } else if (hasInstallments) {
+      const count = parseInt(installmentCount);
+      if (!count || count < 2) {
+        toast.error('Informe ao menos 2 parcelas');
+        return;
       }
+      addExpenseInstallments(expenseData, count);
+    } else {
+      addExpense(expenseData);
     }
 
-    resetForm();
-    setOpen(false);
-    onSuccess?.();
+    closeForm();
   };
 
   return (
@@ -200,7 +226,7 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
             {editMode 
@@ -223,7 +249,7 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
 
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Valor (R$)</Label>
+              <Label htmlFor="amount">{hasInstallments ? 'Valor total (R$)' : 'Valor (R$)'}</Label>
               <Input
                 id="amount"
                 type="number"
@@ -234,13 +260,6 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
                 onChange={(e) => setAmount(e.target.value)}
                 required
               />
-              {category === 'Saque' && type === 'business' && (
-                <p className="text-xs text-muted-foreground">
-                  Disponível: {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(
-                    paymentSourceId ? withdrawalLimits.clientLimits[paymentSourceId] ?? withdrawalLimits.availableTotal : withdrawalLimits.availableTotal
-                  )}
-                </p>
-              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="dueDate">Data de Vencimento</Label>
@@ -254,6 +273,21 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
             </div>
           </div>
 
+          {!isFixed && (
+            <div className="space-y-2">
+              <Label htmlFor="competenceMonth">Competência</Label>
+              <Input
+                id="competenceMonth"
+                type="month"
+                value={competenceMonth}
+                onChange={(e) => setCompetenceMonth(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Mês a que a despesa se refere no regime de competência; em branco, vale o mês do vencimento
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Categoria</Label>
             <Select value={category} onValueChange={setCategory} required>
@@ -268,6 +302,11 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
                 ))}
               </SelectContent>
             </Select>
+            {budgetStatus && (
+              <p className="text-xs text-muted-foreground">
+                Orçamento do mês: {formatCurrency(budgetStatus.spent)} de {formatCurrency(budgetStatus.available)}
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -291,7 +330,7 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
                 <SelectValue placeholder="Selecione a fonte (opcional)" />
               </SelectTrigger>
               <SelectContent>
-                {clients.map((client) => (
+                {getSelectableClients(paymentSourceId).map((client) => (
                   <SelectItem key={client.id} value={client.id}>
                     {client.name}
                   </SelectItem>
@@ -300,31 +339,125 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
             </Select>
           </div>
 
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="isFixed"
-              checked={isFixed}
-              onCheckedChange={(checked) => setIsFixed(checked === true)}
-            />
-            <Label htmlFor="isFixed" className="text-sm font-normal cursor-pointer">
-              Despesa fixa (repete todo mês)
-            </Label>
-          </div>
+          <AccountSelect value={accountId} onChange={setAccountId} side={type} label="Conta de pagamento" />
 
-          {isFixed && (
+          {!template && !hasInstallments && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="isFixed"
+                checked={isFixed}
+                onCheckedChange={(checked) => setIsFixed(checked === true)}
+              />
+              <Label htmlFor="isFixed" className="text-sm font-normal cursor-pointer">
+                Despesa fixa (repete automaticamente)
+              </Label>
+            </div>
+          )}
+
+          {!editMode && !isFixed && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="hasInstallments"
+                checked={hasInstallments}
+                onCheckedChange={(checked) => setHasInstallments(checked === true)}
+              />
+              <Label htmlFor="hasInstallments" className="text-sm font-normal cursor-pointer">
+                Compra parcelada
+              </Label>
+            </div>
+          )}
+
+          {hasInstallments && (
             <div className="space-y-2 ml-6">
-              <Label htmlFor="months">Criar cópias para os próximos meses</Label>
+              <Label htmlFor="installmentCount">Número de parcelas</Label>
               <Input
-                id="months"
+                id="installmentCount"
                 type="number"
-                min="1"
-                max="12"
-                placeholder="1"
-                value={months || ""}
-                onChange={(e) => setMonths(e.target.value ? parseInt(e.target.value) : 0)}
+                min="2"
+                max="48"
+                placeholder="Ex: 12"
+                value={installmentCount}
+                onChange={(e) => setInstallmentCount(e.target.value)}
+                required
               />
+              {parseInt(installmentCount) >= 2 && parseFloat(amount) > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {installmentCount}x de {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(parseFloat(amount) / parseInt(installmentCount))}, uma por mês a partir do vencimento.
+                  {status !== 'unpaid' && ' O status escolhido vale só para a primeira parcela.'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isFixed && (
+            <div className="space-y-3 ml-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Frequência</Label>
+                  <Select value={frequency} onValueChange={(v) => setFrequency(v as RecurrenceFrequency)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {FREQUENCY_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dayOfMonth">Dia do vencimento</Label>
+                  <Input
+                    id="dayOfMonth"
+                    type="number"
+                    min="1"
+                    max="31"
+                    placeholder={dueDate ? String(parseDate(dueDate).getDate()) : "10"}
+                    value={dayOfMonth}
+                    onChange={(e) => setDayOfMonth(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Término</Label>
+                <Select value={endType} onValueChange={(v) => setEndType(v as 'none' | 'date' | 'count')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sem término</SelectItem>
+                    <SelectItem value="date">Até uma data</SelectItem>
+                    <SelectItem value="count">Após um número de ocorrências</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {endType === 'date' && (
+                <Input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              )}
+              {endType === 'count' && (
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Ex: 12"
+                  value={occurrenceCount}
+                  onChange={(e) => setOccurrenceCount(e.target.value)}
+                  required
+                />
+              )}
+
               <p className="text-xs text-muted-foreground">
-                Cria cópias desta despesa para os próximos N meses. Cada cópia será independente.
+                {template
+                  ? 'Ao salvar, você escolhe se a alteração vale só para esta ocorrência, para as seguintes ou para todas.'
+                  : 'As próximas ocorrências são geradas automaticamente ao abrir cada mês.'}
               </p>
             </div>
           )}
@@ -337,6 +470,13 @@ export function ExpenseForm({ type, onSuccess, triggerLabel, expense, editMode =
           </div>
         </form>
       </DialogContent>
+
+      <RecurrenceScopeDialog
+        open={pendingEdit !== null}
+        onOpenChange={(isOpen) => !isOpen && setPendingEdit(null)}
+        action="edit"
+        onConfirm={handleScopeConfirm}
+      />
     </Dialog>
   );
 }
\ No newline at end of file
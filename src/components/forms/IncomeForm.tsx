@@ -3,19 +3,16 @@ import { useFinance } from "@/contexts/FinanceContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AccountSelect } from "@/components/AccountSelect";
 import { Plus, Pencil } from "lucide-react";
 import { Income } from "@/types/finance";
+import { toast } from "sonner";
 import { format } from "date-fns";
-
-const categories = [
-  "Serviços",
-  "Projetos",
-  "Consultoria",
-  "Vendas",
-  "Outros"
-];
+import { incomeCategories as categories } from "@/lib/categories";
+import { getIncomePaymentDate, getReceivedAmount } from "@/lib/receivables";
 
 interface IncomeFormProps {
   onSuccess?: () => void;
@@ -24,13 +21,18 @@ interface IncomeFormProps {
 }
 
 export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormProps) {
-  const { addIncome, updateIncome, clients } = useFinance();
+  const { addIncome, updateIncome, getSelectableClients } = useFinance();
   const [open, setOpen] = useState(false);
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
   const [clientId, setClientId] = useState("");
   const [category, setCategory] = useState("");
-  const [paymentDate, setPaymentDate] = useState("");
+  const [issueDate, setIssueDate] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [competenceMonth, setCompetenceMonth] = useState("");
+  const [received, setReceived] = useState(false);
+  const [receivedDate, setReceivedDate] = useState("");
+  const [accountId, setAccountId] = useState("");
 
   // Populate form when editing
   useEffect(() => {
@@ -39,7 +41,10 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
       setAmount(income.amount.toString());
       setClientId(income.clientId);
       setCategory(income.category);
-      setPaymentDate(format(new Date(income.paymentDate), 'yyyy-MM-dd'));
+      setIssueDate(income.issueDate ? format(new Date(income.issueDate), 'yyyy-MM-dd') : "");
+      setDueDate(format(new Date(income.dueDate), 'yyyy-MM-dd'));
+      setCompetenceMonth(income.competenceDate ? format(income.competenceDate, 'yyyy-MM') : "");
+      setAccountId(income.accountId || "");
     }
   }, [income, editMode]);
 
@@ -48,29 +53,60 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
     setAmount("");
     setClientId("");
     setCategory("");
-    setPaymentDate("");
+    setIssueDate("");
+    setDueDate("");
+    setCompetenceMonth("");
+    setReceived(false);
+    setReceivedDate("");
+    setAccountId("");
+  };
+
+  // Parse date correctly to avoid timezone issues
+  const parseDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day, 12, 0, 0);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!description.trim() || !amount || !clientId || !category || !paymentDate) return;
+    if (!description.trim() || !amount || !clientId || !category || !dueDate) return;
+
+    const parsedAmount = parseFloat(amount);
+    const parsedDueDate = parseDate(dueDate);
+    const parsedIssueDate = issueDate ? parseDate(issueDate) : undefined;
+    const parsedCompetence = competenceMonth ? parseDate(`${competenceMonth}-01`) : undefined;
+
+    if (parsedIssueDate && parsedIssueDate > parsedDueDate) {
+      toast.error('A data de emissão não pode ser posterior ao vencimento');
+      return;
+    }
+    if (editMode && income && parsedAmount < getReceivedAmount(income)) {
+      toast.error('O valor não pode ser menor que o já recebido');
+      return;
+    }
 
-    // Parse date correctly to avoid timezone issues
-    const [year, month, day] = paymentDate.split('-').map(Number);
-    const parsedDate = new Date(year, month - 1, day, 12, 0, 0);
+    // Payments of an existing income are managed in its own dialog
+    const payments = editMode && income
+      ? income.payments
+      : received ? [{ date: parseDate(receivedDate || dueDate), amount: parsedAmount }] : [];
 
     const incomeData = {
       description: description.trim(),
-      amount: parseFloat(amount),
+      amount: parsedAmount,
       clientId,
       category,
-      paymentDate: parsedDate,
+      issueDate: parsedIssueDate,
+      dueDate: parsedDueDate,
+      competenceDate: parsedCompetence,
+      payments,
+      cancelled: income?.cancelled ?? false,
+      accountId: accountId || undefined,
     };
 
     if (editMode && income) {
-      updateIncome(income.id, incomeData);
+      updateIncome(income.id, { ...incomeData, paymentDate: getIncomePaymentDate(incomeData) });
     } else {
-      addIncome(incomeData);
+      addIncome({ ...incomeData, paymentDate: getIncomePaymentDate(incomeData) });
     }
 
     resetForm();
@@ -95,7 +131,7 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
           </Button>
         )}
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{editMode ? 'Editar Recebimento' : 'Adicionar Recebimento'}</DialogTitle>
         </DialogHeader>
@@ -111,32 +147,55 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="amount">Valor (R$)</Label>
+            <Input
+              id="amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0,00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Valor (R$)</Label>
+              <Label htmlFor="issueDate">Emissão</Label>
               <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                min="0"
-                placeholder="0,00"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                required
+                id="issueDate"
+                type="date"
+                value={issueDate}
+                onChange={(e) => setIssueDate(e.target.value)}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="paymentDate">Data de Pagamento</Label>
+              <Label htmlFor="dueDate">Vencimento</Label>
               <Input
-                id="paymentDate"
+                id="dueDate"
                 type="date"
-                value={paymentDate}
-                onChange={(e) => setPaymentDate(e.target.value)}
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
                 required
               />
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="competenceMonth">Competência</Label>
+            <Input
+              id="competenceMonth"
+              type="month"
+              value={competenceMonth}
+              onChange={(e) => setCompetenceMonth(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Mês do serviço prestado no regime de competência; em branco, vale o mês da emissão ou do vencimento
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label>Cliente</Label>
             <Select value={clientId} onValueChange={setClientId} required>
@@ -144,7 +203,7 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
                 <SelectValue placeholder="Selecione o cliente" />
               </SelectTrigger>
               <SelectContent>
-                {clients.map((client) => (
+                {getSelectableClients(clientId).map((client) => (
                   <SelectItem key={client.id} value={client.id}>
                     {client.name}
                   </SelectItem>
@@ -169,6 +228,34 @@ export function IncomeForm({ onSuccess, income, editMode = false }: IncomeFormPr
             </Select>
           </div>
 
+          <AccountSelect value={accountId} onChange={setAccountId} side="business" label="Conta de recebimento" />
+
+          {!editMode && (
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="received"
+                  checked={received}
+                  onCheckedChange={(checked) => setReceived(checked === true)}
+                />
+                <Label htmlFor="received" className="text-sm font-normal cursor-pointer">
+                  Já recebido integralmente
+                </Label>
+              </div>
+              {received && (
+                <div className="space-y-2 ml-6">
+                  <Label htmlFor="receivedDate">Data do recebimento</Label>
+                  <Input
+                    id="receivedDate"
+                    type="date"
+                    value={receivedDate || dueDate}
+                    onChange={(e) => setReceivedDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancelar
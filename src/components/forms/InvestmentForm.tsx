@@ -1,63 +1,118 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useFinance } from "@/contexts/FinanceContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus } from "lucide-react";
-
-const categories = [
-  "Equipamentos",
-  "Software",
-  "Marketing",
-  "Capacitação",
-  "Infraestrutura",
-  "Outros"
-];
+import { AccountSelect } from "@/components/AccountSelect";
+import { Plus, Pencil } from "lucide-react";
+import { Investment, InvestmentStatus } from "@/types/finance";
+import { format } from "date-fns";
+import { investmentCategories as categories, investmentStatusLabels } from "@/lib/categories";
+import { DEFAULT_DEPRECIATION_SETTINGS, getCategoryUsefulLife } from "@/lib/depreciation";
 
 interface InvestmentFormProps {
   onSuccess?: () => void;
+  investment?: Investment; // For editing
+  editMode?: boolean;
 }
 
-export function InvestmentForm({ onSuccess }: InvestmentFormProps) {
-  const { addInvestment } = useFinance();
+export function InvestmentForm({ onSuccess, investment, editMode = false }: InvestmentFormProps) {
+  const { addInvestment, updateInvestment, getSelectableClients, fiscalSettings } = useFinance();
   const [open, setOpen] = useState(false);
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
   const [category, setCategory] = useState("");
   const [date, setDate] = useState("");
+  const [status, setStatus] = useState<InvestmentStatus>("executed");
+  const [paymentSourceId, setPaymentSourceId] = useState("");
+  const [supplier, setSupplier] = useState("");
+  const [depreciationMonths, setDepreciationMonths] = useState("");
+  const [accountId, setAccountId] = useState("");
+
+  // Populate form when editing
+  useEffect(() => {
+    if (investment && editMode) {
+      setDescription(investment.description);
+      setAmount(investment.amount.toString());
+      setCategory(investment.category);
+      setDate(format(new Date(investment.date), 'yyyy-MM-dd'));
+      setStatus(investment.status);
+      setPaymentSourceId(investment.paymentSourceId || "");
+      setSupplier(investment.supplier || "");
+      setDepreciationMonths(investment.depreciationMonths?.toString() || "");
+      setAccountId(investment.accountId || "");
+    }
+  }, [investment, editMode]);
+
+  const resetForm = () => {
+    setDescription("");
+    setAmount("");
+    setCategory("");
+    setDate("");
+    setStatus("executed");
+    setPaymentSourceId("");
+    setSupplier("");
+    setDepreciationMonths("");
+    setAccountId("");
+  };
+
+  // Useful life of the category, which the investment can override
+  const categoryLife = getCategoryUsefulLife(category, fiscalSettings ?? DEFAULT_DEPRECIATION_SETTINGS);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!description.trim() || !amount || !category || !date) return;
 
-    addInvestment({
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+    const parsedDate = new Date(year, month - 1, day, 12, 0, 0);
+    const months = parseInt(depreciationMonths);
+
+    const investmentData = {
       description: description.trim(),
       amount: parseFloat(amount),
       category,
-      date: new Date(date),
-    });
+      date: parsedDate,
+      status,
+      paymentSourceId: paymentSourceId || undefined,
+      supplier: supplier.trim() || undefined,
+      depreciationMonths: categoryLife > 0 && months > 0 && months !== categoryLife ? months : undefined,
+      accountId: accountId || undefined,
+    };
 
-    setDescription("");
-    setAmount("");
-    setCategory("");
-    setDate("");
+    if (editMode && investment) {
+      updateInvestment(investment.id, investmentData);
+    } else {
+      addInvestment(investmentData);
+    }
+
+    resetForm();
     setOpen(false);
     onSuccess?.();
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen && !editMode) resetForm();
+    }}>
       <DialogTrigger asChild>
-        <Button className="gap-2">
-          <Plus className="w-4 h-4" />
-          Novo Investimento
-        </Button>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button className="gap-2">
+            <Plus className="w-4 h-4" />
+            Novo Investimento
+          </Button>
+        )}
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Adicionar Investimento na Empresa</DialogTitle>
+          <DialogTitle>{editMode ? 'Editar Investimento' : 'Adicionar Investimento na Empresa'}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
@@ -97,27 +152,90 @@ export function InvestmentForm({ onSuccess }: InvestmentFormProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={category} onValueChange={setCategory} required>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a categoria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat} value={cat}>
+                      {cat}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as InvestmentStatus)} required>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(investmentStatusLabels) as InvestmentStatus[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {investmentStatusLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-2">
-            <Label>Categoria</Label>
-            <Select value={category} onValueChange={setCategory} required>
+            <Label htmlFor="supplier">Fornecedor</Label>
+            <Input
+              id="supplier"
+              placeholder="Opcional"
+              value={supplier}
+              onChange={(e) => setSupplier(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Fonte de Pagamento (Cliente)</Label>
+            <Select value={paymentSourceId} onValueChange={setPaymentSourceId}>
               <SelectTrigger>
-                <SelectValue placeholder="Selecione a categoria" />
+                <SelectValue placeholder="Selecione a fonte (opcional)" />
               </SelectTrigger>
               <SelectContent>
-                {categories.map((cat) => (
-                  <SelectItem key={cat} value={cat}>
-                    {cat}
+                {getSelectableClients(paymentSourceId).map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          <AccountSelect value={accountId} onChange={setAccountId} side="business" label="Conta de pagamento" />
+
+          {categoryLife > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="depreciationMonths">Vida útil (meses)</Label>
+              <Input
+                id="depreciationMonths"
+                type="number"
+                min="1"
+                step="1"
+                placeholder={String(categoryLife)}
+                value={depreciationMonths}
+                onChange={(e) => setDepreciationMonths(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Em branco usa a vida útil da categoria ({categoryLife} meses)
+              </p>
+            </div>
+          )}
+
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancelar
             </Button>
-            <Button type="submit">Adicionar</Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Adicionar'}</Button>
           </div>
         </form>
       </DialogContent>
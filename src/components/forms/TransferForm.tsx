@@ -0,0 +1,182 @@
+import { useState, useEffect } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ArrowLeftRight, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Transfer } from "@/types/finance";
+import { format } from "date-fns";
+import { accountTypeLabels, getSelectableAccounts } from "@/lib/accounts";
+
+interface TransferFormProps {
+  onSuccess?: () => void;
+  transfer?: Transfer; // For editing
+  editMode?: boolean;
+}
+
+export function TransferForm({ onSuccess, transfer, editMode = false }: TransferFormProps) {
+  const { accounts, addTransfer, updateTransfer } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState("");
+  const [description, setDescription] = useState("");
+
+  // Populate form when editing
+  useEffect(() => {
+    if (transfer && editMode) {
+      setFromAccountId(transfer.fromAccountId);
+      setToAccountId(transfer.toAccountId);
+      setAmount(transfer.amount.toString());
+      setDate(format(new Date(transfer.date), 'yyyy-MM-dd'));
+      setDescription(transfer.description || "");
+    }
+  }, [transfer, editMode]);
+
+  const resetForm = () => {
+    setFromAccountId("");
+    setToAccountId("");
+    setAmount("");
+    setDate("");
+    setDescription("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromAccountId || !toAccountId || !amount || !date) return;
+
+    if (fromAccountId === toAccountId) {
+      toast.error('Escolha contas de origem e destino diferentes');
+      return;
+    }
+    const parsedAmount = parseFloat(amount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+
+    const transferData = {
+      fromAccountId,
+      toAccountId,
+      amount: parsedAmount,
+      date: new Date(year, month - 1, day, 12, 0, 0),
+      description: description.trim() || undefined,
+    };
+
+    if (editMode && transfer) {
+      updateTransfer(transfer.id, transferData);
+    } else {
+      addTransfer(transferData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  const renderAccountSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange} required>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {getSelectableAccounts(accounts, value).map((account) => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name} • {accountTypeLabels[account.type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button className="gap-2" disabled={accounts.length < 2}>
+            <ArrowLeftRight className="w-4 h-4" />
+            Nova Transferência
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Transferência' : 'Transferir entre Contas'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>De</Label>
+              {renderAccountSelect(fromAccountId, setFromAccountId, "Origem")}
+            </div>
+            <div className="space-y-2">
+              <Label>Para</Label>
+              {renderAccountSelect(toAccountId, setToAccountId, "Destino")}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transferAmount">Valor (R$)</Label>
+              <Input
+                id="transferAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferDate">Data</Label>
+              <Input
+                id="transferDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transferDescription">Descrição</Label>
+            <Input
+              id="transferDescription"
+              placeholder="Opcional"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Para retirar o lucro da empresa, registre um saque na página Empresa
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit">{editMode ? 'Salvar' : 'Transferir'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
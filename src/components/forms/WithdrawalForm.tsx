@@ -0,0 +1,212 @@
+import { useState, useEffect, useMemo } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AccountSelect } from "@/components/AccountSelect";
+import { ArrowRightLeft, Pencil } from "lucide-react";
+import { Withdrawal } from "@/types/finance";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { getWithdrawalHistoryStart, getWithdrawalLimits } from "@/lib/withdrawals";
+
+interface WithdrawalFormProps {
+  onSuccess?: () => void;
+  withdrawal?: Withdrawal; // For editing
+  editMode?: boolean;
+}
+
+export function WithdrawalForm({ onSuccess, withdrawal, editMode = false }: WithdrawalFormProps) {
+  const {
+    addWithdrawal,
+    updateWithdrawal,
+    clients,
+    incomes,
+    withdrawals,
+    fiscalSettings,
+    getSelectableClients,
+    isPeriodLoaded,
+    loadPeriod,
+  } = useFinance();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState("");
+  const [amount, setAmount] = useState("");
+  const [sourceClientId, setSourceClientId] = useState("");
+  const [accountId, setAccountId] = useState("");
+  const [description, setDescription] = useState("");
+
+  const historyStart = useMemo(() => {
+    return getWithdrawalHistoryStart(withdrawals, clients, fiscalSettings?.openingDate);
+  }, [withdrawals, clients, fiscalSettings?.openingDate]);
+  const historyLoaded = isPeriodLoaded(historyStart, new Date());
+
+  // Revenue and withdrawals must cover the same period, or the limits come out too low
+  useEffect(() => {
+    if (open) loadPeriod(historyStart, new Date());
+  }, [open, historyStart, loadPeriod]);
+
+  const limits = useMemo(
+    () => getWithdrawalLimits(incomes, withdrawals, clients, withdrawal?.id),
+    [incomes, withdrawals, clients, withdrawal?.id]
+  );
+  const available = sourceClientId ? limits.clientLimits[sourceClientId] ?? limits.availableTotal : limits.availableTotal;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Populate form when editing
+  useEffect(() => {
+    if (withdrawal && editMode) {
+      setDate(format(new Date(withdrawal.date), 'yyyy-MM-dd'));
+      setAmount(withdrawal.amount.toString());
+      setSourceClientId(withdrawal.sourceClientId || "");
+      setAccountId(withdrawal.accountId || "");
+      setDescription(withdrawal.description || "");
+    }
+  }, [withdrawal, editMode]);
+
+  const resetForm = () => {
+    setDate(format(new Date(), 'yyyy-MM-dd'));
+    setAmount("");
+    setSourceClientId("");
+    setAccountId("");
+    setDescription("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || !date || !historyLoaded) return;
+
+    const parsedAmount = parseFloat(amount);
+    if (parsedAmount <= 0) {
+      toast.error('Informe um valor maior que zero');
+      return;
+    }
+    if (parsedAmount > limits.availableTotal) {
+      toast.error(`Saque excede o total disponível. Máximo: ${formatCurrency(limits.availableTotal)}`);
+      return;
+    }
+    if (sourceClientId && limits.clientLimits[sourceClientId] !== undefined && parsedAmount > limits.clientLimits[sourceClientId]) {
+      const clientName = clients.find(c => c.id === sourceClientId)?.name || 'Cliente';
+      toast.error(`Saque excede o disponível de ${clientName}. Máximo: ${formatCurrency(limits.clientLimits[sourceClientId])}`);
+      return;
+    }
+
+    // Parse date correctly to avoid timezone issues
+    const [year, month, day] = date.split('-').map(Number);
+
+    const withdrawalData = {
+      date: new Date(year, month - 1, day, 12, 0, 0),
+      amount: parsedAmount,
+      sourceClientId: sourceClientId || undefined,
+      accountId: accountId || undefined,
+      description: description.trim() || undefined,
+    };
+
+    if (editMode && withdrawal) {
+      updateWithdrawal(withdrawal.id, withdrawalData);
+    } else {
+      addWithdrawal(withdrawalData);
+    }
+
+    resetForm();
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (isOpen && !editMode) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        {editMode ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-primary">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" className="gap-2">
+            <ArrowRightLeft className="w-4 h-4" />
+            Novo Saque
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editMode ? 'Editar Saque' : 'Registrar Saque'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="withdrawalAmount">Valor (R$)</Label>
+              <Input
+                id="withdrawalAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                {historyLoaded ? `Disponível: ${formatCurrency(available)}` : 'Calculando o disponível...'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="withdrawalDate">Data</Label>
+              <Input
+                id="withdrawalDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Origem (Cliente)</Label>
+            <Select value={sourceClientId} onValueChange={setSourceClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o cliente (opcional)" />
+              </SelectTrigger>
+              <SelectContent>
+                {getSelectableClients(sourceClientId).map((client) => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <AccountSelect value={accountId} onChange={setAccountId} side="personal" label="Conta de destino" />
+
+          <div className="space-y-2">
+            <Label htmlFor="withdrawalDescription">Descrição</Label>
+            <Input
+              id="withdrawalDescription"
+              placeholder="Ex: Pró-labore, distribuição de lucros..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={!historyLoaded}>{editMode ? 'Salvar' : 'Adicionar'}</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,14 @@
-import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
-import { Client, Income, Expense, Investment, FinancialSummary, PaymentStatus } from '@/types/finance';
+import React, { createContext, useContext, useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Client, Income, Expense, Investment, FinancialSummary, FiscalSettings, PaymentStatus, RecurringExpense, RecurrenceRule, RecurrenceEditScope, CreditCard, CardPurchase, Account, Transfer, Withdrawal, Budget } from '@/types/finance';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { startOfMonth, endOfMonth, isWithinInterval, setMonth, setYear, getMonth, getYear, addMonths, isSameMonth, isSameYear, parseISO } from 'date-fns';
+import { getMissingOccurrences } from '@/lib/recurrence';
+import { buildDASExpense, getPendingDASCompetences } from '@/lib/das';
+import { isBeforeOpening } from '@/lib/meiLimit';
+import { getPaidAmount, getRemainingAmount } from '@/lib/expensePayments';
+import { getInvoiceSync } from '@/lib/creditCards';
+import { DEFAULT_ACCOUNTING_BASIS, getExpenseInMonth, getIncomeInMonth } from '@/lib/dre';
+import { WorkbookData, WorkbookImport, WorkbookRowError } from '@/lib/workbook';
+import { startOfMonth, endOfMonth, isWithinInterval, isSameMonth, format, addMonths } from 'date-fns';
 
 interface FinanceContextType {
   clients: Client[];
@@ -11,25 +18,85 @@ interface FinanceContextType {
   filteredIncomes: Income[];
   filteredExpenses: Expense[];
   filteredInvestments: Investment[];
+  filteredWithdrawals: Withdrawal[];
   selectedMonth: Date;
   loading: boolean;
+  isOnline: boolean;
+  pendingChanges: number;
+  syncing: boolean;
+  syncChanges: () => Promise<void>;
+  isPeriodLoaded: (from: Date, to: Date) => boolean;
+  loadPeriod: (from: Date, to: Date) => void;
   setSelectedMonth: (date: Date) => void;
   addClient: (client: Omit<Client, 'id' | 'createdAt'>) => void;
-  removeClient: (id: string) => void;
+  updateClient: (id: string, client: Partial<Omit<Client, 'id' | 'createdAt'>>) => void;
+  setClientArchived: (id: string, archived: boolean) => Promise<void>;
+  countClientRecords: (id: string) => Promise<number | null>;
+  reassignClientRecords: (fromId: string, toId: string) => Promise<boolean>;
+  removeClient: (id: string) => Promise<void>;
   addIncome: (income: Omit<Income, 'id' | 'createdAt'>) => void;
   updateIncome: (id: string, income: Partial<Omit<Income, 'id' | 'createdAt'>>) => void;
   removeIncome: (id: string) => void;
   addExpense: (expense: Omit<Expense, 'id' | 'createdAt'>) => void;
   updateExpense: (id: string, expense: Partial<Omit<Expense, 'id' | 'createdAt'>>) => void;
   updateExpenseStatus: (id: string, status: PaymentStatus, paymentSourceId?: string) => void;
+  addExpenseInstallments: (expense: Omit<Expense, 'id' | 'createdAt'>, count: number) => void;
   removeExpense: (id: string) => void;
+  recurringExpenses: RecurringExpense[];
+  addRecurringExpense: (
+    template: Omit<RecurringExpense, 'id' | 'createdAt' | 'excludedDates'>,
+    firstOccurrence: Pick<Expense, 'status' | 'paymentSourceId'>,
+    existingExpenseId?: string
+  ) => void;
+  updateRecurringExpense: (
+    occurrence: Expense,
+    updates: Omit<Expense, 'id' | 'createdAt'>,
+    rule: RecurrenceRule,
+    scope: RecurrenceEditScope
+  ) => void;
+  removeRecurringExpense: (occurrence: Expense, scope: RecurrenceEditScope) => void;
+  creditCards: CreditCard[];
+  addCreditCard: (card: Omit<CreditCard, 'id' | 'createdAt'>) => void;
+  updateCreditCard: (id: string, card: Partial<Omit<CreditCard, 'id' | 'createdAt'>>) => void;
+  removeCreditCard: (id: string) => void;
+  cardPurchases: CardPurchase[];
+  addCardPurchase: (purchase: Omit<CardPurchase, 'id' | 'createdAt'>) => void;
+  updateCardPurchase: (id: string, purchase: Partial<Omit<CardPurchase, 'id' | 'createdAt'>>) => void;
+  removeCardPurchase: (id: string) => void;
+  accounts: Account[];
+  addAccount: (account: Omit<Account, 'id' | 'createdAt'>) => void;
+  updateAccount: (id: string, account: Partial<Omit<Account, 'id' | 'createdAt'>>) => void;
+  removeAccount: (id: string) => void;
+  transfers: Transfer[];
+  addTransfer: (transfer: Omit<Transfer, 'id' | 'createdAt'>) => void;
+  updateTransfer: (id: string, transfer: Partial<Omit<Transfer, 'id' | 'createdAt'>>) => void;
+  removeTransfer: (id: string) => void;
+  withdrawals: Withdrawal[];
+  addWithdrawal: (withdrawal: Omit<Withdrawal, 'id' | 'createdAt'>) => void;
+  updateWithdrawal: (id: string, withdrawal: Partial<Omit<Withdrawal, 'id' | 'createdAt'>>) => void;
+  removeWithdrawal: (id: string) => void;
+  findLegacyWithdrawals: () => Promise<Expense[]>;
+  convertLegacyWithdrawals: (legacy: Expense[]) => Promise<number>;
+  budgets: Budget[];
+  addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => void;
+  updateBudget: (id: string, budget: Partial<Omit<Budget, 'id' | 'createdAt'>>) => void;
+  removeBudget: (id: string) => void;
+  addIncomes: (incomes: Omit<Income, 'id' | 'createdAt'>[]) => Promise<boolean>;
+  addExpenses: (expenses: Omit<Expense, 'id' | 'createdAt'>[]) => Promise<boolean>;
+  reconcileTransactions: (expenseDates: { id: string; paymentDate: Date }[], incomeDates: { id: string; paymentDate: Date }[]) => Promise<boolean>;
+  fetchAllRecords: () => Promise<WorkbookData>;
+  importWorkbook: (workbook: WorkbookImport) => Promise<{ saved: number; errors: WorkbookRowError[] }>;
+  fiscalSettings: FiscalSettings | null;
+  updateFiscalSettings: (updates: Partial<Omit<FiscalSettings, 'id'>>) => Promise<boolean>;
+  generateDAS: (competences: Date[]) => Promise<boolean>;
   addInvestment: (investment: Omit<Investment, 'id' | 'createdAt'>) => void;
+  updateInvestment: (id: string, investment: Partial<Omit<Investment, 'id' | 'createdAt'>>) => void;
   removeInvestment: (id: string) => void;
   getBusinessSummary: () => FinancialSummary;
   getPersonalSummary: () => FinancialSummary;
   getTotalSummary: () => FinancialSummary;
   getClientById: (id: string) => Client | undefined;
-  createFixedExpenseCopies: (originalExpense: Expense, monthsAhead: number) => void;
+  getSelectableClients: (selectedId?: string) => Client[];
 }
 
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
@@ -41,32 +108,8 @@ const isInMonth = (date: Date, monthDate: Date): boolean => {
   return isWithinInterval(new Date(date), { start, end });
 };
 
-// Helper function to find fixed expenses that should be copied to current month
-const findFixedExpensesToCopy = (expenses: Expense[], targetMonth: Date): Expense[] => {
-  const targetMonthStart = startOfMonth(targetMonth);
-  const targetMonthEnd = endOfMonth(targetMonth);
-  
-  return expenses.filter(expense => {
-    // Only consider fixed expenses from previous months
-    const expenseDate = new Date(expense.dueDate);
-    const expenseMonthStart = startOfMonth(expenseDate);
-    const expenseMonthEnd = endOfMonth(expenseDate);
-    
-    // Check if this is a fixed expense from a previous month
-    if (!expense.isFixed || !isWithinInterval(expenseMonthStart, { start: expenseMonthStart, end: expenseMonthEnd })) {
-      return false;
-    }
-    
-    // Check if we already have a copy of this expense in the target month
-    const existingCopy = expenses.some(existing => 
-      existing.isFixed && 
-      existing.category === expense.category && 
-      existing.description === expense.description &&
-      isInMonth(existing.dueDate, targetMonth)
-    );
-    
-    return !existingCopy;
-  });
+const getOccurrenceKey = (occurrence: Pick<Expense, 'recurringExpenseId' | 'occurrenceDate'>): string => {
+  return `${occurrence.recurringExpenseId}:${format(occurrence.occurrenceDate, 'yyyy-MM-dd')}`;
 };
 
 export function FinanceProvider({ children }: { children: React.ReactNode }) {
@@ -78,7 +121,17 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
     expenses,
     investments,
     loading,
+    isOnline,
+    pendingChanges,
+    syncing,
+    syncChanges,
+    isPeriodLoaded,
+    loadPeriod,
     addClient,
+    updateClient,
+    setClientArchived,
+    countClientRecords,
+    reassignClientRecords,
     removeClient,
     addIncome,
     updateIncome,
@@ -86,34 +139,119 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
     addExpense,
     updateExpense,
     updateExpenseStatus,
+    addExpenseInstallments,
     removeExpense,
+    recurringExpenses,
+    addRecurringExpense,
+    materializeOccurrences,
+    updateRecurringExpense,
+    removeRecurringExpense,
+    creditCards,
+    addCreditCard,
+    updateCreditCard,
+    removeCreditCard,
+    cardPurchases,
+    addCardPurchase,
+    updateCardPurchase,
+    removeCardPurchase,
+    syncCardInvoices,
+    accounts,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    transfers,
+    addTransfer,
+    updateTransfer,
+    removeTransfer,
+    withdrawals,
+    addWithdrawal,
+    updateWithdrawal,
+    removeWithdrawal,
+    findLegacyWithdrawals,
+    convertLegacyWithdrawals,
+    budgets,
+    addBudget,
+    updateBudget,
+    removeBudget,
+    addIncomes,
+    addExpenses,
+    reconcileTransactions,
+    fetchAllRecords,
+    importWorkbook,
+    fiscalSettings,
+    updateFiscalSettings,
     addInvestment,
+    updateInvestment,
     removeInvestment,
-  } = useSupabaseData();
+  } = useSupabaseData(selectedMonth);
 
-  // Function to create copies of fixed expenses for future months
-  const createFixedExpenseCopies = useCallback((originalExpense: Expense, monthsAhead: number) => {
-    const copies: Expense[] = [];
-    
-    for (let i = 1; i <= monthsAhead; i++) {
-      const copyDate = addMonths(new Date(originalExpense.dueDate), i);
-      
-      const copy: Expense = {
-        ...originalExpense,
-        id: `${originalExpense.id}_copy_${i}`, // Generate unique ID for each copy
-        dueDate: copyDate,
-        createdAt: new Date(),
-        // Reset status for new copies
-        status: 'unpaid',
-        paymentSourceId: undefined,
-      };
-      
-      copies.push(copy);
+  // Occurrences currently being inserted, so re-renders don't materialize them twice
+  const materializing = useRef(new Set<string>());
+
+  // Materialize the fixed expenses that fall in the selected month
+  useEffect(() => {
+    if (loading || !isPeriodLoaded(selectedMonth, selectedMonth)) return;
+
+    const missing = getMissingOccurrences(recurringExpenses, expenses, selectedMonth)
+      .filter(occurrence => !materializing.current.has(getOccurrenceKey(occurrence)));
+    if (missing.length === 0) return;
+
+    const keys = missing.map(getOccurrenceKey);
+    keys.forEach(key => materializing.current.add(key));
+    materializeOccurrences(missing).finally(() => {
+      keys.forEach(key => materializing.current.delete(key));
+    });
+  }, [loading, isPeriodLoaded, recurringExpenses, expenses, selectedMonth, materializeOccurrences]);
+
+  const syncingInvoices = useRef(false);
+
+  // Keep the card invoices due in the selected month in line with the purchases
+  useEffect(() => {
+    if (loading || syncingInvoices.current || !isPeriodLoaded(selectedMonth, selectedMonth)) return;
+
+    const sync = getInvoiceSync(creditCards, cardPurchases, expenses, selectedMonth);
+    if (sync.create.length === 0 && sync.update.length === 0 && sync.remove.length === 0) return;
+
+    syncingInvoices.current = true;
+    syncCardInvoices(sync).finally(() => {
+      syncingInvoices.current = false;
+    });
+  }, [loading, isPeriodLoaded, creditCards, cardPurchases, expenses, selectedMonth, syncCardInvoices]);
+
+  const generateDAS = useCallback(async (competences: Date[]) => {
+    if (!fiscalSettings?.activityType) return false;
+    return addExpenses(competences.map(competence => buildDASExpense(competence, fiscalSettings.activityType)));
+  }, [fiscalSettings, addExpenses]);
+
+  const generatingDAS = useRef(false);
+
+  // Generate the DAS-MEI guides up to the current month; guides removed by the user are not recreated
+  useEffect(() => {
+    if (loading || !fiscalSettings?.activityType || generatingDAS.current) return;
+
+    const competences = getPendingDASCompetences(fiscalSettings);
+    if (competences.length === 0) return;
+
+    // Guides are due the month after their competence, so that month must be loaded too
+    const from = competences[0];
+    const to = addMonths(competences[competences.length - 1], 1);
+    if (!isPeriodLoaded(from, to)) {
+      loadPeriod(from, to);
+      return;
     }
-    
-    // Add all copies at once
-    copies.forEach(copy => addExpense(copy));
-  }, [addExpense]);
+
+    const missing = competences.filter(competence =>
+      !isBeforeOpening(fiscalSettings, competence) &&
+      !expenses.some(e => e.dasCompetence && isSameMonth(e.dasCompetence, competence))
+    );
+
+    generatingDAS.current = true;
+    generateDAS(missing)
+      .then(ok => ok && updateFiscalSettings({ dasGeneratedUntil: competences[competences.length - 1] }))
+      .finally(() => {
+        generatingDAS.current = false;
+      });
+  }, [loading, fiscalSettings, expenses, isPeriodLoaded, loadPeriod, generateDAS, updateFiscalSettings]);
 
   // Filtered data by selected month
   const filteredIncomes = useMemo(() => {
@@ -121,54 +259,52 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
   }, [incomes, selectedMonth]);
 
   const filteredExpenses = useMemo(() => {
-    // First get expenses for the current month
-    let monthExpenses = expenses.filter(expense => isInMonth(expense.dueDate, selectedMonth));
-    
-    // Check if we need to create copies of fixed expenses
-    const fixedExpensesToCopy = findFixedExpensesToCopy(expenses, selectedMonth);
-    
-    if (fixedExpensesToCopy.length > 0) {
-      // For development/demo purposes, we'll just show the existing expenses
-      // In a real app, you might want to automatically create these copies
-      // For now, we'll just log what would be copied
-      console.log(`Would copy ${fixedExpensesToCopy.length} fixed expenses to ${selectedMonth.toLocaleDateString()}`);
-    }
-    
-    return monthExpenses;
+    return expenses.filter(expense => isInMonth(expense.dueDate, selectedMonth));
   }, [expenses, selectedMonth]);
 
   const filteredInvestments = useMemo(() => {
     return investments.filter(investment => isInMonth(investment.date, selectedMonth));
   }, [investments, selectedMonth]);
 
+  const filteredWithdrawals = useMemo(() => {
+    return withdrawals.filter(withdrawal => isInMonth(withdrawal.date, selectedMonth));
+  }, [withdrawals, selectedMonth]);
+
   const getClientById = useCallback((id: string) => {
     return clients.find(c => c.id === id);
   }, [clients]);
 
+  // Clients offered in selects: archived ones only when already selected in the record
+  const getSelectableClients = useCallback((selectedId?: string) => {
+    return clients.filter(c => !c.archived || c.id === selectedId);
+  }, [clients]);
+
   const calculateSummary = useCallback((type?: 'business' | 'personal'): FinancialSummary => {
-    const today = new Date();
     const typeFilteredExpenses = type 
       ? filteredExpenses.filter(e => e.type === type)
       : filteredExpenses;
 
-    // Total recebido: apenas receitas com data de pagamento <= hoje
-    const totalIncome = type === 'personal' ? 0 : filteredIncomes
-      .filter(i => new Date(i.paymentDate) <= today)
+    // Receita e despesas do mês seguem o regime escolhido para a DRE
+    const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+    const typeExpenses = type ? expenses.filter(e => e.type === type) : expenses;
+    const totalIncome = type === 'personal' ? 0 : incomes
+      .reduce((sum, i) => sum + getIncomeInMonth(i, basis, selectedMonth), 0);
+    const totalExpenses = typeExpenses.reduce((sum, e) => sum + getExpenseInMonth(e, basis, selectedMonth), 0);
+    const totalInvestments = type === 'personal' ? 0 : filteredInvestments
+      .filter(i => i.status === 'executed')
       .reduce((sum, i) => sum + i.amount, 0);
-    const totalExpenses = typeFilteredExpenses.reduce((sum, e) => sum + e.amount, 0);
-    const totalInvestments = type === 'personal' ? 0 : filteredInvestments.reduce((sum, i) => sum + i.amount, 0);
     
+    // Pago: o que já saiu de fato, inclusive pagamentos parciais; o restante fica a pagar ou guardado
     const paidExpenses = typeFilteredExpenses
-      .filter(e => e.status === 'paid')
-      .reduce((sum, e) => sum + e.amount, 0);
+      .reduce((sum, e) => sum + getPaidAmount(e), 0);
     
     const unpaidExpenses = typeFilteredExpenses
-      .filter(e => e.status === 'unpaid')
-      .reduce((sum, e) => sum + e.amount, 0);
+      .filter(e => e.status !== 'saved')
+      .reduce((sum, e) => sum + getRemainingAmount(e), 0);
     
     const savedExpenses = typeFilteredExpenses
       .filter(e => e.status === 'saved')
-      .reduce((sum, e) => sum + e.amount, 0);
+      .reduce((sum, e) => sum + getRemainingAmount(e), 0);
 
     // Calculate expenses by payment source
     const expensesBySource: Record<string, number> = {};
@@ -178,23 +314,24 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
       }
     });
 
-    // Saques são despesas empresariais com categoria "Saque"
-    const totalWithdrawals = filteredExpenses
-      .filter(e => e.type === 'business' && e.category === 'Saque' && e.status === 'paid')
-      .reduce((sum, e) => sum + e.amount, 0);
+    // Saques são registros próprios: distribuição de lucro, não despesa da empresa
+    const totalWithdrawals = filteredWithdrawals.reduce((sum, w) => sum + w.amount, 0);
+
+    // Os saldos são sempre de caixa, em qualquer regime: só o que entrou e saiu de fato no mês
+    const receivedIncome = type === 'personal' ? 0 : incomes
+      .reduce((sum, i) => sum + getIncomeInMonth(i, 'cash', selectedMonth), 0);
+    const cashPaid = (expenseType?: 'business' | 'personal') => expenses
+      .filter(e => !expenseType || e.type === expenseType)
+      .reduce((sum, e) => sum + getExpenseInMonth(e, 'cash', selectedMonth), 0);
 
-    // Despesas empresariais PAGAS SEM contar os saques
-    const businessExpensesWithoutWithdrawals = filteredExpenses
-      .filter(e => e.type === 'business' && e.category !== 'Saque' && e.status === 'paid')
-      .reduce((sum, e) => sum + e.amount, 0);
+    // Despesas empresariais pagas
+    const businessPaidExpenses = cashPaid('business');
     
     // Despesas pessoais pagas
-    const personalPaidExpenses = filteredExpenses
-      .filter(e => e.type === 'personal' && e.status === 'paid')
-      .reduce((sum, e) => sum + e.amount, 0);
+    const personalPaidExpenses = cashPaid('personal');
 
-    // Caixa empresa = Receita - Despesas empresa (incluindo saques) - Investimentos
-    const businessBalance = totalIncome - businessExpensesWithoutWithdrawals - totalWithdrawals - totalInvestments;
+    // Caixa empresa = Receita recebida - Despesas empresa pagas - Saques - Investimentos
+    const businessBalance = receivedIncome - businessPaidExpenses - totalWithdrawals - totalInvestments;
     
     // Disponível pessoal = Saques - Despesas pessoais pagas
     const personalBalance = totalWithdrawals - personalPaidExpenses;
@@ -206,14 +343,14 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
       paidExpenses,
       unpaidExpenses,
       savedExpenses,
-      availableBalance: totalIncome - paidExpenses - totalInvestments,
+      availableBalance: receivedIncome - cashPaid(type) - totalInvestments,
       businessBalance,
       personalBalance,
       totalWithdrawals,
       personalPaidExpenses,
       expensesBySource,
     };
-  }, [filteredIncomes, filteredExpenses, filteredInvestments]);
+  }, [incomes, expenses, filteredExpenses, filteredInvestments, filteredWithdrawals, fiscalSettings?.accountingBasis, selectedMonth]);
 
   const getBusinessSummary = useCallback(() => calculateSummary('business'), [calculateSummary]);
   const getPersonalSummary = useCallback(() => calculateSummary('personal'), [calculateSummary]);
@@ -228,10 +365,21 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
       filteredIncomes,
       filteredExpenses,
       filteredInvestments,
+      filteredWithdrawals,
       selectedMonth,
       loading,
+      isOnline,
+      pendingChanges,
+      syncing,
+      syncChanges,
+      isPeriodLoaded,
+      loadPeriod,
       setSelectedMonth,
       addClient,
+      updateClient,
+      setClientArchived,
+      countClientRecords,
+    reassignClientRecords,
       removeClient,
       addIncome,
       updateIncome,
@@ -239,14 +387,54 @@ export function FinanceProvider({ children }: { children: React.ReactNode }) {
       addExpense,
       updateExpense,
       updateExpenseStatus,
+      addExpenseInstallments,
       removeExpense,
+      recurringExpenses,
+      addRecurringExpense,
+      updateRecurringExpense,
+      removeRecurringExpense,
+      creditCards,
+      addCreditCard,
+      updateCreditCard,
+      removeCreditCard,
+      cardPurchases,
+      addCardPurchase,
+      updateCardPurchase,
+      removeCardPurchase,
+      accounts,
+      addAccount,
+      updateAccount,
+      removeAccount,
+      transfers,
+      addTransfer,
+      updateTransfer,
+      removeTransfer,
+      withdrawals,
+      addWithdrawal,
+      updateWithdrawal,
+      removeWithdrawal,
+      findLegacyWithdrawals,
+      convertLegacyWithdrawals,
+      budgets,
+      addBudget,
+      updateBudget,
+      removeBudget,
+      addIncomes,
+      addExpenses,
+      reconcileTransactions,
+      fetchAllRecords,
+      importWorkbook,
+      fiscalSettings,
+      updateFiscalSettings,
+      generateDAS,
       addInvestment,
+      updateInvestment,
       removeInvestment,
       getBusinessSummary,
       getPersonalSummary,
       getTotalSummary,
       getClientById,
-      createFixedExpenseCopies,
+      getSelectableClients,
     }}>
       {children}
     </FinanceContext.Provider>
@@ -1,91 +1,343 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { UseQueryResult, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { Client, Income, Expense, Investment, PaymentStatus } from '@/types/finance';
+import { useAuth } from '@/contexts/AuthContext';
+import { Client, Income, Expense, Investment, PaymentStatus, FiscalSettings, RecurringExpense, RecurrenceRule, RecurrenceEditScope, CreditCard, CardPurchase, Account, Transfer, Withdrawal, Budget } from '@/types/finance';
+import { getOccurrenceDate, getOccurrenceInMonth, splitRule } from '@/lib/recurrence';
+import { withPayments } from '@/lib/receivables';
+import { buildInstallments, withStatus } from '@/lib/expensePayments';
+import { InvoiceSync } from '@/lib/creditCards';
+import { buildLegacyWithdrawals, canConvertLegacyWithdrawal } from '@/lib/withdrawals';
+import {
+  WorkbookData,
+  WorkbookImport,
+  WorkbookRow,
+  WorkbookRowError,
+  WorkbookSheet,
+  completeClient,
+  completeExpense,
+  completeIncome,
+  completeInvestment,
+} from '@/lib/workbook';
+import {
+  FinanceEntity,
+  PagedEntity,
+  clientRepository,
+  expenseRepository,
+  fetchFiscalSettings,
+  fetchRecurringExpenses,
+  fetchCreditCards,
+  fetchCardPurchases,
+  fetchAccounts,
+  fetchTransfers,
+  fetchWithdrawals,
+  fetchLegacyWithdrawals,
+  fetchBudgets,
+  financeKeys,
+  getKeyRange,
+  getYearRange,
+  incomeRepository,
+  investmentRepository,
+  isRecordInRange,
+  countAccountReferences,
+  countClientReferences,
+  reassignClient,
+  removeSeries,
+  removeSeriesOccurrences,
+  syncSeries,
+  toFiscalSettings,
+  toFiscalSettingsRow,
+  toRecurringExpense,
+  toRecurringExpenseRow,
+  toCreditCard,
+  toCreditCardRow,
+  toCardPurchase,
+  toCardPurchaseRow,
+  toAccount,
+  toAccountRow,
+  toTransfer,
+  toTransferRow,
+  toWithdrawal,
+  toWithdrawalRow,
+  toBudget,
+  toBudgetRow,
+} from '@/lib/financeRepository';
+import { subscribeToQueue } from '@/lib/offlineStore';
+import { WriteResult, syncPendingMutations } from '@/lib/syncEngine';
+import { startOfDay } from 'date-fns';
 import { toast } from 'sonner';
 
-// Convert database row to Client
-const toClient = (row: any): Client => ({
-  id: row.id,
-  name: row.name,
-  createdAt: new Date(row.created_at),
-});
+const isOnOrAfter = (date: Date, reference: Date) => startOfDay(date) >= startOfDay(reference);
 
-// Convert database row to Income
-const toIncome = (row: any): Income => ({
-  id: row.id,
-  description: row.description,
-  amount: Number(row.amount),
-  clientId: row.client_id || '',
-  paymentDate: new Date(row.payment_date),
-  category: row.category,
-  createdAt: new Date(row.created_at),
-});
+// Data is refetched on focus only after this long, instead of on every tab switch
+const STALE_TIME = 5 * 60 * 1000;
 
-// Convert database row to Expense
-const toExpense = (row: any): Expense => ({
-  id: row.id,
-  description: row.description,
-  amount: Number(row.amount),
-  category: row.category,
-  dueDate: new Date(row.due_date),
-  status: row.status as PaymentStatus,
-  paymentSourceId: row.payment_source_id || undefined,
-  type: row.type as 'business' | 'personal',
-  isFixed: row.is_fixed,
-  createdAt: new Date(row.created_at),
-});
+// Rows written per request when importing a spreadsheet
+const IMPORT_BATCH_SIZE = 50;
 
-// Convert database row to Investment
-const toInvestment = (row: any): Investment => ({
-  id: row.id,
-  description: row.description,
-  amount: Number(row.amount),
-  category: row.category,
-  date: new Date(row.date),
-  createdAt: new Date(row.created_at),
+interface UpsertRepository<T, Input> {
+  createWithIds: (userId: string, inputs: (Input & { id?: string })[]) => Promise<WriteResult<T[]>>;
+  update: (userId: string, id: string, updates: Partial<Input>) => Promise<WriteResult<T>>;
+}
+
+const combinePages = <T,>(results: UseQueryResult<T[]>[]) => ({
+  data: results.flatMap(result => result.data ?? []),
+  loaded: results.map(result => result.data !== undefined),
+  loading: results.some(result => result.isLoading),
+  error: results.find(result => result.error)?.error,
 });
 
-export function useSupabaseData() {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [incomes, setIncomes] = useState<Income[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [investments, setInvestments] = useState<Investment[]>([]);
-  const [loading, setLoading] = useState(true);
+// Keeps the selected month's year loaded, plus the current and previous years used by the
+// limit alert and charts; older years are loaded on demand with `loadPeriod`
+export function useSupabaseData(selectedMonth: Date) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [requestedYears, setRequestedYears] = useState<number[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncing, setSyncing] = useState(false);
 
-  // Fetch all data
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-    try {
-      const [clientsRes, incomesRes, expensesRes, investmentsRes] = await Promise.all([
-        supabase.from('clients').select('*').order('created_at', { ascending: false }),
-        supabase.from('incomes').select('*').order('payment_date', { ascending: false }),
-        supabase.from('expenses').select('*').order('due_date', { ascending: false }),
-        supabase.from('investments').select('*').order('date', { ascending: false }),
-      ]);
+  const selectedYear = selectedMonth.getFullYear();
+  const years = useMemo(() => {
+    const currentYear = new Date().getFullYear();
+    const all = new Set([currentYear - 1, currentYear, selectedYear, ...requestedYears]);
+    return Array.from(all).sort((a, b) => b - a);
+  }, [selectedYear, requestedYears]);
+
+  const pageQueries = <T,>(entity: PagedEntity, list: (userId: string, year: number) => Promise<T[]>) => ({
+    queries: years.map(year => ({
+      queryKey: financeKeys.page(userId, entity, getYearRange(year)),
+      queryFn: () => list(userId, year),
+      enabled: !!userId,
+      staleTime: STALE_TIME,
+      // The repository serves the offline cache itself, so queries must also run offline
+      networkMode: 'always' as const,
+    })),
+    combine: combinePages<T>,
+  });
+
+  const clientsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'clients'),
+    queryFn: () => clientRepository.list(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+    networkMode: 'always',
+  });
+  const incomePages = useQueries(pageQueries('incomes', (id, year) => incomeRepository.list(id, getYearRange(year))));
+  const expensePages = useQueries(pageQueries('expenses', (id, year) => expenseRepository.list(id, getYearRange(year))));
+  const investmentPages = useQueries(pageQueries('investments', (id, year) => investmentRepository.list(id, getYearRange(year))));
+  const recurringQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'recurringExpenses'),
+    queryFn: () => fetchRecurringExpenses(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const creditCardsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'creditCards'),
+    queryFn: () => fetchCreditCards(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const cardPurchasesQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'cardPurchases'),
+    queryFn: () => fetchCardPurchases(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const accountsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'accounts'),
+    queryFn: () => fetchAccounts(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const transfersQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'transfers'),
+    queryFn: () => fetchTransfers(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const withdrawalsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'withdrawals'),
+    queryFn: () => fetchWithdrawals(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const budgetsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'budgets'),
+    queryFn: () => fetchBudgets(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+  const settingsQuery = useQuery({
+    queryKey: financeKeys.entity(userId, 'fiscalSettings'),
+    queryFn: () => fetchFiscalSettings(userId),
+    enabled: !!userId,
+    staleTime: STALE_TIME,
+  });
+
+  const clients = useMemo(() => clientsQuery.data ?? [], [clientsQuery.data]);
+  const incomes = incomePages.data;
+  const expenses = expensePages.data;
+  const investments = investmentPages.data;
+  const recurringExpenses = useMemo(() => recurringQuery.data ?? [], [recurringQuery.data]);
+  const creditCards = useMemo(() => creditCardsQuery.data ?? [], [creditCardsQuery.data]);
+  const cardPurchases = useMemo(() => cardPurchasesQuery.data ?? [], [cardPurchasesQuery.data]);
+  const accounts = useMemo(() => accountsQuery.data ?? [], [accountsQuery.data]);
+  const transfers = useMemo(() => transfersQuery.data ?? [], [transfersQuery.data]);
+  const withdrawals = useMemo(() => withdrawalsQuery.data ?? [], [withdrawalsQuery.data]);
+  const budgets = useMemo(() => budgetsQuery.data ?? [], [budgetsQuery.data]);
+  const fiscalSettings = settingsQuery.data ?? null;
+  const loading = clientsQuery.isLoading || incomePages.loading || expensePages.loading ||
+    investmentPages.loading || recurringQuery.isLoading || settingsQuery.isLoading ||
+    creditCardsQuery.isLoading || cardPurchasesQuery.isLoading || accountsQuery.isLoading || transfersQuery.isLoading || withdrawalsQuery.isLoading ||
+    budgetsQuery.isLoading;
+
+  const loadError = clientsQuery.error || incomePages.error || expensePages.error ||
+    investmentPages.error || recurringQuery.error || settingsQuery.error ||
+    creditCardsQuery.error || cardPurchasesQuery.error || accountsQuery.error || transfersQuery.error || withdrawalsQuery.error ||
+    budgetsQuery.error;
+
+  useEffect(() => {
+    if (!loadError) return;
+    console.error('Error fetching data:', loadError);
+    toast.error('Erro ao carregar dados do sistema');
+  }, [loadError]);
+
+  // PAGES
+  // Whether every record dated between `from` and `to` is in memory
+  const isPeriodLoaded = useCallback((from: Date, to: Date) => {
+    for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+      const index = years.indexOf(year);
+      if (index < 0 || !incomePages.loaded[index] || !expensePages.loaded[index] || !investmentPages.loaded[index]) {
+        return false;
+      }
+    }
+    return true;
+  }, [years, incomePages.loaded, expensePages.loaded, investmentPages.loaded]);
+
+  const loadPeriod = useCallback((from: Date, to: Date) => {
+    const missing: number[] = [];
+    for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+      if (!years.includes(year)) missing.push(year);
+    }
+    if (missing.length > 0) setRequestedYears(prev => [...prev, ...missing]);
+  }, [years]);
+
+  // Applies a change to every loaded page of an entity, keeping each record in the page of
+  // its date, and invalidates the pages that changed so they are refetched from the server
+  const updatePages = useCallback(<T extends { id: string }>(entity: FinanceEntity, updater: (prev: T[]) => T[]) => {
+    queryClient.getQueriesData<T[]>({ queryKey: financeKeys.entity(userId, entity) }).forEach(([queryKey, data]) => {
+      if (!data) return;
+      const range = getKeyRange(queryKey);
+      const next = updater(data).filter(record =>
+        !range || isRecordInRange(entity as PagedEntity, record as unknown as Income | Expense | Investment, range)
+      );
+      if (next.length === data.length && next.every((record, index) => record === data[index])) return;
+
+      queryClient.setQueryData(queryKey, next);
+      queryClient.invalidateQueries({ queryKey, exact: true });
+    });
+  }, [queryClient, userId]);
+
+  const setClients = useCallback((updater: (prev: Client[]) => Client[]) => updatePages('clients', updater), [updatePages]);
+  const setIncomes = useCallback((updater: (prev: Income[]) => Income[]) => updatePages('incomes', updater), [updatePages]);
+  const setExpenses = useCallback((updater: (prev: Expense[]) => Expense[]) => updatePages('expenses', updater), [updatePages]);
+  const setInvestments = useCallback((updater: (prev: Investment[]) => Investment[]) => updatePages('investments', updater), [updatePages]);
+
+  const setRecurringExpenses = useCallback((updater: (prev: RecurringExpense[]) => RecurringExpense[]) => {
+    queryClient.setQueryData<RecurringExpense[]>(financeKeys.entity(userId, 'recurringExpenses'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setCreditCards = useCallback((updater: (prev: CreditCard[]) => CreditCard[]) => {
+    queryClient.setQueryData<CreditCard[]>(financeKeys.entity(userId, 'creditCards'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setCardPurchases = useCallback((updater: (prev: CardPurchase[]) => CardPurchase[]) => {
+    queryClient.setQueryData<CardPurchase[]>(financeKeys.entity(userId, 'cardPurchases'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
 
-      if (clientsRes.data) setClients(clientsRes.data.map(toClient));
-      if (incomesRes.data) setIncomes(incomesRes.data.map(toIncome));
-      if (expensesRes.data) setExpenses(expensesRes.data.map(toExpense));
-      if (investmentsRes.data) setInvestments(investmentsRes.data.map(toInvestment));
+  const setAccounts = useCallback((updater: (prev: Account[]) => Account[]) => {
+    queryClient.setQueryData<Account[]>(financeKeys.entity(userId, 'accounts'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setTransfers = useCallback((updater: (prev: Transfer[]) => Transfer[]) => {
+    queryClient.setQueryData<Transfer[]>(financeKeys.entity(userId, 'transfers'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setWithdrawals = useCallback((updater: (prev: Withdrawal[]) => Withdrawal[]) => {
+    queryClient.setQueryData<Withdrawal[]>(financeKeys.entity(userId, 'withdrawals'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setBudgets = useCallback((updater: (prev: Budget[]) => Budget[]) => {
+    queryClient.setQueryData<Budget[]>(financeKeys.entity(userId, 'budgets'), prev => updater(prev ?? []));
+  }, [queryClient, userId]);
+
+  const setFiscalSettings = useCallback((settings: FiscalSettings) => {
+    queryClient.setQueryData(financeKeys.entity(userId, 'fiscalSettings'), settings);
+  }, [queryClient, userId]);
+
+  const refetch = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: financeKeys.all(userId) });
+  }, [queryClient, userId]);
+
+  // OFFLINE SYNC
+  // Replays the writes made offline and reloads the data once they reach the server
+  const syncChanges = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    setSyncing(true);
+    try {
+      const { synced, conflicts, rejected } = await syncPendingMutations();
+      if (conflicts.length > 0) {
+        toast.warning(conflicts.length === 1
+          ? '1 alteração feita offline foi descartada: o registro foi alterado em outro dispositivo'
+          : `${conflicts.length} alterações feitas offline foram descartadas: os registros foram alterados em outro dispositivo`
+        );
+      }
+      if (rejected.length > 0) {
+        toast.error(rejected.length === 1
+          ? 'Erro ao salvar 1 alteração feita offline'
+          : `Erro ao salvar ${rejected.length} alterações feitas offline`
+        );
+      }
+      if (synced > 0) {
+        toast.success(synced === 1 ? '1 alteração offline sincronizada' : `${synced} alterações offline sincronizadas`);
+      }
+      if (synced + conflicts.length + rejected.length > 0) {
+        await refetch();
+      }
     } catch (error) {
-      console.error('Error fetching data:', error);
-      toast.error('Erro ao carregar dados do sistema');
+      console.error('Error syncing offline changes:', error);
     } finally {
-      setLoading(false);
+      setSyncing(false);
     }
-  }, []);
+  }, [refetch]);
+
+  useEffect(() => {
+    if (userId) syncChanges();
+  }, [userId, syncChanges]);
+
+  useEffect(() => subscribeToQueue(setPendingChanges), []);
 
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncChanges();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncChanges]);
 
   // CLIENTS
   const addClient = useCallback(async (client: Omit<Client, 'id' | 'createdAt'>) => {
-    const { data, error } = await supabase
-      .from('clients')
-      .insert({ name: client.name })
-      .select()
-      .single();
+    const { data, error } = await clientRepository.create(userId, [client]);
     
     if (error) {
       console.error('Error adding client:', error);
@@ -93,13 +345,88 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setClients(prev => [toClient(data), ...prev]);
+      setClients(prev => [data[0], ...prev]);
       toast.success('Cliente adicionado com sucesso!');
     }
-  }, []);
+  }, [userId, setClients]);
+
+  const updateClient = useCallback(async (id: string, updates: Partial<Omit<Client, 'id' | 'createdAt'>>) => {
+    const { data, error } = await clientRepository.update(userId, id, updates);
+
+    if (error) {
+      console.error('Error updating client:', error);
+      toast.error('Erro ao atualizar cliente');
+      return;
+    }
+    if (data) {
+      setClients(prev => prev.map(c => c.id === id ? data : c));
+      toast.success('Cliente atualizado com sucesso!');
+    }
+  }, [userId, setClients]);
 
+  // Archived clients keep their history but are no longer offered in the forms
+  const setClientArchived = useCallback(async (id: string, archived: boolean) => {
+    const { data, error } = await clientRepository.update(userId, id, { archived });
+
+    if (error) {
+      console.error('Error archiving client:', error);
+      toast.error(archived ? 'Erro ao arquivar cliente' : 'Erro ao reativar cliente');
+      return;
+    }
+    if (data) {
+      setClients(prev => prev.map(c => c.id === id ? data : c));
+      toast.success(archived ? 'Cliente arquivado com sucesso!' : 'Cliente reativado com sucesso!');
+    }
+  }, [userId, setClients]);
+
+  // Points every record of a client to another one, so it can be deleted without leaving
+  // incomes and payment sources pointing to nothing. Runs on the server over the whole history
+  const reassignClientRecords = useCallback(async (fromId: string, toId: string): Promise<boolean> => {
+    if (!navigator.onLine) {
+      toast.error('Conecte-se à internet para transferir os registros do cliente');
+      return false;
+    }
+
+    try {
+      await reassignClient(userId, fromId, toId);
+      return true;
+    } catch (error) {
+      console.error('Error reassigning client records:', error);
+      toast.error('Erro ao transferir os registros do cliente');
+      return false;
+    } finally {
+      // Also brings in the records moved before a failure
+      await refetch();
+    }
+  }, [userId, refetch]);
+
+  // Records of every year, including the ones that were never loaded; null when the count fails
+  const countClientRecords = useCallback(async (id: string): Promise<number | null> => {
+    try {
+      return await countClientReferences(userId, id);
+    } catch (error) {
+      console.error('Error counting client records:', error);
+      toast.error('Erro ao verificar os registros do cliente');
+      return null;
+    }
+  }, [userId]);
+
+  // A client with records would leave them pointing at nothing: they must be moved first
   const removeClient = useCallback(async (id: string) => {
-    const { error } = await supabase.from('clients').delete().eq('id', id);
+    let inUse: boolean;
+    try {
+      inUse = await countClientReferences(userId, id) > 0;
+    } catch (error) {
+      console.error('Error checking client records:', error);
+      toast.error('Erro ao remover cliente');
+      return;
+    }
+    if (inUse) {
+      toast.error('O cliente possui registros. Transfira-os ou arquive o cliente em vez de excluir.');
+      return;
+    }
+
+    const { error } = await clientRepository.remove(userId, id);
     if (error) {
       console.error('Error removing client:', error);
       toast.error('Erro ao remover cliente');
@@ -107,21 +434,11 @@ export function useSupabaseData() {
     }
     setClients(prev => prev.filter(c => c.id !== id));
     toast.success('Cliente removido com sucesso!');
-  }, []);
+  }, [userId, setClients]);
 
   // INCOMES
   const addIncome = useCallback(async (income: Omit<Income, 'id' | 'createdAt'>) => {
-    const { data, error } = await supabase
-      .from('incomes')
-      .insert({
-        description: income.description,
-        amount: income.amount,
-        client_id: income.clientId || null,
-        payment_date: income.paymentDate.toISOString().split('T')[0],
-        category: income.category,
-      })
-      .select()
-      .single();
+    const { data, error } = await incomeRepository.create(userId, [income]);
     
     if (error) {
       console.error('Error adding income:', error);
@@ -129,25 +446,13 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setIncomes(prev => [toIncome(data), ...prev]);
+      setIncomes(prev => [data[0], ...prev]);
       toast.success('Receita adicionada com sucesso!');
     }
-  }, []);
+  }, [userId, setIncomes]);
 
   const updateIncome = useCallback(async (id: string, updates: Partial<Omit<Income, 'id' | 'createdAt'>>) => {
-    const updateData: any = {};
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.amount !== undefined) updateData.amount = updates.amount;
-    if (updates.clientId !== undefined) updateData.client_id = updates.clientId || null;
-    if (updates.paymentDate !== undefined) updateData.payment_date = updates.paymentDate.toISOString().split('T')[0];
-    if (updates.category !== undefined) updateData.category = updates.category;
-
-    const { data, error } = await supabase
-      .from('incomes')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const { data, error } = await incomeRepository.update(userId, id, updates);
     
     if (error) {
       console.error('Error updating income:', error);
@@ -155,13 +460,13 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setIncomes(prev => prev.map(i => i.id === id ? toIncome(data) : i));
+      setIncomes(prev => prev.map(i => i.id === id ? data : i));
       toast.success('Receita atualizada com sucesso!');
     }
-  }, []);
+  }, [userId, setIncomes]);
 
   const removeIncome = useCallback(async (id: string) => {
-    const { error } = await supabase.from('incomes').delete().eq('id', id);
+    const { error } = await incomeRepository.remove(userId, id);
     if (error) {
       console.error('Error removing income:', error);
       toast.error('Erro ao remover receita');
@@ -169,24 +474,11 @@ export function useSupabaseData() {
     }
     setIncomes(prev => prev.filter(i => i.id !== id));
     toast.success('Receita removida com sucesso!');
-  }, []);
+  }, [userId, setIncomes]);
 
   // EXPENSES
   const addExpense = useCallback(async (expense: Omit<Expense, 'id' | 'createdAt'>) => {
-    const { data, error } = await supabase
-      .from('expenses')
-      .insert({
-        description: expense.description,
-        amount: expense.amount,
-        category: expense.category,
-        due_date: expense.dueDate.toISOString().split('T')[0],
-        status: expense.status,
-        payment_source_id: expense.paymentSourceId || null,
-        type: expense.type,
-        is_fixed: expense.isFixed,
-      })
-      .select()
-      .single();
+    const { data, error } = await expenseRepository.create(userId, [expense]);
     
     if (error) {
       console.error('Error adding expense:', error);
@@ -194,28 +486,13 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setExpenses(prev => [toExpense(data), ...prev]);
+      setExpenses(prev => [data[0], ...prev]);
       toast.success('Despesa adicionada com sucesso!');
     }
-  }, []);
+  }, [userId, setExpenses]);
 
   const updateExpense = useCallback(async (id: string, updates: Partial<Omit<Expense, 'id' | 'createdAt'>>) => {
-    const updateData: any = {};
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.amount !== undefined) updateData.amount = updates.amount;
-    if (updates.category !== undefined) updateData.category = updates.category;
-    if (updates.dueDate !== undefined) updateData.due_date = updates.dueDate.toISOString().split('T')[0];
-    if (updates.status !== undefined) updateData.status = updates.status;
-    if (updates.paymentSourceId !== undefined) updateData.payment_source_id = updates.paymentSourceId || null;
-    if (updates.type !== undefined) updateData.type = updates.type;
-    if (updates.isFixed !== undefined) updateData.is_fixed = updates.isFixed;
-
-    const { data, error } = await supabase
-      .from('expenses')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    const { data, error } = await expenseRepository.update(userId, id, updates);
     
     if (error) {
       console.error('Error updating expense:', error);
@@ -223,21 +500,19 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setExpenses(prev => prev.map(e => e.id === id ? toExpense(data) : e));
+      setExpenses(prev => prev.map(e => e.id === id ? data : e));
       toast.success('Despesa atualizada com sucesso!');
     }
-  }, []);
+  }, [userId, setExpenses]);
 
   const updateExpenseStatus = useCallback(async (id: string, status: PaymentStatus, paymentSourceId?: string) => {
-    const { data, error } = await supabase
-      .from('expenses')
-      .update({
-        status,
-        payment_source_id: paymentSourceId || null,
-      })
-      .eq('id', id)
-      .select()
-      .single();
+    const expense = expenses.find(e => e.id === id);
+    // Payments made by the previous source follow the change of source
+    const payments = expense.payments.map(payment =>
+      payment.sourceId === expense.paymentSourceId ? { ...payment, sourceId: paymentSourceId } : payment
+    );
+    const updates = { ...withStatus({ ...expense, payments }, status, paymentSourceId), paymentSourceId };
+    const { data, error } = await expenseRepository.update(userId, id, updates);
     
     if (error) {
       console.error('Error updating expense status:', error);
@@ -245,12 +520,28 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setExpenses(prev => prev.map(e => e.id === id ? toExpense(data) : e));
+      setExpenses(prev => prev.map(e => e.id === id ? data : e));
     }
-  }, []);
+  }, [userId, expenses, setExpenses]);
+
+  // Creates every installment of a purchase at once
+  const addExpenseInstallments = useCallback(async (expense: Omit<Expense, 'id' | 'createdAt'>, count: number) => {
+    const installments = buildInstallments(expense, count, crypto.randomUUID());
+    const { data, error } = await expenseRepository.create(userId, installments);
+
+    if (error) {
+      console.error('Error adding expense installments:', error);
+      toast.error('Erro ao adicionar despesa parcelada');
+      return;
+    }
+    if (data) {
+      setExpenses(prev => [...data, ...prev]);
+      toast.success(`Despesa parcelada em ${count}x adicionada com sucesso!`);
+    }
+  }, [userId, setExpenses]);
 
   const removeExpense = useCallback(async (id: string) => {
-    const { error } = await supabase.from('expenses').delete().eq('id', id);
+    const { error } = await expenseRepository.remove(userId, id);
     if (error) {
       console.error('Error removing expense:', error);
       toast.error('Erro ao remover despesa');
@@ -258,20 +549,778 @@ export function useSupabaseData() {
     }
     setExpenses(prev => prev.filter(e => e.id !== id));
     toast.success('Despesa removida com sucesso!');
-  }, []);
+  }, [userId, setExpenses]);
 
-  // INVESTMENTS
-  const addInvestment = useCallback(async (investment: Omit<Investment, 'id' | 'createdAt'>) => {
+  const removeExpenseRows = useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      const { error } = await expenseRepository.remove(userId, id);
+      if (error) throw error;
+    }
+  }, [userId]);
+
+  // CREDIT CARDS
+  const addCreditCard = useCallback(async (card: Omit<CreditCard, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('credit_cards')
+      .insert({ ...toCreditCardRow(card), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding credit card:', error);
+      toast.error('Erro ao adicionar cartão');
+      return;
+    }
+    setCreditCards(prev => [...prev, toCreditCard(data)]);
+    toast.success('Cartão adicionado com sucesso!');
+  }, [userId, setCreditCards]);
+
+  const updateCreditCard = useCallback(async (id: string, updates: Partial<Omit<CreditCard, 'id' | 'createdAt'>>) => {
     const { data, error } = await supabase
-      .from('investments')
-      .insert({
-        description: investment.description,
-        amount: investment.amount,
-        category: investment.category,
-        date: investment.date.toISOString().split('T')[0],
-      })
+      .from('credit_cards')
+      .update(toCreditCardRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating credit card:', error);
+      toast.error('Erro ao atualizar cartão');
+      return;
+    }
+    setCreditCards(prev => prev.map(c => c.id === id ? toCreditCard(data) : c));
+    toast.success('Cartão atualizado com sucesso!');
+  }, [userId, setCreditCards]);
+
+  // Purchases go with the card; invoices already generated stay as personal expenses
+  const removeCreditCard = useCallback(async (id: string) => {
+    const { error: purchasesError } = await supabase
+      .from('card_purchases')
+      .delete()
+      .eq('card_id', id)
+      .eq('user_id', userId);
+    const { error } = purchasesError
+      ? { error: purchasesError }
+      : await supabase.from('credit_cards').delete().eq('id', id).eq('user_id', userId);
+
+    if (error) {
+      console.error('Error removing credit card:', error);
+      toast.error('Erro ao remover cartão');
+      return;
+    }
+    setCardPurchases(prev => prev.filter(p => p.cardId !== id));
+    setCreditCards(prev => prev.filter(c => c.id !== id));
+    toast.success('Cartão removido com sucesso!');
+  }, [userId, setCreditCards, setCardPurchases]);
+
+  const addCardPurchase = useCallback(async (purchase: Omit<CardPurchase, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('card_purchases')
+      .insert({ ...toCardPurchaseRow(purchase), user_id: userId })
       .select()
       .single();
+
+    if (error) {
+      console.error('Error adding card purchase:', error);
+      toast.error('Erro ao adicionar compra');
+      return;
+    }
+    setCardPurchases(prev => [toCardPurchase(data), ...prev]);
+    toast.success('Compra adicionada com sucesso!');
+  }, [userId, setCardPurchases]);
+
+  const updateCardPurchase = useCallback(async (id: string, updates: Partial<Omit<CardPurchase, 'id' | 'createdAt'>>) => {
+    const { data, error } = await supabase
+      .from('card_purchases')
+      .update(toCardPurchaseRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating card purchase:', error);
+      toast.error('Erro ao atualizar compra');
+      return;
+    }
+    setCardPurchases(prev => prev.map(p => p.id === id ? toCardPurchase(data) : p));
+    toast.success('Compra atualizada com sucesso!');
+  }, [userId, setCardPurchases]);
+
+  const removeCardPurchase = useCallback(async (id: string) => {
+    const { error } = await supabase.from('card_purchases').delete().eq('id', id).eq('user_id', userId);
+    if (error) {
+      console.error('Error removing card purchase:', error);
+      toast.error('Erro ao remover compra');
+      return;
+    }
+    setCardPurchases(prev => prev.filter(p => p.id !== id));
+    toast.success('Compra removida com sucesso!');
+  }, [userId, setCardPurchases]);
+
+  // Applies the invoice changes of a month without notifying the user
+  const syncCardInvoices = useCallback(async (sync: InvoiceSync) => {
+    try {
+      const { data: created, error } = sync.create.length > 0
+        ? await expenseRepository.create(userId, sync.create)
+        : { data: [] as Expense[], error: null };
+      if (error) throw error;
+
+      const updated = await Promise.all(sync.update.map(async ({ id, amount, dueDate }) => {
+        const { data, error: updateError } = await expenseRepository.update(userId, id, { amount, dueDate });
+        if (updateError) throw updateError;
+        return data;
+      }));
+      await removeExpenseRows(sync.remove);
+
+      const updatedById = new Map(updated.map(e => [e.id, e]));
+      setExpenses(prev => [
+        ...(created ?? []),
+        ...prev.filter(e => !sync.remove.includes(e.id)).map(e => updatedById.get(e.id) ?? e),
+      ]);
+    } catch (error) {
+      console.error('Error syncing card invoices:', error);
+      toast.error('Erro ao atualizar as faturas do cartão');
+    }
+  }, [userId, removeExpenseRows, setExpenses]);
+
+  // ACCOUNTS
+  const addAccount = useCallback(async (account: Omit<Account, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({ ...toAccountRow(account), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding account:', error);
+      toast.error('Erro ao adicionar conta');
+      return;
+    }
+    setAccounts(prev => [...prev, toAccount(data)]);
+    toast.success('Conta adicionada com sucesso!');
+  }, [userId, setAccounts]);
+
+  const updateAccount = useCallback(async (id: string, updates: Partial<Omit<Account, 'id' | 'createdAt'>>) => {
+    const { data, error } = await supabase
+      .from('accounts')
+      .update(toAccountRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating account:', error);
+      toast.error('Erro ao atualizar conta');
+      return;
+    }
+    setAccounts(prev => prev.map(a => a.id === id ? toAccount(data) : a));
+    toast.success('Conta atualizada com sucesso!');
+  }, [userId, setAccounts]);
+
+  // Accounts with movements are archived instead, so their history keeps adding up
+  const removeAccount = useCallback(async (id: string) => {
+    // Loaded records also cover writes not synced yet; the server covers the years not loaded
+    let inUse = transfers.some(t => t.fromAccountId === id || t.toAccountId === id) ||
+      [...incomes, ...expenses, ...investments].some(record => record.accountId === id) ||
+      recurringExpenses.some(t => t.accountId === id) ||
+      withdrawals.some(w => w.accountId === id);
+    if (!inUse) {
+      try {
+        inUse = await countAccountReferences(userId, id) > 0;
+      } catch (error) {
+        console.error('Error checking account records:', error);
+        toast.error('Erro ao remover conta');
+        return;
+      }
+    }
+    if (inUse) {
+      toast.error('A conta possui lançamentos. Arquive-a em vez de excluir.');
+      return;
+    }
+
+    const { error } = await supabase.from('accounts').delete().eq('id', id).eq('user_id', userId);
+    if (error) {
+      console.error('Error removing account:', error);
+      toast.error('Erro ao remover conta');
+      return;
+    }
+    setAccounts(prev => prev.filter(a => a.id !== id));
+    toast.success('Conta removida com sucesso!');
+  }, [userId, transfers, incomes, expenses, investments, recurringExpenses, withdrawals, setAccounts]);
+
+  const addTransfer = useCallback(async (transfer: Omit<Transfer, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('transfers')
+      .insert({ ...toTransferRow(transfer), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding transfer:', error);
+      toast.error('Erro ao registrar transferência');
+      return;
+    }
+    setTransfers(prev => [toTransfer(data), ...prev]);
+    toast.success('Transferência registrada com sucesso!');
+  }, [userId, setTransfers]);
+
+  const updateTransfer = useCallback(async (id: string, updates: Partial<Omit<Transfer, 'id' | 'createdAt'>>) => {
+    const { data, error } = await supabase
+      .from('transfers')
+      .update(toTransferRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating transfer:', error);
+      toast.error('Erro ao atualizar transferência');
+      return;
+    }
+    setTransfers(prev => prev.map(t => t.id === id ? toTransfer(data) : t));
+    toast.success('Transferência atualizada com sucesso!');
+  }, [userId, setTransfers]);
+
+  const removeTransfer = useCallback(async (id: string) => {
+    const { error } = await supabase.from('transfers').delete().eq('id', id).eq('user_id', userId);
+    if (error) {
+      console.error('Error removing transfer:', error);
+      toast.error('Erro ao remover transferência');
+      return;
+    }
+    setTransfers(prev => prev.filter(t => t.id !== id));
+    toast.success('Transferência removida com sucesso!');
+  }, [userId, setTransfers]);
+
+  // WITHDRAWALS
+  const addWithdrawal = useCallback(async (withdrawal: Omit<Withdrawal, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .insert({ ...toWithdrawalRow(withdrawal), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding withdrawal:', error);
+      toast.error('Erro ao registrar saque');
+      return;
+    }
+    setWithdrawals(prev => [toWithdrawal(data), ...prev]);
+    toast.success('Saque registrado com sucesso!');
+  }, [userId, setWithdrawals]);
+
+  const updateWithdrawal = useCallback(async (id: string, updates: Partial<Omit<Withdrawal, 'id' | 'createdAt'>>) => {
+    const { data, error } = await supabase
+      .from('withdrawals')
+      .update(toWithdrawalRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating withdrawal:', error);
+      toast.error('Erro ao atualizar saque');
+      return;
+    }
+    setWithdrawals(prev => prev.map(w => w.id === id ? toWithdrawal(data) : w));
+    toast.success('Saque atualizado com sucesso!');
+  }, [userId, setWithdrawals]);
+
+  const removeWithdrawal = useCallback(async (id: string) => {
+    const { error } = await supabase.from('withdrawals').delete().eq('id', id).eq('user_id', userId);
+    if (error) {
+      console.error('Error removing withdrawal:', error);
+      toast.error('Erro ao remover saque');
+      return;
+    }
+    setWithdrawals(prev => prev.filter(w => w.id !== id));
+    toast.success('Saque removido com sucesso!');
+  }, [userId, setWithdrawals]);
+
+  // "Saque" expenses from every year that are still waiting to become withdrawals
+  const findLegacyWithdrawals = useCallback(async (): Promise<Expense[]> => {
+    try {
+      return await fetchLegacyWithdrawals(userId);
+    } catch (error) {
+      console.error('Error loading legacy withdrawals:', error);
+      return [];
+    }
+  }, [userId]);
+
+  // Replaces the fully paid "Saque" expenses with withdrawal records once the user confirms; open
+  // ones are kept. Each expense is converted on its own so a failure never leaves both the expense
+  // and its withdrawals behind
+  const convertLegacyWithdrawals = useCallback(async (legacy: Expense[]): Promise<number> => {
+    let converted = 0;
+    try {
+      for (const expense of legacy.filter(canConvertLegacyWithdrawal)) {
+        const { data, error } = await supabase
+          .from('withdrawals')
+          .insert(buildLegacyWithdrawals(expense).map(w => ({ ...toWithdrawalRow(w), user_id: userId })))
+          .select();
+        if (error) throw error;
+
+        try {
+          await removeExpenseRows([expense.id]);
+        } catch (removeError) {
+          await supabase.from('withdrawals').delete().in('id', data.map(row => row.id)).eq('user_id', userId);
+          throw removeError;
+        }
+        converted++;
+      }
+      if (converted > 0) toast.success(`${converted} despesa(s) convertida(s) em saques`);
+    } catch (error) {
+      console.error('Error converting withdrawals:', error);
+      toast.error('Erro ao converter os saques antigos');
+    } finally {
+      // Also brings in the expenses converted before a failure
+      await refetch();
+    }
+    return converted;
+  }, [userId, removeExpenseRows, refetch]);
+
+  // BUDGETS
+  const addBudget = useCallback(async (budget: Omit<Budget, 'id' | 'createdAt'>) => {
+    const { data, error } = await supabase
+      .from('budgets')
+      .insert({ ...toBudgetRow(budget), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding budget:', error);
+      toast.error('Erro ao adicionar orçamento');
+      return;
+    }
+    setBudgets(prev => [...prev, toBudget(data)]);
+    toast.success('Orçamento adicionado com sucesso!');
+  }, [userId, setBudgets]);
+
+  const updateBudget = useCallback(async (id: string, updates: Partial<Omit<Budget, 'id' | 'createdAt'>>) => {
+    const { data, error } = await supabase
+      .from('budgets')
+      .update(toBudgetRow(updates))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating budget:', error);
+      toast.error('Erro ao atualizar orçamento');
+      return;
+    }
+    setBudgets(prev => prev.map(b => b.id === id ? toBudget(data) : b));
+    toast.success('Orçamento atualizado com sucesso!');
+  }, [userId, setBudgets]);
+
+  const removeBudget = useCallback(async (id: string) => {
+    const { error } = await supabase.from('budgets').delete().eq('id', id).eq('user_id', userId);
+    if (error) {
+      console.error('Error removing budget:', error);
+      toast.error('Erro ao remover orçamento');
+      return;
+    }
+    setBudgets(prev => prev.filter(b => b.id !== id));
+    toast.success('Orçamento removido com sucesso!');
+  }, [userId, setBudgets]);
+
+  // RECURRING EXPENSES
+  const addRecurringExpense = useCallback(async (
+    template: Omit<RecurringExpense, 'id' | 'createdAt' | 'excludedDates'>,
+    firstOccurrence: Pick<Expense, 'status' | 'paymentSourceId'>,
+    existingExpenseId?: string
+  ) => {
+    const { data, error } = await supabase
+      .from('recurring_expenses')
+      .insert({ ...toRecurringExpenseRow({ ...template, excludedDates: [] }), user_id: userId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding recurring expense:', error);
+      toast.error('Erro ao criar despesa fixa');
+      return;
+    }
+
+    const created = toRecurringExpense(data);
+    setRecurringExpenses(prev => [created, ...prev]);
+
+    // The first occurrence keeps the status chosen in the form; later ones start as unpaid.
+    // When converting an existing expense, that row becomes the first occurrence.
+    const date = getOccurrenceDate(created.rule, 0);
+    const existing = expenses.find(e => e.id === existingExpenseId);
+    const occurrence: Omit<Expense, 'id' | 'createdAt'> = {
+      description: created.description,
+      amount: created.amount,
+      category: created.category,
+      dueDate: date,
+      ...withStatus(
+        { amount: created.amount, dueDate: date, status: existing?.status ?? 'unpaid', payments: existing?.payments ?? [] },
+        firstOccurrence.status,
+        firstOccurrence.paymentSourceId
+      ),
+      paymentSourceId: firstOccurrence.paymentSourceId,
+      accountId: created.accountId,
+      type: created.type,
+      isFixed: true,
+      recurringExpenseId: created.id,
+      occurrenceDate: date,
+    };
+
+    const { data: expenseData, error: expenseError } = existingExpenseId
+      ? await expenseRepository.update(userId, existingExpenseId, occurrence)
+      : await expenseRepository.create(userId, [occurrence]).then(result => ({ ...result, data: result.data?.[0] }));
+
+    if (expenseError) {
+      console.error('Error adding recurring expense occurrence:', expenseError);
+      toast.error('Erro ao gerar a primeira ocorrência da despesa fixa');
+      return;
+    }
+    if (expenseData) {
+      setExpenses(prev => existingExpenseId
+        ? prev.map(e => e.id === existingExpenseId ? expenseData : e)
+        : [expenseData, ...prev]
+      );
+      toast.success('Despesa fixa criada com sucesso!');
+    }
+  }, [userId, expenses, setExpenses, setRecurringExpenses]);
+
+  // Inserts the occurrences of a month without notifying the user
+  const materializeOccurrences = useCallback(async (occurrences: Omit<Expense, 'id' | 'createdAt'>[]) => {
+    if (occurrences.length === 0) return;
+
+    const { data, error } = await expenseRepository.create(userId, occurrences);
+
+    if (error) {
+      console.error('Error materializing recurring expenses:', error);
+      toast.error('Erro ao gerar as despesas fixas do mês');
+      return;
+    }
+    if (data) {
+      setExpenses(prev => [...data, ...prev]);
+    }
+  }, [userId, setExpenses]);
+
+  const updateRecurringExpense = useCallback(async (
+    occurrence: Expense,
+    updates: Omit<Expense, 'id' | 'createdAt'>,
+    rule: RecurrenceRule,
+    scope: RecurrenceEditScope
+  ) => {
+    const template = recurringExpenses.find(t => t.id === occurrence.recurringExpenseId);
+    if (scope === 'this' || !template || !occurrence.occurrenceDate) {
+      await updateExpense(occurrence.id, updates);
+      return;
+    }
+    if (!navigator.onLine) {
+      toast.error('Conecte-se à internet para alterar as outras despesas da série');
+      return;
+    }
+
+    const occurrenceDate = occurrence.occurrenceDate;
+    const fields = {
+      description: updates.description,
+      amount: updates.amount,
+      category: updates.category,
+      type: updates.type,
+      paymentSourceId: updates.paymentSourceId,
+      accountId: updates.accountId,
+    };
+    const rescheduled = rule.frequency !== template.rule.frequency || rule.dayOfMonth !== template.rule.dayOfMonth;
+    const { before: previousRule } = splitRule(template.rule, occurrenceDate);
+
+    try {
+      let target: RecurringExpense;
+      let from: Date | undefined;
+      let nextTemplates: (prev: RecurringExpense[]) => RecurringExpense[];
+
+      if (scope === 'following' && previousRule) {
+        // End the current series right before this occurrence and continue it in a new template
+        const { error } = await supabase
+          .from('recurring_expenses')
+          .update(toRecurringExpenseRow({ rule: previousRule }))
+          .eq('id', template.id)
+          .eq('user_id', userId);
+        if (error) throw error;
+
+        const { data, error: insertError } = await supabase
+          .from('recurring_expenses')
+          .insert({
+            ...toRecurringExpenseRow({
+              ...fields,
+              rule: splitRule(rule, occurrenceDate).after,
+              excludedDates: template.excludedDates.filter(d => isOnOrAfter(d, occurrenceDate)),
+            }),
+            user_id: userId,
+          })
+          .select()
+          .single();
+        if (insertError) throw insertError;
+
+        target = toRecurringExpense(data);
+        from = occurrenceDate;
+        nextTemplates = prev => [
+          target,
+          ...prev.map(t => t.id === template.id ? { ...t, rule: previousRule } : t),
+        ];
+      } else {
+        const { data, error } = await supabase
+          .from('recurring_expenses')
+          .update(toRecurringExpenseRow({ ...fields, rule }))
+          .eq('id', template.id)
+          .eq('user_id', userId)
+          .select()
+          .single();
+        if (error) throw error;
+
+        target = toRecurringExpense(data);
+        nextTemplates = prev => prev.map(t => t.id === template.id ? target : t);
+      }
+
+      // Templates are only swapped once occurrences point at them, otherwise the
+      // month would look incomplete and get materialized again
+      await syncSeries(userId, template.id, from, { target, rescheduled, skipId: occurrence.id });
+      const { error: editError } = await expenseRepository.update(userId, occurrence.id, {
+        ...updates,
+        isFixed: true,
+        recurringExpenseId: target.id,
+        occurrenceDate: getOccurrenceInMonth(target.rule, occurrenceDate) ?? occurrenceDate,
+      });
+      if (editError) throw editError;
+
+      setRecurringExpenses(nextTemplates);
+      toast.success('Despesa fixa atualizada com sucesso!');
+    } catch (error) {
+      console.error('Error updating recurring expense:', error);
+      toast.error('Erro ao atualizar despesa fixa');
+    } finally {
+      // Brings in the occurrences changed on the server, also those changed before a failure
+      await refetch();
+    }
+  }, [recurringExpenses, updateExpense, refetch, userId, setRecurringExpenses]);
+
+  const removeRecurringExpense = useCallback(async (occurrence: Expense, scope: RecurrenceEditScope) => {
+    const template = recurringExpenses.find(t => t.id === occurrence.recurringExpenseId);
+    if (!template || !occurrence.occurrenceDate) {
+      await removeExpense(occurrence.id);
+      return;
+    }
+
+    const occurrenceDate = occurrence.occurrenceDate;
+
+    if (scope === 'this') {
+      try {
+        // Excluding the date keeps the occurrence from being materialized again
+        const excludedDates = [...template.excludedDates, occurrenceDate];
+        const { error } = await supabase
+          .from('recurring_expenses')
+          .update(toRecurringExpenseRow({ excludedDates }))
+          .eq('id', template.id)
+          .eq('user_id', userId);
+        if (error) throw error;
+
+        await removeExpenseRows([occurrence.id]);
+        setRecurringExpenses(prev => prev.map(t => t.id === template.id ? { ...t, excludedDates } : t));
+        setExpenses(prev => prev.filter(e => e.id !== occurrence.id));
+        toast.success('Despesa removida com sucesso!');
+      } catch (error) {
+        console.error('Error removing recurring expense:', error);
+        toast.error('Erro ao remover despesa fixa');
+        refetch();
+      }
+      return;
+    }
+    if (!navigator.onLine) {
+      toast.error('Conecte-se à internet para remover as outras despesas da série');
+      return;
+    }
+
+    const { before: previousRule } = splitRule(template.rule, occurrenceDate);
+
+    try {
+      if (scope === 'following' && previousRule) {
+        const { error } = await supabase
+          .from('recurring_expenses')
+          .update(toRecurringExpenseRow({ rule: previousRule }))
+          .eq('id', template.id)
+          .eq('user_id', userId);
+        if (error) throw error;
+
+        await removeExpenseRows([occurrence.id]);
+        await removeSeriesOccurrences(userId, template.id, occurrenceDate);
+        setRecurringExpenses(prev => prev.map(t => t.id === template.id ? { ...t, rule: previousRule } : t));
+      } else {
+        await removeExpenseRows([occurrence.id]);
+        await removeSeries(userId, template.id);
+        setRecurringExpenses(prev => prev.filter(t => t.id !== template.id));
+      }
+      toast.success('Despesa removida com sucesso!');
+    } catch (error) {
+      console.error('Error removing recurring expense:', error);
+      toast.error('Erro ao remover despesa fixa');
+    } finally {
+      await refetch();
+    }
+  }, [recurringExpenses, removeExpense, removeExpenseRows, refetch, userId, setExpenses, setRecurringExpenses]);
+
+  // STATEMENT IMPORT
+  // Bulk operations used by the bank statement import; the caller reports the outcome
+  const addIncomes = useCallback(async (newIncomes: Omit<Income, 'id' | 'createdAt'>[]): Promise<boolean> => {
+    if (newIncomes.length === 0) return true;
+
+    const { data, error } = await incomeRepository.create(userId, newIncomes);
+
+    if (error) {
+      console.error('Error importing incomes:', error);
+      toast.error('Erro ao importar receitas');
+      return false;
+    }
+    if (data) {
+      setIncomes(prev => [...data, ...prev]);
+    }
+    return true;
+  }, [userId, setIncomes]);
+
+  const addExpenses = useCallback(async (newExpenses: Omit<Expense, 'id' | 'createdAt'>[]): Promise<boolean> => {
+    if (newExpenses.length === 0) return true;
+
+    const { data, error } = await expenseRepository.create(userId, newExpenses);
+
+    if (error) {
+      console.error('Error importing expenses:', error);
+      toast.error('Erro ao importar despesas');
+      return false;
+    }
+    if (data) {
+      setExpenses(prev => [...data, ...prev]);
+    }
+    return true;
+  }, [userId, setExpenses]);
+
+  // Records matched expenses as paid and matched incomes as received on the date the money moved
+  const reconcileTransactions = useCallback(async (
+    expenseDates: { id: string; paymentDate: Date }[],
+    incomeDates: { id: string; paymentDate: Date }[]
+  ): Promise<boolean> => {
+    try {
+      const updatedExpenses = await Promise.all(expenseDates.map(async ({ id, paymentDate }) => {
+        const expense = expenses.find(e => e.id === id);
+        const updates = withStatus(expense, 'paid', expense.paymentSourceId, paymentDate);
+        const { data, error } = await expenseRepository.update(userId, id, updates);
+        if (error) throw error;
+        return data;
+      }));
+
+      const expensesById = new Map(updatedExpenses.map(e => [e.id, e]));
+      setExpenses(prev => prev.map(e => expensesById.get(e.id) ?? e));
+
+      const updatedIncomes = await Promise.all(incomeDates.map(async ({ id, paymentDate }) => {
+        // The credit matches the whole invoice, so it replaces any payment recorded by hand
+        const income = incomes.find(i => i.id === id);
+        const { data, error } = await incomeRepository.update(userId, id, withPayments(income, [{ date: paymentDate, amount: income.amount }]));
+        if (error) throw error;
+        return data;
+      }));
+
+      const incomesById = new Map(updatedIncomes.map(i => [i.id, i]));
+      setIncomes(prev => prev.map(i => incomesById.get(i.id) ?? i));
+      return true;
+    } catch (error) {
+      console.error('Error reconciling transactions:', error);
+      toast.error('Erro ao conciliar lançamentos');
+      return false;
+    }
+  }, [userId, incomes, expenses, setIncomes, setExpenses]);
+
+  // WORKBOOK
+  // The whole history, not only the years loaded in memory
+  const fetchAllRecords = useCallback(async (): Promise<WorkbookData> => {
+    const [allClients, allIncomes, allExpenses, allInvestments] = await Promise.all([
+      clientRepository.list(userId),
+      incomeRepository.list(userId),
+      expenseRepository.list(userId),
+      investmentRepository.list(userId),
+    ]);
+    return { clients: allClients, incomes: allIncomes, expenses: allExpenses, investments: allInvestments };
+  }, [userId]);
+
+  // Rows with the id of a stored record update it and the others are inserted; clients go
+  // first so the records pointing to them find them. Returns the rows the server refused
+  const importWorkbook = useCallback(async (workbook: WorkbookImport): Promise<{ saved: number; errors: WorkbookRowError[] }> => {
+    const stored = await fetchAllRecords();
+    const errors: WorkbookRowError[] = [];
+    let saved = 0;
+
+    const upsert = async <T extends { id: string }, Input>(
+      sheet: WorkbookSheet,
+      rows: WorkbookRow<Input>[],
+      existing: T[],
+      repository: UpsertRepository<T, Input>,
+      complete: (record: Partial<Input>, existing?: T) => Partial<Input>
+    ) => {
+      const byId = new Map(existing.map(record => [record.id, record]));
+      const fail = (batch: WorkbookRow<Input>[], error: unknown) => {
+        console.error('Error importing spreadsheet rows:', error);
+        const detail = (error as { message?: string })?.message;
+        errors.push(...batch.map(row => ({ sheet, row: row.row, message: detail ? `Erro ao salvar: ${detail}` : 'Erro ao salvar' })));
+      };
+
+      const inserts = rows.filter(row => !byId.has(row.id));
+      for (let start = 0; start < inserts.length; start += IMPORT_BATCH_SIZE) {
+        const batch = inserts.slice(start, start + IMPORT_BATCH_SIZE);
+        const { error } = await repository.createWithIds(userId, batch.map(row => ({ ...complete(row.record), id: row.id }) as Input & { id?: string }));
+        if (error) fail(batch, error);
+        else saved += batch.length;
+      }
+
+      const updates = rows.filter(row => byId.has(row.id));
+      for (let start = 0; start < updates.length; start += IMPORT_BATCH_SIZE) {
+        await Promise.all(updates.slice(start, start + IMPORT_BATCH_SIZE).map(async row => {
+          const { error } = await repository.update(userId, row.id, complete(row.record, byId.get(row.id)));
+          if (error) fail([row], error);
+          else saved++;
+        }));
+      }
+    };
+
+    await upsert('clients', workbook.clients, stored.clients, clientRepository, completeClient);
+    await upsert('incomes', workbook.incomes, stored.incomes, incomeRepository, completeIncome);
+    await upsert('expenses', workbook.expenses, stored.expenses, expenseRepository, completeExpense);
+    await upsert('investments', workbook.investments, stored.investments, investmentRepository, completeInvestment);
+
+    await refetch();
+    return { saved, errors };
+  }, [userId, fetchAllRecords, refetch]);
+
+  // FISCAL SETTINGS
+  const updateFiscalSettings = useCallback(async (updates: Partial<Omit<FiscalSettings, 'id'>>): Promise<boolean> => {
+    // One row per user: created on the first save
+    const query = fiscalSettings
+      ? supabase.from('fiscal_settings').update(toFiscalSettingsRow(updates)).eq('id', fiscalSettings.id).eq('user_id', userId)
+      : supabase.from('fiscal_settings').insert({ ...toFiscalSettingsRow(updates), user_id: userId });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving fiscal settings:', error);
+      toast.error('Erro ao salvar configurações fiscais');
+      return false;
+    }
+    if (data) {
+      setFiscalSettings(toFiscalSettings(data));
+    }
+    return true;
+  }, [fiscalSettings, userId, setFiscalSettings]);
+
+  // INVESTMENTS
+  const addInvestment = useCallback(async (investment: Omit<Investment, 'id' | 'createdAt'>) => {
+    const { data, error } = await investmentRepository.create(userId, [investment]);
     
     if (error) {
       console.error('Error adding investment:', error);
@@ -279,13 +1328,27 @@ export function useSupabaseData() {
       return;
     }
     if (data) {
-      setInvestments(prev => [toInvestment(data), ...prev]);
+      setInvestments(prev => [data[0], ...prev]);
       toast.success('Investimento adicionado com sucesso!');
     }
-  }, []);
+  }, [userId, setInvestments]);
+
+  const updateInvestment = useCallback(async (id: string, updates: Partial<Omit<Investment, 'id' | 'createdAt'>>) => {
+    const { data, error } = await investmentRepository.update(userId, id, updates);
+    
+    if (error) {
+      console.error('Error updating investment:', error);
+      toast.error('Erro ao atualizar investimento');
+      return;
+    }
+    if (data) {
+      setInvestments(prev => prev.map(i => i.id === id ? data : i));
+      toast.success('Investimento atualizado com sucesso!');
+    }
+  }, [userId, setInvestments]);
 
   const removeInvestment = useCallback(async (id: string) => {
-    const { error } = await supabase.from('investments').delete().eq('id', id);
+    const { error } = await investmentRepository.remove(userId, id);
     if (error) {
       console.error('Error removing investment:', error);
       toast.error('Erro ao remover investimento');
@@ -293,7 +1356,7 @@ export function useSupabaseData() {
     }
     setInvestments(prev => prev.filter(i => i.id !== id));
     toast.success('Investimento removido com sucesso!');
-  }, []);
+  }, [userId, setInvestments]);
 
   return {
     clients,
@@ -301,7 +1364,15 @@ export function useSupabaseData() {
     expenses,
     investments,
     loading,
+    isOnline,
+    pendingChanges,
+    syncing,
+    syncChanges,
     addClient,
+    updateClient,
+    setClientArchived,
+    countClientRecords,
+    reassignClientRecords,
     removeClient,
     addIncome,
     updateIncome,
@@ -309,9 +1380,52 @@ export function useSupabaseData() {
     addExpense,
     updateExpense,
     updateExpenseStatus,
+    addExpenseInstallments,
     removeExpense,
+    recurringExpenses,
+    addRecurringExpense,
+    materializeOccurrences,
+    updateRecurringExpense,
+    removeRecurringExpense,
+    creditCards,
+    addCreditCard,
+    updateCreditCard,
+    removeCreditCard,
+    cardPurchases,
+    addCardPurchase,
+    updateCardPurchase,
+    removeCardPurchase,
+    syncCardInvoices,
+    accounts,
+    addAccount,
+    updateAccount,
+    removeAccount,
+    transfers,
+    addTransfer,
+    updateTransfer,
+    removeTransfer,
+    withdrawals,
+    addWithdrawal,
+    updateWithdrawal,
+    removeWithdrawal,
+    findLegacyWithdrawals,
+    convertLegacyWithdrawals,
+    budgets,
+    addBudget,
+    updateBudget,
+    removeBudget,
+    addIncomes,
+    addExpenses,
+    reconcileTransactions,
+    fetchAllRecords,
+    importWorkbook,
+    fiscalSettings,
+    updateFiscalSettings,
     addInvestment,
+    updateInvestment,
     removeInvestment,
-    refetch: fetchData,
+    isPeriodLoaded,
+    loadPeriod,
+    refetch,
   };
 }
\ No newline at end of file
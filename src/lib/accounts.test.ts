@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { Account, Expense, Income, Investment } from "@/types/finance";
+import {
+  AccountRecords,
+  getAccountBalance,
+  getAccountEntries,
+  getAccountStatement,
+  getDefaultAccount,
+  getSelectableAccounts,
+} from "@/lib/accounts";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const account = (overrides: Partial<Account>): Account => ({
+  id: 'account',
+  name: 'Conta',
+  type: 'business',
+  openingBalance: 0,
+  openingDate: day(2024, 3, 1),
+  archived: false,
+  createdAt: day(2024, 3, 1),
+  ...overrides,
+});
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 0,
+  clientId: 'c1',
+  paymentDate: day(2024, 3, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 3, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: 'expense',
+  description: 'Despesa',
+  amount: 0,
+  category: 'Outros',
+  dueDate: day(2024, 3, 10),
+  status: 'paid',
+  payments: [],
+  type: 'business',
+  isFixed: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const investment = (overrides: Partial<Investment>): Investment => ({
+  id: 'investment',
+  description: 'Investimento',
+  amount: 0,
+  category: 'Software',
+  date: day(2024, 3, 20),
+  status: 'executed',
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const closedPj = account({ id: 'closed', name: 'Conta antiga', archived: true });
+const pj = account({ id: 'pj', name: 'Conta PJ', openingBalance: 1000 });
+const pf = account({ id: 'pf', name: 'Conta PF', type: 'personal', openingBalance: 200 });
+const savings = account({ id: 'savings', name: 'Poupança', type: 'savings' });
+const accounts = [closedPj, pj, pf, savings];
+
+const records: AccountRecords = {
+  incomes: [
+    income({ id: 'i1', payments: [{ date: day(2024, 3, 10), amount: 1500 }] }),
+    income({ id: 'i2', accountId: 'savings', payments: [{ date: day(2024, 3, 15), amount: 500 }] }),
+    // Account that no longer exists, received before the opening date
+    income({ id: 'i3', accountId: 'deleted', payments: [{ date: day(2024, 2, 20), amount: 300 }] }),
+    income({ id: 'i4', payments: [{ date: day(2024, 3, 12), amount: 400 }, { date: day(2024, 4, 2), amount: 600 }] }),
+  ],
+  expenses: [
+    expense({ id: 'e1', payments: [{ date: day(2024, 3, 5), amount: 800 }] }),
+    expense({ id: 'e2', type: 'personal', payments: [{ date: day(2024, 3, 6), amount: 100 }] }),
+    expense({ id: 'e3', amount: 50, status: 'unpaid' }),
+  ],
+  investments: [
+    investment({ id: 'inv1', amount: 200 }),
+    investment({ id: 'inv2', amount: 900, status: 'planned' }),
+  ],
+  transfers: [{ id: 't1', fromAccountId: 'pj', toAccountId: 'savings', amount: 300, date: day(2024, 3, 25), createdAt: day(2024, 3, 25) }],
+  withdrawals: [{ id: 'w1', date: day(2024, 3, 28), amount: 1000, createdAt: day(2024, 3, 28) }],
+};
+
+describe('getDefaultAccount and getSelectableAccounts', () => {
+  it('skip archived accounts unless already selected', () => {
+    expect(getDefaultAccount(accounts, 'business')).toBe(pj);
+    expect(getDefaultAccount(accounts, 'personal')).toBe(pf);
+    expect(getSelectableAccounts(accounts)).toEqual([pj, pf, savings]);
+    expect(getSelectableAccounts(accounts, 'closed')).toEqual(accounts);
+  });
+});
+
+describe('getAccountEntries', () => {
+  it('lists the movements of the account since its opening date, oldest first', () => {
+    expect(getAccountEntries(pj, accounts, records).map(({ id, kind, amount }) => [id, kind, amount])).toEqual([
+      ['e1', 'expense', -800],
+      ['i1', 'income', 1500],
+      ['i4', 'income', 400],
+      ['inv1', 'investment', -200],
+      ['t1', 'transfer', -300],
+      ['w1', 'withdrawal', -1000],
+      ['i4', 'income', 600],
+    ]);
+  });
+
+  it('names the other side of transfers and withdrawals', () => {
+    expect(getAccountEntries(savings, accounts, records).map(({ id, description, amount }) => [id, description, amount])).toEqual([
+      ['i2', 'Serviço', 500],
+      ['t1', 'Transferência de Conta PJ', 300],
+    ]);
+    expect(getAccountEntries(pf, accounts, records).map(({ id, description, amount }) => [id, description, amount])).toEqual([
+      ['e2', 'Despesa', -100],
+      ['w1', 'Saque', 1000],
+    ]);
+  });
+});
+
+describe('getAccountBalance', () => {
+  it('adds the movements up to the end of the day to the opening balance', () => {
+    expect(getAccountBalance(pj, accounts, records, day(2024, 2, 28))).toBe(1000);
+    expect(getAccountBalance(pj, accounts, records, new Date(2024, 2, 31, 23, 59))).toBe(600);
+    expect(getAccountBalance(pj, accounts, records, day(2024, 4, 30))).toBe(1200);
+    expect(getAccountBalance(pf, accounts, records, day(2024, 4, 30))).toBe(1100);
+    expect(getAccountBalance(savings, accounts, records, day(2024, 4, 30))).toBe(800);
+  });
+});
+
+describe('getAccountStatement', () => {
+  it('starts from the balance before the period and keeps a running balance', () => {
+    const statement = getAccountStatement(pj, accounts, records, new Date(2024, 2, 15), new Date(2024, 2, 31));
+    expect(statement.previousBalance).toBe(2100);
+    expect(statement.lines.map(({ id, balance }) => [id, balance])).toEqual([['inv1', 1900], ['t1', 1600], ['w1', 600]]);
+    expect(statement.balance).toBe(600);
+  });
+});
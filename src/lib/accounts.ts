@@ -0,0 +1,152 @@
+import { isAfter, isBefore, startOfDay } from "date-fns";
+import { Account, AccountType, Expense, Income, Investment, Transfer, Withdrawal } from "@/types/finance";
+
+export type StatementEntryKind = 'income' | 'expense' | 'investment' | 'transfer' | 'withdrawal';
+
+export interface StatementEntry {
+  id: string; // Record the entry comes from; a record may produce several entries
+  kind: StatementEntryKind;
+  date: Date;
+  description: string;
+  amount: number; // Positive for money in, negative for money out
+}
+
+export interface StatementLine extends StatementEntry {
+  balance: number; // Balance after the entry
+}
+
+export interface AccountRecords {
+  incomes: Income[];
+  expenses: Expense[];
+  investments: Investment[];
+  transfers: Transfer[];
+  withdrawals: Withdrawal[];
+}
+
+export interface AccountStatement {
+  previousBalance: number; // Balance right before the period
+  lines: StatementLine[];
+  balance: number; // Balance at the end of the period
+}
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  business: 'Conta PJ',
+  personal: 'Conta PF',
+  wallet: 'Carteira',
+  savings: 'Poupança',
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Records without an account belong to the first active account of their side: the PJ account
+// for revenue, investments and business expenses, the PF account for personal expenses
+export const getDefaultAccount = (accounts: Account[], side: 'business' | 'personal'): Account | undefined => {
+  return accounts.find(account => !account.archived && account.type === side);
+};
+
+const resolveAccountId = (accounts: Account[], accountId: string | undefined, side: 'business' | 'personal') => {
+  if (accountId && accounts.some(account => account.id === accountId)) return accountId;
+  return getDefaultAccount(accounts, side)?.id;
+};
+
+// Accounts offered in selects: archived ones only when already selected in the record
+export const getSelectableAccounts = (accounts: Account[], selectedId?: string): Account[] => {
+  return accounts.filter(account => !account.archived || account.id === selectedId);
+};
+
+// Every movement of the account since its opening date, oldest first
+export const getAccountEntries = (account: Account, accounts: Account[], records: AccountRecords): StatementEntry[] => {
+  const entries: StatementEntry[] = [];
+
+  records.incomes
+    .filter(income => resolveAccountId(accounts, income.accountId, 'business') === account.id)
+    .forEach(income => income.payments.forEach(payment => entries.push({
+      id: income.id,
+      kind: 'income',
+      date: payment.date,
+      description: income.description,
+      amount: payment.amount,
+    })));
+
+  records.expenses
+    .filter(expense => resolveAccountId(accounts, expense.accountId, expense.type) === account.id)
+    .forEach(expense => expense.payments.forEach(payment => entries.push({
+      id: expense.id,
+      kind: 'expense',
+      date: payment.date,
+      description: expense.description,
+      amount: -payment.amount,
+    })));
+
+  records.investments
+    .filter(investment => investment.status === 'executed')
+    .filter(investment => resolveAccountId(accounts, investment.accountId, 'business') === account.id)
+    .forEach(investment => entries.push({
+      id: investment.id,
+      kind: 'investment',
+      date: investment.date,
+      description: investment.description,
+      amount: -investment.amount,
+    }));
+
+  records.transfers.forEach(transfer => {
+    if (transfer.fromAccountId !== account.id && transfer.toAccountId !== account.id) return;
+    const counterpart = accounts.find(a => a.id === (transfer.fromAccountId === account.id ? transfer.toAccountId : transfer.fromAccountId));
+    entries.push({
+      id: transfer.id,
+      kind: 'transfer',
+      date: transfer.date,
+      description: transfer.description || `Transferência ${transfer.fromAccountId === account.id ? 'para' : 'de'} ${counterpart?.name ?? 'outra conta'}`,
+      amount: transfer.fromAccountId === account.id ? -transfer.amount : transfer.amount,
+    });
+  });
+
+  // Withdrawals leave the default PJ account towards the chosen personal one
+  records.withdrawals.forEach(withdrawal => {
+    const from = getDefaultAccount(accounts, 'business')?.id;
+    const to = resolveAccountId(accounts, withdrawal.accountId, 'personal');
+    if (from === to || (from !== account.id && to !== account.id)) return;
+    entries.push({
+      id: withdrawal.id,
+      kind: 'withdrawal',
+      date: withdrawal.date,
+      description: withdrawal.description || 'Saque',
+      amount: from === account.id ? -withdrawal.amount : withdrawal.amount,
+    });
+  });
+
+  return entries
+    .filter(entry => !isBefore(startOfDay(new Date(entry.date)), startOfDay(account.openingDate)))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Balance at the end of the given day
+export const getAccountBalance = (account: Account, accounts: Account[], records: AccountRecords, date: Date): number => {
+  return roundCurrency(getAccountEntries(account, accounts, records)
+    .filter(entry => !isAfter(startOfDay(new Date(entry.date)), startOfDay(date)))
+    .reduce((balance, entry) => balance + entry.amount, account.openingBalance));
+};
+
+// Movements of a period with the running balance after each one
+export const getAccountStatement = (
+  account: Account,
+  accounts: Account[],
+  records: AccountRecords,
+  from: Date,
+  to: Date
+): AccountStatement => {
+  const entries = getAccountEntries(account, accounts, records);
+  const previousBalance = roundCurrency(entries
+    .filter(entry => isBefore(startOfDay(new Date(entry.date)), startOfDay(from)))
+    .reduce((balance, entry) => balance + entry.amount, account.openingBalance));
+
+  let balance = previousBalance;
+  const lines = entries
+    .filter(entry => !isBefore(startOfDay(new Date(entry.date)), startOfDay(from)) && !isAfter(startOfDay(new Date(entry.date)), startOfDay(to)))
+    .map(entry => {
+      balance = roundCurrency(balance + entry.amount);
+      return { ...entry, balance };
+    });
+
+  return { previousBalance, lines, balance };
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { Budget, CardPurchase, CreditCard, Expense } from "@/types/finance";
+import { INVOICE_CATEGORY } from "@/lib/creditCards";
+import { BudgetRecords, getBudgetHistoryStart, getBudgetStatus, getCategorySpending } from "@/lib/budgets";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const expense = (category: string, dueDate: Date, amount: number, type: Expense['type'] = 'personal'): Expense => ({
+  id: `${category}-${dueDate.getTime()}-${amount}`,
+  description: category,
+  amount,
+  category,
+  dueDate,
+  status: 'unpaid',
+  payments: [],
+  type,
+  isFixed: false,
+  createdAt: dueDate,
+});
+
+const budget = (overrides: Partial<Budget> = {}): Budget => ({
+  id: 'b1',
+  category: 'Mercado',
+  type: 'personal',
+  amount: 500,
+  rollover: 'none',
+  startMonth: new Date(2024, 0, 1),
+  createdAt: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+const records = (expenses: Expense[]): BudgetRecords => ({ expenses, creditCards: [], cardPurchases: [] });
+
+describe('getCategorySpending', () => {
+  const card: CreditCard = { id: 'card', name: 'Cartão', closingDay: 5, dueDay: 15, createdAt: day(2024, 1, 1) };
+  const purchase: CardPurchase = {
+    id: 'p1',
+    cardId: 'card',
+    description: 'Compra do mês',
+    amount: 300,
+    category: 'Mercado',
+    date: day(2024, 3, 10), // After closing: first installment on the April invoice
+    installmentCount: 3,
+    createdAt: day(2024, 3, 10),
+  };
+
+  it('adds the expenses of the category, type and month', () => {
+    const expenses = [
+      expense('Mercado', day(2024, 5, 3), 120),
+      expense('Mercado', day(2024, 5, 20), 80),
+      expense('Mercado', day(2024, 6, 1), 50),
+      expense('Mercado', day(2024, 5, 3), 70, 'business'),
+      expense('Lazer', day(2024, 5, 3), 40),
+    ];
+    expect(getCategorySpending(records(expenses), 'personal', 'Mercado', new Date(2024, 4, 1))).toBe(200);
+  });
+
+  it('counts card purchases by their own category instead of the invoice', () => {
+    const data: BudgetRecords = {
+      expenses: [expense(INVOICE_CATEGORY, day(2024, 5, 15), 100)],
+      creditCards: [card],
+      cardPurchases: [purchase],
+    };
+    expect(getCategorySpending(data, 'personal', 'Mercado', new Date(2024, 4, 1))).toBe(100);
+    expect(getCategorySpending(data, 'personal', INVOICE_CATEGORY, new Date(2024, 4, 1))).toBe(0);
+    expect(getCategorySpending(data, 'personal', 'Mercado', new Date(2024, 6, 1))).toBe(0);
+  });
+});
+
+describe('getBudgetStatus', () => {
+  it('is null before the budget starts', () => {
+    expect(getBudgetStatus(budget(), records([]), new Date(2023, 11, 1))).toBeNull();
+  });
+
+  it('compares the spending with the monthly amount without rollover', () => {
+    const data = records([expense('Mercado', day(2024, 1, 10), 100), expense('Mercado', day(2024, 2, 10), 400)]);
+    expect(getBudgetStatus(budget(), data, new Date(2024, 1, 1))).toMatchObject({ carried: 0, available: 500, spent: 400, percentage: 80 });
+  });
+
+  it('adds what was left in the previous month', () => {
+    const data = records([expense('Mercado', day(2024, 1, 10), 100), expense('Mercado', day(2024, 2, 10), 300)]);
+    const status = getBudgetStatus(budget({ rollover: 'previous' }), data, new Date(2024, 2, 1));
+    expect(status).toMatchObject({ carried: 200, available: 700, spent: 0, percentage: 0 });
+  });
+
+  it('accumulates every month left, with overspending using up the savings', () => {
+    const saving = records([expense('Mercado', day(2024, 1, 10), 300), expense('Mercado', day(2024, 2, 10), 400)]);
+    expect(getBudgetStatus(budget({ rollover: 'accumulate' }), saving, new Date(2024, 2, 1))?.carried).toBe(300);
+
+    const overspent = records([expense('Mercado', day(2024, 1, 10), 300), expense('Mercado', day(2024, 2, 10), 800)]);
+    expect(getBudgetStatus(budget({ rollover: 'accumulate' }), overspent, new Date(2024, 2, 1))?.carried).toBe(0);
+  });
+
+  it('reports spending without an available amount as fully used', () => {
+    const data = records([expense('Mercado', day(2024, 1, 10), 50)]);
+    expect(getBudgetStatus(budget({ amount: 0 }), data, new Date(2024, 0, 1))?.percentage).toBe(100);
+  });
+});
+
+describe('getBudgetHistoryStart', () => {
+  it('goes back as far as the rollover needs', () => {
+    const month = new Date(2024, 5, 15);
+    expect(getBudgetHistoryStart(budget(), month)).toEqual(new Date(2024, 5, 1));
+    expect(getBudgetHistoryStart(budget({ rollover: 'previous' }), month)).toEqual(new Date(2024, 4, 1));
+    expect(getBudgetHistoryStart(budget({ rollover: 'accumulate' }), month)).toEqual(new Date(2024, 0, 1));
+  });
+});
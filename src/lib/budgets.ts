@@ -0,0 +1,88 @@
+import { addMonths, isBefore, isSameMonth, startOfMonth, subMonths } from "date-fns";
+import { Budget, BudgetRollover, CardPurchase, CreditCard, Expense } from "@/types/finance";
+import { INVOICE_CATEGORY, getInvoiceItems, getInvoiceMonthDueIn } from "@/lib/creditCards";
+
+export const BUDGET_ATTENTION_PERCENTAGE = 80;
+
+export const budgetRolloverLabels: Record<BudgetRollover, string> = {
+  none: 'Não acumular',
+  previous: 'Somar a sobra do mês anterior',
+  accumulate: 'Acumular todas as sobras',
+};
+
+export interface BudgetRecords {
+  expenses: Expense[];
+  creditCards: CreditCard[];
+  cardPurchases: CardPurchase[];
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  carried: number; // Unused budget brought from earlier months
+  available: number; // Monthly amount plus what was carried
+  spent: number;
+  percentage: number; // Spent over available, 0-100+
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Card invoices are one expense; their purchases are counted in their own categories instead
+export const getCategorySpending = (
+  records: BudgetRecords,
+  type: Budget['type'],
+  category: string,
+  month: Date
+): number => {
+  const fromExpenses = records.expenses
+    .filter(e => e.type === type && e.category === category && e.category !== INVOICE_CATEGORY)
+    .filter(e => isSameMonth(new Date(e.dueDate), month))
+    .reduce((sum, e) => sum + e.amount, 0);
+  if (type !== 'personal') return roundCurrency(fromExpenses);
+
+  const fromCards = records.creditCards.reduce((sum, card) => {
+    return sum + getInvoiceItems(records.cardPurchases, card, getInvoiceMonthDueIn(card, month))
+      .filter(item => item.purchase.category === category)
+      .reduce((acc, item) => acc + item.amount, 0);
+  }, 0);
+  return roundCurrency(fromExpenses + fromCards);
+};
+
+// First month whose expenses the budget needs in memory to compute `month`
+export const getBudgetHistoryStart = (budget: Budget, month: Date): Date => {
+  if (budget.rollover === 'accumulate') return startOfMonth(budget.startMonth);
+  if (budget.rollover === 'previous') return subMonths(startOfMonth(month), 1);
+  return startOfMonth(month);
+};
+
+const getCarried = (budget: Budget, records: BudgetRecords, month: Date): number => {
+  const start = startOfMonth(budget.startMonth);
+  const previous = subMonths(startOfMonth(month), 1);
+  if (budget.rollover === 'none' || isBefore(previous, start)) return 0;
+
+  if (budget.rollover === 'previous') {
+    return Math.max(0, budget.amount - getCategorySpending(records, budget.type, budget.category, previous));
+  }
+
+  // Overspending in a month uses up what was saved but doesn't reduce the next budgets
+  let carried = 0;
+  for (let current = start; !isBefore(previous, current); current = addMonths(current, 1)) {
+    carried = Math.max(0, budget.amount + carried - getCategorySpending(records, budget.type, budget.category, current));
+  }
+  return roundCurrency(carried);
+};
+
+// Budget vs. actual of the month; null for months before the budget started
+export const getBudgetStatus = (budget: Budget, records: BudgetRecords, month: Date): BudgetStatus | null => {
+  if (isBefore(startOfMonth(month), startOfMonth(budget.startMonth))) return null;
+
+  const carried = getCarried(budget, records, month);
+  const available = roundCurrency(budget.amount + carried);
+  const spent = getCategorySpending(records, budget.type, budget.category, month);
+  return {
+    budget,
+    carried,
+    available,
+    spent,
+    percentage: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+  };
+};
@@ -0,0 +1,44 @@
+import { InvestmentStatus } from "@/types/finance";
+
+export const incomeCategories = [
+  "Serviços",
+  "Projetos",
+  "Consultoria",
+  "Vendas",
+  "Outros"
+];
+
+export const businessCategories = [
+  "Impostos",
+  "Infraestrutura",
+  "Marketing",
+  "Ferramentas",
+  "Serviços",
+  "Outros"
+];
+
+export const personalCategories = [
+  "Moradia",
+  "Alimentação",
+  "Transporte",
+  "Saúde",
+  "Lazer",
+  "Educação",
+  "Cartão de crédito",
+  "Poupança",
+  "Outros"
+];
+
+export const investmentStatusLabels: Record<InvestmentStatus, string> = {
+  planned: "Planejado",
+  executed: "Realizado",
+};
+
+export const investmentCategories = [
+  "Equipamentos",
+  "Software",
+  "Marketing",
+  "Capacitação",
+  "Infraestrutura",
+  "Outros"
+];
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { Client, Income } from "@/types/finance";
+import {
+  getAverageDaysBetweenPayments,
+  getClientHistoryStart,
+  getConcentratedClients,
+  getLastPayment,
+  getMonthlyRevenue,
+  getRevenueShare,
+  getYearRevenueByClient,
+} from "@/lib/clientStats";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 0,
+  clientId: 'c1',
+  paymentDate: day(2024, 1, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 1, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const firstClient = [
+  // Paid in two parts
+  income({ amount: 3000, payments: [{ date: day(2024, 1, 10), amount: 1000 }, { date: day(2024, 2, 9), amount: 2000 }] }),
+  income({ amount: 1000, dueDate: day(2024, 4, 10), cancelled: true, payments: [{ date: day(2024, 4, 10), amount: 1000 }] }),
+  // Invoiced in 2024, received in 2025
+  income({ amount: 500, dueDate: day(2024, 12, 20), payments: [{ date: day(2025, 1, 4), amount: 500 }] }),
+];
+const secondClient = [
+  income({ clientId: 'c2', amount: 1000, dueDate: day(2024, 3, 1), payments: [{ date: day(2024, 3, 1), amount: 1000 }] }),
+  income({ clientId: 'c2', amount: 2000, dueDate: day(2024, 6, 1) }),
+];
+const incomes = [...firstClient, ...secondClient];
+
+describe('getClientHistoryStart', () => {
+  it('starts at the earliest of the client and the business', () => {
+    const client: Client = { id: 'c1', name: 'Cliente', archived: false, createdAt: day(2024, 3, 1) };
+    expect(getClientHistoryStart(client, day(2023, 5, 1))).toEqual(day(2023, 5, 1));
+    expect(getClientHistoryStart(client)).toEqual(day(2024, 3, 1));
+  });
+});
+
+describe('getMonthlyRevenue', () => {
+  it('adds the payments received in each month, including the empty ones', () => {
+    expect(getMonthlyRevenue(firstClient, day(2024, 1, 20), new Date(2024, 3, 1))).toEqual([
+      { month: new Date(2024, 0, 1), amount: 1000, count: 1 },
+      { month: new Date(2024, 1, 1), amount: 2000, count: 1 },
+      { month: new Date(2024, 2, 1), amount: 0, count: 0 },
+      { month: new Date(2024, 3, 1), amount: 0, count: 0 },
+    ]);
+  });
+});
+
+describe('getLastPayment and getAverageDaysBetweenPayments', () => {
+  it('look at the payments received, not at the invoices', () => {
+    expect(getLastPayment(firstClient)).toEqual({ date: day(2025, 1, 4), amount: 500 });
+    expect(getAverageDaysBetweenPayments(firstClient)).toBe(180);
+  });
+
+  it('have nothing to show until there is money received', () => {
+    expect(getLastPayment([secondClient[1]])).toBeUndefined();
+    expect(getAverageDaysBetweenPayments(secondClient)).toBeNull();
+  });
+});
+
+describe('getYearRevenueByClient', () => {
+  it('follows the accounting basis', () => {
+    expect(getYearRevenueByClient(incomes, 2024, 'cash')).toEqual({ c1: 3000, c2: 1000 });
+    expect(getYearRevenueByClient(incomes, 2024, 'accrual')).toEqual({ c1: 3500, c2: 3000 });
+  });
+});
+
+describe('getRevenueShare and getConcentratedClients', () => {
+  it('compute the share of each client in the year', () => {
+    expect(getRevenueShare(incomes, 'c1', 2024, 'cash')).toBe(75);
+    expect(getRevenueShare(incomes, 'c1', 2024, 'accrual')).toBeCloseTo(53.85);
+    expect(getRevenueShare(incomes, 'c3', 2024, 'cash')).toBe(0);
+    expect(getRevenueShare(incomes, 'c1', 2023, 'cash')).toBe(0);
+  });
+
+  it('flag the clients above the threshold', () => {
+    expect(getConcentratedClients(incomes, 2024, 60, 'cash')).toEqual(['c1']);
+    expect(getConcentratedClients(incomes, 2024, 60, 'accrual')).toEqual([]);
+    expect(getConcentratedClients(incomes, 2023, 60, 'cash')).toEqual([]);
+  });
+});
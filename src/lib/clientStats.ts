@@ -0,0 +1,84 @@
+import { addMonths, differenceInCalendarDays, endOfYear, isSameMonth, startOfMonth, startOfYear } from "date-fns";
+import { AccountingBasis, Client, Income, IncomePayment } from "@/types/finance";
+import { getIncomeInPeriod } from "@/lib/dre";
+
+// Most of the revenue coming from one client can characterise a disguised employment
+// relationship, which the MEI regime doesn't allow
+export const DEFAULT_CONCENTRATION_THRESHOLD = 60;
+
+// Records of a client can't be older than the business or the client itself, so loading
+// from there is enough to see all of them
+export const getClientHistoryStart = (client?: Client, openingDate?: Date): Date => {
+  const dates = [client?.createdAt, openingDate].filter(Boolean) as Date[];
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : startOfYear(new Date());
+};
+
+export interface MonthlyRevenue {
+  month: Date;
+  amount: number;
+  count: number;
+}
+
+// Money actually received, oldest first: open invoices have no payments and cancelled ones don't count
+const getReceivedPayments = (incomes: Income[]): IncomePayment[] => {
+  return incomes
+    .filter(income => !income.cancelled)
+    .flatMap(income => income.payments)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Every month between `from` and `to`, including the ones without revenue
+export const getMonthlyRevenue = (incomes: Income[], from: Date, to: Date): MonthlyRevenue[] => {
+  const payments = getReceivedPayments(incomes);
+  const months: MonthlyRevenue[] = [];
+  for (let month = startOfMonth(from); month <= to; month = addMonths(month, 1)) {
+    const inMonth = payments.filter(payment => isSameMonth(new Date(payment.date), month));
+    months.push({
+      month,
+      amount: inMonth.reduce((sum, payment) => sum + payment.amount, 0),
+      count: inMonth.length,
+    });
+  }
+  return months;
+};
+
+export const getLastPayment = (incomes: Income[]): IncomePayment | undefined => {
+  return getReceivedPayments(incomes).pop();
+};
+
+// Mean gap between consecutive payments; null until there are two of them
+export const getAverageDaysBetweenPayments = (incomes: Income[]): number | null => {
+  const payments = getReceivedPayments(incomes);
+  if (payments.length < 2) return null;
+  const first = new Date(payments[0].date);
+  const last = new Date(payments[payments.length - 1].date);
+  return differenceInCalendarDays(last, first) / (payments.length - 1);
+};
+
+// Revenue of the year under the regime the business follows, like the MEI limit
+export const getYearRevenueByClient = (incomes: Income[], year: number, basis: AccountingBasis): Record<string, number> => {
+  const from = new Date(year, 0, 1);
+  const to = endOfYear(from);
+  return incomes.reduce((acc, income) => {
+    const value = getIncomeInPeriod(income, basis, from, to);
+    if (value > 0) acc[income.clientId] = (acc[income.clientId] || 0) + value;
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+// Client's share of the year's revenue, 0-100
+export const getRevenueShare = (incomes: Income[], clientId: string, year: number, basis: AccountingBasis): number => {
+  const byClient = getYearRevenueByClient(incomes, year, basis);
+  const total = Object.values(byClient).reduce((sum, value) => sum + value, 0);
+  return total > 0 ? ((byClient[clientId] || 0) / total) * 100 : 0;
+};
+
+// Clients whose share of the year's revenue is above the threshold
+export const getConcentratedClients = (incomes: Income[], year: number, threshold: number, basis: AccountingBasis): string[] => {
+  const byClient = getYearRevenueByClient(incomes, year, basis);
+  const total = Object.values(byClient).reduce((sum, value) => sum + value, 0);
+  if (total === 0) return [];
+  return Object.entries(byClient)
+    .filter(([clientId, value]) => clientId && (value / total) * 100 > threshold)
+    .map(([clientId]) => clientId);
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { CardPurchase, CreditCard, Expense } from "@/types/finance";
+import {
+  getClosingDate,
+  getFutureInstallmentsTotal,
+  getInvoiceDueDate,
+  getInvoiceItems,
+  getInvoiceMonth,
+  getInvoiceMonthDueIn,
+  getInvoiceSync,
+  getInvoiceTotal,
+} from "@/lib/creditCards";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const march = new Date(2024, 2, 1);
+
+// Due a week after closing, in the same month
+const nubank: CreditCard = { id: 'nubank', name: 'Nubank', closingDay: 3, dueDay: 10, createdAt: day(2024, 1, 1) };
+// Closes late in the month and is due in the next one
+const inter: CreditCard = { id: 'inter', name: 'Inter', closingDay: 25, dueDay: 5, createdAt: day(2024, 1, 1) };
+
+const purchase = (overrides: Partial<CardPurchase>): CardPurchase => ({
+  id: 'purchase',
+  cardId: 'nubank',
+  description: 'Compra',
+  amount: 100,
+  category: 'Outros',
+  date: day(2024, 3, 1),
+  installmentCount: 1,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const purchases = [
+  purchase({ id: 'p1', amount: 300, installmentCount: 3, date: day(2024, 2, 20) }),
+  purchase({ id: 'p2', date: day(2024, 3, 2) }),
+  purchase({ id: 'p3', amount: 50, installmentCount: 2, date: day(2024, 1, 10) }),
+  purchase({ id: 'p4', cardId: 'inter', amount: 80, date: day(2024, 2, 10) }),
+];
+
+const invoice = (overrides: Partial<Expense>): Expense => ({
+  id: 'invoice',
+  description: 'Fatura',
+  amount: 0,
+  category: 'Cartão de crédito',
+  dueDate: day(2024, 3, 10),
+  status: 'unpaid',
+  payments: [],
+  type: 'personal',
+  isFixed: false,
+  creditCardId: 'nubank',
+  invoiceMonth: march,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+describe('getClosingDate and getInvoiceDueDate', () => {
+  it('are due in the closing month only when the due day comes after the closing day', () => {
+    expect(getClosingDate(nubank, march)).toEqual(day(2024, 3, 3));
+    expect(getInvoiceDueDate(nubank, march)).toEqual(day(2024, 3, 10));
+    expect(getClosingDate(inter, march)).toEqual(day(2024, 3, 25));
+    expect(getInvoiceDueDate(inter, march)).toEqual(day(2024, 4, 5));
+  });
+
+  it('clamp the days to the end of shorter months', () => {
+    const card: CreditCard = { ...nubank, closingDay: 31, dueDay: 30 };
+    expect(getClosingDate(card, new Date(2024, 1, 1))).toEqual(day(2024, 2, 29));
+    expect(getInvoiceDueDate(card, new Date(2024, 0, 1))).toEqual(day(2024, 2, 29));
+  });
+});
+
+describe('getInvoiceMonth and getInvoiceMonthDueIn', () => {
+  it('move purchases from the closing day on to the next invoice', () => {
+    expect(getInvoiceMonth(nubank, day(2024, 3, 2))).toEqual(march);
+    expect(getInvoiceMonth(nubank, day(2024, 3, 3))).toEqual(new Date(2024, 3, 1));
+    expect(getInvoiceMonth(inter, day(2024, 3, 24))).toEqual(march);
+    expect(getInvoiceMonth(inter, day(2024, 3, 25))).toEqual(new Date(2024, 3, 1));
+  });
+
+  it('find the invoice due in a month', () => {
+    expect(getInvoiceMonthDueIn(nubank, day(2024, 3, 15))).toEqual(march);
+    expect(getInvoiceMonthDueIn(inter, day(2024, 4, 15))).toEqual(march);
+  });
+});
+
+describe('getInvoiceItems', () => {
+  it('bills each installment on its own invoice', () => {
+    const items = getInvoiceItems(purchases, nubank, march);
+    expect(items.map(item => [item.purchase.id, item.installmentNumber, item.amount])).toEqual([
+      ['p3', 2, 25],
+      ['p1', 1, 100],
+      ['p2', 1, 100],
+    ]);
+    expect(getInvoiceTotal(items)).toBe(225);
+    expect(getFutureInstallmentsTotal(purchases, nubank, march)).toBe(200);
+  });
+});
+
+describe('getInvoiceSync', () => {
+  it('creates the missing invoices and updates the ones whose total changed', () => {
+    const sync = getInvoiceSync([nubank, inter], purchases, [invoice({ id: 'e1', creditCardId: 'inter', invoiceMonth: new Date(2024, 1, 1), amount: 70, dueDate: day(2024, 3, 5) })], march);
+
+    expect(sync.create).toEqual([expect.objectContaining({
+      description: 'Fatura Nubank 03/2024',
+      amount: 225,
+      category: 'Cartão de crédito',
+      dueDate: day(2024, 3, 10),
+      creditCardId: 'nubank',
+      invoiceMonth: march,
+    })]);
+    expect(sync.update).toEqual([{ id: 'e1', amount: 80, dueDate: day(2024, 3, 5) }]);
+    expect(sync.remove).toEqual([]);
+  });
+
+  it('removes emptied invoices but leaves the ones already paid', () => {
+    const expenses = [
+      invoice({ id: 'e1', amount: 225 }),
+      invoice({ id: 'e2', creditCardId: 'inter', invoiceMonth: new Date(2024, 1, 1), amount: 999, payments: [{ date: day(2024, 3, 5), amount: 999 }] }),
+    ];
+    expect(getInvoiceSync([nubank, inter], purchases, expenses, march)).toEqual({ create: [], update: [], remove: [] });
+    expect(getInvoiceSync([nubank], [], expenses, march)).toEqual({ create: [], update: [], remove: ['e1'] });
+  });
+});
@@ -0,0 +1,126 @@
+import { addMonths, differenceInCalendarMonths, format, getDaysInMonth, isSameDay, isSameMonth, startOfMonth } from "date-fns";
+import { CardPurchase, CreditCard, Expense } from "@/types/finance";
+import { getInstallmentAmounts } from "@/lib/expensePayments";
+
+export const INVOICE_CATEGORY = 'Cartão de crédito';
+
+export interface InvoiceItem {
+  purchase: CardPurchase;
+  installmentNumber: number; // 1-based
+  amount: number;
+}
+
+export interface InvoiceSync {
+  create: Omit<Expense, 'id' | 'createdAt'>[];
+  update: { id: string; amount: number; dueDate: Date }[];
+  remove: string[];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Day of the month, clamped to the last day of shorter months
+const dayInMonth = (month: Date, day: number): Date => {
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)), 12, 0, 0);
+};
+
+export const getClosingDate = (card: CreditCard, invoiceMonth: Date): Date => {
+  return dayInMonth(invoiceMonth, card.closingDay);
+};
+
+// An invoice is due in the month it closes when the due day comes after the closing day,
+// otherwise in the following month
+export const getInvoiceDueDate = (card: CreditCard, invoiceMonth: Date): Date => {
+  const dueMonth = card.dueDay > card.closingDay ? invoiceMonth : addMonths(invoiceMonth, 1);
+  return dayInMonth(dueMonth, card.dueDay);
+};
+
+// Invoice a purchase lands on: purchases from the closing day on go to the next one
+export const getInvoiceMonth = (card: CreditCard, date: Date): Date => {
+  const month = startOfMonth(date);
+  return date >= getClosingDate(card, month) ? addMonths(month, 1) : month;
+};
+
+// Invoice whose due date falls in the given month
+export const getInvoiceMonthDueIn = (card: CreditCard, month: Date): Date => {
+  return card.dueDay > card.closingDay ? startOfMonth(month) : startOfMonth(addMonths(month, -1));
+};
+
+export const getInvoiceItems = (purchases: CardPurchase[], card: CreditCard, invoiceMonth: Date): InvoiceItem[] => {
+  const items: InvoiceItem[] = [];
+  purchases
+    .filter(purchase => purchase.cardId === card.id)
+    .forEach(purchase => {
+      const index = differenceInCalendarMonths(invoiceMonth, getInvoiceMonth(card, new Date(purchase.date)));
+      if (index < 0 || index >= purchase.installmentCount) return;
+      items.push({
+        purchase,
+        installmentNumber: index + 1,
+        amount: getInstallmentAmounts(purchase.amount, purchase.installmentCount)[index],
+      });
+    });
+  return items.sort((a, b) => new Date(a.purchase.date).getTime() - new Date(b.purchase.date).getTime());
+};
+
+export const getInvoiceTotal = (items: InvoiceItem[]): number => {
+  return roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+};
+
+// Installments still to be billed after the given invoice
+export const getFutureInstallmentsTotal = (purchases: CardPurchase[], card: CreditCard, invoiceMonth: Date): number => {
+  return roundCurrency(purchases
+    .filter(purchase => purchase.cardId === card.id)
+    .reduce((sum, purchase) => {
+      const amounts = getInstallmentAmounts(purchase.amount, purchase.installmentCount);
+      const first = getInvoiceMonth(card, new Date(purchase.date));
+      return sum + amounts
+        .filter((_, index) => differenceInCalendarMonths(addMonths(first, index), invoiceMonth) > 0)
+        .reduce((acc, amount) => acc + amount, 0);
+    }, 0));
+};
+
+export const findInvoiceExpense = (expenses: Expense[], card: CreditCard, invoiceMonth: Date): Expense | undefined => {
+  return expenses.find(e => e.creditCardId === card.id && e.invoiceMonth && isSameMonth(e.invoiceMonth, invoiceMonth));
+};
+
+export const buildInvoiceExpense = (card: CreditCard, invoiceMonth: Date, amount: number): Omit<Expense, 'id' | 'createdAt'> => ({
+  description: `Fatura ${card.name} ${format(invoiceMonth, 'MM/yyyy')}`,
+  amount,
+  category: INVOICE_CATEGORY,
+  dueDate: getInvoiceDueDate(card, invoiceMonth),
+  status: 'unpaid',
+  payments: [],
+  type: 'personal',
+  isFixed: false,
+  creditCardId: card.id,
+  invoiceMonth,
+});
+
+// Keeps the invoice expenses due in a month in line with the purchases. Invoices that already
+// received a payment are history and are left as they are.
+export const getInvoiceSync = (
+  cards: CreditCard[],
+  purchases: CardPurchase[],
+  expenses: Expense[],
+  month: Date
+): InvoiceSync => {
+  const sync: InvoiceSync = { create: [], update: [], remove: [] };
+
+  cards.forEach(card => {
+    const invoiceMonth = getInvoiceMonthDueIn(card, month);
+    const total = getInvoiceTotal(getInvoiceItems(purchases, card, invoiceMonth));
+    const existing = findInvoiceExpense(expenses, card, invoiceMonth);
+    const dueDate = getInvoiceDueDate(card, invoiceMonth);
+
+    if (!existing) {
+      if (total > 0) sync.create.push(buildInvoiceExpense(card, invoiceMonth, total));
+    } else if (existing.payments.length > 0) {
+      return;
+    } else if (total === 0) {
+      sync.remove.push(existing.id);
+    } else if (existing.amount !== total || !isSameDay(existing.dueDate, dueDate)) {
+      sync.update.push({ id: existing.id, amount: total, dueDate });
+    }
+  });
+
+  return sync;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { Expense, FiscalSettings } from "@/types/finance";
+import {
+  buildDASExpense,
+  calculateDASCharges,
+  getDASDueDate,
+  getDASValues,
+  getPendingDASCompetences,
+  isDASOverdue,
+} from "@/lib/das";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+describe('getDASValues', () => {
+  it('adds ICMS and ISS by activity to 5% of the minimum wage', () => {
+    expect(getDASValues(2024, 'servicos')).toEqual({ inss: 70.6, icms: 0, iss: 5, total: 75.6 });
+    expect(getDASValues(2024, 'comercio')).toEqual({ inss: 70.6, icms: 1, iss: 0, total: 71.6 });
+    expect(getDASValues(2024, 'ambos').total).toBe(76.6);
+  });
+
+  it('falls back to the nearest known minimum wage', () => {
+    expect(getDASValues(2030, 'servicos').inss).toBe(getDASValues(2026, 'servicos').inss);
+    expect(getDASValues(2020, 'servicos').inss).toBe(66);
+  });
+});
+
+describe('getDASDueDate', () => {
+  it('is due on the 20th of the following month', () => {
+    expect(getDASDueDate(day(2024, 1, 1))).toEqual(day(2024, 2, 20));
+  });
+
+  it('moves weekend due dates to Monday', () => {
+    expect(getDASDueDate(day(2024, 3, 1))).toEqual(day(2024, 4, 22)); // Saturday
+    expect(getDASDueDate(day(2024, 9, 1))).toEqual(day(2024, 10, 21)); // Sunday
+  });
+});
+
+describe('calculateDASCharges', () => {
+  it('charges nothing when paid on time', () => {
+    expect(calculateDASCharges(100, day(2024, 2, 20), day(2024, 2, 20))).toEqual({ daysLate: 0, fine: 0, interest: 0, total: 100 });
+  });
+
+  it('charges 0.33% a day and 1% interest in the month of payment', () => {
+    expect(calculateDASCharges(100, day(2024, 2, 20), day(2024, 3, 1), 0.01)).toEqual({
+      daysLate: 10,
+      fine: 3.3,
+      interest: 1,
+      total: 104.3,
+    });
+  });
+
+  it('caps the fine at 20% and adds the Selic of the months in between', () => {
+    expect(calculateDASCharges(100, day(2024, 1, 20), day(2024, 6, 20), 0.01)).toEqual({
+      daysLate: 152,
+      fine: 20,
+      interest: 5,
+      total: 125,
+    });
+  });
+});
+
+describe('isDASOverdue', () => {
+  const guide = { dueDate: day(2024, 2, 20), status: 'unpaid' } as Expense;
+
+  it('is overdue only after the due date and while not paid', () => {
+    expect(isDASOverdue(guide, day(2024, 2, 20))).toBe(false);
+    expect(isDASOverdue(guide, day(2024, 2, 21))).toBe(true);
+    expect(isDASOverdue({ ...guide, status: 'paid' }, day(2024, 2, 21))).toBe(false);
+  });
+});
+
+describe('buildDASExpense', () => {
+  it('builds the guide of the competence as an unpaid business tax', () => {
+    expect(buildDASExpense(day(2024, 3, 15), 'servicos')).toEqual({
+      description: 'DAS-MEI 03/2024',
+      amount: 75.6,
+      category: 'Impostos',
+      dueDate: day(2024, 4, 22),
+      status: 'unpaid',
+      payments: [],
+      type: 'business',
+      isFixed: false,
+      dasCompetence: new Date(2024, 2, 1),
+    });
+  });
+});
+
+describe('getPendingDASCompetences', () => {
+  const settings = { annualLimit: 81000 } as FiscalSettings;
+
+  it('starts with the DAS due this month for new settings', () => {
+    expect(getPendingDASCompetences(settings, day(2024, 4, 15))).toEqual([new Date(2024, 2, 1), new Date(2024, 3, 1)]);
+  });
+
+  it('continues after the last competence generated', () => {
+    expect(getPendingDASCompetences({ ...settings, dasGeneratedUntil: new Date(2024, 0, 1) }, day(2024, 4, 15))).toEqual([
+      new Date(2024, 1, 1),
+      new Date(2024, 2, 1),
+      new Date(2024, 3, 1),
+    ]);
+    expect(getPendingDASCompetences({ ...settings, dasGeneratedUntil: new Date(2024, 3, 1) }, day(2024, 4, 15))).toEqual([]);
+  });
+});
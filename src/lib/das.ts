@@ -0,0 +1,120 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, getDay, startOfDay, startOfMonth } from "date-fns";
+import { Expense, FiscalSettings, MEIActivity } from "@/types/finance";
+
+export const MEI_ACTIVITY_LABELS: Record<MEIActivity, string> = {
+  comercio: "Comércio / Indústria",
+  servicos: "Serviços",
+  ambos: "Comércio e Serviços",
+};
+
+// Minimum wage by year; INSS is 5% of it
+const MINIMUM_WAGES: Record<number, number> = {
+  2023: 1320,
+  2024: 1412,
+  2025: 1518,
+  2026: 1621,
+};
+
+const ICMS_VALUE = 1; // Comércio / indústria
+const ISS_VALUE = 5; // Serviços
+const INSS_RATE = 0.05;
+
+const DAS_DUE_DAY = 20;
+const FINE_RATE_PER_DAY = 0.0033;
+const FINE_CAP = 0.2;
+const LATE_PAYMENT_MONTH_INTEREST = 0.01; // Charged for the month of payment
+// Estimate of the monthly Selic; the exact amount is computed by the PGMEI when the guide is reissued
+export const ESTIMATED_MONTHLY_SELIC = 0.0115;
+
+export interface DASValues {
+  inss: number;
+  icms: number;
+  iss: number;
+  total: number;
+}
+
+export interface DASCharges {
+  daysLate: number;
+  fine: number;
+  interest: number;
+  total: number; // Amount plus fine and interest
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Years not in the table use the latest known minimum wage
+export const getDASValues = (year: number, activity: MEIActivity): DASValues => {
+  const knownYears = Object.keys(MINIMUM_WAGES).map(Number).sort((a, b) => a - b);
+  const wageYear = knownYears.filter(y => y <= year).pop() ?? knownYears[0];
+
+  const inss = roundCurrency(MINIMUM_WAGES[wageYear] * INSS_RATE);
+  const icms = activity === 'servicos' ? 0 : ICMS_VALUE;
+  const iss = activity === 'comercio' ? 0 : ISS_VALUE;
+
+  return { inss, icms, iss, total: roundCurrency(inss + icms + iss) };
+};
+
+// DAS of a competence month is due on the 20th of the following month, moved to Monday on weekends
+export const getDASDueDate = (competence: Date): Date => {
+  const month = addMonths(startOfMonth(competence), 1);
+  const due = new Date(month.getFullYear(), month.getMonth(), DAS_DUE_DAY, 12, 0, 0);
+  const weekday = getDay(due);
+  if (weekday === 6) return addDays(due, 2);
+  if (weekday === 0) return addDays(due, 1);
+  return due;
+};
+
+export const isDASOverdue = (expense: Expense, today: Date = new Date()): boolean => {
+  return expense.status !== 'paid' && startOfDay(today) > startOfDay(new Date(expense.dueDate));
+};
+
+// Multa of 0.33% per day (capped at 20%) plus Selic from the month after the due date and 1% in the payment month
+export const calculateDASCharges = (
+  amount: number,
+  dueDate: Date,
+  paymentDate: Date = new Date(),
+  monthlySelic: number = ESTIMATED_MONTHLY_SELIC
+): DASCharges => {
+  const daysLate = Math.max(differenceInCalendarDays(paymentDate, dueDate), 0);
+  if (daysLate === 0) {
+    return { daysLate, fine: 0, interest: 0, total: amount };
+  }
+
+  const fine = roundCurrency(amount * Math.min(daysLate * FINE_RATE_PER_DAY, FINE_CAP));
+
+  const monthsLate = differenceInCalendarMonths(paymentDate, dueDate);
+  const interestRate = monthsLate > 0 ? (monthsLate - 1) * monthlySelic + LATE_PAYMENT_MONTH_INTEREST : 0;
+  const interest = roundCurrency(amount * interestRate);
+
+  return { daysLate, fine, interest, total: roundCurrency(amount + fine + interest) };
+};
+
+export const buildDASExpense = (competence: Date, activity: MEIActivity): Omit<Expense, 'id' | 'createdAt'> => {
+  const month = startOfMonth(competence);
+  return {
+    description: `DAS-MEI ${format(month, 'MM/yyyy')}`,
+    amount: getDASValues(month.getFullYear(), activity).total,
+    category: 'Impostos',
+    dueDate: getDASDueDate(month),
+    status: 'unpaid',
+    payments: [],
+    type: 'business',
+    isFixed: false,
+    dasCompetence: month,
+  };
+};
+
+// Competences not generated yet, up to the current month; new settings start with the DAS due this month
+export const getPendingDASCompetences = (settings: FiscalSettings, today: Date = new Date()): Date[] => {
+  const current = startOfMonth(today);
+  let next = settings.dasGeneratedUntil
+    ? addMonths(startOfMonth(settings.dasGeneratedUntil), 1)
+    : addMonths(current, -1);
+
+  const competences: Date[] = [];
+  while (next <= current) {
+    competences.push(next);
+    next = addMonths(next, 1);
+  }
+  return competences;
+};
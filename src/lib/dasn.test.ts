@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { Income } from "@/types/finance";
+import { buildDASNDeclaration, getDefaultRevenueType, getRevenueByCategory, toDASNCsv } from "@/lib/dasn";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 0,
+  clientId: 'c1',
+  paymentDate: day(2024, 3, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 3, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const incomes = [
+  // Invoiced in 2023, received across the turn of the year
+  income({
+    amount: 1000,
+    category: 'Vendas',
+    issueDate: day(2023, 12, 15),
+    dueDate: day(2024, 1, 5),
+    payments: [{ date: day(2024, 1, 5), amount: 600 }, { date: day(2025, 1, 5), amount: 400 }],
+  }),
+  income({
+    amount: 2000.1,
+    dueDate: day(2024, 12, 20),
+    payments: [{ date: day(2024, 12, 20), amount: 1000.05 }, { date: day(2025, 1, 10), amount: 1000.05 }],
+  }),
+  income({ amount: 500, cancelled: true, payments: [{ date: day(2024, 3, 10), amount: 500 }] }),
+  income({ amount: 0.3, category: 'Consultoria', payments: [{ date: day(2024, 3, 10), amount: 0.1 }, { date: day(2024, 3, 11), amount: 0.2 }] }),
+];
+
+describe('getRevenueByCategory', () => {
+  it('counts what was received in the year under the cash basis', () => {
+    expect(getRevenueByCategory(incomes, 2024, 'cash')).toEqual({ Vendas: 600, Serviços: 1000.05, Consultoria: 0.3 });
+  });
+
+  it('counts what was invoiced in the year under the accrual basis', () => {
+    expect(getRevenueByCategory(incomes, 2024, 'accrual')).toEqual({ Serviços: 2000.1, Consultoria: 0.3 });
+    expect(getRevenueByCategory(incomes, 2023, 'accrual')).toEqual({ Vendas: 1000 });
+  });
+});
+
+describe('getDefaultRevenueType', () => {
+  it('follows the activity of the business, then the category', () => {
+    expect(getDefaultRevenueType('Serviços', 'comercio')).toBe('comercio');
+    expect(getDefaultRevenueType('Vendas', 'servicos')).toBe('servicos');
+    expect(getDefaultRevenueType('Vendas', 'ambos')).toBe('comercio');
+    expect(getDefaultRevenueType('Consultoria')).toBe('servicos');
+  });
+});
+
+describe('buildDASNDeclaration', () => {
+  const declaration = buildDASNDeclaration(incomes, 2024, 'cash', { Consultoria: 'comercio' }, false, '11222333000181');
+
+  it('splits the revenue of the year by the classification of each category', () => {
+    expect(declaration).toEqual({
+      anoCalendario: 2024,
+      cnpj: '11222333000181',
+      receitaBrutaComercioIndustria: 600.3,
+      receitaBrutaServicos: 1000.05,
+      receitaBrutaTotal: 1600.35,
+      possuiEmpregado: false,
+    });
+  });
+
+  it('exports the fields with decimal commas', () => {
+    expect(toDASNCsv(declaration).split('\n')).toEqual([
+      'Campo;Valor',
+      'Ano-calendário;2024',
+      'CNPJ;11222333000181',
+      'Receita bruta - comércio, indústria e transporte de cargas (ICMS);600,30',
+      'Receita bruta - prestação de serviços (ISS);1000,05',
+      'Receita bruta total;1600,35',
+      'Possui empregado;Não',
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { endOfYear } from "date-fns";
+import { AccountingBasis, Income, MEIActivity } from "@/types/finance";
+import { getIncomeInPeriod } from "@/lib/dre";
+
+export type RevenueType = 'comercio' | 'servicos';
+
+export const REVENUE_TYPE_LABELS: Record<RevenueType, string> = {
+  comercio: "Comércio / Indústria",
+  servicos: "Serviços",
+};
+
+// Income categories that are sales of goods; everything else is a service
+const COMMERCE_CATEGORIES = ["Vendas"];
+
+// Fields of the DASN-SIMEI form, in the order they are asked
+export interface DASNDeclaration {
+  anoCalendario: number;
+  cnpj: string;
+  receitaBrutaComercioIndustria: number; // Comércio, indústria e transporte de cargas (ICMS)
+  receitaBrutaServicos: number; // Prestação de serviços (ISS)
+  receitaBrutaTotal: number;
+  possuiEmpregado: boolean;
+}
+
+export const getDefaultRevenueType = (category: string, activity?: MEIActivity): RevenueType => {
+  if (activity === 'comercio') return 'comercio';
+  if (activity === 'servicos') return 'servicos';
+  return COMMERCE_CATEGORIES.includes(category) ? 'comercio' : 'servicos';
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Revenue of the year under the regime the business follows: received under the cash basis,
+// invoiced under the accrual basis
+export const getRevenueByCategory = (incomes: Income[], year: number, basis: AccountingBasis): Record<string, number> => {
+  const from = new Date(year, 0, 1);
+  const to = endOfYear(from);
+  const byCategory: Record<string, number> = {};
+  incomes.forEach(income => {
+    const value = getIncomeInPeriod(income, basis, from, to);
+    if (value > 0) byCategory[income.category] = roundCurrency((byCategory[income.category] || 0) + value);
+  });
+  return byCategory;
+};
+
+export const buildDASNDeclaration = (
+  incomes: Income[],
+  year: number,
+  basis: AccountingBasis,
+  classification: Record<string, RevenueType>,
+  possuiEmpregado: boolean,
+  cnpj: string
+): DASNDeclaration => {
+  const byCategory = getRevenueByCategory(incomes, year, basis);
+
+  let comercio = 0;
+  let servicos = 0;
+  Object.entries(byCategory).forEach(([category, value]) => {
+    if ((classification[category] ?? getDefaultRevenueType(category)) === 'comercio') {
+      comercio += value;
+    } else {
+      servicos += value;
+    }
+  });
+
+  return {
+    anoCalendario: year,
+    cnpj,
+    receitaBrutaComercioIndustria: roundCurrency(comercio),
+    receitaBrutaServicos: roundCurrency(servicos),
+    receitaBrutaTotal: roundCurrency(comercio + servicos),
+    possuiEmpregado,
+  };
+};
+
+export const toDASNJson = (declaration: DASNDeclaration): string => {
+  return JSON.stringify(declaration, null, 2);
+};
+
+// Semicolon-separated with decimal comma, as expected by spreadsheets in pt-BR
+export const toDASNCsv = (declaration: DASNDeclaration): string => {
+  const formatValue = (value: number) => value.toFixed(2).replace('.', ',');
+  const lines = [
+    'Campo;Valor',
+    `Ano-calendário;${declaration.anoCalendario}`,
+    `CNPJ;${declaration.cnpj}`,
+    `Receita bruta - comércio, indústria e transporte de cargas (ICMS);${formatValue(declaration.receitaBrutaComercioIndustria)}`,
+    `Receita bruta - prestação de serviços (ISS);${formatValue(declaration.receitaBrutaServicos)}`,
+    `Receita bruta total;${formatValue(declaration.receitaBrutaTotal)}`,
+    `Possui empregado;${declaration.possuiEmpregado ? 'Sim' : 'Não'}`,
+  ];
+  return lines.join('\n');
+};
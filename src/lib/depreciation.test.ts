@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { Investment } from "@/types/finance";
+import {
+  DEFAULT_DEPRECIATION_SETTINGS,
+  getAccumulatedDepreciation,
+  getAssetRegister,
+  getBookValue,
+  getBookValueTimeline,
+  getDepreciationByCategory,
+  getDepreciationLookback,
+  getMonthlyDepreciation,
+  isDepreciable,
+} from "@/lib/depreciation";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const investment = (overrides: Partial<Investment>): Investment => ({
+  id: 'investment',
+  description: 'Investimento',
+  amount: 0,
+  category: 'Software',
+  date: day(2024, 1, 15),
+  status: 'executed',
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const settings = DEFAULT_DEPRECIATION_SETTINGS;
+
+// 60 months by the category default
+const laptop = investment({ id: 'laptop', amount: 1000, category: 'Equipamentos' });
+// 3 months set on the investment itself
+const license = investment({ id: 'license', amount: 100, date: day(2024, 2, 10), depreciationMonths: 3 });
+
+describe('isDepreciable', () => {
+  it('depreciates executed investments with a useful life', () => {
+    expect(isDepreciable(laptop, settings)).toBe(true);
+    expect(isDepreciable(license, settings)).toBe(true);
+    expect(isDepreciable(investment({ category: 'Software' }), settings)).toBe(false);
+    expect(isDepreciable({ ...laptop, status: 'planned' }, settings)).toBe(false);
+  });
+});
+
+describe('getMonthlyDepreciation', () => {
+  it('spreads the amount evenly from the month of acquisition', () => {
+    expect(getMonthlyDepreciation(laptop, settings, new Date(2023, 11, 1))).toBe(0);
+    expect(getMonthlyDepreciation(laptop, settings, new Date(2024, 0, 1))).toBe(16.67);
+    expect(getMonthlyDepreciation(laptop, settings, new Date(2028, 11, 1))).toBe(16.47);
+    expect(getMonthlyDepreciation(laptop, settings, new Date(2029, 0, 1))).toBe(0);
+  });
+
+  it('leaves the rounding difference to the last month', () => {
+    const months = [1, 2, 3, 4].map(month => getMonthlyDepreciation(license, settings, new Date(2024, month, 1)));
+    expect(months).toEqual([33.33, 33.33, 33.34, 0]);
+  });
+});
+
+describe('getAccumulatedDepreciation and getBookValue', () => {
+  it('accumulate up to the amount and never below zero', () => {
+    expect(getAccumulatedDepreciation(laptop, settings, new Date(2024, 2, 1))).toBe(50.01);
+    expect(getBookValue(laptop, settings, new Date(2024, 2, 1))).toBe(949.99);
+    expect(getAccumulatedDepreciation(laptop, settings, new Date(2028, 11, 1))).toBe(1000);
+    expect(getBookValue(laptop, settings, new Date(2030, 0, 1))).toBe(0);
+  });
+});
+
+describe('getAssetRegister', () => {
+  it('lists the assets owned at the end of the month, newest first', () => {
+    const register = getAssetRegister([laptop, license, investment({ date: day(2024, 4, 1), category: 'Equipamentos', amount: 500 })], settings, new Date(2024, 2, 1));
+    expect(register).toEqual([
+      {
+        investment: license,
+        usefulLife: 3,
+        monthlyDepreciation: 33.33,
+        accumulatedDepreciation: 66.66,
+        bookValue: 33.34,
+        fullyDepreciatedOn: new Date(2024, 3, 1),
+      },
+      {
+        investment: laptop,
+        usefulLife: 60,
+        monthlyDepreciation: 16.67,
+        accumulatedDepreciation: 50.01,
+        bookValue: 949.99,
+        fullyDepreciatedOn: new Date(2028, 11, 1),
+      },
+    ]);
+  });
+});
+
+describe('getDepreciationByCategory and getBookValueTimeline', () => {
+  it('add the depreciation of the month by category', () => {
+    expect(getDepreciationByCategory([laptop, license], settings, new Date(2024, 3, 1))).toEqual({ Equipamentos: 16.67, Software: 33.34 });
+  });
+
+  it('follow the total book value month by month', () => {
+    expect(getBookValueTimeline([laptop, license], settings, day(2024, 1, 20), new Date(2024, 3, 1))).toEqual([
+      { month: new Date(2024, 0, 1), depreciation: 16.67, bookValue: 983.33 },
+      { month: new Date(2024, 1, 1), depreciation: 50, bookValue: 1033.33 },
+      { month: new Date(2024, 2, 1), depreciation: 50, bookValue: 983.33 },
+      { month: new Date(2024, 3, 1), depreciation: 50.01, bookValue: 933.32 },
+    ]);
+  });
+});
+
+describe('getDepreciationLookback', () => {
+  it('covers the longest useful life in use', () => {
+    expect(getDepreciationLookback([license], settings)).toBe(60);
+    expect(getDepreciationLookback([license, { ...laptop, depreciationMonths: 72 }], settings)).toBe(72);
+    expect(getDepreciationLookback([], { depreciationMonths: {} })).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { addMonths, differenceInCalendarMonths, startOfMonth } from "date-fns";
+import { FiscalSettings, Investment } from "@/types/finance";
+
+// Useful life by investment category; categories left out are expensed in the month they happen.
+// Equipment follows the Receita Federal rate for computers (20% a year)
+export const DEFAULT_DEPRECIATION_MONTHS: Record<string, number> = {
+  Equipamentos: 60,
+};
+
+export type DepreciationSettings = Pick<FiscalSettings, 'depreciationMonths'>;
+
+export const DEFAULT_DEPRECIATION_SETTINGS: DepreciationSettings = {
+  depreciationMonths: DEFAULT_DEPRECIATION_MONTHS,
+};
+
+export interface AssetPosition {
+  investment: Investment;
+  usefulLife: number; // Months
+  monthlyDepreciation: number;
+  accumulatedDepreciation: number;
+  bookValue: number;
+  fullyDepreciatedOn: Date; // Last month with depreciation
+}
+
+export interface BookValuePoint {
+  month: Date;
+  depreciation: number;
+  bookValue: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getCategoryUsefulLife = (category: string, settings: DepreciationSettings): number => {
+  return settings.depreciationMonths[category] ?? 0;
+};
+
+// The life set on the investment wins over the one configured for its category
+export const getUsefulLife = (investment: Investment, settings: DepreciationSettings): number => {
+  return investment.depreciationMonths ?? getCategoryUsefulLife(investment.category, settings);
+};
+
+// Only executed investments are assets; planned ones haven't been bought yet
+export const isDepreciable = (investment: Investment, settings: DepreciationSettings): boolean => {
+  return investment.status === 'executed' && getUsefulLife(investment, settings) > 0;
+};
+
+// Straight-line from the month of acquisition; the last month absorbs the rounding difference
+export const getMonthlyDepreciation = (investment: Investment, settings: DepreciationSettings, month: Date): number => {
+  const life = getUsefulLife(investment, settings);
+  const elapsed = differenceInCalendarMonths(month, investment.date);
+  if (life <= 0 || elapsed < 0 || elapsed >= life) return 0;
+
+  const installment = roundCurrency(investment.amount / life);
+  return elapsed === life - 1 ? roundCurrency(investment.amount - installment * (life - 1)) : installment;
+};
+
+// Depreciation up to and including `month`
+export const getAccumulatedDepreciation = (investment: Investment, settings: DepreciationSettings, month: Date): number => {
+  const life = getUsefulLife(investment, settings);
+  const elapsed = differenceInCalendarMonths(month, investment.date);
+  if (life <= 0 || elapsed < 0) return 0;
+  if (elapsed >= life - 1) return investment.amount;
+  return roundCurrency(roundCurrency(investment.amount / life) * (elapsed + 1));
+};
+
+export const getBookValue = (investment: Investment, settings: DepreciationSettings, month: Date): number => {
+  return roundCurrency(investment.amount - getAccumulatedDepreciation(investment, settings, month));
+};
+
+// Assets acquired up to `month`, with their position at the end of it
+export const getAssetRegister = (investments: Investment[], settings: DepreciationSettings, month: Date): AssetPosition[] => {
+  return investments
+    .filter(investment => isDepreciable(investment, settings) && differenceInCalendarMonths(month, investment.date) >= 0)
+    .map(investment => {
+      const usefulLife = getUsefulLife(investment, settings);
+      return {
+        investment,
+        usefulLife,
+        monthlyDepreciation: getMonthlyDepreciation(investment, settings, month),
+        accumulatedDepreciation: getAccumulatedDepreciation(investment, settings, month),
+        bookValue: getBookValue(investment, settings, month),
+        fullyDepreciatedOn: addMonths(startOfMonth(investment.date), usefulLife - 1),
+      };
+    })
+    .sort((a, b) => b.investment.date.getTime() - a.investment.date.getTime());
+};
+
+export const getDepreciationByCategory = (
+  investments: Investment[],
+  settings: DepreciationSettings,
+  month: Date
+): Record<string, number> => {
+  return investments.reduce((acc, investment) => {
+    const value = isDepreciable(investment, settings) ? getMonthlyDepreciation(investment, settings, month) : 0;
+    if (value > 0) acc[investment.category] = roundCurrency((acc[investment.category] || 0) + value);
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+// Total book value of the assets at the end of each month between `from` and `to`
+export const getBookValueTimeline = (
+  investments: Investment[],
+  settings: DepreciationSettings,
+  from: Date,
+  to: Date
+): BookValuePoint[] => {
+  const assets = investments.filter(investment => isDepreciable(investment, settings));
+  const points: BookValuePoint[] = [];
+
+  for (let month = startOfMonth(from); month <= to; month = addMonths(month, 1)) {
+    const owned = assets.filter(asset => differenceInCalendarMonths(month, asset.date) >= 0);
+    points.push({
+      month,
+      depreciation: roundCurrency(owned.reduce((sum, asset) => sum + getMonthlyDepreciation(asset, settings, month), 0)),
+      bookValue: roundCurrency(owned.reduce((sum, asset) => sum + getBookValue(asset, settings, month), 0)),
+    });
+  }
+  return points;
+};
+
+// How many months back investments must be loaded for a month's depreciation to be complete
+export const getDepreciationLookback = (investments: Investment[], settings: DepreciationSettings): number => {
+  const lives = [
+    ...Object.values(settings.depreciationMonths),
+    ...investments.map(investment => investment.depreciationMonths ?? 0),
+  ];
+  return Math.max(0, ...lives);
+};
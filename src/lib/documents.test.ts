@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  getPersonType,
+  isValidCEP,
+  isValidCNPJ,
+  isValidCPF,
+  isValidDocument,
+  isValidEmail,
+  isValidPhone,
+  maskCEP,
+  maskDocument,
+  maskPhone,
+} from "@/lib/documents";
+
+describe('isValidCPF', () => {
+  it('accepts numbers with matching check digits, masked or not', () => {
+    expect(isValidCPF('529.982.247-25')).toBe(true);
+    expect(isValidCPF('52998224725')).toBe(true);
+  });
+
+  it('rejects wrong check digits', () => {
+    expect(isValidCPF('529.982.247-24')).toBe(false);
+    expect(isValidCPF('529.982.247-15')).toBe(false);
+  });
+
+  it('rejects repeated digits and other lengths', () => {
+    expect(isValidCPF('000.000.000-00')).toBe(false);
+    expect(isValidCPF('111.111.111-11')).toBe(false);
+    expect(isValidCPF('529.982.247-2')).toBe(false);
+  });
+});
+
+describe('isValidCNPJ', () => {
+  it('accepts numbers with matching check digits, masked or not', () => {
+    expect(isValidCNPJ('11.222.333/0001-81')).toBe(true);
+    expect(isValidCNPJ('11444777000161')).toBe(true);
+  });
+
+  it('rejects wrong check digits', () => {
+    expect(isValidCNPJ('11.222.333/0001-82')).toBe(false);
+    expect(isValidCNPJ('11.222.333/0001-91')).toBe(false);
+  });
+
+  it('rejects repeated digits and other lengths', () => {
+    expect(isValidCNPJ('00.000.000/0000-00')).toBe(false);
+    expect(isValidCNPJ('11.222.333/0001-8')).toBe(false);
+  });
+});
+
+describe('isValidDocument', () => {
+  it('tells CPF from CNPJ by the number of digits', () => {
+    expect(getPersonType('529.982.247-25')).toBe('PF');
+    expect(getPersonType('11.222.333/0001-81')).toBe('PJ');
+    expect(getPersonType('1234')).toBeNull();
+    expect(isValidDocument('529.982.247-25')).toBe(true);
+    expect(isValidDocument('11.222.333/0001-81')).toBe(true);
+    expect(isValidDocument('1234')).toBe(false);
+  });
+});
+
+describe('masks', () => {
+  it('masks documents while typing, switching to CNPJ after 11 digits', () => {
+    expect(maskDocument('5299822')).toBe('529.982.2');
+    expect(maskDocument('52998224725')).toBe('529.982.247-25');
+    expect(maskDocument('112223330001819')).toBe('11.222.333/0001-81');
+  });
+
+  it('masks CEP and phones', () => {
+    expect(maskCEP('01310100')).toBe('01310-100');
+    expect(maskPhone('1133334444')).toBe('(11) 3333-4444');
+    expect(maskPhone('11987654321')).toBe('(11) 98765-4321');
+  });
+});
+
+describe('contacts', () => {
+  it('validates CEP, phone and e-mail', () => {
+    expect(isValidCEP('01310-100')).toBe(true);
+    expect(isValidCEP('0131010')).toBe(false);
+    expect(isValidPhone('(11) 3333-4444')).toBe(true);
+    expect(isValidPhone('(11) 98765-4321')).toBe(true);
+    expect(isValidPhone('3333-4444')).toBe(false);
+    expect(isValidEmail('contato@empresa.com.br')).toBe(true);
+    expect(isValidEmail('contato@empresa')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+// Brazilian document numbers (CPF, CNPJ, CEP) and phone numbers: validation and masks.
+// Values are stored as digits only and formatted when displayed.
+
+export type PersonType = 'PF' | 'PJ';
+
+export const onlyDigits = (value: string): string => value.replace(/\D/g, '');
+
+// Sequences like 000.000.000-00 pass the check-digit math but are never issued
+const isRepeatedDigit = (digits: string) => /^(\d)\1+$/.test(digits);
+
+const checkDigit = (digits: string, weights: number[]): number => {
+  const sum = weights.reduce((acc, weight, index) => acc + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+};
+
+export const isValidCPF = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || isRepeatedDigit(digits)) return false;
+
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+};
+
+export const isValidCNPJ = (value: string): boolean => {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || isRepeatedDigit(digits)) return false;
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+};
+
+// CPF has 11 digits and CNPJ 14; anything else is incomplete
+export const getPersonType = (document?: string): PersonType | null => {
+  const digits = onlyDigits(document || '');
+  if (digits.length === 11) return 'PF';
+  if (digits.length === 14) return 'PJ';
+  return null;
+};
+
+export const isValidDocument = (value: string): boolean => {
+  const type = getPersonType(value);
+  if (type === 'PF') return isValidCPF(value);
+  if (type === 'PJ') return isValidCNPJ(value);
+  return false;
+};
+
+// Applies a pattern like "000.000.000-00" to as many digits as were typed
+const applyMask = (digits: string, pattern: string): string => {
+  let result = '';
+  let index = 0;
+  for (const char of pattern) {
+    if (index >= digits.length) break;
+    if (char === '0') {
+      result += digits[index++];
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+// Masks while typing: CPF up to 11 digits, CNPJ after that
+export const maskDocument = (value: string): string => {
+  const digits = onlyDigits(value).slice(0, 14);
+  return digits.length <= 11
+    ? applyMask(digits, '000.000.000-00')
+    : applyMask(digits, '00.000.000/0000-00');
+};
+
+export const maskCEP = (value: string): string => applyMask(onlyDigits(value).slice(0, 8), '00000-000');
+
+// Landlines have 10 digits with the area code, mobile numbers 11
+export const maskPhone = (value: string): string => {
+  const digits = onlyDigits(value).slice(0, 11);
+  return digits.length <= 10
+    ? applyMask(digits, '(00) 0000-0000')
+    : applyMask(digits, '(00) 00000-0000');
+};
+
+export const isValidCEP = (value: string): boolean => onlyDigits(value).length === 8;
+
+export const isValidPhone = (value: string): boolean => {
+  const length = onlyDigits(value).length;
+  return length === 10 || length === 11;
+};
+
+export const isValidEmail = (value: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { endOfMonth } from "date-fns";
+import { Expense, Income, Investment } from "@/types/finance";
+import { DEFAULT_DEPRECIATION_SETTINGS } from "@/lib/depreciation";
+import {
+  DRERecords,
+  formatDREPeriod,
+  getDRELines,
+  getDREPeriod,
+  getExpenseInMonth,
+  getIncomeInMonth,
+  getMonthDRE,
+  getPeriodMonths,
+  sumDRE,
+} from "@/lib/dre";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const march = new Date(2024, 2, 1);
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 0,
+  clientId: 'c1',
+  paymentDate: day(2024, 3, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 3, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: 'expense',
+  description: 'Despesa',
+  amount: 0,
+  category: 'Outros',
+  dueDate: day(2024, 3, 10),
+  status: 'unpaid',
+  payments: [],
+  type: 'business',
+  isFixed: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const investment = (overrides: Partial<Investment>): Investment => ({
+  id: 'investment',
+  description: 'Investimento',
+  amount: 0,
+  category: 'Software',
+  date: day(2024, 3, 15),
+  status: 'executed',
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const records: DRERecords = {
+  incomes: [
+    // Issued in February, received in two parts
+    income({ amount: 1000, issueDate: day(2024, 2, 25), payments: [{ date: day(2024, 3, 12), amount: 600 }, { date: day(2024, 4, 2), amount: 400 }] }),
+    // Earned in March, due in April
+    income({ amount: 2000, competenceDate: march, dueDate: day(2024, 4, 10), paymentDate: day(2024, 4, 10) }),
+    income({ amount: 500, cancelled: true, payments: [{ date: day(2024, 3, 5), amount: 500 }] }),
+  ],
+  expenses: [
+    expense({ amount: 800, category: 'Aluguel', status: 'paid', payments: [{ date: day(2024, 3, 5), amount: 800 }] }),
+    expense({ amount: 100, category: 'Internet', dueDate: day(2024, 3, 20) }),
+    expense({
+      amount: 300,
+      category: 'Mercado',
+      type: 'personal',
+      dueDate: day(2024, 2, 28),
+      status: 'paid',
+      payments: [{ date: day(2024, 3, 1), amount: 300 }],
+    }),
+    expense({
+      amount: 75.6,
+      category: 'Impostos',
+      dueDate: day(2024, 3, 20),
+      dasCompetence: new Date(2024, 1, 1),
+      status: 'paid',
+      payments: [{ date: day(2024, 3, 20), amount: 75.6 }],
+    }),
+  ],
+  investments: [
+    investment({ amount: 200 }),
+    investment({ amount: 6000, category: 'Equipamentos', date: day(2024, 3, 1) }), // 60 months of depreciation
+    investment({ amount: 500, status: 'planned' }),
+  ],
+  withdrawals: [{ id: 'w1', date: day(2024, 3, 25), amount: 1000, createdAt: day(2024, 3, 25) }],
+};
+
+describe('getDREPeriod', () => {
+  const reference = day(2024, 5, 15);
+
+  it('picks the months around the reference', () => {
+    expect(getDREPeriod('monthly', reference)).toEqual({ from: new Date(2024, 4, 1), to: endOfMonth(new Date(2024, 4, 1)) });
+    expect(getDREPeriod('quarterly', reference)).toEqual({ from: new Date(2024, 3, 1), to: endOfMonth(new Date(2024, 5, 1)) });
+    expect(getDREPeriod('semiannual', day(2024, 8, 1))).toEqual({ from: new Date(2024, 6, 1), to: endOfMonth(new Date(2024, 11, 1)) });
+    expect(getDREPeriod('annual', reference)).toEqual({ from: new Date(2024, 0, 1), to: endOfMonth(new Date(2024, 11, 1)) });
+    expect(getDREPeriod('ytd', reference)).toEqual({ from: new Date(2024, 0, 1), to: endOfMonth(new Date(2024, 4, 1)) });
+  });
+
+  it('lists and labels the months of the period', () => {
+    const quarter = getDREPeriod('quarterly', reference);
+    expect(getPeriodMonths(quarter)).toEqual([new Date(2024, 3, 1), new Date(2024, 4, 1), new Date(2024, 5, 1)]);
+    expect(formatDREPeriod(quarter)).toBe('abr/2024 a jun/2024');
+    expect(formatDREPeriod(getDREPeriod('monthly', reference))).toBe('maio de 2024');
+    expect(formatDREPeriod(getDREPeriod('annual', reference))).toBe('Ano de 2024');
+  });
+});
+
+describe('getMonthDRE', () => {
+  it('counts what was received and paid in the month under the cash basis', () => {
+    expect(getMonthDRE(records, DEFAULT_DEPRECIATION_SETTINGS, 'cash', march)).toMatchObject({
+      incomeByCategory: { Serviços: 600 },
+      businessExpensesByCategory: { Aluguel: 800, Impostos: 75.6 },
+      personalExpensesByCategory: { Mercado: 300 },
+      investmentsByCategory: { Software: 200 },
+      depreciationByCategory: { Equipamentos: 100 },
+      totalRevenue: 600,
+      totalBusinessExpenses: 875.6,
+      totalWithdrawals: 1000,
+      grossProfit: -275.6,
+      operatingResult: -575.6,
+      retainedProfit: -1575.6,
+      netResult: -875.6,
+    });
+  });
+
+  it('counts what the month earned and incurred under the accrual basis', () => {
+    expect(getMonthDRE(records, DEFAULT_DEPRECIATION_SETTINGS, 'accrual', march)).toMatchObject({
+      incomeByCategory: { Serviços: 2000 },
+      businessExpensesByCategory: { Aluguel: 800, Internet: 100 },
+      personalExpensesByCategory: {},
+      totalRevenue: 2000,
+      totalBusinessExpenses: 900,
+      grossProfit: 1100,
+      operatingResult: 800,
+      retainedProfit: -200,
+      netResult: 800,
+    });
+  });
+
+  it('agrees with the amounts each record adds to the month', () => {
+    (['cash', 'accrual'] as const).forEach(basis => {
+      const dre = getMonthDRE(records, DEFAULT_DEPRECIATION_SETTINGS, basis, march);
+      const revenue = records.incomes.reduce((sum, i) => sum + getIncomeInMonth(i, basis, march), 0);
+      const expenses = records.expenses.reduce((sum, e) => sum + getExpenseInMonth(e, basis, march), 0);
+      expect(revenue).toBeCloseTo(dre.totalRevenue);
+      expect(expenses).toBeCloseTo(dre.totalBusinessExpenses + dre.totalPersonalExpenses);
+    });
+  });
+});
+
+describe('sumDRE and getDRELines', () => {
+  const months = [new Date(2024, 2, 1), new Date(2024, 3, 1)].map(month => getMonthDRE(records, DEFAULT_DEPRECIATION_SETTINGS, 'cash', month));
+  const total = sumDRE(months);
+
+  it('adds the months by category', () => {
+    expect(total.incomeByCategory).toEqual({ Serviços: 1000 });
+    expect(total.totalRevenue).toBe(1000);
+    expect(total.depreciationByCategory).toEqual({ Equipamentos: 200 });
+  });
+
+  it('shows deductions as negative values, one per month plus the total', () => {
+    const lines = getDRELines(months, total);
+    expect(lines.find(line => line.label === 'Total Receitas')).toMatchObject({ values: [600, 400], total: 1000 });
+    expect(lines.find(line => line.label === 'Saques')).toMatchObject({ values: [-1000, 0], total: -1000 });
+  });
+});
@@ -0,0 +1,289 @@
+import { addMonths, endOfMonth, format, getMonth, getYear, isSameMonth, isWithinInterval, startOfMonth, startOfYear } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AccountingBasis, Expense, Income, Investment, Withdrawal } from "@/types/finance";
+import { DepreciationSettings, getDepreciationByCategory, isDepreciable } from "@/lib/depreciation";
+
+export type DREPeriodMode = 'monthly' | 'quarterly' | 'semiannual' | 'annual' | 'ytd' | 'custom';
+
+export const drePeriodModeLabels: Record<DREPeriodMode, string> = {
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  semiannual: 'Semestral',
+  annual: 'Anual',
+  ytd: 'Acumulado no ano',
+  custom: 'Intervalo personalizado',
+};
+
+export const DEFAULT_ACCOUNTING_BASIS: AccountingBasis = 'cash';
+
+export const accountingBasisLabels: Record<AccountingBasis, string> = {
+  cash: 'Regime de caixa',
+  accrual: 'Regime de competência',
+};
+
+export interface DREPeriod {
+  from: Date;
+  to: Date;
+}
+
+export interface DRERecords {
+  incomes: Income[];
+  expenses: Expense[];
+  investments: Investment[];
+  withdrawals: Withdrawal[];
+}
+
+export interface DREData {
+  incomeByCategory: Record<string, number>;
+  businessExpensesByCategory: Record<string, number>;
+  personalExpensesByCategory: Record<string, number>;
+  investmentsByCategory: Record<string, number>;
+  depreciationByCategory: Record<string, number>;
+  totalRevenue: number;
+  totalBusinessExpenses: number;
+  totalPersonalExpenses: number;
+  totalInvestments: number;
+  totalDepreciation: number;
+  totalWithdrawals: number;
+  grossProfit: number;
+  operatingResult: number;
+  retainedProfit: number;
+  netResult: number;
+}
+
+export interface DRELine {
+  label: string;
+  values: number[]; // One per month of the period, deductions negative
+  total: number;
+  isHeader?: boolean;
+  isSubtotal?: boolean;
+  isTotal?: boolean;
+  indent?: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// The mode picks the months around `reference`; custom ranges are built by the caller
+export const getDREPeriod = (mode: Exclude<DREPeriodMode, 'custom'>, reference: Date): DREPeriod => {
+  const year = getYear(reference);
+  const month = getMonth(reference);
+  const span = (first: number, length: number): DREPeriod => {
+    const from = new Date(year, first, 1);
+    return { from, to: endOfMonth(addMonths(from, length - 1)) };
+  };
+
+  switch (mode) {
+    case 'quarterly':
+      return span(Math.floor(month / 3) * 3, 3);
+    case 'semiannual':
+      return span(Math.floor(month / 6) * 6, 6);
+    case 'annual':
+      return span(0, 12);
+    case 'ytd':
+      return { from: startOfYear(reference), to: endOfMonth(reference) };
+    default:
+      return span(month, 1);
+  }
+};
+
+export const getPeriodMonths = (period: DREPeriod): Date[] => {
+  const months: Date[] = [];
+  for (let month = startOfMonth(period.from); month <= period.to; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+};
+
+export const formatDREPeriod = (period: DREPeriod): string => {
+  if (isSameMonth(period.from, period.to)) return format(period.from, "MMMM 'de' yyyy", { locale: ptBR });
+  if (getMonth(period.from) === 0 && getMonth(period.to) === 11 && getYear(period.from) === getYear(period.to)) {
+    return `Ano de ${getYear(period.from)}`;
+  }
+  return `${format(period.from, "MMM/yyyy", { locale: ptBR })} a ${format(period.to, "MMM/yyyy", { locale: ptBR })}`;
+};
+
+const addTo = (acc: Record<string, number>, category: string, value: number) => {
+  acc[category] = roundCurrency((acc[category] || 0) + value);
+};
+
+const sumValues = (values: Record<string, number>) => roundCurrency(Object.values(values).reduce((sum, value) => sum + value, 0));
+
+const withResults = (
+  data: Pick<DREData, 'incomeByCategory' | 'businessExpensesByCategory' | 'personalExpensesByCategory' | 'investmentsByCategory' | 'depreciationByCategory' | 'totalWithdrawals'>
+): DREData => {
+  const totalRevenue = sumValues(data.incomeByCategory);
+  const totalBusinessExpenses = sumValues(data.businessExpensesByCategory);
+  const totalPersonalExpenses = sumValues(data.personalExpensesByCategory);
+  const totalInvestments = sumValues(data.investmentsByCategory);
+  const totalDepreciation = sumValues(data.depreciationByCategory);
+
+  const grossProfit = roundCurrency(totalRevenue - totalBusinessExpenses);
+  const operatingResult = roundCurrency(grossProfit - totalInvestments - totalDepreciation);
+  const retainedProfit = roundCurrency(operatingResult - data.totalWithdrawals);
+  const netResult = roundCurrency(operatingResult - totalPersonalExpenses);
+
+  return {
+    ...data,
+    totalRevenue,
+    totalBusinessExpenses,
+    totalPersonalExpenses,
+    totalInvestments,
+    totalDepreciation,
+    grossProfit,
+    operatingResult,
+    retainedProfit,
+    netResult,
+  };
+};
+
+// DAS guides and card invoices already know the month they refer to
+export const getExpenseCompetence = (expense: Expense): Date => {
+  return expense.competenceDate ?? expense.dasCompetence ?? expense.invoiceMonth ?? expense.dueDate;
+};
+
+export const getIncomeCompetence = (income: Income): Date => {
+  return income.competenceDate ?? income.issueDate ?? income.dueDate;
+};
+
+// What a record adds to a month under each regime, by the same rules as the DRE below; used
+// by the monthly summary so its revenue and expenses match the statement
+export const getIncomeInMonth = (income: Income, basis: AccountingBasis, month: Date): number => {
+  return getIncomeInPeriod(income, basis, startOfMonth(month), endOfMonth(month));
+};
+
+// Same rules over any span of days, for the yearly figures: the MEI limit, the DASN and the
+// share of each client
+export const getIncomeInPeriod = (income: Income, basis: AccountingBasis, from: Date, to: Date): number => {
+  if (income.cancelled) return 0;
+  const inPeriod = (date: Date) => isWithinInterval(new Date(date), { start: from, end: to });
+  if (basis === 'accrual') return inPeriod(getIncomeCompetence(income)) ? income.amount : 0;
+  return roundCurrency(income.payments
+    .filter(payment => inPeriod(payment.date))
+    .reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+export const getExpenseInMonth = (expense: Expense, basis: AccountingBasis, month: Date): number => {
+  if (basis === 'accrual') return isSameMonth(getExpenseCompetence(expense), month) ? expense.amount : 0;
+  if (expense.status !== 'paid') return 0;
+  return roundCurrency(expense.payments
+    .filter(payment => isSameMonth(payment.date, month))
+    .reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+export const getMonthDRE = (
+  records: DRERecords,
+  settings: DepreciationSettings,
+  basis: AccountingBasis,
+  month: Date
+): DREData => {
+  const start = startOfMonth(month);
+  const end = endOfMonth(month);
+  const inMonth = (date: Date) => isWithinInterval(new Date(date), { start, end });
+
+  // Cash basis counts each payment in the month it was received
+  const incomeByCategory: Record<string, number> = {};
+  records.incomes
+    .filter(income => !income.cancelled)
+    .forEach(income => {
+      if (basis === 'accrual') {
+        if (inMonth(getIncomeCompetence(income))) addTo(incomeByCategory, income.category, income.amount);
+        return;
+      }
+      income.payments
+        .filter(payment => inMonth(payment.date))
+        .forEach(payment => addTo(incomeByCategory, income.category, payment.amount));
+    });
+
+  // Cash basis only takes settled expenses, in the months their payments were made
+  const businessExpensesByCategory: Record<string, number> = {};
+  const personalExpensesByCategory: Record<string, number> = {};
+  records.expenses.forEach(expense => {
+    const byCategory = expense.type === 'business' ? businessExpensesByCategory : personalExpensesByCategory;
+    if (basis === 'accrual') {
+      if (inMonth(getExpenseCompetence(expense))) addTo(byCategory, expense.category, expense.amount);
+      return;
+    }
+    if (expense.status !== 'paid') return;
+    expense.payments
+      .filter(payment => inMonth(payment.date))
+      .forEach(payment => addTo(byCategory, expense.category, payment.amount));
+  });
+
+  // Depreciable assets enter the result through the depreciation line instead
+  const investmentsByCategory: Record<string, number> = {};
+  records.investments
+    .filter(investment =>
+      investment.status === 'executed' &&
+      !isDepreciable(investment, settings) &&
+      inMonth(investment.date)
+    )
+    .forEach(investment => addTo(investmentsByCategory, investment.category, investment.amount));
+
+  // Withdrawals distribute the profit; they are not an operating expense
+  const totalWithdrawals = roundCurrency(records.withdrawals
+    .filter(withdrawal => inMonth(withdrawal.date))
+    .reduce((sum, w) => sum + w.amount, 0));
+
+  return withResults({
+    incomeByCategory,
+    businessExpensesByCategory,
+    personalExpensesByCategory,
+    investmentsByCategory,
+    depreciationByCategory: getDepreciationByCategory(records.investments, settings, month),
+    totalWithdrawals,
+  });
+};
+
+export const sumDRE = (columns: DREData[]): DREData => {
+  const merge = (pick: (data: DREData) => Record<string, number>) => {
+    const acc: Record<string, number> = {};
+    columns.forEach(data => Object.entries(pick(data)).forEach(([category, value]) => addTo(acc, category, value)));
+    return acc;
+  };
+
+  return withResults({
+    incomeByCategory: merge(data => data.incomeByCategory),
+    businessExpensesByCategory: merge(data => data.businessExpensesByCategory),
+    personalExpensesByCategory: merge(data => data.personalExpensesByCategory),
+    investmentsByCategory: merge(data => data.investmentsByCategory),
+    depreciationByCategory: merge(data => data.depreciationByCategory),
+    totalWithdrawals: roundCurrency(columns.reduce((sum, data) => sum + data.totalWithdrawals, 0)),
+  });
+};
+
+// Statement lines with one value per month, shared by the table and the CSV export
+export const getDRELines = (columns: DREData[], total: DREData): DRELine[] => {
+  const line = (label: string, pick: (data: DREData) => number, sign: 1 | -1, extra: Partial<DRELine> = {}): DRELine => ({
+    label,
+    values: columns.map(data => sign * pick(data) || 0), // Avoids -0 showing as "-R$ 0,00"
+    total: sign * pick(total) || 0,
+    ...extra,
+  });
+  const header = (label: string): DRELine => ({ label, values: columns.map(() => 0), total: 0, isHeader: true });
+  const categories = (pick: (data: DREData) => Record<string, number>, sign: 1 | -1) =>
+    Object.keys(pick(total)).map(category => line(category, data => pick(data)[category] || 0, sign, { indent: 1 }));
+
+  return [
+    header('Receita Operacional Bruta'),
+    ...categories(data => data.incomeByCategory, 1),
+    line('Total Receitas', data => data.totalRevenue, 1, { isSubtotal: true }),
+    header('(-) Despesas Operacionais'),
+    ...categories(data => data.businessExpensesByCategory, -1),
+    line('Total Despesas Operacionais', data => data.totalBusinessExpenses, -1, { isSubtotal: true }),
+    line('Lucro Bruto', data => data.grossProfit, 1, { isTotal: true }),
+    header('(-) Investimentos'),
+    ...categories(data => data.investmentsByCategory, -1),
+    line('Total Investimentos', data => data.totalInvestments, -1, { isSubtotal: true }),
+    header('(-) Depreciação'),
+    ...categories(data => data.depreciationByCategory, -1),
+    line('Total Depreciação', data => data.totalDepreciation, -1, { isSubtotal: true }),
+    line('Resultado Operacional', data => data.operatingResult, 1, { isTotal: true }),
+    header('(-) Distribuição de Lucros'),
+    line('Saques', data => data.totalWithdrawals, -1, { indent: 1 }),
+    line('Lucro Retido na Empresa', data => data.retainedProfit, 1, { isSubtotal: true }),
+    header('(-) Despesas Pessoais'),
+    ...categories(data => data.personalExpensesByCategory, -1),
+    line('Total Despesas Pessoais', data => data.totalPersonalExpenses, -1, { isSubtotal: true }),
+    line('Resultado Líquido do Período', data => data.netResult, 1, { isTotal: true }),
+  ];
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Expense } from "@/types/finance";
+import {
+  buildInstallments,
+  getInstallmentAmounts,
+  getPaidAmount,
+  getPaidBySource,
+  getRemainingAmount,
+  isPartiallyPaid,
+  withExpensePayments,
+  withStatus,
+} from "@/lib/expensePayments";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: 'expense',
+  description: 'Despesa',
+  amount: 100,
+  category: 'Outros',
+  dueDate: day(2024, 3, 10),
+  status: 'unpaid',
+  payments: [],
+  type: 'business',
+  isFixed: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const partial = expense({
+  payments: [{ date: day(2024, 3, 5), amount: 30, sourceId: 'c1' }, { date: day(2024, 3, 6), amount: 10.1, sourceId: 'c1' }, { date: day(2024, 3, 7), amount: 20 }],
+});
+
+describe('getPaidAmount and getRemainingAmount', () => {
+  it('add the payments and leave what is still open', () => {
+    expect(getPaidAmount(partial)).toBe(60.1);
+    expect(getRemainingAmount(partial)).toBe(39.9);
+    expect(getRemainingAmount(expense({ payments: [{ date: day(2024, 3, 5), amount: 120 }] }))).toBe(0);
+  });
+
+  it('flag expenses with some but not all of the amount paid', () => {
+    expect(isPartiallyPaid(partial)).toBe(true);
+    expect(isPartiallyPaid(expense({}))).toBe(false);
+    expect(isPartiallyPaid(expense({ payments: [{ date: day(2024, 3, 5), amount: 100 }] }))).toBe(false);
+  });
+});
+
+describe('getPaidBySource', () => {
+  it('adds what the revenue of each client paid', () => {
+    expect(getPaidBySource(partial)).toEqual({ c1: 40.1 });
+  });
+});
+
+describe('withExpensePayments', () => {
+  it('marks the expense as paid once the payments cover it and reopens it otherwise', () => {
+    const payments = [{ date: day(2024, 3, 5), amount: 100 }];
+    expect(withExpensePayments(expense({}), payments)).toEqual({ payments, status: 'paid' });
+    expect(withExpensePayments(expense({ status: 'paid', payments }), partial.payments)).toEqual({ payments: partial.payments, status: 'unpaid' });
+    expect(withExpensePayments(expense({ status: 'saved' }), partial.payments).status).toBe('saved');
+  });
+});
+
+describe('withStatus', () => {
+  it('settles what is still open when marked as paid', () => {
+    expect(withStatus(partial, 'paid', 'c2')).toEqual({
+      payments: [...partial.payments, { date: day(2024, 3, 10), amount: 39.9, sourceId: 'c2' }],
+      status: 'paid',
+    });
+    expect(withStatus(partial, 'paid', undefined, day(2024, 3, 12)).payments[3]).toEqual({ date: day(2024, 3, 12), amount: 39.9, sourceId: undefined });
+  });
+
+  it('undoes the settlement but keeps partial payments when leaving paid', () => {
+    expect(withStatus(expense({ status: 'paid', payments: [{ date: day(2024, 3, 10), amount: 100 }] }), 'unpaid')).toEqual({ payments: [], status: 'unpaid' });
+    expect(withStatus(partial, 'saved')).toEqual({ payments: partial.payments, status: 'saved' });
+  });
+});
+
+describe('getInstallmentAmounts', () => {
+  it('gives the rounding cents to the first installment', () => {
+    expect(getInstallmentAmounts(100, 3)).toEqual([33.34, 33.33, 33.33]);
+    expect(getInstallmentAmounts(1000, 4)).toEqual([250, 250, 250, 250]);
+    expect(getInstallmentAmounts(0.1, 3)).toEqual([0.04, 0.03, 0.03]);
+  });
+});
+
+describe('buildInstallments', () => {
+  it('splits the purchase month by month and pays only the first installment', () => {
+    const purchase: Omit<Expense, 'id' | 'createdAt'> = {
+      description: 'Notebook',
+      amount: 100,
+      category: 'Equipamentos',
+      dueDate: day(2024, 1, 31),
+      status: 'paid',
+      payments: [],
+      type: 'business',
+      isFixed: false,
+      paymentSourceId: 'c1',
+    };
+    const installments = buildInstallments(purchase, 3, 'g1');
+
+    expect(installments.map(({ amount, dueDate, status, payments, installmentNumber }) => ({ amount, dueDate, status, payments, installmentNumber }))).toEqual([
+      { amount: 33.34, dueDate: day(2024, 1, 31), status: 'paid', payments: [{ date: day(2024, 1, 31), amount: 33.34, sourceId: 'c1' }], installmentNumber: 1 },
+      { amount: 33.33, dueDate: day(2024, 2, 29), status: 'unpaid', payments: [], installmentNumber: 2 },
+      { amount: 33.33, dueDate: day(2024, 3, 31), status: 'unpaid', payments: [], installmentNumber: 3 },
+    ]);
+    expect(installments[2]).toMatchObject({ description: 'Notebook', installmentGroupId: 'g1', installmentCount: 3 });
+  });
+});
@@ -0,0 +1,88 @@
+import { addMonths } from "date-fns";
+import { Expense, ExpensePayment, PaymentStatus } from "@/types/finance";
+
+type ExpensePaymentFields = Pick<Expense, 'amount' | 'dueDate' | 'status' | 'payments'>;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getPaidAmount = (expense: Pick<Expense, 'payments'>): number => {
+  return roundCurrency(expense.payments.reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+export const getRemainingAmount = (expense: Pick<Expense, 'amount' | 'payments'>): number => {
+  return Math.max(roundCurrency(expense.amount - getPaidAmount(expense)), 0);
+};
+
+export const isPartiallyPaid = (expense: Pick<Expense, 'amount' | 'payments'>): boolean => {
+  return expense.payments.length > 0 && getRemainingAmount(expense) > 0;
+};
+
+// Amount paid with the revenue of each client
+export const getPaidBySource = (expense: Pick<Expense, 'payments'>): Record<string, number> => {
+  return expense.payments.reduce((acc, payment) => {
+    if (payment.sourceId) acc[payment.sourceId] = roundCurrency((acc[payment.sourceId] || 0) + payment.amount);
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+// Updates to save after changing the payments of an expense; the status follows what was paid
+export const withExpensePayments = (
+  expense: ExpensePaymentFields,
+  payments: ExpensePayment[]
+): Pick<Expense, 'payments' | 'status'> => {
+  const settled = getRemainingAmount({ amount: expense.amount, payments }) === 0;
+  const status: PaymentStatus = settled ? 'paid' : expense.status === 'paid' ? 'unpaid' : expense.status;
+  return { payments, status };
+};
+
+// Choosing "paid" settles what is still open, on the due date unless told otherwise.
+// Leaving "paid" undoes the settlement; partial payments are kept between unpaid and saved.
+export const withStatus = (
+  expense: ExpensePaymentFields,
+  status: PaymentStatus,
+  sourceId?: string,
+  date?: Date
+): Pick<Expense, 'payments' | 'status'> => {
+  const remaining = getRemainingAmount(expense);
+  if (status === 'paid') {
+    const payments = remaining > 0
+      ? [...expense.payments, { date: date ?? expense.dueDate, amount: remaining, sourceId }]
+      : expense.payments;
+    return { payments, status };
+  }
+  return { payments: remaining === 0 ? [] : expense.payments, status };
+};
+
+// Splits a total into equal installments; the first one absorbs the rounding cents
+export const getInstallmentAmounts = (total: number, count: number): number[] => {
+  const installment = Math.floor((total / count) * 100) / 100;
+  const first = roundCurrency(total - installment * (count - 1));
+  return Array.from({ length: count }, (_, index) => index === 0 ? first : installment);
+};
+
+// Splits a purchase into monthly installments
+export const buildInstallments = (
+  expense: Omit<Expense, 'id' | 'createdAt'>,
+  count: number,
+  groupId: string
+): Omit<Expense, 'id' | 'createdAt'>[] => {
+  const amounts = getInstallmentAmounts(expense.amount, count);
+
+  return amounts.map((amount, index) => {
+    const dueDate = addMonths(expense.dueDate, index);
+    // Only the first installment takes the status chosen in the form
+    const payment = index === 0
+      ? withStatus({ amount, dueDate, status: 'unpaid', payments: [] }, expense.status, expense.paymentSourceId)
+      : { payments: [], status: 'unpaid' as PaymentStatus };
+
+    return {
+      ...expense,
+      ...payment,
+      amount,
+      dueDate,
+      installmentGroupId: groupId,
+      installmentNumber: index + 1,
+      installmentCount: count,
+    };
+  });
+};
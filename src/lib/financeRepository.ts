@@ -0,0 +1,821 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Client, Income, IncomePayment, Expense, ExpensePayment, CreditCard, CardPurchase, Account, AccountType, Transfer, Withdrawal, Budget, BudgetRollover, AccountingBasis, Investment, InvestmentStatus, PaymentStatus, FiscalSettings, MEIActivity, RecurringExpense, RecurrenceFrequency } from '@/types/finance';
+import { DEFAULT_LIMIT_SETTINGS } from '@/lib/meiLimit';
+import { DEFAULT_DEPRECIATION_MONTHS } from '@/lib/depreciation';
+import { DEFAULT_CONCENTRATION_THRESHOLD } from '@/lib/clientStats';
+import { DEFAULT_ACCOUNTING_BASIS } from '@/lib/dre';
+import { LEGACY_WITHDRAWAL_CATEGORY } from '@/lib/withdrawals';
+import { getOccurrenceInMonth } from '@/lib/recurrence';
+import {
+  CachedRow,
+  OFFLINE_TABLES,
+  OfflineTable,
+  applyQueuedMutations,
+  deleteCachedRows,
+  getCachedRows,
+  getQueuedMutations,
+  putCachedRows,
+  replaceCachedRows,
+} from '@/lib/offlineStore';
+import { WriteResult, deleteRow, insertRows, isNetworkError, updateRow } from '@/lib/syncEngine';
+import { addMonths, format, parseISO } from 'date-fns';
+
+// Date-only columns are written and read in local time so occurrences keep their day
+export const toDateColumn = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Convert database row to Client
+export const toClient = (row: any): Client => ({
+  id: row.id,
+  name: row.name,
+  document: row.document || undefined,
+  legalName: row.legal_name || undefined,
+  tradeName: row.trade_name || undefined,
+  email: row.email || undefined,
+  phone: row.phone || undefined,
+  address: row.address || undefined,
+  municipalRegistration: row.municipal_registration || undefined,
+  notes: row.notes || undefined,
+  archived: !!row.archived,
+  createdAt: new Date(row.created_at),
+});
+
+// Convert Client to database row
+export const toClientRow = (client: Partial<Omit<Client, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (client.name !== undefined) row.name = client.name;
+  if ('document' in client) row.document = client.document || null;
+  if ('legalName' in client) row.legal_name = client.legalName || null;
+  if ('tradeName' in client) row.trade_name = client.tradeName || null;
+  if ('email' in client) row.email = client.email || null;
+  if ('phone' in client) row.phone = client.phone || null;
+  if ('address' in client) row.address = client.address || null;
+  if ('municipalRegistration' in client) row.municipal_registration = client.municipalRegistration || null;
+  if ('notes' in client) row.notes = client.notes || null;
+  if (client.archived !== undefined) row.archived = client.archived;
+  return row;
+};
+
+// Incomes recorded before receivables existed have no payments column: a past payment date
+// meant the money had arrived, a future one that it was expected on that date
+const toLegacyPayments = (paymentDate: Date, amount: number): IncomePayment[] => {
+  return paymentDate <= new Date() ? [{ date: paymentDate, amount }] : [];
+};
+
+// Convert database row to Income
+export const toIncome = (row: any): Income => ({
+  id: row.id,
+  description: row.description,
+  amount: Number(row.amount),
+  clientId: row.client_id || '',
+  paymentDate: new Date(row.payment_date),
+  category: row.category,
+  issueDate: row.issue_date ? parseISO(row.issue_date) : undefined,
+  dueDate: row.due_date ? parseISO(row.due_date) : new Date(row.payment_date),
+  competenceDate: row.competence_date ? parseISO(row.competence_date) : undefined,
+  payments: row.payments
+    ? row.payments.map((payment: { date: string; amount: number }) => ({ date: parseISO(payment.date), amount: Number(payment.amount) }))
+    : toLegacyPayments(new Date(row.payment_date), Number(row.amount)),
+  cancelled: row.cancelled ?? false,
+  accountId: row.account_id || undefined,
+  createdAt: new Date(row.created_at),
+});
+
+// Convert Income to database row
+export const toIncomeRow = (income: Partial<Omit<Income, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (income.description !== undefined) row.description = income.description;
+  if (income.amount !== undefined) row.amount = income.amount;
+  if (income.clientId !== undefined) row.client_id = income.clientId || null;
+  if (income.paymentDate !== undefined) row.payment_date = income.paymentDate.toISOString().split('T')[0];
+  if (income.category !== undefined) row.category = income.category;
+  if ('issueDate' in income) row.issue_date = income.issueDate ? toDateColumn(income.issueDate) : null;
+  if (income.dueDate !== undefined) row.due_date = toDateColumn(income.dueDate);
+  if ('competenceDate' in income) row.competence_date = income.competenceDate ? toDateColumn(income.competenceDate) : null;
+  if (income.payments !== undefined) {
+    row.payments = income.payments.map(payment => ({
+      date: toDateColumn(payment.date),
+      amount: payment.amount,
+    }));
+  }
+  if (income.cancelled !== undefined) row.cancelled = income.cancelled;
+  if ('accountId' in income) row.account_id = income.accountId || null;
+  return row;
+};
+
+// Expenses recorded before partial payments only had the status: a paid one was paid in full
+// on the due date, by the client set as payment source
+const toLegacyExpensePayments = (status: PaymentStatus, dueDate: Date, amount: number, sourceId?: string): ExpensePayment[] => {
+  return status === 'paid' ? [{ date: dueDate, amount, sourceId }] : [];
+};
+
+// Convert database row to Expense
+export const toExpense = (row: any): Expense => ({
+  id: row.id,
+  description: row.description,
+  amount: Number(row.amount),
+  category: row.category,
+  dueDate: new Date(row.due_date),
+  competenceDate: row.competence_date ? parseISO(row.competence_date) : undefined,
+  status: row.status as PaymentStatus,
+  payments: row.payments
+    ? row.payments.map((payment: { date: string; amount: number; source_id?: string }) => ({
+      date: parseISO(payment.date),
+      amount: Number(payment.amount),
+      sourceId: payment.source_id || undefined,
+    }))
+    : toLegacyExpensePayments(row.status, new Date(row.due_date), Number(row.amount), row.payment_source_id || undefined),
+  paymentSourceId: row.payment_source_id || undefined,
+  type: row.type as 'business' | 'personal',
+  isFixed: row.is_fixed,
+  recurringExpenseId: row.recurring_expense_id || undefined,
+  occurrenceDate: row.occurrence_date ? parseISO(row.occurrence_date) : undefined,
+  dasCompetence: row.das_competence ? parseISO(row.das_competence) : undefined,
+  installmentGroupId: row.installment_group_id || undefined,
+  installmentNumber: row.installment_number ?? undefined,
+  installmentCount: row.installment_count ?? undefined,
+  creditCardId: row.credit_card_id || undefined,
+  invoiceMonth: row.invoice_month ? parseISO(row.invoice_month) : undefined,
+  accountId: row.account_id || undefined,
+  createdAt: new Date(row.created_at),
+});
+
+// Convert Expense to database row
+export const toExpenseRow = (expense: Partial<Omit<Expense, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (expense.description !== undefined) row.description = expense.description;
+  if (expense.amount !== undefined) row.amount = expense.amount;
+  if (expense.category !== undefined) row.category = expense.category;
+  if (expense.dueDate !== undefined) row.due_date = expense.dueDate.toISOString().split('T')[0];
+  if ('competenceDate' in expense) row.competence_date = expense.competenceDate ? toDateColumn(expense.competenceDate) : null;
+  if (expense.status !== undefined) row.status = expense.status;
+  if (expense.payments !== undefined) {
+    row.payments = expense.payments.map(payment => ({
+      date: toDateColumn(payment.date),
+      amount: payment.amount,
+      source_id: payment.sourceId || null,
+    }));
+  }
+  if ('paymentSourceId' in expense) row.payment_source_id = expense.paymentSourceId || null;
+  if (expense.type !== undefined) row.type = expense.type;
+  if (expense.isFixed !== undefined) row.is_fixed = expense.isFixed;
+  if ('recurringExpenseId' in expense) row.recurring_expense_id = expense.recurringExpenseId || null;
+  if ('occurrenceDate' in expense) row.occurrence_date = expense.occurrenceDate ? toDateColumn(expense.occurrenceDate) : null;
+  if ('dasCompetence' in expense) row.das_competence = expense.dasCompetence ? toDateColumn(expense.dasCompetence) : null;
+  if ('installmentGroupId' in expense) row.installment_group_id = expense.installmentGroupId || null;
+  if ('installmentNumber' in expense) row.installment_number = expense.installmentNumber ?? null;
+  if ('installmentCount' in expense) row.installment_count = expense.installmentCount ?? null;
+  if ('creditCardId' in expense) row.credit_card_id = expense.creditCardId || null;
+  if ('invoiceMonth' in expense) row.invoice_month = expense.invoiceMonth ? toDateColumn(expense.invoiceMonth) : null;
+  if ('accountId' in expense) row.account_id = expense.accountId || null;
+  return row;
+};
+
+// Convert database row to CreditCard
+export const toCreditCard = (row: CachedRow): CreditCard => ({
+  id: row.id,
+  name: String(row.name),
+  closingDay: Number(row.closing_day),
+  dueDay: Number(row.due_day),
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert CreditCard to database row
+export const toCreditCardRow = (card: Partial<Omit<CreditCard, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (card.name !== undefined) row.name = card.name;
+  if (card.closingDay !== undefined) row.closing_day = card.closingDay;
+  if (card.dueDay !== undefined) row.due_day = card.dueDay;
+  return row;
+};
+
+// Convert database row to CardPurchase
+export const toCardPurchase = (row: CachedRow): CardPurchase => ({
+  id: row.id,
+  cardId: String(row.card_id),
+  description: String(row.description),
+  amount: Number(row.amount),
+  category: String(row.category),
+  date: parseISO(String(row.date)),
+  installmentCount: Number(row.installment_count) || 1,
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert CardPurchase to database row
+export const toCardPurchaseRow = (purchase: Partial<Omit<CardPurchase, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (purchase.cardId !== undefined) row.card_id = purchase.cardId;
+  if (purchase.description !== undefined) row.description = purchase.description;
+  if (purchase.amount !== undefined) row.amount = purchase.amount;
+  if (purchase.category !== undefined) row.category = purchase.category;
+  if (purchase.date !== undefined) row.date = toDateColumn(purchase.date);
+  if (purchase.installmentCount !== undefined) row.installment_count = purchase.installmentCount;
+  return row;
+};
+
+// Convert database row to RecurringExpense
+export const toRecurringExpense = (row: CachedRow): RecurringExpense => ({
+  id: row.id,
+  description: String(row.description),
+  amount: Number(row.amount),
+  category: String(row.category),
+  type: row.type as 'business' | 'personal',
+  paymentSourceId: (row.payment_source_id as string | null) || undefined,
+  accountId: (row.account_id as string | null) || undefined,
+  rule: {
+    frequency: row.frequency as RecurrenceFrequency,
+    dayOfMonth: Number(row.day_of_month),
+    startDate: parseISO(String(row.start_date)),
+    endDate: row.end_date ? parseISO(String(row.end_date)) : undefined,
+    count: (row.occurrence_count as number | null) ?? undefined,
+  },
+  excludedDates: ((row.excluded_dates as string[] | null) || []).map(date => parseISO(date)),
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert RecurringExpense to database row
+export const toRecurringExpenseRow = (template: Partial<Omit<RecurringExpense, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (template.description !== undefined) row.description = template.description;
+  if (template.amount !== undefined) row.amount = template.amount;
+  if (template.category !== undefined) row.category = template.category;
+  if (template.type !== undefined) row.type = template.type;
+  if ('paymentSourceId' in template) row.payment_source_id = template.paymentSourceId || null;
+  if ('accountId' in template) row.account_id = template.accountId || null;
+  if (template.rule !== undefined) {
+    row.frequency = template.rule.frequency;
+    row.day_of_month = template.rule.dayOfMonth;
+    row.start_date = toDateColumn(template.rule.startDate);
+    row.end_date = template.rule.endDate ? toDateColumn(template.rule.endDate) : null;
+    row.occurrence_count = template.rule.count ?? null;
+  }
+  if (template.excludedDates !== undefined) row.excluded_dates = template.excludedDates.map(toDateColumn);
+  return row;
+};
+
+// Convert database row to Investment
+export const toInvestment = (row: any): Investment => ({
+  id: row.id,
+  description: row.description,
+  amount: Number(row.amount),
+  category: row.category,
+  date: new Date(row.date),
+  status: (row.status as InvestmentStatus) || 'executed',
+  paymentSourceId: row.payment_source_id || undefined,
+  supplier: row.supplier || undefined,
+  depreciationMonths: row.depreciation_months ?? undefined,
+  accountId: row.account_id || undefined,
+  createdAt: new Date(row.created_at),
+});
+
+// Convert Investment to database row
+export const toInvestmentRow = (investment: Partial<Omit<Investment, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (investment.description !== undefined) row.description = investment.description;
+  if (investment.amount !== undefined) row.amount = investment.amount;
+  if (investment.category !== undefined) row.category = investment.category;
+  if (investment.date !== undefined) row.date = investment.date.toISOString().split('T')[0];
+  if (investment.status !== undefined) row.status = investment.status;
+  if ('paymentSourceId' in investment) row.payment_source_id = investment.paymentSourceId || null;
+  if ('supplier' in investment) row.supplier = investment.supplier || null;
+  if ('depreciationMonths' in investment) row.depreciation_months = investment.depreciationMonths ?? null;
+  if ('accountId' in investment) row.account_id = investment.accountId || null;
+  return row;
+};
+
+// Convert database row to Account
+export const toAccount = (row: CachedRow): Account => ({
+  id: row.id,
+  name: String(row.name),
+  type: row.type as AccountType,
+  openingBalance: Number(row.opening_balance ?? 0),
+  openingDate: parseISO(String(row.opening_date)),
+  archived: !!row.archived,
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert Account to database row
+export const toAccountRow = (account: Partial<Omit<Account, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (account.name !== undefined) row.name = account.name;
+  if (account.type !== undefined) row.type = account.type;
+  if (account.openingBalance !== undefined) row.opening_balance = account.openingBalance;
+  if (account.openingDate !== undefined) row.opening_date = toDateColumn(account.openingDate);
+  if (account.archived !== undefined) row.archived = account.archived;
+  return row;
+};
+
+// Convert database row to Withdrawal
+export const toWithdrawal = (row: CachedRow): Withdrawal => ({
+  id: row.id,
+  date: parseISO(String(row.date)),
+  amount: Number(row.amount),
+  sourceClientId: row.source_client_id ? String(row.source_client_id) : undefined,
+  accountId: row.account_id ? String(row.account_id) : undefined,
+  description: row.description ? String(row.description) : undefined,
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert Withdrawal to database row
+export const toWithdrawalRow = (withdrawal: Partial<Omit<Withdrawal, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (withdrawal.date !== undefined) row.date = toDateColumn(withdrawal.date);
+  if (withdrawal.amount !== undefined) row.amount = withdrawal.amount;
+  if ('sourceClientId' in withdrawal) row.source_client_id = withdrawal.sourceClientId || null;
+  if ('accountId' in withdrawal) row.account_id = withdrawal.accountId || null;
+  if ('description' in withdrawal) row.description = withdrawal.description || null;
+  return row;
+};
+
+// Convert database row to Transfer
+export const toTransfer = (row: CachedRow): Transfer => ({
+  id: row.id,
+  fromAccountId: String(row.from_account_id),
+  toAccountId: String(row.to_account_id),
+  amount: Number(row.amount),
+  date: parseISO(String(row.date)),
+  description: row.description ? String(row.description) : undefined,
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert Transfer to database row
+export const toTransferRow = (transfer: Partial<Omit<Transfer, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (transfer.fromAccountId !== undefined) row.from_account_id = transfer.fromAccountId;
+  if (transfer.toAccountId !== undefined) row.to_account_id = transfer.toAccountId;
+  if (transfer.amount !== undefined) row.amount = transfer.amount;
+  if (transfer.date !== undefined) row.date = toDateColumn(transfer.date);
+  if ('description' in transfer) row.description = transfer.description || null;
+  return row;
+};
+
+// Convert database row to Budget
+export const toBudget = (row: CachedRow): Budget => ({
+  id: row.id,
+  category: String(row.category),
+  type: row.type as 'business' | 'personal',
+  amount: Number(row.amount),
+  rollover: (row.rollover as BudgetRollover) || 'none',
+  startMonth: parseISO(String(row.start_month)),
+  createdAt: new Date(String(row.created_at)),
+});
+
+// Convert Budget to database row
+export const toBudgetRow = (budget: Partial<Omit<Budget, 'id' | 'createdAt'>>) => {
+  const row: Record<string, unknown> = {};
+  if (budget.category !== undefined) row.category = budget.category;
+  if (budget.type !== undefined) row.type = budget.type;
+  if (budget.amount !== undefined) row.amount = budget.amount;
+  if (budget.rollover !== undefined) row.rollover = budget.rollover;
+  if (budget.startMonth !== undefined) row.start_month = toDateColumn(budget.startMonth);
+  return row;
+};
+
+// Convert database row to FiscalSettings
+export const toFiscalSettings = (row: CachedRow): FiscalSettings => ({
+  id: row.id,
+  companyName: (row.company_name as string | null) || undefined,
+  cnpj: (row.cnpj as string | null) || undefined,
+  activityType: (row.activity_type as MEIActivity) || undefined,
+  annualLimit: row.annual_limit != null ? Number(row.annual_limit) : DEFAULT_LIMIT_SETTINGS.annualLimit,
+  openingDate: row.opening_date ? parseISO(String(row.opening_date)) : undefined,
+  attentionThreshold: (row.attention_threshold as number | null) ?? DEFAULT_LIMIT_SETTINGS.attentionThreshold,
+  urgentThreshold: (row.urgent_threshold as number | null) ?? DEFAULT_LIMIT_SETTINGS.urgentThreshold,
+  dasGeneratedUntil: row.das_generated_until ? parseISO(String(row.das_generated_until)) : undefined,
+  depreciationMonths: (row.depreciation_months as Record<string, number> | null) ?? DEFAULT_DEPRECIATION_MONTHS,
+  concentrationThreshold: (row.concentration_threshold as number | null) ?? DEFAULT_CONCENTRATION_THRESHOLD,
+  accountingBasis: (row.accounting_basis as AccountingBasis) || DEFAULT_ACCOUNTING_BASIS,
+});
+
+// Convert FiscalSettings to database row
+export const toFiscalSettingsRow = (settings: Partial<Omit<FiscalSettings, 'id'>>) => {
+  const row: Record<string, unknown> = {};
+  if ('companyName' in settings) row.company_name = settings.companyName || null;
+  if ('cnpj' in settings) row.cnpj = settings.cnpj || null;
+  if (settings.activityType !== undefined) row.activity_type = settings.activityType;
+  if (settings.annualLimit !== undefined) row.annual_limit = settings.annualLimit;
+  if ('openingDate' in settings) row.opening_date = settings.openingDate ? toDateColumn(settings.openingDate) : null;
+  if (settings.attentionThreshold !== undefined) row.attention_threshold = settings.attentionThreshold;
+  if (settings.urgentThreshold !== undefined) row.urgent_threshold = settings.urgentThreshold;
+  if ('dasGeneratedUntil' in settings) row.das_generated_until = settings.dasGeneratedUntil ? toDateColumn(settings.dasGeneratedUntil) : null;
+  if (settings.depreciationMonths !== undefined) row.depreciation_months = settings.depreciationMonths;
+  if (settings.concentrationThreshold !== undefined) row.concentration_threshold = settings.concentrationThreshold;
+  if (settings.accountingBasis !== undefined) row.accounting_basis = settings.accountingBasis;
+  return row;
+};
+
+// PAGES
+// Records with a date are loaded one page of months at a time instead of the whole history
+export type PagedEntity = 'incomes' | 'expenses' | 'investments';
+export type FinanceEntity = 'clients' | PagedEntity | 'recurringExpenses' | 'fiscalSettings' | 'creditCards' | 'cardPurchases' | 'accounts' | 'transfers' | 'withdrawals' | 'budgets';
+
+export interface MonthRange {
+  from: string; // yyyy-MM
+  to: string; // yyyy-MM, inclusive
+}
+
+const PAGE_COLUMNS: Record<PagedEntity, string> = {
+  incomes: 'payment_date',
+  expenses: 'due_date',
+  investments: 'date',
+};
+
+export const getYearRange = (year: number): MonthRange => ({ from: `${year}-01`, to: `${year}-12` });
+
+// Same conversion the legacy date columns are written with, so a record lands in the page it is stored in
+const toMonthColumn = (date: Date) => date.toISOString().slice(0, 7);
+
+export const isMonthInRange = (month: string, range: MonthRange): boolean => {
+  return month >= range.from && month <= range.to;
+};
+
+export const getRecordDate = (entity: PagedEntity, record: Income | Expense | Investment): Date => {
+  if (entity === 'incomes') return (record as Income).paymentDate;
+  if (entity === 'expenses') return (record as Expense).dueDate;
+  return (record as Investment).date;
+};
+
+export const isRecordInRange = (entity: PagedEntity, record: Income | Expense | Investment, range: MonthRange): boolean => {
+  return isMonthInRange(toMonthColumn(getRecordDate(entity, record)), range);
+};
+
+// QUERY KEYS
+// Every key starts with the user, so signing in with another account never reuses cached data
+export const financeKeys = {
+  all: (userId: string) => ['finance', userId] as const,
+  entity: (userId: string, entity: FinanceEntity) => ['finance', userId, entity] as const,
+  page: (userId: string, entity: PagedEntity, range: MonthRange) => ['finance', userId, entity, range.from, range.to] as const,
+};
+
+export const getKeyRange = (queryKey: readonly unknown[]): MonthRange | null => {
+  return queryKey.length === 5 ? { from: String(queryKey[3]), to: String(queryKey[4]) } : null;
+};
+
+// READS
+// Supabase caps every select at this many rows, so longer reads are made in batches
+const FETCH_BATCH_SIZE = 1000;
+
+// Further conditions of a read, as PostgREST operators
+type RowFilter = [column: string, operator: 'eq' | 'neq' | 'gte' | 'cs', value: string];
+
+// Reads the rows of a query batch by batch until one comes back short; the id breaks ties in
+// the order so no row is skipped or read twice between batches
+const fetchAllRows = async (table: string, userId: string, column: string, range?: MonthRange, filters: RowFilter[] = []) => {
+  const rows: CachedRow[] = [];
+  for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+    let query = supabase.from(table).select('*').eq('user_id', userId);
+    if (range) {
+      const end = addMonths(parseISO(`${range.to}-01`), 1);
+      query = query.gte(column, `${range.from}-01`).lt(column, toDateColumn(end));
+    }
+    filters.forEach(([filterColumn, operator, value]) => {
+      query = query.filter(filterColumn, operator, value);
+    });
+    const { data, error } = await query
+      .order(column, { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + FETCH_BATCH_SIZE - 1);
+
+    if (error) return { data: null, error };
+    rows.push(...(data as CachedRow[]));
+    if (data.length < FETCH_BATCH_SIZE) return { data: rows, error: null };
+  }
+};
+
+// Fetches a table (or one page of it) and refreshes the offline cache; the cached copy is
+// served while offline or when the request never reaches Supabase
+const fetchTable = async (table: OfflineTable, userId: string, range?: MonthRange): Promise<CachedRow[]> => {
+  const column = table === 'clients' ? 'created_at' : PAGE_COLUMNS[table];
+  const inRange = (row: CachedRow) => !range || isMonthInRange(String(row[column] ?? '').slice(0, 7), range);
+
+  if (navigator.onLine) {
+    const { data, error } = await fetchAllRows(table, userId, column, range);
+
+    if (!error) {
+      // Writes still waiting to be synced stay visible on top of the server data
+      const pending = await getQueuedMutations().catch(() => []);
+      const rows = applyQueuedMutations(table, data, pending).filter(inRange);
+      await replaceCachedRows(table, rows, range ? inRange : undefined)
+        .catch(cacheError => console.error('Error caching data:', cacheError));
+      return rows;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  const cached = await getCachedRows(table);
+  return cached.filter(inRange);
+};
+
+export const fetchRecurringExpenses = async (userId: string): Promise<RecurringExpense[]> => {
+  const { data, error } = await fetchAllRows('recurring_expenses', userId, 'created_at');
+  if (error) throw error;
+  return data.map(toRecurringExpense);
+};
+
+export const fetchCreditCards = async (userId: string): Promise<CreditCard[]> => {
+  const { data, error } = await supabase
+    .from('credit_cards')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data.map(toCreditCard);
+};
+
+// Installments reach far into the future, so purchases are loaded whole instead of by page
+export const fetchCardPurchases = async (userId: string): Promise<CardPurchase[]> => {
+  const { data, error } = await fetchAllRows('card_purchases', userId, 'date');
+  if (error) throw error;
+  return data.map(toCardPurchase);
+};
+
+export const fetchAccounts = async (userId: string): Promise<Account[]> => {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data.map(toAccount);
+};
+
+// Balances add up every transfer since the opening of the accounts, so they are loaded whole
+export const fetchTransfers = async (userId: string): Promise<Transfer[]> => {
+  const { data, error } = await fetchAllRows('transfers', userId, 'date');
+  if (error) throw error;
+  return data.map(toTransfer);
+};
+
+// Withdrawal limits weigh every withdrawal against the revenue, so they are loaded whole
+export const fetchWithdrawals = async (userId: string): Promise<Withdrawal[]> => {
+  const { data, error } = await fetchAllRows('withdrawals', userId, 'date');
+  if (error) throw error;
+  return data.map(toWithdrawal);
+};
+
+export const fetchBudgets = async (userId: string): Promise<Budget[]> => {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data.map(toBudget);
+};
+
+// "Saque" expenses from before withdrawals had their own records, over the whole history
+export const fetchLegacyWithdrawals = async (userId: string): Promise<Expense[]> => {
+  const { data, error } = await fetchAllRows('expenses', userId, 'due_date', undefined, [
+    ['type', 'eq', 'business'],
+    ['category', 'eq', LEGACY_WITHDRAWAL_CATEGORY],
+  ]);
+  if (error) throw error;
+  return data.map(toExpense);
+};
+
+// One row per user, or null until the profile is first saved
+export const fetchFiscalSettings = async (userId: string): Promise<FiscalSettings | null> => {
+  const { data, error } = await supabase.from('fiscal_settings').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data ? toFiscalSettings(data) : null;
+};
+
+// WRITES
+const mapResult = <R, T>(result: WriteResult<R>, map: (data: R) => T): WriteResult<T> => ({
+  ...result,
+  data: result.data ? map(result.data) : null,
+});
+
+// Typed access to a table kept in the offline cache; writes go through the sync queue
+const createRepository = <T extends { id: string }, Input>(
+  table: OfflineTable,
+  toEntity: (row: CachedRow) => T,
+  toRow: (input: Partial<Input>) => Record<string, unknown>
+) => ({
+  list: async (userId: string, range?: MonthRange): Promise<T[]> => {
+    return (await fetchTable(table, userId, range)).map(toEntity);
+  },
+  create: async (userId: string, inputs: Input[]): Promise<WriteResult<T[]>> => {
+    const rows = inputs.map(input => ({ ...toRow(input), user_id: userId }));
+    return mapResult(await insertRows(table, rows), saved => saved.map(toEntity));
+  },
+  // Keeps the ids given, so records exported from the app come back under the same id
+  createWithIds: async (userId: string, inputs: (Input & { id?: string })[]): Promise<WriteResult<T[]>> => {
+    const rows = inputs.map(input => ({ ...toRow(input), id: input.id, user_id: userId }));
+    return mapResult(await insertRows(table, rows), saved => saved.map(toEntity));
+  },
+  update: async (userId: string, id: string, updates: Partial<Input>): Promise<WriteResult<T>> => {
+    return mapResult(await updateRow(table, id, toRow(updates), userId), toEntity);
+  },
+  remove: async (userId: string, id: string): Promise<WriteResult<null>> => {
+    return deleteRow(table, id, userId);
+  },
+});
+
+export const clientRepository = createRepository<Client, Omit<Client, 'id' | 'createdAt'>>('clients', toClient, toClientRow);
+export const incomeRepository = createRepository<Income, Omit<Income, 'id' | 'createdAt'>>('incomes', toIncome, toIncomeRow);
+export const expenseRepository = createRepository<Expense, Omit<Expense, 'id' | 'createdAt'>>('expenses', toExpense, toExpenseRow);
+export const investmentRepository = createRepository<Investment, Omit<Investment, 'id' | 'createdAt'>>('investments', toInvestment, toInvestmentRow);
+
+// REFERENCES
+// Counted and moved on the server, so records of years that were never loaded are included
+const ACCOUNT_REFERENCES: { table: string; column: string }[] = [
+  { table: 'incomes', column: 'account_id' },
+  { table: 'expenses', column: 'account_id' },
+  { table: 'investments', column: 'account_id' },
+  { table: 'recurring_expenses', column: 'account_id' },
+  { table: 'withdrawals', column: 'account_id' },
+  { table: 'transfers', column: 'from_account_id' },
+  { table: 'transfers', column: 'to_account_id' },
+];
+
+export const countAccountReferences = async (userId: string, accountId: string): Promise<number> => {
+  const counts = await Promise.all(ACCOUNT_REFERENCES.map(async ({ table, column }) => {
+    const { count, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq(column, accountId)
+      .eq('user_id', userId);
+    if (error) throw error;
+    return count ?? 0;
+  }));
+  return counts.reduce((sum, count) => sum + count, 0);
+};
+
+const CLIENT_REFERENCES: { table: string; column: string; toRow: (clientId: string) => Record<string, unknown> }[] = [
+  { table: 'incomes', column: 'client_id', toRow: clientId => toIncomeRow({ clientId }) },
+  { table: 'expenses', column: 'payment_source_id', toRow: paymentSourceId => toExpenseRow({ paymentSourceId }) },
+  { table: 'investments', column: 'payment_source_id', toRow: paymentSourceId => toInvestmentRow({ paymentSourceId }) },
+  { table: 'recurring_expenses', column: 'payment_source_id', toRow: paymentSourceId => toRecurringExpenseRow({ paymentSourceId }) },
+  { table: 'withdrawals', column: 'source_client_id', toRow: sourceClientId => toWithdrawalRow({ sourceClientId }) },
+];
+
+// Expense payments keep their own source, inside the payments column
+const paidByFilter = (clientId: string): RowFilter => ['payments', 'cs', JSON.stringify([{ source_id: clientId }])];
+
+// Each record counts once, so an expense paid by the client and set with it as the source is not
+// counted twice
+export const countClientReferences = async (userId: string, clientId: string): Promise<number> => {
+  const [column, operator, value] = paidByFilter(clientId);
+  const { count: paidBy, error } = await supabase
+    .from('expenses')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .filter(column, operator, value)
+    .or(`payment_source_id.is.null,payment_source_id.neq.${clientId}`);
+  if (error) throw error;
+
+  const counts = await Promise.all(CLIENT_REFERENCES.map(async ({ table, column }) => {
+    const { count, error } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq(column, clientId)
+      .eq('user_id', userId);
+    if (error) throw error;
+    return count ?? 0;
+  }));
+  return counts.reduce((sum, count) => sum + count, paidBy ?? 0);
+};
+
+const isOfflineTable = (table: string): table is OfflineTable => (OFFLINE_TABLES as string[]).includes(table);
+
+// Points every record of a client to another one. Requires a connection; on failure the
+// records moved so far stay moved, so callers should refetch either way
+export const reassignClient = async (userId: string, fromId: string, toId: string): Promise<void> => {
+  const { data: paidBy, error: paidByError } = await fetchAllRows('expenses', userId, 'due_date', undefined, [paidByFilter(fromId)]);
+  if (paidByError) throw paidByError;
+
+  for (const row of paidBy) {
+    const expense = toExpense(row);
+    const { data, error } = await supabase
+      .from('expenses')
+      .update(toExpenseRow({ payments: expense.payments.map(p => p.sourceId === fromId ? { ...p, sourceId: toId } : p) }))
+      .eq('id', expense.id)
+      .eq('user_id', userId)
+      .select();
+    if (error) throw error;
+    await putCachedRows('expenses', data as CachedRow[]).catch(cacheError => console.error('Error caching data:', cacheError));
+  }
+
+  for (const { table, column, toRow } of CLIENT_REFERENCES) {
+    const { data, error } = await supabase
+      .from(table)
+      .update(toRow(toId))
+      .eq(column, fromId)
+      .eq('user_id', userId)
+      .select();
+    if (error) throw error;
+    if (isOfflineTable(table)) {
+      await putCachedRows(table, data as CachedRow[]).catch(cacheError => console.error('Error caching data:', cacheError));
+    }
+  }
+};
+
+// SERIES
+// Occurrences of a fixed expense are changed on the server, so the years that were never loaded
+// follow the template too. These require a connection; on failure the occurrences changed so far
+// stay changed, so callers should refetch either way
+
+export interface SeriesChanges {
+  target: RecurringExpense; // Template the occurrences follow from now on
+  rescheduled: boolean; // Frequency or day changed: open occurrences move to the dates of the target
+  skipId?: string; // Occurrence saved by the caller with its own changes
+}
+
+// Open occurrences whose month the target no longer schedules are deleted a few at a time,
+// keeping the list of ids within the size of a request
+const ID_BATCH_SIZE = 100;
+
+// Propagates a template to its occurrences, from the one on `from` onwards when given.
+// Paid occurrences are history: they are only re-linked to the target template
+export const syncSeries = async (userId: string, templateId: string, from: Date | undefined, changes: SeriesChanges): Promise<void> => {
+  const { target, rescheduled, skipId } = changes;
+  const fromDate = from ? toDateColumn(from) : null;
+
+  const { data, error } = await fetchAllRows('expenses', userId, 'occurrence_date', undefined, [
+    ['recurring_expense_id', 'eq', templateId],
+    ['status', 'neq', 'paid'],
+    ...(fromDate ? [['occurrence_date', 'gte', fromDate] as RowFilter] : []),
+  ]);
+  if (error) throw error;
+
+  const removedIds: string[] = [];
+  for (const occurrence of data.map(toExpense).filter(e => e.id !== skipId)) {
+    const date = getOccurrenceInMonth(target.rule, occurrence.occurrenceDate ?? occurrence.dueDate);
+    if (!date) {
+      removedIds.push(occurrence.id);
+    } else if (rescheduled) {
+      const { error: moveError } = await supabase
+        .from('expenses')
+        .update(toExpenseRow({ dueDate: date, occurrenceDate: date }))
+        .eq('id', occurrence.id)
+        .eq('user_id', userId);
+      if (moveError) throw moveError;
+    }
+  }
+
+  for (let index = 0; index < removedIds.length; index += ID_BATCH_SIZE) {
+    const ids = removedIds.slice(index, index + ID_BATCH_SIZE);
+    const { error: deleteError } = await supabase.from('expenses').delete().in('id', ids).eq('user_id', userId);
+    if (deleteError) throw deleteError;
+    await deleteCachedRows('expenses', ids).catch(cacheError => console.error('Error caching data:', cacheError));
+  }
+
+  const updateSeries = async (row: Record<string, unknown>, paid: boolean) => {
+    let query = supabase
+      .from('expenses')
+      .update(row)
+      .eq('user_id', userId)
+      .eq('recurring_expense_id', templateId)
+      .filter('status', paid ? 'eq' : 'neq', 'paid');
+    if (fromDate) query = query.gte('occurrence_date', fromDate);
+    if (skipId) query = query.neq('id', skipId);
+
+    const { data: updated, error: updateError } = await query.select();
+    if (updateError) throw updateError;
+    await putCachedRows('expenses', updated as CachedRow[]).catch(cacheError => console.error('Error caching data:', cacheError));
+  };
+
+  // The template fields go to the open occurrences, the link to every one
+  await updateSeries(toExpenseRow({
+    description: target.description,
+    amount: target.amount,
+    category: target.category,
+    type: target.type,
+    paymentSourceId: target.paymentSourceId,
+    accountId: target.accountId,
+    recurringExpenseId: target.id,
+  }), false);
+  await updateSeries(toExpenseRow({ recurringExpenseId: target.id }), true);
+};
+
+// Deletes the open occurrences of a series, from the one on `from` onwards when given
+export const removeSeriesOccurrences = async (userId: string, templateId: string, from?: Date): Promise<void> => {
+  let query = supabase
+    .from('expenses')
+    .delete()
+    .eq('user_id', userId)
+    .eq('recurring_expense_id', templateId)
+    .neq('status', 'paid');
+  if (from) query = query.gte('occurrence_date', toDateColumn(from));
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  await deleteCachedRows('expenses', data.map(row => row.id)).catch(cacheError => console.error('Error caching data:', cacheError));
+};
+
+// Deletes a template with its open occurrences; paid ones stay as history, detached from the series
+export const removeSeries = async (userId: string, templateId: string): Promise<void> => {
+  await removeSeriesOccurrences(userId, templateId);
+
+  const { data, error } = await supabase
+    .from('expenses')
+    .update(toExpenseRow({ recurringExpenseId: undefined }))
+    .eq('user_id', userId)
+    .eq('recurring_expense_id', templateId)
+    .select();
+  if (error) throw error;
+  await putCachedRows('expenses', data as CachedRow[]).catch(cacheError => console.error('Error caching data:', cacheError));
+
+  const { error: deleteError } = await supabase.from('recurring_expenses').delete().eq('id', templateId).eq('user_id', userId);
+  if (deleteError) throw deleteError;
+};
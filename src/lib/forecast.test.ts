@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { Client, Expense, FiscalSettings, Income, Investment, Withdrawal } from "@/types/finance";
+import { FORECAST_MONTHS, ForecastRecords, getCashFlowForecast, getForecastPeriod } from "@/lib/forecast";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const today = day(2024, 6, 15);
+
+const emptyRecords: ForecastRecords = {
+  clients: [],
+  incomes: [],
+  expenses: [],
+  investments: [],
+  recurringExpenses: [],
+  withdrawals: [],
+  creditCards: [],
+  cardPurchases: [],
+};
+
+const income = (dueDate: Date, amount: number, paid: boolean): Income => ({
+  id: `income-${dueDate.getTime()}`,
+  description: 'Serviço',
+  amount,
+  clientId: 'c1',
+  paymentDate: dueDate,
+  category: 'Serviços',
+  dueDate,
+  payments: paid ? [{ date: dueDate, amount }] : [],
+  cancelled: false,
+  createdAt: dueDate,
+});
+
+const expense = (type: Expense['type'], dueDate: Date, amount: number): Expense => ({
+  id: `expense-${dueDate.getTime()}`,
+  description: 'Conta',
+  amount,
+  category: 'Outros',
+  dueDate,
+  status: 'unpaid',
+  payments: [],
+  type,
+  isFixed: false,
+  createdAt: dueDate,
+});
+
+const withdrawal = (date: Date, amount: number): Withdrawal => ({
+  id: `withdrawal-${date.getTime()}`,
+  date,
+  amount,
+  createdAt: date,
+});
+
+describe('getForecastPeriod', () => {
+  it('covers the averages history and the forecast months', () => {
+    expect(getForecastPeriod(today)).toEqual({
+      from: new Date(2023, 5, 1),
+      to: new Date(2025, 4, 31, 23, 59, 59, 999),
+    });
+  });
+});
+
+describe('getCashFlowForecast', () => {
+  it('keeps the balances when nothing is expected', () => {
+    const months = getCashFlowForecast(emptyRecords, { business: 1000, personal: 200 }, null, today);
+    expect(months).toHaveLength(FORECAST_MONTHS);
+    expect(months[0].month).toEqual(new Date(2024, 5, 1));
+    expect(months.every(month => month.businessBalance === 1000 && month.personalBalance === 200)).toBe(true);
+  });
+
+  it('projects receivables, client averages, scheduled expenses, DAS and withdrawals', () => {
+    const records: ForecastRecords = {
+      ...emptyRecords,
+      clients: [{ id: 'c1', name: 'Cliente', archived: false, createdAt: day(2023, 1, 1) } as Client],
+      incomes: [
+        income(day(2024, 4, 10), 3000, true),
+        income(day(2024, 5, 10), 3000, true),
+        income(day(2024, 6, 20), 1000, false),
+      ],
+      expenses: [
+        expense('business', day(2024, 5, 10), 500), // Overdue, expected this month
+        expense('personal', day(2024, 8, 5), 300),
+      ],
+      investments: [
+        { id: 'i1', description: 'Notebook', amount: 800, category: 'Equipamentos', date: day(2024, 7, 1), status: 'planned', createdAt: today } as Investment,
+      ],
+      withdrawals: [
+        withdrawal(day(2024, 4, 10), 1000),
+        withdrawal(day(2024, 5, 10), 1000),
+        withdrawal(day(2024, 6, 5), 400),
+      ],
+    };
+    const settings = { activityType: 'servicos', dasGeneratedUntil: new Date(2024, 4, 1) } as FiscalSettings;
+
+    const [june, july, august] = getCashFlowForecast(records, { business: 1000, personal: 200 }, settings, today);
+
+    // The client averages 3000 since its first payment; the open invoice counts towards it
+    expect(june).toMatchObject({
+      receivables: 1000,
+      expectedIncome: 2000,
+      businessExpenses: 500,
+      das: 0,
+      investments: 0,
+      withdrawals: 600,
+      personalExpenses: 0,
+      businessBalance: 2900,
+      personalBalance: 800,
+    });
+    expect(july).toMatchObject({
+      receivables: 0,
+      expectedIncome: 3000,
+      businessExpenses: 75.6,
+      das: 75.6,
+      investments: 800,
+      withdrawals: 1000,
+      businessBalance: 4024.4,
+      personalBalance: 1800,
+    });
+    expect(august).toMatchObject({
+      personalExpenses: 300,
+      businessBalance: 5948.8,
+      personalBalance: 2500,
+    });
+  });
+
+  it('leaves archived clients out of the expected income', () => {
+    const records: ForecastRecords = {
+      ...emptyRecords,
+      clients: [{ id: 'c1', name: 'Cliente', archived: true, createdAt: day(2023, 1, 1) } as Client],
+      incomes: [income(day(2024, 5, 10), 3000, true)],
+    };
+    const [june] = getCashFlowForecast(records, { business: 0, personal: 0 }, null, today);
+    expect(june.expectedIncome).toBe(0);
+  });
+});
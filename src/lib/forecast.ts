@@ -0,0 +1,176 @@
+import { addMonths, differenceInCalendarMonths, endOfMonth, isAfter, isBefore, isSameMonth, startOfMonth, subMonths } from "date-fns";
+import {
+  CardPurchase,
+  Client,
+  CreditCard,
+  Expense,
+  FiscalSettings,
+  Income,
+  Investment,
+  RecurringExpense,
+  Withdrawal,
+} from "@/types/finance";
+import { getOpenAmount } from "@/lib/receivables";
+import { getRemainingAmount } from "@/lib/expensePayments";
+import { getMissingOccurrences } from "@/lib/recurrence";
+import { getDASValues } from "@/lib/das";
+import { findInvoiceExpense, getInvoiceItems, getInvoiceMonthDueIn, getInvoiceTotal } from "@/lib/creditCards";
+
+export const FORECAST_MONTHS = 12;
+// Complete months the income and withdrawal averages look back at
+export const FORECAST_HISTORY_MONTHS = 12;
+
+export interface ForecastRecords {
+  clients: Client[];
+  incomes: Income[];
+  expenses: Expense[];
+  investments: Investment[];
+  recurringExpenses: RecurringExpense[];
+  withdrawals: Withdrawal[];
+  creditCards: CreditCard[];
+  cardPurchases: CardPurchase[];
+}
+
+export interface ForecastBalances {
+  business: number;
+  personal: number;
+}
+
+export interface ForecastMonth {
+  month: Date;
+  receivables: number; // Open invoices due in the month
+  expectedIncome: number; // Client averages not covered by open invoices
+  businessExpenses: number; // Open and scheduled business expenses, DAS included
+  das: number; // DAS guides not generated yet
+  investments: number; // Planned investments
+  withdrawals: number; // Average withdrawals still to be made
+  personalExpenses: number; // Open and scheduled personal expenses, card invoices included
+  businessBalance: number; // Business cash at the end of the month
+  personalBalance: number; // Personal cash at the end of the month
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Period that has to be loaded for the forecast: the averages' history and the forecast months
+export const getForecastPeriod = (today: Date = new Date()): { from: Date; to: Date } => ({
+  from: startOfMonth(subMonths(today, FORECAST_HISTORY_MONTHS)),
+  to: endOfMonth(addMonths(today, FORECAST_MONTHS - 1)),
+});
+
+// Monthly average of dated amounts over the last complete months, counted from the first one
+// so a recent client or habit isn't diluted by the months before it existed
+const getMonthlyAverage = (entries: { date: Date; amount: number }[], today: Date): number => {
+  const current = startOfMonth(today);
+  const from = subMonths(current, FORECAST_HISTORY_MONTHS);
+  const history = entries.filter(entry => !isBefore(new Date(entry.date), from) && isBefore(new Date(entry.date), current));
+  if (history.length === 0) return 0;
+
+  const first = new Date(Math.min(...history.map(entry => new Date(entry.date).getTime())));
+  const months = differenceInCalendarMonths(current, first);
+  return roundCurrency(history.reduce((sum, entry) => sum + entry.amount, 0) / months);
+};
+
+const getClientPayments = (incomes: Income[], clientId: string) => {
+  return incomes
+    .filter(income => income.clientId === clientId && !income.cancelled)
+    .flatMap(income => income.payments);
+};
+
+// DAS due in the month whose guide wasn't generated yet; guides the user removed stay removed
+const getPendingDAS = (expenses: Expense[], settings: FiscalSettings | null, month: Date): number => {
+  if (!settings?.activityType) return 0;
+  const competence = subMonths(month, 1);
+  if (settings.dasGeneratedUntil && !isAfter(competence, startOfMonth(settings.dasGeneratedUntil))) return 0;
+  if (expenses.some(expense => expense.dasCompetence && isSameMonth(expense.dasCompetence, competence))) return 0;
+  return getDASValues(competence.getFullYear(), settings.activityType).total;
+};
+
+// Card invoices due in the month that aren't an expense yet
+const getPendingInvoices = (records: ForecastRecords, month: Date): number => {
+  return records.creditCards.reduce((sum, card) => {
+    const invoiceMonth = getInvoiceMonthDueIn(card, month);
+    if (findInvoiceExpense(records.expenses, card, invoiceMonth)) return sum;
+    return sum + getInvoiceTotal(getInvoiceItems(records.cardPurchases, card, invoiceMonth));
+  }, 0);
+};
+
+// Month by month cash position from the current balances. Overdue receivables, expenses and
+// planned investments are expected in the current month
+export const getCashFlowForecast = (
+  records: ForecastRecords,
+  start: ForecastBalances,
+  settings: FiscalSettings | null,
+  today: Date = new Date()
+): ForecastMonth[] => {
+  const current = startOfMonth(today);
+  const clientAverages = records.clients
+    .filter(client => !client.archived)
+    .map(client => ({ clientId: client.id, average: getMonthlyAverage(getClientPayments(records.incomes, client.id), today) }))
+    .filter(({ average }) => average > 0);
+  const withdrawalAverage = getMonthlyAverage(records.withdrawals, today);
+
+  let businessBalance = start.business;
+  let personalBalance = start.personal;
+  const months: ForecastMonth[] = [];
+
+  for (let i = 0; i < FORECAST_MONTHS; i++) {
+    const month = addMonths(current, i);
+    const isDue = (date: Date) => i === 0 ? !isAfter(new Date(date), endOfMonth(month)) : isSameMonth(new Date(date), month);
+    const inMonth = (date: Date) => i === 0 && isSameMonth(new Date(date), month);
+
+    const openIncomes = records.incomes.filter(income => getOpenAmount(income) > 0 && isDue(income.dueDate));
+    const receivables = openIncomes.reduce((sum, income) => sum + getOpenAmount(income), 0);
+
+    // A client is expected to pay its average; what was received this month or is already invoiced counts towards it
+    const expectedIncome = clientAverages.reduce((sum, { clientId, average }) => {
+      const received = getClientPayments(records.incomes, clientId)
+        .filter(payment => inMonth(payment.date))
+        .reduce((acc, payment) => acc + payment.amount, 0);
+      const invoiced = openIncomes
+        .filter(income => income.clientId === clientId)
+        .reduce((acc, income) => acc + getOpenAmount(income), 0);
+      return sum + Math.max(0, average - received - invoiced);
+    }, 0);
+
+    const scheduled = [
+      ...records.expenses.filter(expense => getRemainingAmount(expense) > 0 && isDue(expense.dueDate))
+        .map(expense => ({ type: expense.type, amount: getRemainingAmount(expense) })),
+      ...getMissingOccurrences(records.recurringExpenses, records.expenses, month)
+        .map(occurrence => ({ type: occurrence.type, amount: occurrence.amount })),
+    ];
+    const das = getPendingDAS(records.expenses, settings, month);
+    const businessExpenses = scheduled
+      .filter(expense => expense.type === 'business')
+      .reduce((sum, expense) => sum + expense.amount, das);
+    const personalExpenses = scheduled
+      .filter(expense => expense.type === 'personal')
+      .reduce((sum, expense) => sum + expense.amount, getPendingInvoices(records, month));
+
+    const investments = records.investments
+      .filter(investment => investment.status === 'planned' && isDue(investment.date))
+      .reduce((sum, investment) => sum + investment.amount, 0);
+
+    const withdrawn = records.withdrawals
+      .filter(withdrawal => inMonth(withdrawal.date))
+      .reduce((sum, withdrawal) => sum + withdrawal.amount, 0);
+    const withdrawals = Math.max(0, withdrawalAverage - withdrawn);
+
+    businessBalance = roundCurrency(businessBalance + receivables + expectedIncome - businessExpenses - investments - withdrawals);
+    personalBalance = roundCurrency(personalBalance + withdrawals - personalExpenses);
+
+    months.push({
+      month,
+      receivables: roundCurrency(receivables),
+      expectedIncome: roundCurrency(expectedIncome),
+      businessExpenses: roundCurrency(businessExpenses),
+      das,
+      investments: roundCurrency(investments),
+      withdrawals: roundCurrency(withdrawals),
+      personalExpenses: roundCurrency(personalExpenses),
+      businessBalance,
+      personalBalance,
+    });
+  }
+
+  return months;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LIMIT_SETTINGS,
+  LimitSettings,
+  getAnnualLimit,
+  getMonthlyLimit,
+  getMonthsActive,
+  getMonthsElapsed,
+  isBeforeOpening,
+} from "@/lib/meiLimit";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+// Opened in mid-April 2024
+const openedInApril: LimitSettings = { ...DEFAULT_LIMIT_SETTINGS, openingDate: day(2024, 4, 15) };
+
+describe('getMonthsActive', () => {
+  it('counts the opening month as a whole month', () => {
+    expect(getMonthsActive(openedInApril, 2024)).toBe(9);
+  });
+
+  it('counts every month after the opening year and none before it', () => {
+    expect(getMonthsActive(openedInApril, 2025)).toBe(12);
+    expect(getMonthsActive(openedInApril, 2023)).toBe(0);
+    expect(getMonthsActive(DEFAULT_LIMIT_SETTINGS, 2024)).toBe(12);
+  });
+});
+
+describe('getAnnualLimit', () => {
+  it('prorates the limit by the months active in the opening year', () => {
+    expect(getMonthlyLimit(DEFAULT_LIMIT_SETTINGS)).toBe(6750);
+    expect(getAnnualLimit(openedInApril, 2024)).toBe(60750);
+    expect(getAnnualLimit({ ...openedInApril, openingDate: day(2024, 12, 1) }, 2024)).toBe(6750);
+  });
+
+  it('uses the full limit in the following years and without an opening date', () => {
+    expect(getAnnualLimit(openedInApril, 2025)).toBe(81000);
+    expect(getAnnualLimit({ ...DEFAULT_LIMIT_SETTINGS, annualLimit: 100000 }, 2024)).toBe(100000);
+  });
+});
+
+describe('getMonthsElapsed', () => {
+  it('counts the months from the opening month to the current one', () => {
+    expect(getMonthsElapsed(openedInApril, day(2024, 3, 10))).toBe(0);
+    expect(getMonthsElapsed(openedInApril, day(2024, 4, 15))).toBe(1);
+    expect(getMonthsElapsed(openedInApril, day(2024, 6, 10))).toBe(3);
+    expect(getMonthsElapsed(openedInApril, day(2024, 12, 31))).toBe(9);
+  });
+
+  it('counts from January after the opening year', () => {
+    expect(getMonthsElapsed(openedInApril, day(2025, 2, 1))).toBe(2);
+    expect(getMonthsElapsed(DEFAULT_LIMIT_SETTINGS, day(2024, 6, 10))).toBe(6);
+  });
+});
+
+describe('isBeforeOpening', () => {
+  it('flags the months before the opening month', () => {
+    expect(isBeforeOpening(openedInApril, new Date(2024, 2, 1))).toBe(true);
+    expect(isBeforeOpening(openedInApril, new Date(2024, 3, 1))).toBe(false);
+    expect(isBeforeOpening(DEFAULT_LIMIT_SETTINGS, new Date(2000, 0, 1))).toBe(false);
+  });
+});
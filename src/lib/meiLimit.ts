@@ -0,0 +1,46 @@
+import { differenceInCalendarMonths } from "date-fns";
+import { FiscalSettings } from "@/types/finance";
+
+export const MEI_ANNUAL_LIMIT = 81000;
+export const MEI_TOLERANCE = 0.2; // Revenue up to 20% above the limit only changes the regime next year
+
+export const DEFAULT_ATTENTION_THRESHOLD = 70;
+export const DEFAULT_URGENT_THRESHOLD = 90;
+
+export type LimitSettings = Pick<FiscalSettings, 'annualLimit' | 'openingDate' | 'attentionThreshold' | 'urgentThreshold'>;
+
+export const DEFAULT_LIMIT_SETTINGS: LimitSettings = {
+  annualLimit: MEI_ANNUAL_LIMIT,
+  attentionThreshold: DEFAULT_ATTENTION_THRESHOLD,
+  urgentThreshold: DEFAULT_URGENT_THRESHOLD,
+};
+
+export const getFiscalYear = (date: Date = new Date()): number => date.getFullYear();
+
+// Months of the year in which the business was open, counting the opening month
+export const getMonthsActive = (settings: LimitSettings, year: number): number => {
+  if (!settings.openingDate || settings.openingDate.getFullYear() < year) return 12;
+  if (settings.openingDate.getFullYear() > year) return 0;
+  return 12 - settings.openingDate.getMonth();
+};
+
+// Months already elapsed in the year up to `today`, counting from the opening month
+export const getMonthsElapsed = (settings: LimitSettings, today: Date = new Date()): number => {
+  const months = getMonthsActive(settings, today.getFullYear());
+  return Math.max(months - (11 - today.getMonth()), 0);
+};
+
+export const isBeforeOpening = (settings: LimitSettings, month: Date): boolean => {
+  return !!settings.openingDate && differenceInCalendarMonths(month, settings.openingDate) < 0;
+};
+
+// R$ 6.750 for the default limit; used to prorate the limit in the opening year
+export const getMonthlyLimit = (settings: LimitSettings): number => {
+  return settings.annualLimit / 12;
+};
+
+// Full limit, or the monthly limit times the months active in the opening year
+export const getAnnualLimit = (settings: LimitSettings, year: number): number => {
+  const months = getMonthsActive(settings, year);
+  return months === 12 ? settings.annualLimit : getMonthlyLimit(settings) * months;
+};
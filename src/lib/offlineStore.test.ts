@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { CachedRow, QueuedMutation, applyQueuedMutations } from "@/lib/offlineStore";
+
+const QUEUED_AT = '2024-03-10T12:00:00.000Z';
+
+const mutation = (overrides: Partial<QueuedMutation>): QueuedMutation => ({
+  id: 1,
+  table: 'incomes',
+  operation: 'update',
+  recordId: 'i1',
+  queuedAt: QUEUED_AT,
+  ...overrides,
+});
+
+const rows: CachedRow[] = [
+  { id: 'i1', description: 'Consultoria', amount: 1500, updated_at: '2024-03-01T12:00:00.000Z' },
+  { id: 'i2', description: 'Projeto', amount: 500, updated_at: '2024-03-01T12:00:00.000Z' },
+];
+
+describe('applyQueuedMutations', () => {
+  it('puts records created offline first', () => {
+    const result = applyQueuedMutations('incomes', rows, [
+      mutation({ operation: 'insert', recordId: 'i3', changes: { description: 'Novo', amount: 200 } }),
+    ]);
+    expect(result).toEqual([{ id: 'i3', created_at: QUEUED_AT, description: 'Novo', amount: 200 }, ...rows]);
+  });
+
+  it('applies pending updates and deletes in the order they were made', () => {
+    const result = applyQueuedMutations('incomes', rows, [
+      mutation({ id: 1, recordId: 'i1', changes: { amount: 1000 } }),
+      mutation({ id: 2, recordId: 'i1', changes: { description: 'Consultoria mensal' } }),
+      mutation({ id: 3, operation: 'delete', recordId: 'i2' }),
+    ]);
+    expect(result).toEqual([{ ...rows[0], amount: 1000, description: 'Consultoria mensal' }]);
+  });
+
+  it('replaces a fetched copy of a record that was inserted before the connection dropped', () => {
+    const result = applyQueuedMutations('incomes', rows, [
+      mutation({ operation: 'insert', recordId: 'i2', changes: { description: 'Projeto', amount: 600 } }),
+    ]);
+    expect(result.map(row => [row.id, row.amount])).toEqual([['i2', 600], ['i1', 1500]]);
+  });
+
+  it('leaves the rows of other tables alone', () => {
+    const result = applyQueuedMutations('incomes', rows, [
+      mutation({ table: 'expenses', operation: 'delete', recordId: 'i1' }),
+    ]);
+    expect(result).toBe(rows);
+  });
+});
@@ -0,0 +1,216 @@
+// IndexedDB cache of the user's records plus the queue of writes made while offline.
+// Rows are stored exactly as they come from Supabase so the same mappers read both.
+
+export type OfflineTable = 'clients' | 'incomes' | 'expenses' | 'investments';
+
+export const OFFLINE_TABLES: OfflineTable[] = ['clients', 'incomes', 'expenses', 'investments'];
+
+export type CachedRow = Record<string, unknown> & { id: string; updated_at?: string };
+
+export type MutationOperation = 'insert' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  id?: number;
+  table: OfflineTable;
+  operation: MutationOperation;
+  recordId: string;
+  userId?: string;
+  changes?: Record<string, unknown>;
+  baseUpdatedAt?: string; // Server version the change was made on, used to detect conflicts
+  queuedAt: string;
+}
+
+const DB_NAME = 'financas-do-mei';
+const DB_VERSION = 1;
+const MUTATIONS_STORE = 'mutations';
+
+// Same order the tables are fetched in, so cached lists look the same
+const CACHE_ORDER: Record<OfflineTable, string> = {
+  clients: 'created_at',
+  incomes: 'payment_date',
+  expenses: 'due_date',
+  investments: 'date',
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OFFLINE_TABLES.forEach(table => {
+          if (!db.objectStoreNames.contains(table)) db.createObjectStore(table, { keyPath: 'id' });
+        });
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// CACHE
+export const getCachedRows = async (table: OfflineTable): Promise<CachedRow[]> => {
+  const db = await openDatabase();
+  const rows = await toPromise<CachedRow[]>(db.transaction(table).objectStore(table).getAll());
+  const column = CACHE_ORDER[table];
+  return rows.sort((a, b) => String(b[column] ?? '').localeCompare(String(a[column] ?? '')));
+};
+
+export const getCachedRow = async (table: OfflineTable, id: string): Promise<CachedRow | undefined> => {
+  const db = await openDatabase();
+  return toPromise<CachedRow | undefined>(db.transaction(table).objectStore(table).get(id));
+};
+
+// Replaces the cached rows, or only the ones in `scope` when a single page was fetched
+export const replaceCachedRows = async (
+  table: OfflineTable,
+  rows: CachedRow[],
+  scope?: (row: CachedRow) => boolean
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(table, 'readwrite');
+  const store = transaction.objectStore(table);
+  if (scope) {
+    const cached = await toPromise<CachedRow[]>(store.getAll());
+    cached.filter(scope).forEach(row => store.delete(row.id));
+  } else {
+    store.clear();
+  }
+  rows.forEach(row => store.put(row));
+  await transactionDone(transaction);
+};
+
+export const putCachedRows = async (table: OfflineTable, rows: CachedRow[]): Promise<void> => {
+  if (rows.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(table, 'readwrite');
+  const store = transaction.objectStore(table);
+  rows.forEach(row => store.put(row));
+  await transactionDone(transaction);
+};
+
+export const deleteCachedRows = async (table: OfflineTable, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(table, 'readwrite');
+  const store = transaction.objectStore(table);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+// Removes every cached record and pending write, e.g. when the user signs out
+export const clearOfflineData = async (): Promise<void> => {
+  const db = await openDatabase();
+  const stores = [...OFFLINE_TABLES, MUTATIONS_STORE];
+  const transaction = db.transaction(stores, 'readwrite');
+  stores.forEach(store => transaction.objectStore(store).clear());
+  await transactionDone(transaction);
+  notifyQueueListeners(0);
+};
+
+// MUTATION QUEUE
+type QueueListener = (pending: number) => void;
+const queueListeners = new Set<QueueListener>();
+
+const notifyQueueListeners = (pending: number) => {
+  queueListeners.forEach(listener => listener(pending));
+};
+
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  queueListeners.add(listener);
+  countQueuedMutations().then(listener).catch(() => undefined);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+export const countQueuedMutations = async (): Promise<number> => {
+  const db = await openDatabase();
+  return toPromise(db.transaction(MUTATIONS_STORE).objectStore(MUTATIONS_STORE).count());
+};
+
+// Oldest first, the order they must be replayed in
+export const getQueuedMutations = async (): Promise<QueuedMutation[]> => {
+  const db = await openDatabase();
+  return toPromise<QueuedMutation[]>(db.transaction(MUTATIONS_STORE).objectStore(MUTATIONS_STORE).getAll());
+};
+
+// Pending writes to the same record are folded together: an update to a record created
+// offline becomes part of the insert, and deleting it drops the queued writes altogether
+export const enqueueMutation = async (mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(MUTATIONS_STORE);
+  const queued = await toPromise<QueuedMutation[]>(store.getAll());
+  const pending = queued.find(m => m.table === mutation.table && m.recordId === mutation.recordId);
+
+  if (!pending) {
+    store.add({ ...mutation, queuedAt: new Date().toISOString() });
+  } else if (mutation.operation === 'update') {
+    store.put({ ...pending, changes: { ...pending.changes, ...mutation.changes } });
+  } else if (mutation.operation === 'delete' && pending.operation === 'insert') {
+    store.delete(pending.id);
+  } else if (mutation.operation === 'delete') {
+    store.put({ ...pending, operation: 'delete', changes: undefined });
+  } else {
+    store.add({ ...mutation, queuedAt: new Date().toISOString() });
+  }
+
+  const count = toPromise(store.count());
+  await transactionDone(transaction);
+  notifyQueueListeners(await count);
+};
+
+export const removeQueuedMutation = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(MUTATIONS_STORE);
+  store.delete(id);
+  const count = toPromise(store.count());
+  await transactionDone(transaction);
+  notifyQueueListeners(await count);
+};
+
+// Re-applies writes that haven't reached the server on top of freshly fetched rows
+export const applyQueuedMutations = (
+  table: OfflineTable,
+  rows: CachedRow[],
+  mutations: QueuedMutation[]
+): CachedRow[] => {
+  return mutations
+    .filter(m => m.table === table)
+    .reduce((result, mutation) => {
+      if (mutation.operation === 'insert') {
+        const row = { created_at: mutation.queuedAt, ...mutation.changes, id: mutation.recordId } as CachedRow;
+        return [row, ...result.filter(r => r.id !== mutation.recordId)];
+      }
+      if (mutation.operation === 'update') {
+        return result.map(r => r.id === mutation.recordId ? { ...r, ...mutation.changes } : r);
+      }
+      return result.filter(r => r.id !== mutation.recordId);
+    }, rows);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { Income } from "@/types/finance";
+import {
+  getAgingBucket,
+  getAgingReport,
+  getDaysOverdue,
+  getIncomePaymentDate,
+  getOpenAmount,
+  getReceivableStatus,
+  getReceivedAmount,
+  settleIncome,
+} from "@/lib/receivables";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const today = day(2024, 5, 31);
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 1000,
+  clientId: 'c1',
+  paymentDate: day(2024, 5, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 5, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const partial = income({ payments: [{ date: day(2024, 5, 10), amount: 400 }] });
+
+describe('getReceivedAmount and getOpenAmount', () => {
+  it('add the payments and leave what is still owed', () => {
+    expect(getReceivedAmount(income({ payments: [{ date: today, amount: 0.1 }, { date: today, amount: 0.2 }] }))).toBe(0.3);
+    expect(getOpenAmount(partial)).toBe(600);
+  });
+
+  it('owe nothing on overpaid or cancelled invoices', () => {
+    expect(getOpenAmount(income({ payments: [{ date: today, amount: 1200 }] }))).toBe(0);
+    expect(getOpenAmount(income({ cancelled: true }))).toBe(0);
+  });
+});
+
+describe('getDaysOverdue', () => {
+  it('counts calendar days past the due date', () => {
+    expect(getDaysOverdue(income({ dueDate: day(2024, 5, 30) }), new Date(2024, 4, 31, 0, 5))).toBe(1);
+    expect(getDaysOverdue(income({ dueDate: today }), today)).toBe(0);
+    expect(getDaysOverdue(income({ dueDate: day(2024, 6, 10) }), today)).toBe(-10);
+  });
+});
+
+describe('getReceivableStatus', () => {
+  it('follows the payments and the due date', () => {
+    expect(getReceivableStatus(income({ cancelled: true }), today)).toBe('cancelled');
+    expect(getReceivableStatus(income({ payments: [{ date: today, amount: 1000 }] }), today)).toBe('paid');
+    expect(getReceivableStatus(partial, today)).toBe('overdue');
+    expect(getReceivableStatus({ ...partial, dueDate: day(2024, 6, 10) }, today)).toBe('partial');
+    expect(getReceivableStatus(income({ dueDate: day(2024, 6, 10) }), today)).toBe('open');
+  });
+});
+
+describe('getIncomePaymentDate and settleIncome', () => {
+  it('date the revenue on the last payment once it is settled', () => {
+    const settled = income({ payments: [{ date: day(2024, 5, 20), amount: 600 }, { date: day(2024, 5, 12), amount: 400 }] });
+    expect(getIncomePaymentDate(settled)).toEqual(day(2024, 5, 20));
+    expect(getIncomePaymentDate(partial)).toEqual(day(2024, 5, 10));
+    expect(getIncomePaymentDate({ ...settled, dueDate: day(2024, 5, 1), cancelled: true })).toEqual(day(2024, 5, 1));
+  });
+
+  it('receive whatever is still open', () => {
+    expect(settleIncome(partial, day(2024, 5, 25))).toEqual({
+      payments: [{ date: day(2024, 5, 10), amount: 400 }, { date: day(2024, 5, 25), amount: 600 }],
+      paymentDate: day(2024, 5, 25),
+    });
+    const paid = income({ payments: [{ date: day(2024, 5, 12), amount: 1000 }] });
+    expect(settleIncome(paid, day(2024, 5, 25))).toEqual({ payments: paid.payments, paymentDate: day(2024, 5, 12) });
+  });
+});
+
+describe('getAgingBucket', () => {
+  it('splits the days past due in 30-day ranges', () => {
+    expect([-5, 0, 1, 30, 31, 60, 61, 90, 91].map(getAgingBucket)).toEqual([
+      'current', 'current', '0-30', '0-30', '31-60', '31-60', '61-90', '61-90', '90+',
+    ]);
+  });
+});
+
+describe('getAgingReport', () => {
+  it('adds the open amounts of each client, largest first', () => {
+    const incomes = [
+      income({ clientId: 'c1', dueDate: day(2024, 5, 1) }),
+      income({ clientId: 'c1', amount: 500, dueDate: day(2024, 6, 10) }),
+      income({ clientId: 'c2', amount: 2000, dueDate: day(2024, 1, 1), payments: [{ date: day(2024, 2, 1), amount: 300 }] }),
+      income({ clientId: 'c2', amount: 999, dueDate: day(2024, 1, 1), cancelled: true }),
+      income({ clientId: 'c3', payments: [{ date: day(2024, 5, 10), amount: 1000 }] }),
+    ];
+
+    expect(getAgingReport(incomes, today)).toEqual([
+      { clientId: 'c2', buckets: { current: 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 1700 }, total: 1700 },
+      { clientId: 'c1', buckets: { current: 500, '0-30': 1000, '31-60': 0, '61-90': 0, '90+': 0 }, total: 1500 },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { differenceInCalendarDays, startOfDay } from "date-fns";
+import { Income, IncomePayment } from "@/types/finance";
+
+export type ReceivableStatus = 'open' | 'partial' | 'paid' | 'overdue' | 'cancelled';
+
+export const receivableStatusLabels: Record<ReceivableStatus, string> = {
+  open: 'Aberto',
+  partial: 'Parcialmente pago',
+  paid: 'Pago',
+  overdue: 'Vencido',
+  cancelled: 'Cancelado',
+};
+
+export type AgingBucket = 'current' | '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'A vencer' },
+  { key: '0-30', label: '0–30 dias' },
+  { key: '31-60', label: '31–60 dias' },
+  { key: '61-90', label: '61–90 dias' },
+  { key: '90+', label: '90+ dias' },
+];
+
+export interface ClientAging {
+  clientId: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+type ReceivableFields = Pick<Income, 'amount' | 'dueDate' | 'payments' | 'cancelled'>;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getReceivedAmount = (income: Pick<Income, 'payments'>): number => {
+  return roundCurrency(income.payments.reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+// What the client still owes; nothing for cancelled invoices
+export const getOpenAmount = (income: ReceivableFields): number => {
+  if (income.cancelled) return 0;
+  return Math.max(roundCurrency(income.amount - getReceivedAmount(income)), 0);
+};
+
+// Days past the due date; zero or negative while it isn't due yet
+export const getDaysOverdue = (income: Pick<Income, 'dueDate'>, today: Date = new Date()): number => {
+  return differenceInCalendarDays(startOfDay(today), startOfDay(new Date(income.dueDate)));
+};
+
+export const getReceivableStatus = (income: ReceivableFields, today: Date = new Date()): ReceivableStatus => {
+  if (income.cancelled) return 'cancelled';
+  if (getOpenAmount(income) === 0) return 'paid';
+  if (getDaysOverdue(income, today) > 0) return 'overdue';
+  return getReceivedAmount(income) > 0 ? 'partial' : 'open';
+};
+
+// Revenue is listed on the day it was settled, or on the due date while something is missing
+export const getIncomePaymentDate = (income: ReceivableFields): Date => {
+  if (!income.cancelled && income.payments.length > 0 && getOpenAmount(income) === 0) {
+    return new Date(Math.max(...income.payments.map(payment => new Date(payment.date).getTime())));
+  }
+  return income.dueDate;
+};
+
+// Updates to save after changing the payments of an income
+export const withPayments = (income: ReceivableFields, payments: IncomePayment[]): Pick<Income, 'payments' | 'paymentDate'> => {
+  return {
+    payments,
+    paymentDate: getIncomePaymentDate({ ...income, payments }),
+  };
+};
+
+// Receives whatever is still open on the given date
+export const settleIncome = (income: ReceivableFields, date: Date): Pick<Income, 'payments' | 'paymentDate'> => {
+  const open = getOpenAmount(income);
+  return withPayments(income, open > 0 ? [...income.payments, { date, amount: open }] : income.payments);
+};
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+};
+
+// Open amounts per client, split by how long they are past due
+export const getAgingReport = (incomes: Income[], today: Date = new Date()): ClientAging[] => {
+  const byClient = new Map<string, ClientAging>();
+
+  incomes.forEach(income => {
+    const open = getOpenAmount(income);
+    if (open === 0) return;
+
+    const entry = byClient.get(income.clientId) ?? {
+      clientId: income.clientId,
+      buckets: { current: 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+      total: 0,
+    };
+    const bucket = getAgingBucket(getDaysOverdue(income, today));
+    entry.buckets[bucket] = roundCurrency(entry.buckets[bucket] + open);
+    entry.total = roundCurrency(entry.total + open);
+    byClient.set(income.clientId, entry);
+  });
+
+  return Array.from(byClient.values()).sort((a, b) => b.total - a.total);
+};
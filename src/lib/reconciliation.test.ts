@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Client, Expense, Income, StatementTransaction } from "@/types/finance";
+import { guessClient, reconcileStatement } from "@/lib/reconciliation";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const client = (id: string, name: string): Client => ({ id, name, archived: false, createdAt: day(2024, 1, 1) });
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 1500,
+  clientId: 'c1',
+  paymentDate: day(2024, 3, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 3, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const expense = (overrides: Partial<Expense>): Expense => ({
+  id: 'expense',
+  description: 'Despesa',
+  amount: 150,
+  category: 'Outros',
+  dueDate: day(2024, 3, 5),
+  status: 'unpaid',
+  payments: [],
+  type: 'business',
+  isFixed: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const transaction = (id: string, date: Date, amount: number, description: string): StatementTransaction => ({ id, date, amount, description });
+
+const clients = [client('c1', 'Empresa Exemplo'), client('c2', 'Fulano de Tal')];
+
+describe('reconcileStatement', () => {
+  it('matches a credit to the revenue of the client named in the description', () => {
+    const incomes = [
+      income({ id: 'i1', clientId: 'c2', paymentDate: day(2024, 3, 10) }),
+      income({ id: 'i2', clientId: 'c1', paymentDate: day(2024, 3, 8) }),
+    ];
+    const matches = reconcileStatement([transaction('t1', day(2024, 3, 10), 1500, 'PIX RECEBIDO EMPRESA EXEMPLO')], { incomes, expenses: [], clients });
+
+    expect(matches).toEqual({ t1: { kind: 'income', recordId: 'i2', alreadyReconciled: false, score: expect.any(Number) } });
+  });
+
+  it('flags revenue already received on the day of the credit', () => {
+    const incomes = [income({ id: 'i1', paymentDate: day(2024, 3, 12), payments: [{ date: day(2024, 3, 12), amount: 1500 }] })];
+    const matches = reconcileStatement([transaction('t1', day(2024, 3, 12), 1500, 'PIX')], { incomes, expenses: [], clients });
+    expect(matches.t1).toMatchObject({ recordId: 'i1', alreadyReconciled: true });
+  });
+
+  it('ignores cancelled revenue, other amounts and dates outside the window', () => {
+    const incomes = [
+      income({ id: 'i1', cancelled: true }),
+      income({ id: 'i2', amount: 1499.9 }),
+      income({ id: 'i3', paymentDate: day(2024, 3, 4) }),
+    ];
+    const matches = reconcileStatement([transaction('t1', day(2024, 3, 10), 1500, 'PIX')], { incomes, expenses: [], clients });
+    expect(matches).toEqual({});
+  });
+
+  it('prefers the unpaid expense for a debit and uses each record once', () => {
+    const expenses = [
+      expense({ id: 'e1', description: 'Energia', status: 'paid', payments: [{ date: day(2024, 3, 5), amount: 150 }] }),
+      expense({ id: 'e2', description: 'Internet' }),
+    ];
+    const transactions = [
+      transaction('t1', day(2024, 3, 6), -150, 'PAGTO BOLETO'),
+      transaction('t2', day(2024, 3, 6), -150, 'PAGTO BOLETO'),
+      transaction('t3', day(2024, 3, 6), -150, 'PAGTO BOLETO'),
+    ];
+    const matches = reconcileStatement(transactions, { incomes: [], expenses, clients });
+
+    expect(matches).toEqual({
+      t1: { kind: 'expense', recordId: 'e2', alreadyReconciled: false, score: expect.any(Number) },
+      t2: { kind: 'expense', recordId: 'e1', alreadyReconciled: true, score: expect.any(Number) },
+    });
+  });
+
+  it('accepts debits up to ten days from the due date', () => {
+    const expenses = [expense({ id: 'e1' })];
+    expect(reconcileStatement([transaction('t1', day(2024, 3, 15), -150, 'Boleto')], { incomes: [], expenses, clients }).t1).toMatchObject({ recordId: 'e1' });
+    expect(reconcileStatement([transaction('t1', day(2024, 3, 16), -150, 'Boleto')], { incomes: [], expenses, clients })).toEqual({});
+  });
+});
+
+describe('guessClient', () => {
+  it('finds the client whose name appears in the description', () => {
+    expect(guessClient(transaction('t1', day(2024, 3, 10), 1500, 'Pix recebido - Fulano'), clients)?.id).toBe('c2');
+    expect(guessClient(transaction('t1', day(2024, 3, 10), 1500, 'Pix recebido'), clients)).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { differenceInCalendarDays, isSameDay } from "date-fns";
+import { Client, Expense, Income, ReconciliationMatch, StatementTransaction } from "@/types/finance";
+import { getOpenAmount } from "@/lib/receivables";
+
+const AMOUNT_TOLERANCE = 0.01;
+const INCOME_DAY_WINDOW = 5; // Bank credits usually land a few days around the recorded date
+const EXPENSE_DAY_WINDOW = 10; // Bills are often paid before or after the due date
+
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const significantWords = (text: string) =>
+  normalize(text).split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+
+const sharesWords = (a: string, b: string) => {
+  const words = significantWords(b);
+  return significantWords(a).some(word => words.includes(word));
+};
+
+interface ReconciliationData {
+  incomes: Income[];
+  expenses: Expense[];
+  clients: Client[];
+}
+
+const findIncomeMatch = (
+  tx: StatementTransaction,
+  { incomes, clients }: ReconciliationData,
+  taken: Set<string>
+): ReconciliationMatch | undefined => {
+  let best: ReconciliationMatch | undefined;
+
+  incomes.forEach(income => {
+    if (taken.has(income.id) || income.cancelled || Math.abs(income.amount - tx.amount) > AMOUNT_TOLERANCE) return;
+
+    const days = Math.abs(differenceInCalendarDays(tx.date, new Date(income.paymentDate)));
+    if (days > INCOME_DAY_WINDOW) return;
+
+    const client = clients.find(c => c.id === income.clientId);
+    const score = 1 - days / (INCOME_DAY_WINDOW + 1)
+      + (client && sharesWords(client.name, tx.description) ? 0.5 : 0)
+      + (sharesWords(income.description, tx.description) ? 0.2 : 0);
+
+    if (!best || score > best.score) {
+      best = {
+        kind: 'income',
+        recordId: income.id,
+        alreadyReconciled: getOpenAmount(income) === 0 && isSameDay(tx.date, new Date(income.paymentDate)),
+        score,
+      };
+    }
+  });
+
+  return best;
+};
+
+const findExpenseMatch = (
+  tx: StatementTransaction,
+  { expenses }: ReconciliationData,
+  taken: Set<string>
+): ReconciliationMatch | undefined => {
+  let best: ReconciliationMatch | undefined;
+  const value = Math.abs(tx.amount);
+
+  expenses.forEach(expense => {
+    if (taken.has(expense.id) || Math.abs(expense.amount - value) > AMOUNT_TOLERANCE) return;
+
+    const days = Math.abs(differenceInCalendarDays(tx.date, new Date(expense.dueDate)));
+    if (days > EXPENSE_DAY_WINDOW) return;
+
+    // Unpaid expenses are the ones waiting for this debit
+    const score = 1 - days / (EXPENSE_DAY_WINDOW + 1)
+      + (expense.status !== 'paid' ? 0.3 : 0)
+      + (sharesWords(expense.description, tx.description) ? 0.2 : 0);
+
+    if (!best || score > best.score) {
+      best = {
+        kind: 'expense',
+        recordId: expense.id,
+        alreadyReconciled: expense.status === 'paid',
+        score,
+      };
+    }
+  });
+
+  return best;
+};
+
+// Matches credits to incomes and debits to expenses; each record is used at most once
+export const reconcileStatement = (
+  transactions: StatementTransaction[],
+  data: ReconciliationData
+): Record<string, ReconciliationMatch> => {
+  const matches: Record<string, ReconciliationMatch> = {};
+  const taken = new Set<string>();
+
+  transactions.forEach(tx => {
+    const match = tx.amount > 0
+      ? findIncomeMatch(tx, data, taken)
+      : findExpenseMatch(tx, data, taken);
+
+    if (match) {
+      matches[tx.id] = match;
+      taken.add(match.recordId);
+    }
+  });
+
+  return matches;
+};
+
+// Client whose name appears in the transaction description, used to pre-fill new incomes
+export const guessClient = (tx: StatementTransaction, clients: Client[]): Client | undefined => {
+  return clients.find(client => sharesWords(client.name, tx.description));
+};
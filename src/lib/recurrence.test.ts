@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { Expense, RecurrenceRule, RecurringExpense } from "@/types/finance";
+import {
+  getMissingOccurrences,
+  getOccurrenceDate,
+  getOccurrenceInMonth,
+  getOccurrencesBetween,
+  isSameRule,
+  splitRule,
+} from "@/lib/recurrence";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const monthly: RecurrenceRule = { frequency: 'monthly', dayOfMonth: 31, startDate: day(2024, 1, 31) };
+
+const template = (overrides: Partial<RecurringExpense> = {}): RecurringExpense => ({
+  id: 'rent',
+  description: 'Aluguel',
+  amount: 1500,
+  category: 'Moradia',
+  type: 'personal',
+  rule: { frequency: 'monthly', dayOfMonth: 10, startDate: day(2024, 1, 10) },
+  excludedDates: [],
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+describe('getOccurrenceDate', () => {
+  it('clamps the day to the last day of shorter months', () => {
+    expect(getOccurrenceDate(monthly, 1)).toEqual(day(2024, 2, 29));
+    expect(getOccurrenceDate(monthly, 3)).toEqual(day(2024, 4, 30));
+    expect(getOccurrenceDate(monthly, 2)).toEqual(day(2024, 3, 31));
+  });
+
+  it('steps by the interval of the frequency', () => {
+    expect(getOccurrenceDate({ ...monthly, frequency: 'bimonthly' }, 2)).toEqual(day(2024, 5, 31));
+    expect(getOccurrenceDate({ ...monthly, frequency: 'yearly' }, 1)).toEqual(day(2025, 1, 31));
+  });
+});
+
+describe('getOccurrenceInMonth', () => {
+  it('skips the months between bimonthly occurrences', () => {
+    const rule: RecurrenceRule = { ...monthly, frequency: 'bimonthly' };
+    expect(getOccurrenceInMonth(rule, day(2024, 2, 1))).toBeUndefined();
+    expect(getOccurrenceInMonth(rule, day(2024, 3, 1))).toEqual(day(2024, 3, 31));
+  });
+
+  it('schedules nothing before the start', () => {
+    expect(getOccurrenceInMonth(monthly, day(2023, 12, 1))).toBeUndefined();
+  });
+
+  it('stops after the count or the end date', () => {
+    expect(getOccurrenceInMonth({ ...monthly, count: 2 }, day(2024, 2, 1))).toEqual(day(2024, 2, 29));
+    expect(getOccurrenceInMonth({ ...monthly, count: 2 }, day(2024, 3, 1))).toBeUndefined();
+    expect(getOccurrenceInMonth({ ...monthly, endDate: day(2024, 3, 30) }, day(2024, 3, 1))).toBeUndefined();
+    expect(getOccurrenceInMonth({ ...monthly, endDate: day(2024, 3, 31) }, day(2024, 3, 1))).toEqual(day(2024, 3, 31));
+  });
+});
+
+describe('getOccurrencesBetween', () => {
+  it('lists the occurrences inside the interval', () => {
+    expect(getOccurrencesBetween(monthly, day(2024, 2, 1), day(2024, 4, 15))).toEqual([day(2024, 2, 29), day(2024, 3, 31)]);
+  });
+});
+
+describe('splitRule', () => {
+  it('ends the first part the day before and starts the second on the occurrence', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', dayOfMonth: 10, startDate: day(2024, 1, 10), count: 12 };
+    const { before, after } = splitRule(rule, day(2024, 4, 10));
+
+    expect(before).toEqual({ ...rule, endDate: new Date(2024, 3, 9, 12, 0, 0), count: 3 });
+    expect(after).toEqual({ ...rule, startDate: day(2024, 4, 10), count: 9 });
+  });
+
+  it('has no first part when splitting at the first occurrence', () => {
+    const { before, after } = splitRule(monthly, monthly.startDate);
+    expect(before).toBeNull();
+    expect(isSameRule(after, monthly)).toBe(true);
+  });
+});
+
+describe('getMissingOccurrences', () => {
+  it('materializes the occurrence of the month as a fixed, unpaid expense', () => {
+    const [missing] = getMissingOccurrences([template()], [], day(2024, 3, 1));
+    expect(missing).toMatchObject({
+      description: 'Aluguel',
+      amount: 1500,
+      dueDate: day(2024, 3, 10),
+      status: 'unpaid',
+      payments: [],
+      isFixed: true,
+      recurringExpenseId: 'rent',
+      occurrenceDate: day(2024, 3, 10),
+    });
+  });
+
+  it('skips occurrences already materialized, even with another due date', () => {
+    const existing = {
+      id: 'e1',
+      recurringExpenseId: 'rent',
+      occurrenceDate: day(2024, 3, 10),
+      dueDate: day(2024, 3, 15),
+    } as Expense;
+    expect(getMissingOccurrences([template()], [existing], day(2024, 3, 1))).toEqual([]);
+  });
+
+  it('skips occurrences removed individually', () => {
+    const removed = template({ excludedDates: [day(2024, 3, 10)] });
+    expect(getMissingOccurrences([removed], [], day(2024, 3, 1))).toEqual([]);
+  });
+});
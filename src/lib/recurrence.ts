@@ -0,0 +1,140 @@
+import {
+  addMonths,
+  differenceInCalendarMonths,
+  endOfDay,
+  getDaysInMonth,
+  isSameDay,
+  isWithinInterval,
+  startOfMonth,
+  subDays,
+} from "date-fns";
+import { Expense, RecurrenceFrequency, RecurrenceRule, RecurringExpense } from "@/types/finance";
+
+export const FREQUENCY_INTERVAL: Record<RecurrenceFrequency, number> = {
+  monthly: 1,
+  bimonthly: 2,
+  yearly: 12,
+};
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: "Mensal",
+  bimonthly: "Bimestral",
+  yearly: "Anual",
+};
+
+// Date of the n-th occurrence (0-based), at noon to avoid timezone shifts
+export const getOccurrenceDate = (rule: RecurrenceRule, index: number): Date => {
+  const month = addMonths(startOfMonth(rule.startDate), index * FREQUENCY_INTERVAL[rule.frequency]);
+  const day = Math.min(rule.dayOfMonth, getDaysInMonth(month));
+  return new Date(month.getFullYear(), month.getMonth(), day, 12, 0, 0);
+};
+
+// Number of occurrences scheduled before the one falling in the month of `date`
+export const getOccurrenceIndex = (rule: RecurrenceRule, date: Date): number => {
+  const diff = differenceInCalendarMonths(date, rule.startDate);
+  return Math.ceil(diff / FREQUENCY_INTERVAL[rule.frequency]);
+};
+
+const isWithinRule = (rule: RecurrenceRule, index: number, date: Date): boolean => {
+  if (index < 0) return false;
+  if (rule.count !== undefined && index >= rule.count) return false;
+  if (rule.endDate && date > endOfDay(rule.endDate)) return false;
+  return true;
+};
+
+// A rule schedules at most one occurrence per month
+export const getOccurrenceInMonth = (rule: RecurrenceRule, month: Date): Date | undefined => {
+  const diff = differenceInCalendarMonths(month, rule.startDate);
+  const interval = FREQUENCY_INTERVAL[rule.frequency];
+  if (diff < 0 || diff % interval !== 0) return undefined;
+
+  const index = diff / interval;
+  const date = getOccurrenceDate(rule, index);
+  return isWithinRule(rule, index, date) ? date : undefined;
+};
+
+export const getOccurrencesBetween = (rule: RecurrenceRule, start: Date, end: Date): Date[] => {
+  const dates: Date[] = [];
+  const months = differenceInCalendarMonths(end, start);
+
+  for (let i = 0; i <= months; i++) {
+    const date = getOccurrenceInMonth(rule, addMonths(startOfMonth(start), i));
+    if (date && isWithinInterval(date, { start, end })) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
+
+export const isExcludedOccurrence = (template: RecurringExpense, date: Date): boolean => {
+  return template.excludedDates.some(excluded => isSameDay(excluded, date));
+};
+
+// Splits a rule at the occurrence on `date`: `before` ends the day before, `after` starts on it
+export const splitRule = (
+  rule: RecurrenceRule,
+  date: Date
+): { before: RecurrenceRule | null; after: RecurrenceRule } => {
+  const index = getOccurrenceIndex(rule, date);
+
+  const before: RecurrenceRule | null = index > 0
+    ? { ...rule, endDate: subDays(date, 1), count: rule.count !== undefined ? index : undefined }
+    : null;
+
+  const after: RecurrenceRule = {
+    ...rule,
+    startDate: date,
+    count: rule.count !== undefined ? Math.max(rule.count - index, 1) : undefined,
+  };
+
+  return { before, after };
+};
+
+export const isSameRule = (a: RecurrenceRule, b: RecurrenceRule): boolean => {
+  return (
+    a.frequency === b.frequency &&
+    a.dayOfMonth === b.dayOfMonth &&
+    isSameDay(a.startDate, b.startDate) &&
+    a.count === b.count &&
+    (a.endDate && b.endDate ? isSameDay(a.endDate, b.endDate) : a.endDate === b.endDate)
+  );
+};
+
+// Occurrences due in `month` that have no Expense row yet
+export const getMissingOccurrences = (
+  templates: RecurringExpense[],
+  expenses: Expense[],
+  month: Date
+): Omit<Expense, 'id' | 'createdAt'>[] => {
+  const missing: Omit<Expense, 'id' | 'createdAt'>[] = [];
+
+  templates.forEach(template => {
+    const date = getOccurrenceInMonth(template.rule, month);
+    if (!date || isExcludedOccurrence(template, date)) return;
+
+    const exists = expenses.some(expense =>
+      expense.recurringExpenseId === template.id &&
+      expense.occurrenceDate &&
+      isSameDay(expense.occurrenceDate, date)
+    );
+    if (exists) return;
+
+    missing.push({
+      description: template.description,
+      amount: template.amount,
+      category: template.category,
+      dueDate: date,
+      status: 'unpaid',
+      payments: [],
+      paymentSourceId: template.paymentSourceId,
+      accountId: template.accountId,
+      type: template.type,
+      isFixed: true,
+      recurringExpenseId: template.id,
+      occurrenceDate: date,
+    });
+  });
+
+  return missing;
+};
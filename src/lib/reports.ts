@@ -0,0 +1,425 @@
+import { jsPDF } from "jspdf";
+import autoTable, { CellDef, RowInput, UserOptions } from "jspdf-autotable";
+import { format, getYear } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AccountingBasis,
+  Client,
+  Expense,
+  FinancialSummary,
+  FiscalSettings,
+  Income,
+  Investment,
+  PaymentStatus,
+  Withdrawal,
+} from "@/types/finance";
+import { downloadFile } from "@/lib/download";
+import { getPersonType, maskDocument } from "@/lib/documents";
+import { investmentStatusLabels } from "@/lib/categories";
+import { DRELine, accountingBasisLabels } from "@/lib/dre";
+import { getOpenAmount, getReceivableStatus, getReceivedAmount, receivableStatusLabels } from "@/lib/receivables";
+
+export type ReportCompany = Pick<FiscalSettings, 'companyName' | 'cnpj'>;
+
+export type ReportCell = string | number; // Numbers are amounts in reais
+
+export interface ReportRow {
+  cells: ReportCell[];
+  style?: 'section' | 'subtotal' | 'total'; // Sections only use the first cell, across the whole row
+  indent?: number;
+}
+
+export interface ReportTable {
+  title?: string;
+  head: string[];
+  rows: ReportRow[];
+  emptyMessage?: string;
+}
+
+export interface ReportSummaryItem {
+  label: string;
+  value: number;
+}
+
+export interface Report {
+  title: string;
+  period: string;
+  details?: string[]; // Lines under the header, like the regime or the client
+  summary?: ReportSummaryItem[];
+  tables: ReportTable[];
+  landscape?: boolean;
+  fileName: string;
+}
+
+// Millimetres on an A4 page
+const MARGIN = 15;
+const HEADER_HEIGHT = 30;
+const FOOTER_HEIGHT = 15;
+
+const PRIMARY_COLOR: [number, number, number] = [30, 58, 95];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+const LINE_COLOR: [number, number, number] = [203, 213, 225];
+
+const rowStyles: Record<NonNullable<ReportRow['style']>, CellDef['styles']> = {
+  section: { fontStyle: 'bold', textColor: MUTED_COLOR },
+  subtotal: { fontStyle: 'bold', fillColor: [241, 245, 249] },
+  total: { fontStyle: 'bold', fillColor: [226, 232, 240] },
+};
+
+const expenseStatusLabels: Record<PaymentStatus, string> = {
+  paid: 'Pago',
+  unpaid: 'A pagar',
+  saved: 'Guardado',
+};
+
+// Deductions go between parentheses, the way accountants read them
+export const formatReportCurrency = (value: number): string => {
+  const formatted = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Math.abs(value));
+  return value < 0 ? `(${formatted})` : formatted;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (values: number[]) => roundCurrency(values.reduce((acc, value) => acc + value, 0));
+
+const formatDate = (date: Date) => format(new Date(date), 'dd/MM/yyyy');
+
+const toFileName = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-zA-Z0-9]+/g, '_')
+  .replace(/^_|_$/g, '');
+
+const toBody = (table: ReportTable): RowInput[] => {
+  if (table.rows.length === 0) {
+    return [[{
+      content: table.emptyMessage ?? 'Nenhum registro no período',
+      colSpan: table.head.length,
+      styles: { fontStyle: 'italic', textColor: MUTED_COLOR },
+    }]];
+  }
+
+  return table.rows.map(row => {
+    const styles = row.style ? rowStyles[row.style] : {};
+    if (row.style === 'section') {
+      return [{ content: String(row.cells[0]).toUpperCase(), colSpan: table.head.length, styles }];
+    }
+    return row.cells.map((cell, index): CellDef => {
+      if (typeof cell === 'number') {
+        return { content: formatReportCurrency(cell), styles: { ...styles, halign: 'right' } };
+      }
+      const indent = index === 0 && row.indent ? '    '.repeat(row.indent) : '';
+      return { content: `${indent}${cell}`, styles };
+    });
+  });
+};
+
+const drawHeader = (doc: jsPDF, report: Report, company: ReportCompany) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setTextColor(0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(company.companyName || 'Razão social não informada', MARGIN, 15);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(company.cnpj ? `CNPJ ${maskDocument(company.cnpj)}` : 'CNPJ não informado', MARGIN, 20);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(report.title, pageWidth - MARGIN, 15, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(report.period, pageWidth - MARGIN, 20, { align: 'right' });
+
+  doc.setDrawColor(...LINE_COLOR);
+  doc.line(MARGIN, 24, pageWidth - MARGIN, 24);
+};
+
+const drawFooter = (doc: jsPDF, page: number, pages: number, generatedAt: Date) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - 8;
+
+  doc.setDrawColor(...LINE_COLOR);
+  doc.line(MARGIN, y - 4, pageWidth - MARGIN, y - 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(`Gerado em ${format(generatedAt, "dd/MM/yyyy 'às' HH:mm")}`, MARGIN, y);
+  doc.text(`Página ${page} de ${pages}`, pageWidth - MARGIN, y, { align: 'right' });
+};
+
+// Header and footer are drawn once the content is laid out, when the page count is known
+export const renderReport = (report: Report, company: ReportCompany, generatedAt: Date = new Date()): jsPDF => {
+  const doc = new jsPDF({ orientation: report.landscape ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageBottom = doc.internal.pageSize.getHeight() - FOOTER_HEIGHT;
+  let cursorY = HEADER_HEIGHT;
+
+  const ensureSpace = (height: number) => {
+    if (cursorY + height <= pageBottom) return;
+    doc.addPage();
+    cursorY = HEADER_HEIGHT;
+  };
+
+  const table = (options: UserOptions) => autoTable(doc, {
+    startY: cursorY,
+    margin: { top: HEADER_HEIGHT, bottom: FOOTER_HEIGHT + 5, left: MARGIN, right: MARGIN },
+    styles: { font: 'helvetica', fontSize: 8, cellPadding: 1.5, lineColor: LINE_COLOR },
+    headStyles: { fillColor: PRIMARY_COLOR, textColor: 255, fontStyle: 'bold' },
+    ...options,
+    didDrawPage: (data) => {
+      cursorY = data.cursor?.y ?? cursorY;
+    },
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  (report.details ?? []).forEach(line => {
+    doc.text(line, MARGIN, cursorY + 2);
+    cursorY += 5;
+  });
+
+  if (report.summary && report.summary.length > 0) {
+    cursorY += 2;
+    table({
+      theme: 'grid',
+      tableWidth: 110,
+      body: report.summary.map(item => [
+        item.label,
+        { content: formatReportCurrency(item.value), styles: { halign: 'right', fontStyle: 'bold' } },
+      ]),
+    });
+  }
+
+  report.tables.forEach(reportTable => {
+    cursorY += 6;
+    if (reportTable.title) {
+      ensureSpace(20);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(10);
+      doc.setTextColor(0);
+      doc.text(reportTable.title, MARGIN, cursorY);
+      cursorY += 2;
+    }
+
+    const numericColumns = reportTable.head.map((_, index) =>
+      reportTable.rows.some(row => row.style !== 'section' && typeof row.cells[index] === 'number')
+    );
+    table({
+      theme: 'striped',
+      head: [reportTable.head.map((label, index): CellDef => ({
+        content: label,
+        styles: numericColumns[index] ? { halign: 'right' } : {},
+      }))],
+      body: toBody(reportTable),
+    });
+  });
+
+  // Signature of the accountant who reviewed the figures
+  ensureSpace(45);
+  cursorY += 30;
+  const centerX = pageWidth / 2;
+  doc.setDrawColor(0);
+  doc.line(centerX - 40, cursorY, centerX + 40, cursorY);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(0);
+  doc.text('Contador(a) responsável', centerX, cursorY + 5, { align: 'center' });
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text('CRC nº', centerX, cursorY + 10, { align: 'center' });
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    drawHeader(doc, report, company);
+    drawFooter(doc, page, pages, generatedAt);
+  }
+  return doc;
+};
+
+export const downloadReport = (report: Report, company: ReportCompany) => {
+  downloadFile(renderReport(report, company).output('blob'), report.fileName, 'application/pdf');
+};
+
+// DRE with one column per month and the total of the period
+export const buildDREReport = (
+  lines: DRELine[],
+  months: Date[],
+  periodLabel: string,
+  basis: AccountingBasis,
+  fileSuffix: string
+): Report => {
+  const isMultiMonth = months.length > 1;
+  return {
+    title: 'DRE - Demonstração do Resultado',
+    period: periodLabel,
+    details: [accountingBasisLabels[basis]],
+    landscape: months.length > 6,
+    fileName: `DRE_${fileSuffix}.pdf`,
+    tables: [{
+      head: isMultiMonth
+        ? ['Descrição', ...months.map(month => format(month, 'MMM/yy', { locale: ptBR })), 'Total']
+        : ['Descrição', 'Valor'],
+      rows: lines.map((line): ReportRow => line.isHeader
+        ? { cells: [line.label], style: 'section' }
+        : {
+          cells: [line.label, ...(isMultiMonth ? [...line.values, line.total] : [line.total])],
+          style: line.isTotal ? 'total' : line.isSubtotal ? 'subtotal' : undefined,
+          indent: line.indent,
+        }),
+    }],
+  };
+};
+
+export interface BusinessSummaryRecords {
+  incomes: Income[];
+  expenses: Expense[];
+  investments: Investment[];
+  withdrawals: Withdrawal[];
+}
+
+// Records of the month as listed on the business page; revenue and expenses in the summary
+// follow the DRE regime, while the cash balance counts only what was received and paid
+export const buildBusinessSummaryReport = (
+  month: Date,
+  records: BusinessSummaryRecords,
+  summary: FinancialSummary,
+  clients: Client[],
+  basis: AccountingBasis
+): Report => {
+  const getClientName = (id?: string) => clients.find(c => c.id === id)?.name ?? '—';
+  const incomes = records.incomes.filter(i => !i.cancelled);
+  const expenses = records.expenses.filter(e => e.type === 'business');
+  return {
+    title: 'Resumo Mensal da Empresa',
+    period: format(month, "MMMM 'de' yyyy", { locale: ptBR }),
+    details: [accountingBasisLabels[basis]],
+    fileName: `Resumo_${format(month, 'yyyy-MM')}.pdf`,
+    summary: [
+      { label: 'Receita', value: summary.totalIncome },
+      { label: 'Despesas', value: summary.totalExpenses },
+      { label: 'Despesas pagas', value: summary.paidExpenses },
+      { label: 'Despesas a pagar', value: summary.unpaidExpenses },
+      { label: 'Saques', value: summary.totalWithdrawals },
+      { label: 'Investimentos', value: summary.totalInvestments },
+      { label: 'Caixa da empresa', value: summary.businessBalance },
+    ],
+    tables: [
+      {
+        title: 'Recebimentos',
+        head: ['Data', 'Cliente', 'Descrição', 'Categoria', 'Faturado', 'Recebido'],
+        emptyMessage: 'Nenhum recebimento no mês',
+        rows: incomes.length === 0 ? [] : [
+          ...incomes.map((income): ReportRow => ({
+            cells: [
+              formatDate(income.paymentDate),
+              getClientName(income.clientId),
+              income.description,
+              income.category,
+              income.amount,
+              getReceivedAmount(income),
+            ],
+          })),
+          {
+            cells: ['Total', '', '', '', sum(incomes.map(i => i.amount)), sum(incomes.map(getReceivedAmount))],
+            style: 'subtotal',
+          },
+        ],
+      },
+      {
+        title: 'Despesas',
+        head: ['Vencimento', 'Descrição', 'Categoria', 'Situação', 'Valor'],
+        emptyMessage: 'Nenhuma despesa no mês',
+        rows: expenses.length === 0 ? [] : [
+          ...expenses.map((expense): ReportRow => ({
+            cells: [
+              formatDate(expense.dueDate),
+              expense.description,
+              expense.category,
+              expenseStatusLabels[expense.status],
+              expense.amount,
+            ],
+          })),
+          { cells: ['Total', '', '', '', sum(expenses.map(e => e.amount))], style: 'subtotal' },
+        ],
+      },
+      {
+        title: 'Saques',
+        head: ['Data', 'Descrição', 'Cliente de origem', 'Valor'],
+        emptyMessage: 'Nenhum saque no mês',
+        rows: records.withdrawals.length === 0 ? [] : [
+          ...records.withdrawals.map((withdrawal): ReportRow => ({
+            cells: [
+              formatDate(withdrawal.date),
+              withdrawal.description || 'Saque',
+              getClientName(withdrawal.sourceClientId),
+              withdrawal.amount,
+            ],
+          })),
+          { cells: ['Total', '', '', sum(records.withdrawals.map(w => w.amount))], style: 'subtotal' },
+        ],
+      },
+      {
+        title: 'Investimentos',
+        head: ['Data', 'Descrição', 'Categoria', 'Situação', 'Valor'],
+        emptyMessage: 'Nenhum investimento no mês',
+        rows: records.investments.map((investment): ReportRow => ({
+          cells: [
+            formatDate(investment.date),
+            investment.description,
+            investment.category,
+            investmentStatusLabels[investment.status],
+            investment.amount,
+          ],
+        })),
+      },
+    ],
+  };
+};
+
+// Invoices of the client due in the year, with what was received and what is still open
+export const buildClientStatementReport = (client: Client, incomes: Income[], year: number, today: Date = new Date()): Report => {
+  const yearIncomes = incomes
+    .filter(income => income.clientId === client.id && getYear(income.dueDate) === year)
+    .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  const active = yearIncomes.filter(income => !income.cancelled);
+  const invoiced = sum(active.map(income => income.amount));
+  const received = sum(active.map(getReceivedAmount));
+  const open = sum(active.map(getOpenAmount));
+
+  const documentLabel = client.document
+    ? `${getPersonType(client.document) === 'PJ' ? 'CNPJ' : 'CPF'} ${maskDocument(client.document)}`
+    : 'CPF/CNPJ não informado';
+
+  return {
+    title: 'Extrato de Receitas por Cliente',
+    period: `Ano de ${year}`,
+    details: [`Cliente: ${client.legalName || client.name}`, documentLabel],
+    fileName: `Extrato_${toFileName(client.name)}_${year}.pdf`,
+    summary: [
+      { label: 'Faturado', value: invoiced },
+      { label: 'Recebido', value: received },
+      { label: 'Em aberto', value: open },
+    ],
+    tables: [{
+      title: 'Notas e recebimentos',
+      head: ['Emissão', 'Vencimento', 'Descrição', 'Situação', 'Faturado', 'Recebido', 'Em aberto'],
+      emptyMessage: `Nenhuma receita deste cliente em ${year}`,
+      rows: yearIncomes.length === 0 ? [] : [
+        ...yearIncomes.map((income): ReportRow => ({
+          cells: [
+            income.issueDate ? formatDate(income.issueDate) : '—',
+            formatDate(income.dueDate),
+            income.description,
+            receivableStatusLabels[getReceivableStatus(income, today)],
+            income.cancelled ? 0 : income.amount,
+            getReceivedAmount(income),
+            getOpenAmount(income),
+          ],
+        })),
+        { cells: ['Total', '', '', '', invoiced, received, open], style: 'subtotal' },
+      ],
+    }],
+  };
+};
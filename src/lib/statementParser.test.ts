@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { decodeStatementFile, parseAmount, parseStatement, parseStatementDate } from "@/lib/statementParser";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+describe('parseAmount', () => {
+  it('reads Brazilian and international notations', () => {
+    expect(parseAmount('1.234,56')).toBe(1234.56);
+    expect(parseAmount('1,234.56')).toBe(1234.56);
+    expect(parseAmount('-1234.56')).toBe(-1234.56);
+    expect(parseAmount('R$ 10,00')).toBe(10);
+  });
+
+  it('reads debits written in parentheses or with a trailing minus', () => {
+    expect(parseAmount('(10,00)')).toBe(-10);
+    expect(parseAmount('10,00-')).toBe(-10);
+  });
+
+  it('returns NaN for text that is not an amount', () => {
+    expect(parseAmount('')).toBeNaN();
+    expect(parseAmount('Saldo')).toBeNaN();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads the date formats banks export, at noon', () => {
+    expect(parseStatementDate('05/03/2024')).toEqual(day(2024, 3, 5));
+    expect(parseStatementDate('05/03/24')).toEqual(day(2024, 3, 5));
+    expect(parseStatementDate('2024-03-05')).toEqual(day(2024, 3, 5));
+    expect(parseStatementDate('05-03-2024')).toEqual(day(2024, 3, 5));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseStatementDate('')).toBeNull();
+    expect(parseStatementDate('31/02/2024')).toBeNull();
+    expect(parseStatementDate('março')).toBeNull();
+  });
+});
+
+describe('decodeStatementFile', () => {
+  it('reads UTF-8 and falls back to Windows-1252', () => {
+    expect(decodeStatementFile(new TextEncoder().encode('Descrição').buffer)).toBe('Descrição');
+    const windows1252 = new Uint8Array([0x44, 0x65, 0x73, 0x63, 0x72, 0x69, 0xe7, 0xe3, 0x6f]);
+    expect(decodeStatementFile(windows1252.buffer)).toBe('Descrição');
+  });
+});
+
+describe('parseStatement', () => {
+  it('reads SGML and XML OFX files', () => {
+    const sgml = [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      '<OFX>',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240305120000[-3:BRT]',
+      '<TRNAMT>-150.00',
+      '<FITID>202403050001',
+      '<MEMO>Pagamento de boleto',
+      '</STMTTRN>',
+      '<STMTTRN>',
+      '<TRNTYPE>CREDIT',
+      '<DTPOSTED>20240310',
+      '<TRNAMT>1500.00',
+      '<NAME>PIX RECEBIDO EMPRESA EXEMPLO',
+      '</STMTTRN>',
+      '</BANKTRANLIST>',
+      '</OFX>',
+    ].join('\n');
+
+    expect(parseStatement(sgml)).toEqual({
+      layout: 'ofx',
+      transactions: [
+        { id: '202403050001', date: day(2024, 3, 5), amount: -150, description: 'Pagamento de boleto' },
+        { id: 'ofx-20240310-1', date: day(2024, 3, 10), amount: 1500, description: 'PIX RECEBIDO EMPRESA EXEMPLO' },
+      ],
+    });
+
+    const xml = '<?xml version="1.0"?><OFX><STMTTRN><DTPOSTED>20240305</DTPOSTED><TRNAMT>-99.90</TRNAMT><FITID>abc</FITID><MEMO>Internet</MEMO></STMTTRN></OFX>';
+    expect(parseStatement(xml).transactions).toEqual([{ id: 'abc', date: day(2024, 3, 5), amount: -99.9, description: 'Internet' }]);
+  });
+
+  it('reads the Nubank account export', () => {
+    const csv = [
+      'Data,Valor,Identificador,Descrição',
+      '05/03/2024,-150.00,65e7a1b2-0001,Transferência enviada pelo Pix - Fulano',
+      '10/03/2024,1500.00,65e7a1b2-0002,Transferência recebida pelo Pix - Empresa Exemplo',
+    ].join('\n');
+
+    expect(parseStatement(csv)).toEqual({
+      layout: 'nubank',
+      transactions: [
+        { id: '65e7a1b2-0001', date: day(2024, 3, 5), amount: -150, description: 'Transferência enviada pelo Pix - Fulano' },
+        { id: '65e7a1b2-0002', date: day(2024, 3, 10), amount: 1500, description: 'Transferência recebida pelo Pix - Empresa Exemplo' },
+      ],
+    });
+  });
+
+  it('turns Nubank card purchases into debits', () => {
+    const result = parseStatement('date,title,amount\n2024-03-05,Padaria,25.90\n');
+    expect(result).toEqual({
+      layout: 'nubank-card',
+      transactions: [{ id: 'csv-20240305--25.90-0', date: day(2024, 3, 5), amount: -25.9, description: 'Padaria' }],
+    });
+  });
+
+  it('skips the account details Inter puts above the header and the balance lines', () => {
+    const csv = [
+      'Extrato Conta Corrente',
+      'Conta ;12345678',
+      'Período ;01/03/2024 a 31/03/2024',
+      '',
+      'Data Lançamento;Histórico;Descrição;Valor;Saldo',
+      '05/03/2024;Pix enviado ;Fulano;-150,00;850,00',
+      '05/03/2024;Saldo do dia;;0,00;850,00',
+      '10/03/2024;Pix recebido;Empresa Exemplo;1.500,00;2.350,00',
+    ].join('\r\n');
+
+    const result = parseStatement(csv);
+    expect(result.layout).toBe('inter');
+    expect(result.transactions.map(({ amount, description }) => ({ amount, description }))).toEqual([
+      { amount: -150, description: 'Pix enviado - Fulano' },
+      { amount: 1500, description: 'Pix recebido - Empresa Exemplo' },
+    ]);
+  });
+
+  it('reads Itaú exports with and without a header', () => {
+    const withHeader = parseStatement('data;lançamento;ag./origem;valor (R$);saldos (R$)\n05/03/2024;PAGTO BOLETO;;-150,00;\n');
+    expect(withHeader.layout).toBe('itau');
+    expect(withHeader.transactions).toMatchObject([{ date: day(2024, 3, 5), amount: -150, description: 'PAGTO BOLETO' }]);
+
+    const withoutHeader = parseStatement('01/03/2024;SALDO ANTERIOR;1.000,00\n05/03/2024;PAGTO BOLETO;-150,00\n');
+    expect(withoutHeader).toEqual({
+      layout: 'itau',
+      transactions: [{ id: 'csv-20240305--150.00-1', date: day(2024, 3, 5), amount: -150, description: 'PAGTO BOLETO' }],
+    });
+  });
+
+  it('keeps delimiters and quotes inside quoted cells', () => {
+    const csv = 'Data,Descrição,Valor\n"05/03/2024","Compra, ""parcelada""","-1.234,56"\n';
+    expect(parseStatement(csv)).toEqual({
+      layout: 'generic',
+      transactions: [{ id: 'csv-20240305--1234.56-0', date: day(2024, 3, 5), amount: -1234.56, description: 'Compra, "parcelada"' }],
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { format, isValid, parse } from "date-fns";
+import { StatementLayout, StatementTransaction } from "@/types/finance";
+
+export interface ParsedStatement {
+  layout: StatementLayout;
+  transactions: StatementTransaction[];
+}
+
+export const LAYOUT_LABELS: Record<StatementLayout, string> = {
+  ofx: "OFX",
+  nubank: "Nubank (conta)",
+  "nubank-card": "Nubank (cartão)",
+  inter: "Banco Inter",
+  itau: "Itaú",
+  generic: "CSV genérico",
+};
+
+const DATE_FORMATS = ["dd/MM/yyyy", "dd/MM/yy", "yyyy-MM-dd", "dd-MM-yyyy"];
+
+const normalize = (text: string) =>
+  text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+
+// Bank exports come in UTF-8 or Windows-1252 (Itaú, older Inter files)
+export const decodeStatementFile = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+};
+
+// Accepts "1.234,56", "-1234.56", "R$ 10,00", "(10,00)" and "10,00-"
+export const parseAmount = (value: string): number => {
+  let cleaned = value.replace(/R\$|\s/g, "");
+  const negative = /^-|-$|^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[()]/g, "").replace(/^-|-$/g, "");
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else if (lastComma !== -1) {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+};
+
+export const parseStatementDate = (value: string): Date | null => {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value.trim(), dateFormat, new Date());
+    if (isValid(date) && date.getFullYear() > 1900) {
+      date.setHours(12, 0, 0, 0);
+      return date;
+    }
+  }
+  return null;
+};
+
+// OFX
+
+const getTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : "";
+};
+
+// Handles both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x) files
+const parseOFX = (text: string): StatementTransaction[] => {
+  return text
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((chunk, index) => {
+      const block = chunk.split(/<\/STMTTRN>/i)[0];
+      const rawDate = getTag(block, "DTPOSTED"); // YYYYMMDD[HHMMSS[.XXX][[-3:BRT]]]
+      const date = new Date(
+        Number(rawDate.slice(0, 4)),
+        Number(rawDate.slice(4, 6)) - 1,
+        Number(rawDate.slice(6, 8)),
+        12, 0, 0
+      );
+
+      return {
+        id: getTag(block, "FITID") || `ofx-${rawDate}-${index}`,
+        date,
+        amount: parseAmount(getTag(block, "TRNAMT")),
+        description: getTag(block, "MEMO") || getTag(block, "NAME"),
+      };
+    })
+    .filter(tx => isValid(tx.date) && !isNaN(tx.amount));
+};
+
+// CSV
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const detectDelimiter = (lines: string[]): string => {
+  const sample = lines.slice(0, 10).join("\n");
+  const semicolons = (sample.match(/;/g) || []).length;
+  const commas = (sample.match(/,/g) || []).length;
+  return semicolons >= commas ? ";" : ",";
+};
+
+interface CsvColumns {
+  layout: StatementLayout;
+  date: number;
+  amount: number;
+  description: number[];
+  id?: number;
+  invertSign?: boolean; // Card statements list purchases as positive values
+}
+
+const detectColumns = (header: string[]): CsvColumns | null => {
+  const cells = header.map(normalize);
+  const date = cells.findIndex(c => c.startsWith("data") || c === "date");
+  const amount = cells.findIndex(c => c.startsWith("valor") || c === "amount");
+  if (date === -1 || amount === -1) return null;
+
+  const description = cells
+    .map((c, i) => (i !== date && /descricao|historico|title|lancamento|memo/.test(c) ? i : -1))
+    .filter(i => i !== -1);
+  const id = cells.findIndex(c => c === "identificador" || c === "id");
+
+  let layout: StatementLayout = "generic";
+  if (cells.join(",") === "date,title,amount") layout = "nubank-card";
+  else if (cells.includes("identificador")) layout = "nubank";
+  else if (cells.includes("data lancamento") && cells.includes("historico")) layout = "inter";
+  else if (cells.includes("lancamento") && cells.some(c => c.startsWith("valor (r$)"))) layout = "itau";
+
+  return {
+    layout,
+    date,
+    amount,
+    description,
+    id: id !== -1 ? id : undefined,
+    invertSign: layout === "nubank-card",
+  };
+};
+
+const parseCSV = (text: string): ParsedStatement => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map(line => splitCsvLine(line, delimiter));
+
+  // Inter and Itaú put account details above the header row
+  const headerIndex = rows.findIndex(row => detectColumns(row) !== null);
+  let columns: CsvColumns;
+  let dataRows: string[][];
+
+  if (headerIndex !== -1) {
+    columns = detectColumns(rows[headerIndex]);
+    dataRows = rows.slice(headerIndex + 1);
+  } else {
+    // Itaú's classic export has no header: date;description;amount
+    columns = { layout: "itau", date: 0, description: [1], amount: 2 };
+    dataRows = rows;
+  }
+
+  const transactions = dataRows
+    .map((row, index): StatementTransaction | null => {
+      const date = parseStatementDate(row[columns.date] ?? "");
+      const rawAmount = parseAmount(row[columns.amount] ?? "");
+      const description = columns.description
+        .map(i => row[i])
+        .filter(Boolean)
+        .join(" - ");
+
+      if (!date || isNaN(rawAmount) || /^saldo/i.test(normalize(description))) return null;
+
+      const amount = columns.invertSign ? -rawAmount : rawAmount;
+      const id = columns.id !== undefined && row[columns.id]
+        ? row[columns.id]
+        : `csv-${format(date, "yyyyMMdd")}-${amount.toFixed(2)}-${index}`;
+
+      return { id, date, amount, description };
+    })
+    .filter((tx): tx is StatementTransaction => tx !== null);
+
+  return { layout: columns.layout, transactions };
+};
+
+export const parseStatement = (text: string): ParsedStatement => {
+  if (/OFXHEADER|<OFX>/i.test(text)) {
+    return { layout: "ofx", transactions: parseOFX(text) };
+  }
+  return parseCSV(text);
+};
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CachedRow, OfflineTable, QueuedMutation } from "@/lib/offlineStore";
+import { insertRows, isNetworkError, syncPendingMutations, updateRow } from "@/lib/syncEngine";
+
+// In-memory stand-ins for the IndexedDB store and for Supabase, which answers each request
+// with the next of `server.responses`
+const { offline, server } = vi.hoisted(() => ({
+  offline: { queue: [] as QueuedMutation[], cache: new Map<string, CachedRow>() },
+  server: { responses: [] as { data?: unknown; error?: unknown }[], requests: [] as string[] },
+}));
+
+vi.mock('@/integrations/supabase/client', () => {
+  const query = (table: string) => {
+    const builder: Record<string, unknown> = {};
+    ['insert', 'update', 'delete'].forEach(operation => {
+      builder[operation] = () => {
+        server.requests.push(`${operation} ${table}`);
+        return builder;
+      };
+    });
+    ['select', 'eq', 'single', 'maybeSingle'].forEach(method => {
+      builder[method] = () => builder;
+    });
+    builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(server.responses.shift() ?? { data: null, error: null }).then(resolve, reject);
+    return builder;
+  };
+  return { supabase: { from: query } };
+});
+
+vi.mock('@/lib/offlineStore', () => ({
+  countQueuedMutations: async () => offline.queue.length,
+  getQueuedMutations: async () => [...offline.queue],
+  enqueueMutation: async (mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>) => {
+    offline.queue.push({ ...mutation, id: offline.queue.length + 1, queuedAt: '2024-03-10T12:00:00.000Z' });
+  },
+  removeQueuedMutation: async (id: number) => {
+    offline.queue = offline.queue.filter(mutation => mutation.id !== id);
+  },
+  getCachedRow: async (_table: OfflineTable, id: string) => offline.cache.get(id),
+  putCachedRows: async (_table: OfflineTable, rows: CachedRow[]) => {
+    rows.forEach(row => offline.cache.set(row.id, row));
+  },
+  deleteCachedRows: async (_table: OfflineTable, ids: string[]) => {
+    ids.forEach(id => offline.cache.delete(id));
+  },
+}));
+
+const NETWORK_ERROR = new TypeError('Failed to fetch');
+
+const setOnline = (onLine: boolean) => vi.stubGlobal('navigator', { onLine });
+
+const mutation = (overrides: Partial<QueuedMutation>): QueuedMutation => ({
+  id: 1,
+  table: 'incomes',
+  operation: 'update',
+  recordId: 'i1',
+  queuedAt: '2024-03-10T12:00:00.000Z',
+  ...overrides,
+});
+
+beforeEach(() => {
+  offline.queue = [];
+  offline.cache.clear();
+  server.responses = [];
+  server.requests = [];
+  setOnline(true);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('isNetworkError', () => {
+  it('tells failed requests from errors returned by Supabase', () => {
+    expect(isNetworkError(NETWORK_ERROR)).toBe(true);
+    expect(isNetworkError({ message: 'TypeError: fetch failed' })).toBe(true);
+    expect(isNetworkError({ message: 'duplicate key value violates unique constraint', code: '23505' })).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+
+  it('blames the network for any error while offline', () => {
+    setOnline(false);
+    expect(isNetworkError({ message: 'permission denied' })).toBe(true);
+  });
+});
+
+describe('insertRows', () => {
+  it('queues the write and caches the row while offline', async () => {
+    setOnline(false);
+    const result = await insertRows('incomes', [{ description: 'Consultoria', amount: 1500 }]);
+    const id = result.data[0].id;
+
+    expect(server.requests).toEqual([]);
+    expect(result).toMatchObject({ queued: true, error: null, data: [{ id, description: 'Consultoria', amount: 1500 }] });
+    expect(offline.queue).toMatchObject([{ table: 'incomes', operation: 'insert', recordId: id, changes: { id, amount: 1500 } }]);
+    expect(offline.cache.get(id)).toMatchObject({ amount: 1500 });
+  });
+
+  it('writes through to Supabase while online', async () => {
+    server.responses = [{ data: [{ id: 'i1', amount: 1500, updated_at: 'v1' }], error: null }];
+    const result = await insertRows('incomes', [{ id: 'i1', amount: 1500 }]);
+
+    expect(server.requests).toEqual(['insert incomes']);
+    expect(result).toEqual({ queued: false, error: null, data: [{ id: 'i1', amount: 1500, updated_at: 'v1' }] });
+    expect(offline.queue).toEqual([]);
+    expect(offline.cache.get('i1')).toMatchObject({ updated_at: 'v1' });
+  });
+
+  it('queues the write when the request fails on the way', async () => {
+    server.responses = [{ data: null, error: NETWORK_ERROR }];
+    const result = await insertRows('incomes', [{ id: 'i1', amount: 1500 }]);
+    expect(result.queued).toBe(true);
+    expect(offline.queue).toHaveLength(1);
+  });
+
+  it('returns the errors Supabase reports without queueing', async () => {
+    const error = { message: 'new row violates check constraint', code: '23514' };
+    server.responses = [{ data: null, error }];
+    expect(await insertRows('incomes', [{ id: 'i1', amount: -1 }])).toEqual({ data: null, error, queued: false });
+    expect(offline.queue).toEqual([]);
+  });
+});
+
+describe('updateRow', () => {
+  it('waits behind older queued writes and keeps the version it was made on', async () => {
+    offline.queue = [mutation({ operation: 'insert', recordId: 'i2' })];
+    offline.cache.set('i1', { id: 'i1', amount: 1500, updated_at: 'v1' });
+
+    const result = await updateRow('incomes', 'i1', { amount: 1000 }, 'u1');
+
+    expect(server.requests).toEqual([]);
+    expect(result).toEqual({ queued: true, error: null, data: { id: 'i1', amount: 1000, updated_at: 'v1' } });
+    expect(offline.queue[1]).toMatchObject({ operation: 'update', recordId: 'i1', userId: 'u1', changes: { amount: 1000 }, baseUpdatedAt: 'v1' });
+  });
+});
+
+describe('syncPendingMutations', () => {
+  it('keeps the server version on conflicts and stops when the connection drops', async () => {
+    const insert = mutation({ id: 1, operation: 'insert', recordId: 'i1', changes: { id: 'i1', amount: 1500 } });
+    const stale = mutation({ id: 2, recordId: 'i2', changes: { amount: 1000 }, baseUpdatedAt: 'v1' });
+    const pending = mutation({ id: 3, recordId: 'i3', changes: { amount: 200 } });
+    offline.queue = [insert, stale, pending];
+    server.responses = [
+      { data: { id: 'i1' }, error: null },
+      // Nothing matched the old version, so the current row is read back
+      { data: [], error: null },
+      { data: { id: 'i2', amount: 1200, updated_at: 'v2' }, error: null },
+      { data: null, error: NETWORK_ERROR },
+    ];
+
+    expect(await syncPendingMutations()).toEqual({ synced: 1, conflicts: [stale], rejected: [], interrupted: true });
+    expect(offline.queue).toEqual([pending]);
+    expect(offline.cache.get('i2')).toMatchObject({ amount: 1200, updated_at: 'v2' });
+  });
+
+  it('counts inserts that already reached the server and drops rejected writes', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const insert = mutation({ id: 1, operation: 'insert', recordId: 'i1', changes: { id: 'i1' } });
+    const update = mutation({ id: 2, recordId: 'i2', changes: { amount: -1 } });
+    const removed = mutation({ id: 3, operation: 'delete', recordId: 'i3', baseUpdatedAt: 'v1' });
+    offline.queue = [insert, update, removed];
+    offline.cache.set('i3', { id: 'i3' });
+    server.responses = [
+      { data: null, error: { message: 'duplicate key value violates unique constraint', code: '23505' } },
+      { data: null, error: { message: 'new row violates check constraint', code: '23514' } },
+      // Someone else deleted it first
+      { data: [], error: null },
+      { data: null, error: null },
+    ];
+
+    expect(await syncPendingMutations()).toEqual({ synced: 2, conflicts: [], rejected: [update], interrupted: false });
+    expect(offline.queue).toEqual([]);
+    expect(offline.cache.has('i3')).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CachedRow,
+  OfflineTable,
+  QueuedMutation,
+  countQueuedMutations,
+  deleteCachedRows,
+  enqueueMutation,
+  getCachedRow,
+  getQueuedMutations,
+  putCachedRows,
+  removeQueuedMutation,
+} from '@/lib/offlineStore';
+
+export interface WriteResult<T> {
+  data: T;
+  error: unknown;
+  queued: boolean;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: QueuedMutation[];
+  rejected: QueuedMutation[];
+  interrupted: boolean; // The connection dropped before the queue was emptied
+}
+
+// Requests that never reached Supabase, as opposed to errors returned by it
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message;
+  return !!message && /failed to fetch|network|load failed|fetch failed/i.test(message);
+};
+
+// Writes skip the server while offline or while older writes are still queued, so they
+// reach Supabase in the order they were made
+const shouldQueue = async (): Promise<boolean> => {
+  if (!navigator.onLine) return true;
+  return (await countQueuedMutations()) > 0;
+};
+
+const now = () => new Date().toISOString();
+
+// WRITES
+// Insert rows with client-generated ids, so records created offline keep their id once synced
+export const insertRows = async (table: OfflineTable, rows: Record<string, unknown>[]): Promise<WriteResult<CachedRow[]>> => {
+  const withIds = rows.map(row => ({ ...row, id: (row.id as string) ?? crypto.randomUUID() }));
+
+  if (!(await shouldQueue())) {
+    const { data, error } = await supabase.from(table).insert(withIds).select();
+    if (!error) {
+      await putCachedRows(table, data as CachedRow[]);
+      return { data: data as CachedRow[], error: null, queued: false };
+    }
+    if (!isNetworkError(error)) return { data: null, error, queued: false };
+  }
+
+  const optimistic = withIds.map(row => ({ ...row, created_at: now(), updated_at: now() }) as CachedRow);
+  for (const row of withIds) {
+    await enqueueMutation({ table, operation: 'insert', recordId: row.id, changes: row });
+  }
+  await putCachedRows(table, optimistic);
+  return { data: optimistic, error: null, queued: true };
+};
+
+export const updateRow = async (
+  table: OfflineTable,
+  id: string,
+  changes: Record<string, unknown>,
+  userId?: string
+): Promise<WriteResult<CachedRow>> => {
+  if (!(await shouldQueue())) {
+    let query = supabase.from(table).update(changes).eq('id', id);
+    if (userId) query = query.eq('user_id', userId);
+    const { data, error } = await query.select().single();
+    if (!error) {
+      await putCachedRows(table, [data as CachedRow]);
+      return { data: data as CachedRow, error: null, queued: false };
+    }
+    if (!isNetworkError(error)) return { data: null, error, queued: false };
+  }
+
+  const cached = await getCachedRow(table, id);
+  const optimistic = { ...cached, ...changes, id } as CachedRow;
+  await enqueueMutation({ table, operation: 'update', recordId: id, userId, changes, baseUpdatedAt: cached?.updated_at });
+  await putCachedRows(table, [optimistic]);
+  return { data: optimistic, error: null, queued: true };
+};
+
+export const deleteRow = async (table: OfflineTable, id: string, userId?: string): Promise<WriteResult<null>> => {
+  if (!(await shouldQueue())) {
+    let query = supabase.from(table).delete().eq('id', id);
+    if (userId) query = query.eq('user_id', userId);
+    const { error } = await query;
+    if (!error) {
+      await deleteCachedRows(table, [id]);
+      return { data: null, error: null, queued: false };
+    }
+    if (!isNetworkError(error)) return { data: null, error, queued: false };
+  }
+
+  const cached = await getCachedRow(table, id);
+  await enqueueMutation({ table, operation: 'delete', recordId: id, userId, baseUpdatedAt: cached?.updated_at });
+  await deleteCachedRows(table, [id]);
+  return { data: null, error: null, queued: true };
+};
+
+// SYNC
+type ReplayOutcome = 'synced' | 'conflict';
+
+// Updates and deletes only apply if the row is still at the version the change was made on;
+// otherwise someone else changed it in the meantime and the server version is kept
+const replayMutation = async (mutation: QueuedMutation): Promise<ReplayOutcome> => {
+  const { table, operation, recordId, userId, changes, baseUpdatedAt } = mutation;
+
+  if (operation === 'insert') {
+    const { error } = await supabase.from(table).insert(changes).select().single();
+    // A duplicate id means an earlier attempt reached the server before the connection dropped
+    if (error && (error as { code?: string }).code !== '23505') throw error;
+    return 'synced';
+  }
+
+  let query = operation === 'update'
+    ? supabase.from(table).update(changes).eq('id', recordId)
+    : supabase.from(table).delete().eq('id', recordId);
+  if (userId) query = query.eq('user_id', userId);
+  if (baseUpdatedAt) query = query.eq('updated_at', baseUpdatedAt);
+
+  const { data, error } = await query.select();
+  if (error) throw error;
+  if (data.length > 0) return 'synced';
+
+  const { data: current, error: currentError } = await supabase.from(table).select('*').eq('id', recordId).maybeSingle();
+  if (currentError) throw currentError;
+  if (!current) {
+    await deleteCachedRows(table, [recordId]);
+    return operation === 'delete' ? 'synced' : 'conflict';
+  }
+  await putCachedRows(table, [current as CachedRow]);
+  return 'conflict';
+};
+
+let syncing: Promise<SyncResult> | null = null;
+
+// Replays the queue oldest first; stops at the first network failure so the order is kept
+export const syncPendingMutations = (): Promise<SyncResult> => {
+  if (!syncing) {
+    syncing = (async () => {
+      const result: SyncResult = { synced: 0, conflicts: [], rejected: [], interrupted: false };
+      const mutations = await getQueuedMutations();
+
+      for (const mutation of mutations) {
+        try {
+          const outcome = await replayMutation(mutation);
+          if (outcome === 'synced') result.synced++;
+          else result.conflicts.push(mutation);
+        } catch (error) {
+          if (isNetworkError(error)) {
+            result.interrupted = true;
+            break;
+          }
+          console.error('Error syncing offline change:', error);
+          result.rejected.push(mutation);
+        }
+        await removeQueuedMutation(mutation.id);
+      }
+      return result;
+    })().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+};
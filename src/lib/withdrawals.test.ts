@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Client, Expense, Income, Withdrawal } from "@/types/finance";
+import {
+  buildLegacyWithdrawals,
+  canConvertLegacyWithdrawal,
+  getWithdrawalHistoryStart,
+  getWithdrawalLimits,
+} from "@/lib/withdrawals";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const client = (id: string, createdAt: Date): Client => ({ id, name: id, archived: false, createdAt });
+
+const income = (overrides: Partial<Income>): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount: 0,
+  clientId: 'c1',
+  paymentDate: day(2024, 3, 10),
+  category: 'Serviços',
+  dueDate: day(2024, 3, 10),
+  payments: [],
+  cancelled: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const withdrawal = (overrides: Partial<Withdrawal>): Withdrawal => ({
+  id: 'withdrawal',
+  date: day(2024, 3, 25),
+  amount: 0,
+  createdAt: day(2024, 3, 25),
+  ...overrides,
+});
+
+const legacy = (overrides: Partial<Expense>): Expense => ({
+  id: 'expense',
+  description: 'Saque março',
+  amount: 800,
+  category: 'Saque',
+  dueDate: day(2024, 3, 5),
+  status: 'paid',
+  payments: [],
+  type: 'business',
+  isFixed: false,
+  createdAt: day(2024, 1, 1),
+  ...overrides,
+});
+
+const clients = [client('c1', day(2023, 11, 1)), client('c2', day(2024, 2, 1))];
+
+describe('canConvertLegacyWithdrawal', () => {
+  it('converts only the expenses paid in full', () => {
+    expect(canConvertLegacyWithdrawal(legacy({ payments: [{ date: day(2024, 3, 5), amount: 800 }] }))).toBe(true);
+    expect(canConvertLegacyWithdrawal(legacy({ payments: [{ date: day(2024, 3, 5), amount: 500 }] }))).toBe(false);
+    expect(canConvertLegacyWithdrawal(legacy({ status: 'unpaid' }))).toBe(false);
+  });
+});
+
+describe('buildLegacyWithdrawals', () => {
+  it('makes one withdrawal per payment, from the client that paid it', () => {
+    const expense = legacy({
+      paymentSourceId: 'c2',
+      payments: [{ date: day(2024, 3, 5), amount: 500, sourceId: 'c1' }, { date: day(2024, 3, 20), amount: 300 }],
+    });
+    expect(buildLegacyWithdrawals(expense)).toEqual([
+      { date: day(2024, 3, 5), amount: 500, sourceClientId: 'c1', description: 'Saque março' },
+      { date: day(2024, 3, 20), amount: 300, sourceClientId: 'c2', description: 'Saque março' },
+    ]);
+  });
+});
+
+describe('getWithdrawalHistoryStart', () => {
+  it('starts at the oldest withdrawal, client or opening date', () => {
+    expect(getWithdrawalHistoryStart([withdrawal({ date: day(2024, 2, 10) })], clients, day(2024, 1, 1))).toEqual(day(2023, 11, 1));
+    expect(getWithdrawalHistoryStart([withdrawal({ date: day(2023, 6, 10) })], clients)).toEqual(day(2023, 6, 10));
+  });
+});
+
+describe('getWithdrawalLimits', () => {
+  const incomes = [
+    income({ clientId: 'c1', payments: [{ date: day(2024, 3, 10), amount: 1500 }, { date: day(2024, 3, 20), amount: 500 }] }),
+    income({ clientId: 'c2', amount: 2000, payments: [{ date: day(2024, 3, 15), amount: 800 }] }),
+  ];
+  const withdrawals = [
+    withdrawal({ id: 'w1', amount: 1200, sourceClientId: 'c1' }),
+    withdrawal({ id: 'w2', amount: 300 }),
+    withdrawal({ id: 'w3', amount: 1000, sourceClientId: 'c2' }),
+  ];
+
+  it('leaves what was received and not withdrawn yet, never below zero', () => {
+    expect(getWithdrawalLimits(incomes, withdrawals, clients)).toEqual({ availableTotal: 300, clientLimits: { c1: 800, c2: 0 } });
+  });
+
+  it('frees the amount of the withdrawal being edited', () => {
+    expect(getWithdrawalLimits(incomes, withdrawals, clients, 'w1')).toEqual({ availableTotal: 1500, clientLimits: { c1: 2000, c2: 0 } });
+  });
+});
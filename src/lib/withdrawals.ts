@@ -0,0 +1,67 @@
+import { Client, Expense, Income, Withdrawal } from "@/types/finance";
+import { getReceivedAmount } from "@/lib/receivables";
+import { getRemainingAmount } from "@/lib/expensePayments";
+import { startOfYear } from "date-fns";
+
+// Category business expenses were recorded with before withdrawals had their own records
+export const LEGACY_WITHDRAWAL_CATEGORY = 'Saque';
+
+export interface WithdrawalLimits {
+  availableTotal: number;
+  clientLimits: Record<string, number>;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Only a fully paid "Saque" expense is converted: money still open was never withdrawn, so it
+// stays an expense until the user pays or removes it
+export const canConvertLegacyWithdrawal = (expense: Expense): boolean => {
+  return expense.payments.length > 0 && getRemainingAmount(expense) === 0;
+};
+
+// Withdrawals are loaded whole, so the limits need the revenue from as far back: the oldest
+// withdrawal, client or the opening of the business, whichever comes first
+export const getWithdrawalHistoryStart = (withdrawals: Withdrawal[], clients: Client[], openingDate?: Date): Date => {
+  const dates = [
+    ...withdrawals.map(w => new Date(w.date)),
+    ...clients.map(client => client.createdAt),
+    openingDate,
+  ].filter(Boolean) as Date[];
+  return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : startOfYear(new Date());
+};
+
+// Revenue received and not withdrawn yet, in total and by client; the withdrawal being edited
+// is left out so its own amount is available again
+export const getWithdrawalLimits = (
+  incomes: Income[],
+  withdrawals: Withdrawal[],
+  clients: Client[],
+  excludeId?: string
+): WithdrawalLimits => {
+  const counted = withdrawals.filter(w => w.id !== excludeId);
+  const totalReceived = incomes.reduce((sum, income) => sum + getReceivedAmount(income), 0);
+  const totalWithdrawn = counted.reduce((sum, w) => sum + w.amount, 0);
+
+  const clientLimits: Record<string, number> = {};
+  clients.forEach(client => {
+    const received = incomes
+      .filter(income => income.clientId === client.id)
+      .reduce((sum, income) => sum + getReceivedAmount(income), 0);
+    const withdrawn = counted
+      .filter(w => w.sourceClientId === client.id)
+      .reduce((sum, w) => sum + w.amount, 0);
+    clientLimits[client.id] = Math.max(0, roundCurrency(received - withdrawn));
+  });
+
+  return { availableTotal: Math.max(0, roundCurrency(totalReceived - totalWithdrawn)), clientLimits };
+};
+
+// A legacy "Saque" expense becomes one withdrawal per payment, on the day it was paid
+export const buildLegacyWithdrawals = (expense: Expense): Omit<Withdrawal, 'id' | 'createdAt'>[] => {
+  return expense.payments.map(payment => ({
+    date: payment.date,
+    amount: payment.amount,
+    sourceClientId: payment.sourceId ?? expense.paymentSourceId,
+    description: expense.description,
+  }));
+};
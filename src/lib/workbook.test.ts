@@ -0,0 +1,231 @@
+import { describe, expect, it } from "vitest";
+import { Workbook } from "exceljs";
+import { Client, Expense, Income } from "@/types/finance";
+import { WorkbookReferences, buildWorkbook, completeExpense, parseWorkbook } from "@/lib/workbook";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const CLIENT_ID = '6f1c2a4e-8b1d-4c3a-9e2f-0a1b2c3d4e5f';
+const ACCOUNT_ID = '0d9e8f7a-6b5c-4d3e-8f1a-2b3c4d5e6f70';
+const CARD_ID = '1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d';
+const TEMPLATE_ID = '2b3c4d5e-6f7a-4b2c-9d3e-4f5a6b7c8d9e';
+const INCOME_ID = '3c4d5e6f-7a8b-4c3d-8e4f-5a6b7c8d9e0f';
+const EXPENSE_ID = '4d5e6f7a-8b9c-4d4e-9f5a-6b7c8d9e0f1a';
+const GROUP_ID = '5e6f7a8b-9c0d-4e5f-8a6b-7c8d9e0f1a2b';
+
+const references: WorkbookReferences = {
+  clients: [],
+  accountIds: [ACCOUNT_ID],
+  creditCardIds: [CARD_ID],
+  recurringExpenseIds: [TEMPLATE_ID],
+};
+
+// A sheet typed by hand: the first row holds the headers
+const buildSheet = async (name: string, rows: unknown[][]): Promise<ArrayBuffer> => {
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(name);
+  rows.forEach(row => sheet.addRow(row));
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+describe('buildWorkbook and parseWorkbook', () => {
+  const client: Client = {
+    id: CLIENT_ID,
+    name: 'Empresa Exemplo',
+    document: '11222333000181',
+    address: { cep: '01310100', city: 'São Paulo', state: 'SP' },
+    archived: false,
+    createdAt: day(2024, 1, 1),
+  };
+  const income: Income = {
+    id: INCOME_ID,
+    description: 'Consultoria',
+    amount: 1500,
+    clientId: CLIENT_ID,
+    paymentDate: day(2024, 3, 10),
+    category: 'Serviços',
+    dueDate: day(2024, 3, 10),
+    competenceDate: new Date(2024, 1, 1),
+    payments: [{ date: day(2024, 3, 12), amount: 1500 }],
+    cancelled: false,
+    accountId: ACCOUNT_ID,
+    createdAt: day(2024, 3, 1),
+  };
+  const expense: Expense = {
+    id: EXPENSE_ID,
+    description: 'Fatura do cartão',
+    amount: 320.5,
+    category: 'Fatura',
+    dueDate: day(2024, 4, 15),
+    status: 'paid',
+    payments: [{ date: day(2024, 4, 15), amount: 320.5, sourceId: CLIENT_ID }],
+    type: 'personal',
+    isFixed: false,
+    creditCardId: CARD_ID,
+    invoiceMonth: new Date(2024, 3, 1),
+    recurringExpenseId: TEMPLATE_ID,
+    occurrenceDate: day(2024, 4, 15),
+    installmentGroupId: GROUP_ID,
+    installmentNumber: 2,
+    installmentCount: 3,
+    createdAt: day(2024, 4, 1),
+  };
+
+  it('reads back what it exports', async () => {
+    const buffer = await buildWorkbook({ clients: [client], incomes: [income], expenses: [expense], investments: [] });
+    const result = await parseWorkbook(buffer, references);
+
+    expect(result.errors).toEqual([]);
+    expect(result.clients).toEqual([{
+      row: 2,
+      id: CLIENT_ID,
+      record: expect.objectContaining({ name: 'Empresa Exemplo', document: '11222333000181', archived: false }),
+    }]);
+    expect(result.clients[0].record.address).toMatchObject({ cep: '01310100', city: 'São Paulo', state: 'SP' });
+    expect(result.incomes[0].record).toMatchObject({
+      amount: 1500,
+      clientId: CLIENT_ID,
+      dueDate: day(2024, 3, 10),
+      competenceDate: day(2024, 2, 1),
+      payments: [{ date: day(2024, 3, 12), amount: 1500 }],
+      accountId: ACCOUNT_ID,
+    });
+    expect(result.expenses[0].record).toMatchObject({
+      amount: 320.5,
+      status: 'paid',
+      payments: [{ date: day(2024, 4, 15), amount: 320.5, sourceId: CLIENT_ID }],
+      creditCardId: CARD_ID,
+      invoiceMonth: day(2024, 4, 1),
+      recurringExpenseId: TEMPLATE_ID,
+      occurrenceDate: day(2024, 4, 15),
+      installmentGroupId: GROUP_ID,
+      installmentNumber: 2,
+      installmentCount: 3,
+    });
+  });
+
+  it('reports links to cards and fixed expenses the account does not have', async () => {
+    const buffer = await buildWorkbook({ clients: [client], incomes: [], expenses: [expense], investments: [] });
+    const result = await parseWorkbook(buffer, { ...references, creditCardIds: [] });
+    expect(result.expenses).toEqual([]);
+    expect(result.errors).toEqual([{ sheet: 'expenses', row: 2, message: `creditCardId: cartão ${CARD_ID} não encontrado` }]);
+  });
+});
+
+describe('parseWorkbook', () => {
+  it('requires at least one of the entity sheets', async () => {
+    const result = await parseWorkbook(await buildSheet('Planilha1', [['name'], ['Cliente']]), references);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].row).toBe(1);
+  });
+
+  it('reports missing required columns on the header', async () => {
+    const result = await parseWorkbook(await buildSheet('expenses', [['description', 'amount'], ['Aluguel', 800]]), references);
+    expect(result.errors).toEqual([{ sheet: 'expenses', row: 1, message: 'Colunas obrigatórias ausentes: type, category, dueDate' }]);
+  });
+
+  it('accepts amounts and dates as typed in Brazil', async () => {
+    const buffer = await buildSheet('expenses', [
+      ['description', 'amount', 'type', 'category', 'dueDate', 'payments'],
+      ['Aluguel', 'R$ 1.234,56', 'Business', 'Aluguel', '05/03/2024', '2024-03-05:1000,00;2024-03-20:234.56'],
+      ['Internet', '99.9', 'personal', 'Internet', '2024-03-20', null],
+    ]);
+    const result = await parseWorkbook(buffer, references);
+
+    expect(result.errors).toEqual([]);
+    expect(result.expenses.map(row => row.record)).toEqual([
+      {
+        description: 'Aluguel',
+        amount: 1234.56,
+        type: 'business',
+        category: 'Aluguel',
+        dueDate: day(2024, 3, 5),
+        payments: [{ date: day(2024, 3, 5), amount: 1000 }, { date: day(2024, 3, 20), amount: 234.56 }],
+      },
+      { description: 'Internet', amount: 99.9, type: 'personal', category: 'Internet', dueDate: day(2024, 3, 20), payments: [] },
+    ]);
+  });
+
+  it('reports each invalid row and keeps the others', async () => {
+    const buffer = await buildSheet('clients', [
+      ['id', 'name', 'document', 'email'],
+      [CLIENT_ID, 'Cliente A', '529.982.247-25', 'a@cliente.com.br'],
+      [null, 'Cliente B', '529.982.247-24', null],
+      [CLIENT_ID, 'Cliente C', null, null],
+      [null, null, null, 'sem-arroba'],
+    ]);
+    const result = await parseWorkbook(buffer, references);
+
+    expect(result.clients.map(row => row.record.name)).toEqual(['Cliente A']);
+    expect(result.errors).toEqual([
+      { sheet: 'clients', row: 3, message: 'document: CPF ou CNPJ inválido' },
+      { sheet: 'clients', row: 4, message: `id ${CLIENT_ID} repetido na planilha` },
+      { sheet: 'clients', row: 5, message: 'name: obrigatório; email: e-mail inválido' },
+    ]);
+  });
+
+  it('finds the client of a revenue by name when the id is missing', async () => {
+    const buffer = await buildSheet('incomes', [
+      ['description', 'amount', 'clientName', 'category', 'dueDate'],
+      ['Projeto', 500, 'empresa exemplo', 'Serviços', '2024-03-10'],
+      ['Projeto', 500, 'Homônimo', 'Serviços', '2024-03-10'],
+      ['Projeto', 500, 'Desconhecido', 'Serviços', '2024-03-10'],
+    ]);
+    const clients = [
+      { id: CLIENT_ID, name: 'Empresa Exemplo' },
+      { id: 'c2', name: 'Homônimo' },
+      { id: 'c3', name: 'Homônimo' },
+    ];
+    const result = await parseWorkbook(buffer, { ...references, clients });
+
+    expect(result.incomes.map(row => row.record.clientId)).toEqual([CLIENT_ID]);
+    expect(result.errors).toEqual([
+      { sheet: 'incomes', row: 3, message: 'clientName: há mais de um cliente "Homônimo", informe o clientId' },
+      { sheet: 'incomes', row: 4, message: 'clientName: cliente "Desconhecido" não encontrado' },
+    ]);
+  });
+
+  it('reports unknown accounts and payment sources', async () => {
+    const buffer = await buildSheet('expenses', [
+      ['description', 'amount', 'type', 'category', 'dueDate', 'accountId', 'payments'],
+      ['Aluguel', 800, 'business', 'Aluguel', '2024-03-05', GROUP_ID, null],
+      ['Aluguel', 800, 'business', 'Aluguel', '2024-03-05', null, `2024-03-05:800:${GROUP_ID}`],
+      ['Aluguel', 800, 'business', 'Aluguel', '2024-03-05', null, '05/03:800'],
+    ]);
+    const result = await parseWorkbook(buffer, references);
+
+    expect(result.expenses).toEqual([]);
+    expect(result.errors.map(error => error.message)).toEqual([
+      `accountId: conta ${GROUP_ID} não encontrada`,
+      `payments: cliente ${GROUP_ID} não encontrado`,
+      'payments: pagamento inválido "05/03:800", use data:valor',
+    ]);
+  });
+});
+
+describe('completeExpense', () => {
+  it('settles a new expense marked as paid on the due date', () => {
+    const record = { description: 'Aluguel', amount: 800, type: 'business' as const, category: 'Aluguel', dueDate: day(2024, 3, 5), status: 'paid' as const };
+    expect(completeExpense(record)).toMatchObject({
+      status: 'paid',
+      isFixed: false,
+      payments: [{ date: day(2024, 3, 5), amount: 800 }],
+    });
+  });
+
+  it('reopens a stored expense whose payments no longer cover the amount', () => {
+    const existing = {
+      id: EXPENSE_ID,
+      description: 'Aluguel',
+      amount: 800,
+      category: 'Aluguel',
+      dueDate: day(2024, 3, 5),
+      status: 'paid',
+      payments: [{ date: day(2024, 3, 5), amount: 800 }],
+      type: 'business',
+      isFixed: false,
+      createdAt: day(2024, 3, 1),
+    } as Expense;
+    expect(completeExpense({ amount: 1000 }, existing)).toEqual({ amount: 1000, status: 'unpaid', payments: existing.payments });
+  });
+});
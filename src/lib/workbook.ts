@@ -0,0 +1,647 @@
+import { CellValue, Workbook, Worksheet } from "exceljs";
+import { z } from "zod";
+import { format, isValid, parse } from "date-fns";
+import { Client, ClientAddress, Expense, ExpensePayment, Income, IncomePayment, Investment } from "@/types/finance";
+import { getIncomeCompetence } from "@/lib/dre";
+import { withPayments } from "@/lib/receivables";
+import { withExpensePayments, withStatus } from "@/lib/expensePayments";
+import { isValidDocument, isValidEmail, onlyDigits } from "@/lib/documents";
+
+// One sheet per entity, named and laid out as the import expects them back; the summary
+// sheets are only for reading and are ignored on import
+export type WorkbookSheet = 'clients' | 'incomes' | 'expenses' | 'investments';
+
+export type ClientInput = Omit<Client, 'id' | 'createdAt'>;
+export type IncomeInput = Omit<Income, 'id' | 'createdAt'>;
+export type ExpenseInput = Omit<Expense, 'id' | 'createdAt'>;
+export type InvestmentInput = Omit<Investment, 'id' | 'createdAt'>;
+
+export interface WorkbookData {
+  clients: Client[];
+  incomes: Income[];
+  expenses: Expense[];
+  investments: Investment[];
+}
+
+// A valid row: the columns it brought, to insert as a new record or to update the one with its id
+export interface WorkbookRow<T> {
+  row: number; // Spreadsheet row number, the header being row 1
+  id?: string;
+  record: Partial<T>;
+}
+
+export interface WorkbookRowError {
+  sheet: WorkbookSheet;
+  row: number; // 1 for problems with the header
+  message: string;
+}
+
+export interface WorkbookImport {
+  clients: WorkbookRow<ClientInput>[];
+  incomes: WorkbookRow<IncomeInput>[];
+  expenses: WorkbookRow<ExpenseInput>[];
+  investments: WorkbookRow<InvestmentInput>[];
+  errors: WorkbookRowError[];
+}
+
+// Records the rows may point to besides the clients in the file itself
+export interface WorkbookReferences {
+  clients: Pick<Client, 'id' | 'name'>[];
+  accountIds: string[];
+  creditCardIds: string[];
+  recurringExpenseIds: string[];
+}
+
+export const workbookSheetLabels: Record<WorkbookSheet, string> = {
+  clients: 'Clientes',
+  incomes: 'Receitas',
+  expenses: 'Despesas',
+  investments: 'Investimentos',
+};
+
+const WORKBOOK_SHEETS: WorkbookSheet[] = ['clients', 'incomes', 'expenses', 'investments'];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// EXPORT
+type ColumnFormat = 'currency' | 'date';
+
+interface ExportColumn<T> {
+  key: string;
+  width: number;
+  value: (record: T) => CellValue;
+  format?: ColumnFormat;
+}
+
+const NUMBER_FORMATS: Record<ColumnFormat, string> = {
+  currency: '#,##0.00',
+  date: 'dd/mm/yyyy',
+};
+
+// Excel dates have no time zone: the local day is written as midnight UTC so it shows unchanged
+const toCellDate = (date?: Date): CellValue => {
+  if (!date) return null;
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+};
+
+// Payments fit in one cell as "yyyy-MM-dd:amount[:sourceId]", separated by ";"
+const formatPayments = (payments: (IncomePayment | ExpensePayment)[]): string => {
+  return payments
+    .map(payment => {
+      const parts = [format(new Date(payment.date), 'yyyy-MM-dd'), payment.amount.toFixed(2)];
+      if ('sourceId' in payment && payment.sourceId) parts.push(payment.sourceId);
+      return parts.join(':');
+    })
+    .join(';');
+};
+
+const clientColumns: ExportColumn<Client>[] = [
+  { key: 'id', width: 38, value: c => c.id },
+  { key: 'name', width: 30, value: c => c.name },
+  { key: 'document', width: 18, value: c => c.document ?? null },
+  { key: 'legalName', width: 30, value: c => c.legalName ?? null },
+  { key: 'tradeName', width: 24, value: c => c.tradeName ?? null },
+  { key: 'email', width: 28, value: c => c.email ?? null },
+  { key: 'phone', width: 16, value: c => c.phone ?? null },
+  { key: 'municipalRegistration', width: 20, value: c => c.municipalRegistration ?? null },
+  { key: 'cep', width: 10, value: c => c.address?.cep ?? null },
+  { key: 'street', width: 28, value: c => c.address?.street ?? null },
+  { key: 'number', width: 8, value: c => c.address?.number ?? null },
+  { key: 'complement', width: 16, value: c => c.address?.complement ?? null },
+  { key: 'district', width: 18, value: c => c.address?.district ?? null },
+  { key: 'city', width: 20, value: c => c.address?.city ?? null },
+  { key: 'state', width: 6, value: c => c.address?.state ?? null },
+  { key: 'notes', width: 30, value: c => c.notes ?? null },
+  { key: 'archived', width: 10, value: c => c.archived },
+];
+
+const getIncomeColumns = (clientNames: Map<string, string>): ExportColumn<Income>[] => [
+  { key: 'id', width: 38, value: i => i.id },
+  { key: 'description', width: 30, value: i => i.description },
+  { key: 'amount', width: 12, value: i => i.amount, format: 'currency' },
+  { key: 'clientId', width: 38, value: i => i.clientId || null },
+  { key: 'clientName', width: 24, value: i => clientNames.get(i.clientId) ?? null },
+  { key: 'category', width: 18, value: i => i.category },
+  { key: 'issueDate', width: 12, value: i => toCellDate(i.issueDate), format: 'date' },
+  { key: 'dueDate', width: 12, value: i => toCellDate(i.dueDate), format: 'date' },
+  { key: 'competenceDate', width: 14, value: i => toCellDate(i.competenceDate), format: 'date' },
+  { key: 'payments', width: 30, value: i => formatPayments(i.payments) || null },
+  { key: 'cancelled', width: 10, value: i => i.cancelled },
+  { key: 'accountId', width: 38, value: i => i.accountId ?? null },
+];
+
+const expenseColumns: ExportColumn<Expense>[] = [
+  { key: 'id', width: 38, value: e => e.id },
+  { key: 'description', width: 30, value: e => e.description },
+  { key: 'amount', width: 12, value: e => e.amount, format: 'currency' },
+  { key: 'type', width: 10, value: e => e.type },
+  { key: 'category', width: 18, value: e => e.category },
+  { key: 'dueDate', width: 12, value: e => toCellDate(e.dueDate), format: 'date' },
+  { key: 'competenceDate', width: 14, value: e => toCellDate(e.competenceDate), format: 'date' },
+  { key: 'status', width: 10, value: e => e.status },
+  { key: 'payments', width: 40, value: e => formatPayments(e.payments) || null },
+  { key: 'paymentSourceId', width: 38, value: e => e.paymentSourceId ?? null },
+  { key: 'isFixed', width: 10, value: e => e.isFixed },
+  { key: 'accountId', width: 38, value: e => e.accountId ?? null },
+  { key: 'dasCompetence', width: 14, value: e => toCellDate(e.dasCompetence), format: 'date' },
+  { key: 'creditCardId', width: 38, value: e => e.creditCardId ?? null },
+  { key: 'invoiceMonth', width: 14, value: e => toCellDate(e.invoiceMonth), format: 'date' },
+  { key: 'recurringExpenseId', width: 38, value: e => e.recurringExpenseId ?? null },
+  { key: 'occurrenceDate', width: 14, value: e => toCellDate(e.occurrenceDate), format: 'date' },
+  { key: 'installmentGroupId', width: 38, value: e => e.installmentGroupId ?? null },
+  { key: 'installmentNumber', width: 10, value: e => e.installmentNumber ?? null },
+  { key: 'installmentCount', width: 10, value: e => e.installmentCount ?? null },
+];
+
+const investmentColumns: ExportColumn<Investment>[] = [
+  { key: 'id', width: 38, value: i => i.id },
+  { key: 'description', width: 30, value: i => i.description },
+  { key: 'amount', width: 12, value: i => i.amount, format: 'currency' },
+  { key: 'category', width: 18, value: i => i.category },
+  { key: 'date', width: 12, value: i => toCellDate(i.date), format: 'date' },
+  { key: 'status', width: 10, value: i => i.status },
+  { key: 'supplier', width: 24, value: i => i.supplier ?? null },
+  { key: 'depreciationMonths', width: 18, value: i => i.depreciationMonths ?? null },
+  { key: 'paymentSourceId', width: 38, value: i => i.paymentSourceId ?? null },
+  { key: 'accountId', width: 38, value: i => i.accountId ?? null },
+];
+
+const addSheet = <T,>(workbook: Workbook, name: string, columns: ExportColumn<T>[], records: T[]): Worksheet => {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map(column => ({
+    header: column.key,
+    key: column.key,
+    width: column.width,
+    style: column.format ? { numFmt: NUMBER_FORMATS[column.format] } : undefined,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  records.forEach(record => {
+    sheet.addRow(Object.fromEntries(columns.map(column => [column.key, column.value(record)])));
+  });
+  return sheet;
+};
+
+interface MonthSummary {
+  month: string; // yyyy-MM
+  invoiced: number;
+  received: number;
+  businessExpenses: number;
+  personalExpenses: number;
+  expensesPaid: number;
+  investments: number;
+  cashResult: number;
+}
+
+// Invoiced revenue and expenses by the month they refer to, next to the money that actually moved
+const getMonthlySummary = (data: WorkbookData): MonthSummary[] => {
+  const months = new Map<string, MonthSummary>();
+  const add = (date: Date, field: Exclude<keyof MonthSummary, 'month'>, value: number) => {
+    const month = format(new Date(date), 'yyyy-MM');
+    const summary = months.get(month) ?? {
+      month, invoiced: 0, received: 0, businessExpenses: 0, personalExpenses: 0, expensesPaid: 0, investments: 0, cashResult: 0,
+    };
+    summary[field] = roundCurrency(summary[field] + value);
+    months.set(month, summary);
+  };
+
+  data.incomes
+    .filter(income => !income.cancelled)
+    .forEach(income => {
+      add(getIncomeCompetence(income), 'invoiced', income.amount);
+      income.payments.forEach(payment => add(payment.date, 'received', payment.amount));
+    });
+  data.expenses.forEach(expense => {
+    add(expense.dueDate, expense.type === 'business' ? 'businessExpenses' : 'personalExpenses', expense.amount);
+    expense.payments.forEach(payment => add(payment.date, 'expensesPaid', payment.amount));
+  });
+  data.investments
+    .filter(investment => investment.status === 'executed')
+    .forEach(investment => add(investment.date, 'investments', investment.amount));
+
+  return Array.from(months.values())
+    .map(summary => ({ ...summary, cashResult: roundCurrency(summary.received - summary.expensesPaid - summary.investments) }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+};
+
+interface CategorySummary {
+  group: string;
+  category: string;
+  count: number;
+  total: number;
+}
+
+const getCategorySummary = (data: WorkbookData): CategorySummary[] => {
+  const rows = new Map<string, CategorySummary>();
+  const add = (group: string, category: string, value: number) => {
+    const key = `${group}|${category}`;
+    const row = rows.get(key) ?? { group, category, count: 0, total: 0 };
+    row.count++;
+    row.total = roundCurrency(row.total + value);
+    rows.set(key, row);
+  };
+
+  data.incomes.filter(income => !income.cancelled).forEach(income => add('incomes', income.category, income.amount));
+  data.expenses.forEach(expense => add(`expenses:${expense.type}`, expense.category, expense.amount));
+  data.investments.forEach(investment => add(`investments:${investment.status}`, investment.category, investment.amount));
+
+  return Array.from(rows.values()).sort((a, b) => a.group.localeCompare(b.group) || b.total - a.total);
+};
+
+export const buildWorkbook = async (data: WorkbookData): Promise<ArrayBuffer> => {
+  const workbook = new Workbook();
+  workbook.created = new Date();
+  const clientNames = new Map(data.clients.map(client => [client.id, client.name]));
+
+  addSheet(workbook, 'clients', clientColumns, data.clients);
+  addSheet(workbook, 'incomes', getIncomeColumns(clientNames), data.incomes);
+  addSheet(workbook, 'expenses', expenseColumns, data.expenses);
+  addSheet(workbook, 'investments', investmentColumns, data.investments);
+
+  addSheet<MonthSummary>(workbook, 'monthly_summary', [
+    { key: 'month', width: 10, value: s => s.month },
+    { key: 'invoiced', width: 14, value: s => s.invoiced, format: 'currency' },
+    { key: 'received', width: 14, value: s => s.received, format: 'currency' },
+    { key: 'businessExpenses', width: 18, value: s => s.businessExpenses, format: 'currency' },
+    { key: 'personalExpenses', width: 18, value: s => s.personalExpenses, format: 'currency' },
+    { key: 'expensesPaid', width: 14, value: s => s.expensesPaid, format: 'currency' },
+    { key: 'investments', width: 14, value: s => s.investments, format: 'currency' },
+    { key: 'cashResult', width: 14, value: s => s.cashResult, format: 'currency' },
+  ], getMonthlySummary(data));
+
+  addSheet<CategorySummary>(workbook, 'category_summary', [
+    { key: 'group', width: 24, value: s => s.group },
+    { key: 'category', width: 24, value: s => s.category },
+    { key: 'count', width: 10, value: s => s.count },
+    { key: 'total', width: 14, value: s => s.total, format: 'currency' },
+  ], getCategorySummary(data));
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
+
+// IMPORT
+// Formulas, links and rich text are read as the value they show
+const readCell = (value: CellValue): unknown => {
+  if (value === null || value === undefined || value instanceof Date) return value ?? undefined;
+  if (typeof value !== 'object') return typeof value === 'string' && value.trim() === '' ? undefined : value;
+  if ('result' in value) return readCell(value.result as CellValue);
+  if ('richText' in value) return readCell(value.richText.map(part => part.text).join(''));
+  if ('text' in value) return readCell(value.text as CellValue);
+  return undefined;
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Cells hold the day at midnight UTC (see toCellDate); records keep dates at local noon like the forms
+const toLocalDate = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate(), 12, 0, 0);
+  }
+  if (typeof value === 'number') return toLocalDate(new Date(EXCEL_EPOCH + Math.round(value) * 86400000));
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  for (const pattern of ['yyyy-MM-dd', 'dd/MM/yyyy']) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0);
+  }
+  return value;
+};
+
+// Accepts numbers and text like "1.234,56", "1234.56" or "R$ 1.234,56"
+const toAmount = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const text = value.replace(/R\$|\s/g, '');
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  return normalized === '' || isNaN(Number(normalized)) ? value : Number(normalized);
+};
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value !== 'string') return value;
+  const text = value.trim().toLowerCase();
+  if (['true', 'sim', 's', 'x', '1'].includes(text)) return true;
+  if (['false', 'não', 'nao', 'n', '0'].includes(text)) return false;
+  return value;
+};
+
+const toText = (value: unknown): unknown => {
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+};
+
+const requiredText = z.preprocess(toText, z.string({ required_error: 'obrigatório' }).trim().min(1, 'obrigatório'));
+const optionalText = z.preprocess(toText, z.string().trim().optional());
+const uuid = z.preprocess(toText, z.string().trim().uuid('id inválido'));
+const optionalUuid = uuid.optional();
+const amount = z.preprocess(
+  toAmount,
+  z.number({ required_error: 'obrigatório', invalid_type_error: 'valor inválido' }).positive('deve ser maior que zero')
+);
+const date = z.preprocess(toLocalDate, z.date({ required_error: 'obrigatório', invalid_type_error: 'data inválida' }));
+const optionalDate = date.optional();
+const optionalCount = (message: string) => z.preprocess(
+  toAmount,
+  z.number({ invalid_type_error: message }).int(message).positive(message).optional()
+);
+const optionalBoolean = z.preprocess(toBoolean, z.boolean({ invalid_type_error: 'use sim ou não' }).optional());
+const oneOf = <T extends [string, ...string[]]>(values: T) => z.preprocess(
+  value => typeof value === 'string' ? value.trim().toLowerCase() : value,
+  z.enum(values, { errorMap: () => ({ message: `use ${values.join(', ')}` }) })
+);
+
+// "yyyy-MM-dd:amount[:sourceId]" entries separated by ";", as the export writes them
+const payments = z.preprocess(toText, z.string().optional()).transform((value, ctx) => {
+  if (!value) return [];
+  const parsed: ExpensePayment[] = [];
+  for (const entry of value.split(';').map(part => part.trim()).filter(Boolean)) {
+    const [datePart, amountPart, sourceId] = entry.split(':').map(part => part.trim());
+    const paymentDate = toLocalDate(datePart);
+    const paymentAmount = toAmount(amountPart);
+    if (!(paymentDate instanceof Date) || typeof paymentAmount !== 'number' || paymentAmount <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `pagamento inválido "${entry}", use data:valor` });
+      return z.NEVER;
+    }
+    parsed.push({ date: paymentDate, amount: roundCurrency(paymentAmount), sourceId: sourceId || undefined });
+  }
+  return parsed;
+});
+
+const firstOfMonth = (value?: Date) => value && new Date(value.getFullYear(), value.getMonth(), 1, 12, 0, 0);
+
+const clientSchema = z.object({
+  id: optionalUuid,
+  name: requiredText,
+  document: optionalText
+    .transform(value => value ? onlyDigits(value) : undefined)
+    .refine(value => !value || isValidDocument(value), 'CPF ou CNPJ inválido'),
+  legalName: optionalText,
+  tradeName: optionalText,
+  email: optionalText.refine(value => !value || isValidEmail(value), 'e-mail inválido'),
+  phone: optionalText.transform(value => value ? onlyDigits(value) : undefined),
+  municipalRegistration: optionalText,
+  cep: optionalText.transform(value => value ? onlyDigits(value) : undefined),
+  street: optionalText,
+  number: optionalText,
+  complement: optionalText,
+  district: optionalText,
+  city: optionalText,
+  state: optionalText.transform(value => value?.toUpperCase()),
+  notes: optionalText,
+  archived: optionalBoolean,
+});
+
+const incomeSchema = z.object({
+  id: optionalUuid,
+  description: requiredText,
+  amount,
+  clientId: optionalUuid,
+  clientName: optionalText,
+  category: requiredText,
+  issueDate: optionalDate,
+  dueDate: date,
+  competenceDate: optionalDate,
+  payments,
+  cancelled: optionalBoolean,
+  accountId: optionalUuid,
+});
+
+const expenseSchema = z.object({
+  id: optionalUuid,
+  description: requiredText,
+  amount,
+  type: oneOf(['business', 'personal']),
+  category: requiredText,
+  dueDate: date,
+  competenceDate: optionalDate,
+  status: oneOf(['paid', 'unpaid', 'saved']).optional(),
+  payments,
+  paymentSourceId: optionalUuid,
+  isFixed: optionalBoolean,
+  accountId: optionalUuid,
+  dasCompetence: optionalDate,
+  creditCardId: optionalUuid,
+  invoiceMonth: optionalDate,
+  recurringExpenseId: optionalUuid,
+  occurrenceDate: optionalDate,
+  installmentGroupId: optionalUuid,
+  installmentNumber: optionalCount('número da parcela inválido'),
+  installmentCount: optionalCount('número de parcelas inválido'),
+});
+
+const investmentSchema = z.object({
+  id: optionalUuid,
+  description: requiredText,
+  amount,
+  category: requiredText,
+  date,
+  status: oneOf(['planned', 'executed']).optional(),
+  supplier: optionalText,
+  depreciationMonths: optionalCount('número de meses inválido'),
+  paymentSourceId: optionalUuid,
+  accountId: optionalUuid,
+});
+
+const REQUIRED_COLUMNS: Record<WorkbookSheet, string[]> = {
+  clients: ['name'],
+  incomes: ['description', 'amount', 'category', 'dueDate'],
+  expenses: ['description', 'amount', 'type', 'category', 'dueDate'],
+  investments: ['description', 'amount', 'category', 'date'],
+};
+
+const ADDRESS_KEYS: (keyof ClientAddress)[] = ['cep', 'street', 'number', 'complement', 'district', 'city', 'state'];
+
+// Flags and statuses always have a value: a blank cell keeps the stored one, or the default
+const NOT_NULL_KEYS = ['archived', 'cancelled', 'isFixed', 'status'];
+
+// Keeps only the keys of the columns the sheet has, so a missing column leaves the stored value
+// alone; a blank cell clears an optional field
+const pick = <T,>(values: Record<string, unknown>, present: Record<string, unknown>, keys: (keyof T)[]): Partial<T> => {
+  const picked: Partial<T> = {};
+  keys.forEach(key => {
+    const value = values[key as string];
+    if (!((key as string) in present) || (value === undefined && NOT_NULL_KEYS.includes(key as string))) return;
+    picked[key] = value as T[keyof T];
+  });
+  return picked;
+};
+
+interface SheetRows {
+  rows: { row: number; values: Record<string, unknown> }[];
+  errors: WorkbookRowError[];
+}
+
+const readSheet = (workbook: Workbook, name: WorkbookSheet): SheetRows => {
+  const sheet = workbook.getWorksheet(name);
+  if (!sheet) return { rows: [], errors: [] };
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, column) => {
+    const header = readCell(cell.value);
+    if (header !== undefined) headers[column] = String(header).trim();
+  });
+  const missing = REQUIRED_COLUMNS[name].filter(column => !headers.includes(column));
+  if (missing.length > 0) {
+    return { rows: [], errors: [{ sheet: name, row: 1, message: `Colunas obrigatórias ausentes: ${missing.join(', ')}` }] };
+  }
+
+  const rows: SheetRows['rows'] = [];
+  sheet.eachRow((row, number) => {
+    if (number === 1) return;
+    const values: Record<string, unknown> = {};
+    headers.forEach((header, column) => {
+      if (header) values[header] = readCell(row.getCell(column).value);
+    });
+    if (Object.values(values).some(value => value !== undefined)) rows.push({ row: number, values });
+  });
+  return { rows, errors: [] };
+};
+
+const formatIssues = (error: z.ZodError): string => {
+  return error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message).join('; ');
+};
+
+// Validates every row of the entity sheets; rows with errors are left out and reported, the
+// others can be upserted by id. Clients are parsed first so the other sheets can point to them
+export const parseWorkbook = async (buffer: ArrayBuffer, references: WorkbookReferences): Promise<WorkbookImport> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const result: WorkbookImport = { clients: [], incomes: [], expenses: [], investments: [], errors: [] };
+  if (!WORKBOOK_SHEETS.some(name => workbook.getWorksheet(name))) {
+    result.errors.push({ sheet: 'clients', row: 1, message: `A planilha precisa de ao menos uma aba: ${WORKBOOK_SHEETS.join(', ')}` });
+    return result;
+  }
+
+  const parseSheet = <S extends z.ZodTypeAny, T>(
+    name: WorkbookSheet,
+    schema: S,
+    toRecord: (values: z.infer<S>, present: Record<string, unknown>) => Partial<T> | string
+  ): WorkbookRow<T>[] => {
+    const { rows, errors } = readSheet(workbook, name);
+    result.errors.push(...errors);
+
+    const seen = new Set<string>();
+    return rows.flatMap(({ row, values }) => {
+      const parsed = schema.safeParse(values);
+      if (!parsed.success) {
+        result.errors.push({ sheet: name, row, message: formatIssues(parsed.error) });
+        return [];
+      }
+      const id: string | undefined = parsed.data.id;
+      if (id && seen.has(id)) {
+        result.errors.push({ sheet: name, row, message: `id ${id} repetido na planilha` });
+        return [];
+      }
+      const record = toRecord(parsed.data, values);
+      if (typeof record === 'string') {
+        result.errors.push({ sheet: name, row, message: record });
+        return [];
+      }
+      if (id) seen.add(id);
+      return [{ row, id, record }];
+    });
+  };
+
+  result.clients = parseSheet<typeof clientSchema, ClientInput>('clients', clientSchema, (values, present) => {
+    const record = pick<ClientInput>(values, present, [
+      'name', 'document', 'legalName', 'tradeName', 'email', 'phone', 'municipalRegistration', 'notes', 'archived',
+    ]);
+    if (ADDRESS_KEYS.some(key => key in present)) {
+      const address = pick<ClientAddress>(values, present, ADDRESS_KEYS);
+      record.address = Object.values(address).some(Boolean) ? address : undefined;
+    }
+    return record;
+  });
+
+  const clients = [...references.clients, ...result.clients.filter(row => row.id).map(row => ({ id: row.id, name: row.record.name }))];
+  const clientIds = new Set(clients.map(client => client.id));
+  const accountIds = new Set(references.accountIds);
+  const creditCardIds = new Set(references.creditCardIds);
+  const recurringExpenseIds = new Set(references.recurringExpenseIds);
+  const checkReferences = (values: { paymentSourceId?: string; accountId?: string; payments?: ExpensePayment[] }): string | null => {
+    if (values.paymentSourceId && !clientIds.has(values.paymentSourceId)) return `paymentSourceId: cliente ${values.paymentSourceId} não encontrado`;
+    const source = values.payments?.find(payment => payment.sourceId && !clientIds.has(payment.sourceId));
+    if (source) return `payments: cliente ${source.sourceId} não encontrado`;
+    if (values.accountId && !accountIds.has(values.accountId)) return `accountId: conta ${values.accountId} não encontrada`;
+    return null;
+  };
+
+  // Spreadsheets kept before the migration only have the client's name
+  const findClient = (clientId?: string, clientName?: string): { id: string } | string => {
+    if (clientId) return clientIds.has(clientId) ? { id: clientId } : `clientId: cliente ${clientId} não encontrado`;
+    if (!clientName) return 'clientId: informe o id ou o nome do cliente';
+    const matches = clients.filter(client => client.name.toLowerCase() === clientName.toLowerCase());
+    if (matches.length === 0) return `clientName: cliente "${clientName}" não encontrado`;
+    return matches.length === 1 ? { id: matches[0].id } : `clientName: há mais de um cliente "${clientName}", informe o clientId`;
+  };
+
+  result.incomes = parseSheet<typeof incomeSchema, IncomeInput>('incomes', incomeSchema, (values, present) => {
+    const error = checkReferences({ accountId: values.accountId });
+    if (error) return error;
+    const record = pick<IncomeInput>(values, present, ['description', 'amount', 'category', 'issueDate', 'dueDate', 'payments', 'cancelled', 'accountId']);
+    if ('competenceDate' in present) record.competenceDate = firstOfMonth(values.competenceDate);
+    if ('clientId' in present || 'clientName' in present || !values.id) {
+      const client = findClient(values.clientId, values.clientName);
+      if (typeof client === 'string') return client;
+      record.clientId = client.id;
+    }
+    return record;
+  });
+
+  // Card invoices and fixed expense occurrences keep their link, so the app doesn't create them again
+  result.expenses = parseSheet<typeof expenseSchema, ExpenseInput>('expenses', expenseSchema, (values, present) => {
+    const error = checkReferences(values);
+    if (error) return error;
+    if (values.creditCardId && !creditCardIds.has(values.creditCardId)) return `creditCardId: cartão ${values.creditCardId} não encontrado`;
+    if (values.recurringExpenseId && !recurringExpenseIds.has(values.recurringExpenseId)) {
+      return `recurringExpenseId: despesa fixa ${values.recurringExpenseId} não encontrada`;
+    }
+    const record = pick<ExpenseInput>(values, present, [
+      'description', 'amount', 'type', 'category', 'dueDate', 'status', 'payments', 'paymentSourceId', 'isFixed', 'accountId',
+      'creditCardId', 'recurringExpenseId', 'occurrenceDate', 'installmentGroupId', 'installmentNumber', 'installmentCount',
+    ]);
+    if ('competenceDate' in present) record.competenceDate = firstOfMonth(values.competenceDate);
+    if ('dasCompetence' in present) record.dasCompetence = firstOfMonth(values.dasCompetence);
+    if ('invoiceMonth' in present) record.invoiceMonth = firstOfMonth(values.invoiceMonth);
+    return record;
+  });
+
+  result.investments = parseSheet<typeof investmentSchema, InvestmentInput>('investments', investmentSchema, (values, present) => {
+    const error = checkReferences(values);
+    if (error) return error;
+    return pick<InvestmentInput>(values, present, [
+      'description', 'amount', 'category', 'date', 'status', 'supplier', 'depreciationMonths', 'paymentSourceId', 'accountId',
+    ]);
+  });
+
+  result.errors.sort((a, b) => WORKBOOK_SHEETS.indexOf(a.sheet) - WORKBOOK_SHEETS.indexOf(b.sheet) || a.row - b.row);
+  return result;
+};
+
+// WRITES
+// What a row left out comes from the stored record when it exists, or from the defaults of a
+// new one; the fields derived from the payments are recomputed from the result
+
+export const completeClient = (record: Partial<ClientInput>, existing?: Client): Partial<ClientInput> => {
+  return existing ? record : { archived: false, ...record } as ClientInput;
+};
+
+export const completeIncome = (record: Partial<IncomeInput>, existing?: Income): Partial<IncomeInput> => {
+  const merged = { payments: [], cancelled: false, ...existing, ...record } as IncomeInput;
+  const derived = withPayments(merged, merged.payments);
+  return existing ? { ...record, ...derived } : { ...merged, ...derived };
+};
+
+// A row marked as paid without payments was settled in full on the due date
+export const completeExpense = (record: Partial<ExpenseInput>, existing?: Expense): Partial<ExpenseInput> => {
+  const merged = { status: 'unpaid', payments: [], isFixed: false, ...existing, ...record } as ExpenseInput;
+  const derived = record.status === 'paid' && merged.payments.length === 0
+    ? withStatus(merged, 'paid', merged.paymentSourceId)
+    : withExpensePayments(merged, merged.payments);
+  return existing ? { ...record, ...derived } : { ...merged, ...derived };
+};
+
+export const completeInvestment = (record: Partial<InvestmentInput>, existing?: Investment): Partial<InvestmentInput> => {
+  return existing ? record : { status: 'executed', ...record } as InvestmentInput;
+};
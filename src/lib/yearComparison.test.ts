@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { Expense, Income, Investment } from "@/types/finance";
+import { DEFAULT_DEPRECIATION_SETTINGS } from "@/lib/depreciation";
+import { DRERecords } from "@/lib/dre";
+import {
+  getCategoryComparison,
+  getClientRevenueComparison,
+  getCumulative,
+  getMetricByCategory,
+  getMetricValue,
+  getVariation,
+  getYearDRE,
+} from "@/lib/yearComparison";
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12, 0, 0);
+
+const income = (clientId: string, date: Date, amount: number, overrides: Partial<Income> = {}): Income => ({
+  id: 'income',
+  description: 'Serviço',
+  amount,
+  clientId,
+  paymentDate: date,
+  category: 'Serviços',
+  dueDate: date,
+  payments: [{ date, amount }],
+  cancelled: false,
+  createdAt: day(2023, 1, 1),
+  ...overrides,
+});
+
+const expense = (category: string, date: Date, amount: number, type: Expense['type'] = 'business'): Expense => ({
+  id: 'expense',
+  description: category,
+  amount,
+  category,
+  dueDate: date,
+  status: 'paid',
+  payments: [{ date, amount }],
+  type,
+  isFixed: false,
+  createdAt: day(2023, 1, 1),
+});
+
+const investment = (category: string, date: Date, amount: number): Investment => ({
+  id: 'investment',
+  description: category,
+  amount,
+  category,
+  date,
+  status: 'executed',
+  createdAt: day(2023, 1, 1),
+});
+
+const records: DRERecords = {
+  incomes: [
+    income('c1', day(2023, 5, 10), 1000),
+    income('c1', day(2024, 5, 10), 1500),
+    income('c2', day(2024, 8, 10), 700, { category: 'Vendas' }),
+    income('c3', day(2024, 9, 10), 500, { cancelled: true }),
+  ],
+  expenses: [
+    expense('Aluguel', day(2023, 5, 5), 800),
+    expense('Aluguel', day(2024, 5, 5), 900),
+    expense('Internet', day(2024, 6, 5), 100),
+    expense('Mercado', day(2024, 6, 5), 300, 'personal'),
+  ],
+  investments: [
+    // 60 months of depreciation, six of them in 2024
+    investment('Equipamentos', day(2024, 7, 1), 6000),
+    investment('Software', day(2024, 3, 15), 200),
+  ],
+  withdrawals: [{ id: 'w1', date: day(2024, 10, 1), amount: 500, createdAt: day(2024, 10, 1) }],
+};
+
+const years = [2023, 2024].map(year => getYearDRE(records, DEFAULT_DEPRECIATION_SETTINGS, 'cash', year));
+
+describe('getYearDRE', () => {
+  it('adds up the twelve months of the year', () => {
+    expect(years[1].months).toHaveLength(12);
+    expect(years[1].months[4].totalRevenue).toBe(1500);
+    expect(years[1].total).toMatchObject({ totalRevenue: 2200, totalBusinessExpenses: 1000, totalPersonalExpenses: 300, totalWithdrawals: 500 });
+  });
+});
+
+describe('getMetricValue and getMetricByCategory', () => {
+  it('count equipment through its depreciation', () => {
+    expect(getMetricValue(years[1].total, 'investments')).toBe(800);
+    expect(getMetricByCategory(years[1].total, 'investments')).toEqual({ Software: 200, Equipamentos: 600 });
+  });
+
+  it('read the other metrics from the DRE', () => {
+    expect(getMetricValue(years[1].total, 'revenue')).toBe(2200);
+    expect(getMetricValue(years[1].total, 'withdrawals')).toBe(500);
+    expect(getMetricValue(years[1].total, 'result')).toBe(100);
+    expect(getMetricByCategory(years[1].total, 'personalExpenses')).toEqual({ Mercado: 300 });
+    expect(getMetricByCategory(years[1].total, 'result')).toBeNull();
+  });
+});
+
+describe('getCumulative and getVariation', () => {
+  it('accumulate month by month', () => {
+    expect(getCumulative([100, 200.1, -50])).toEqual([100, 300.1, 250.1]);
+  });
+
+  it('compare against the absolute previous value', () => {
+    expect(getVariation(150, 100)).toBe(50);
+    expect(getVariation(50, -100)).toBe(150);
+    expect(getVariation(100, 0)).toBeNull();
+  });
+});
+
+describe('getCategoryComparison', () => {
+  it('lines up the categories of each year, largest in the latest year first', () => {
+    expect(getCategoryComparison(years, 'businessExpenses')).toEqual([
+      { key: 'Aluguel', values: [800, 900] },
+      { key: 'Internet', values: [0, 100] },
+    ]);
+    expect(getCategoryComparison(years, 'revenue')).toEqual([
+      { key: 'Serviços', values: [1000, 1500] },
+      { key: 'Vendas', values: [0, 700] },
+    ]);
+  });
+
+  it('has no breakdown for withdrawals and the result', () => {
+    expect(getCategoryComparison(years, 'withdrawals')).toBeNull();
+    expect(getCategoryComparison(years, 'result')).toBeNull();
+  });
+});
+
+describe('getClientRevenueComparison', () => {
+  it('follows the revenue of each client and leaves out the ones without any', () => {
+    expect(getClientRevenueComparison(records, DEFAULT_DEPRECIATION_SETTINGS, 'cash', [2023, 2024])).toEqual([
+      { key: 'c1', values: [1000, 1500] },
+      { key: 'c2', values: [0, 700] },
+    ]);
+    expect(getClientRevenueComparison(records, DEFAULT_DEPRECIATION_SETTINGS, 'cash', [2022])).toEqual([]);
+  });
+});
@@ -0,0 +1,136 @@
+import { AccountingBasis } from "@/types/finance";
+import { DepreciationSettings } from "@/lib/depreciation";
+import { DREData, DRERecords, getMonthDRE, sumDRE } from "@/lib/dre";
+
+export type ComparisonMetric = 'revenue' | 'businessExpenses' | 'personalExpenses' | 'withdrawals' | 'investments' | 'result';
+
+export const comparisonMetricLabels: Record<ComparisonMetric, string> = {
+  revenue: 'Receita',
+  businessExpenses: 'Despesas empresariais',
+  personalExpenses: 'Despesas pessoais',
+  withdrawals: 'Saques',
+  investments: 'Investimentos',
+  result: 'Resultado',
+};
+
+export const COMPARISON_METRICS = Object.keys(comparisonMetricLabels) as ComparisonMetric[];
+
+export type ComparisonBreakdown = 'category' | 'client';
+
+export const comparisonBreakdownLabels: Record<ComparisonBreakdown, string> = {
+  category: 'Por categoria',
+  client: 'Por cliente',
+};
+
+export interface YearDRE {
+  year: number;
+  months: DREData[]; // January to December
+  total: DREData;
+}
+
+// Values of the breakdown, one per compared year
+export interface ComparisonRow {
+  key: string;
+  values: number[];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Months are computed as in the DRE, so both pages agree for the same regime
+export const getYearDRE = (
+  records: DRERecords,
+  settings: DepreciationSettings,
+  basis: AccountingBasis,
+  year: number
+): YearDRE => {
+  const months = Array.from({ length: 12 }, (_, month) => getMonthDRE(records, settings, basis, new Date(year, month, 1)));
+  return { year, months, total: sumDRE(months) };
+};
+
+// Depreciable equipment counts through its monthly depreciation, as in the result
+export const getMetricValue = (data: DREData, metric: ComparisonMetric): number => {
+  switch (metric) {
+    case 'revenue':
+      return data.totalRevenue;
+    case 'businessExpenses':
+      return data.totalBusinessExpenses;
+    case 'personalExpenses':
+      return data.totalPersonalExpenses;
+    case 'withdrawals':
+      return data.totalWithdrawals;
+    case 'investments':
+      return roundCurrency(data.totalInvestments + data.totalDepreciation);
+    default:
+      return data.netResult;
+  }
+};
+
+// Null for metrics that are not split into categories
+export const getMetricByCategory = (data: DREData, metric: ComparisonMetric): Record<string, number> | null => {
+  switch (metric) {
+    case 'revenue':
+      return data.incomeByCategory;
+    case 'businessExpenses':
+      return data.businessExpensesByCategory;
+    case 'personalExpenses':
+      return data.personalExpensesByCategory;
+    case 'investments': {
+      const byCategory = { ...data.investmentsByCategory };
+      Object.entries(data.depreciationByCategory).forEach(([category, value]) => {
+        byCategory[category] = roundCurrency((byCategory[category] || 0) + value);
+      });
+      return byCategory;
+    }
+    default:
+      return null;
+  }
+};
+
+export const getCumulative = (values: number[]): number[] => {
+  let total = 0;
+  return values.map(value => {
+    total = roundCurrency(total + value);
+    return total;
+  });
+};
+
+// Percentage change from `previous`; null when there is nothing to compare with
+export const getVariation = (current: number, previous: number): number | null => {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+const sortRows = (rows: ComparisonRow[]): ComparisonRow[] => {
+  // Largest in the most recent year first
+  return rows.sort((a, b) => b.values[b.values.length - 1] - a.values[a.values.length - 1] || a.key.localeCompare(b.key));
+};
+
+export const getCategoryComparison = (years: YearDRE[], metric: ComparisonMetric): ComparisonRow[] | null => {
+  const byYear = years.map(year => getMetricByCategory(year.total, metric));
+  if (byYear.some(categories => categories === null)) return null;
+
+  const keys = Array.from(new Set(byYear.flatMap(categories => Object.keys(categories))));
+  return sortRows(keys.map(key => ({ key, values: byYear.map(categories => categories[key] || 0) })));
+};
+
+// Revenue of each client under the same regime as the DRE; rows are keyed by client id
+export const getClientRevenueComparison = (
+  records: DRERecords,
+  settings: DepreciationSettings,
+  basis: AccountingBasis,
+  years: number[]
+): ComparisonRow[] => {
+  const byClient = new Map<string, DRERecords['incomes']>();
+  records.incomes.forEach(income => {
+    byClient.set(income.clientId, [...(byClient.get(income.clientId) ?? []), income]);
+  });
+
+  const rows = Array.from(byClient.entries()).map(([clientId, incomes]) => {
+    const clientRecords: DRERecords = { incomes, expenses: [], investments: [], withdrawals: [] };
+    return {
+      key: clientId,
+      values: years.map(year => getYearDRE(clientRecords, settings, basis, year).total.totalRevenue),
+    };
+  });
+  return sortRows(rows.filter(row => row.values.some(value => value !== 0)));
+};
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { MonthSelector } from "@/components/MonthSelector";
+import { AccountForm } from "@/components/forms/AccountForm";
+import { TransferForm } from "@/components/forms/TransferForm";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Landmark, ScrollText, Trash2 } from "lucide-react";
+import { endOfMonth, format, isAfter, startOfMonth } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import {
+  StatementEntryKind,
+  StatementLine,
+  accountTypeLabels,
+  getAccountBalance,
+  getAccountStatement,
+} from "@/lib/accounts";
+
+const kindLabels: Record<StatementEntryKind, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  investment: 'Investimento',
+  transfer: 'Transferência',
+  withdrawal: 'Saque',
+};
+
+export default function AccountsPage() {
+  const {
+    accounts,
+    transfers,
+    withdrawals,
+    incomes,
+    expenses,
+    investments,
+    removeAccount,
+    removeTransfer,
+    loadPeriod,
+    selectedMonth,
+    setSelectedMonth
+  } = useFinance();
+  const [selectedAccountId, setSelectedAccountId] = useState("");
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Balances add up everything since the oldest opening date
+  useEffect(() => {
+    if (accounts.length === 0) return;
+    const from = accounts.reduce((min, a) => a.openingDate < min ? a.openingDate : min, accounts[0].openingDate);
+    const monthEnd = endOfMonth(selectedMonth);
+    loadPeriod(from, isAfter(monthEnd, new Date()) ? monthEnd : new Date());
+  }, [accounts, selectedMonth, loadPeriod]);
+
+  const records = useMemo(
+    () => ({ incomes, expenses, investments, transfers, withdrawals }),
+    [incomes, expenses, investments, transfers, withdrawals]
+  );
+
+  const balances = useMemo(() => accounts.map(account => ({
+    account,
+    current: getAccountBalance(account, accounts, records, new Date()),
+    monthEnd: getAccountBalance(account, accounts, records, endOfMonth(selectedMonth)),
+  })), [accounts, records, selectedMonth]);
+
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId) ?? accounts.find(a => !a.archived);
+
+  const statement = useMemo(() => {
+    if (!selectedAccount) return null;
+    return getAccountStatement(selectedAccount, accounts, records, startOfMonth(selectedMonth), endOfMonth(selectedMonth));
+  }, [selectedAccount, accounts, records, selectedMonth]);
+
+  const renderActions = (line: StatementLine) => {
+    if (line.kind !== 'transfer') return null;
+    const transfer = transfers.find(t => t.id === line.id);
+    if (!transfer) return null;
+    return (
+      <div className="flex items-center gap-1">
+        <TransferForm transfer={transfer} editMode={true} />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          onClick={() => removeTransfer(transfer.id)}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Contas</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">Saldos e extratos das contas e carteiras</p>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+          <MonthSelector currentMonth={selectedMonth} onMonthChange={setSelectedMonth} />
+          <TransferForm />
+          <AccountForm />
+        </div>
+      </div>
+
+      {accounts.length === 0 ? (
+        <Card>
+          <CardContent className="p-4 sm:p-6">
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              Nenhuma conta cadastrada. Cadastre a conta PJ e a conta PF para acompanhar os saldos reais.
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Balances */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+            {balances.map(({ account, current, monthEnd }) => (
+              <Card key={account.id} className={cn(account.archived && "opacity-60")}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-medium text-sm text-foreground truncate">{account.name}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        {accountTypeLabels[account.type]}{account.archived && ' • Arquivada'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <AccountForm account={account} editMode={true} />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => removeAccount(account.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className={cn("text-xl font-display font-bold mt-2", current >= 0 ? "text-income" : "text-danger")}>
+                    {formatCurrency(current)}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Fim de {format(selectedMonth, "MMMM", { locale: ptBR })}: {formatCurrency(monthEnd)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Statement */}
+          {selectedAccount && statement && (
+            <Card>
+              <CardHeader className="p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                    <ScrollText className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+                    Extrato
+                  </CardTitle>
+                  <Select value={selectedAccount.id} onValueChange={setSelectedAccountId}>
+                    <SelectTrigger className="sm:w-[240px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name} • {accountTypeLabels[account.type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Saldo anterior</span>
+                  <span className="font-medium">{formatCurrency(statement.previousBalance)}</span>
+                </div>
+
+                {statement.lines.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground text-sm">
+                    Nenhuma movimentação neste mês
+                  </div>
+                ) : (
+                  <>
+                    {/* Mobile Cards View */}
+                    <div className="space-y-3 md:hidden">
+                      {statement.lines.map((line, index) => (
+                        <div key={`${line.id}-${index}`} className="p-3 rounded-lg border border-border bg-card">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-medium text-sm text-foreground truncate">{line.description}</h3>
+                              <p className="text-xs text-muted-foreground">
+                                {format(new Date(line.date), "dd/MM", { locale: ptBR })} • {kindLabels[line.kind]}
+                              </p>
+                            </div>
+                            <div className="text-right flex-shrink-0">
+                              <p className={cn("font-display font-bold text-sm", line.amount >= 0 ? "text-income" : "text-expense")}>
+                                {formatCurrency(line.amount)}
+                              </p>
+                              <p className="text-xs text-muted-foreground">{formatCurrency(line.balance)}</p>
+                            </div>
+                          </div>
+                          {line.kind === 'transfer' && (
+                            <div className="flex justify-end mt-1">{renderActions(line)}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Desktop Table View */}
+                    <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="bg-muted/50">
+                            <TableHead>Data</TableHead>
+                            <TableHead>Descrição</TableHead>
+                            <TableHead>Tipo</TableHead>
+                            <TableHead className="text-right">Valor</TableHead>
+                            <TableHead className="text-right">Saldo</TableHead>
+                            <TableHead className="w-[90px]"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {statement.lines.map((line, index) => (
+                            <TableRow key={`${line.id}-${index}`} className="hover:bg-muted/30">
+                              <TableCell>{format(new Date(line.date), "dd/MM/yyyy", { locale: ptBR })}</TableCell>
+                              <TableCell className="font-medium">{line.description}</TableCell>
+                              <TableCell className="text-muted-foreground">{kindLabels[line.kind]}</TableCell>
+                              <TableCell className={cn("text-right font-medium", line.amount >= 0 ? "text-income" : "text-expense")}>
+                                {formatCurrency(line.amount)}
+                              </TableCell>
+                              <TableCell className="text-right">{formatCurrency(line.balance)}</TableCell>
+                              <TableCell>{renderActions(line)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+
+                <div className="flex justify-between text-sm font-bold pt-2 border-t border-border">
+                  <span className="flex items-center gap-2">
+                    <Landmark className="w-4 h-4 text-primary" />
+                    Saldo no fim do mês
+                  </span>
+                  <span className={statement.balance >= 0 ? "text-income" : "text-danger"}>
+                    {formatCurrency(statement.balance)}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,14 @@ import { useFinance } from "@/contexts/FinanceContext";
 import { StatCard } from "@/components/StatCard";
 import { ExpenseTable } from "@/components/ExpenseTable";
 import { ExpenseForm } from "@/components/forms/ExpenseForm";
+import { WithdrawalForm } from "@/components/forms/WithdrawalForm";
+import { WithdrawalTable } from "@/components/WithdrawalTable";
+import { LegacyWithdrawals } from "@/components/LegacyWithdrawals";
+import { InvestmentForm } from "@/components/forms/InvestmentForm";
 import { MonthSelector } from "@/components/MonthSelector";
-import { TrendingUp, TrendingDown, PiggyBank, Wallet, Tag, Calendar, ArrowRightLeft } from "lucide-react";
+import { DASCalendar } from "@/components/DASCalendar";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { TrendingUp, TrendingDown, PiggyBank, Wallet, Tag, Calendar, ArrowRightLeft, FileText } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -11,6 +17,8 @@ import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { buildBusinessSummaryReport, downloadReport } from "@/lib/reports";
+import { DEFAULT_ACCOUNTING_BASIS } from "@/lib/dre";
 
 export default function BusinessPage() {
   const { 
@@ -18,17 +26,29 @@ export default function BusinessPage() {
     filteredExpenses,
     filteredIncomes,
     filteredInvestments,
+    filteredWithdrawals,
     removeIncome,
     removeInvestment,
     getClientById,
+    clients,
+    fiscalSettings,
     selectedMonth,
     setSelectedMonth
   } = useFinance();
   
   const summary = getBusinessSummary();
-  const businessExpenses = filteredExpenses.filter(e => e.type === 'business' && e.category !== 'Saque');
-  const withdrawals = filteredExpenses.filter(e => e.type === 'business' && e.category === 'Saque');
-  const totalWithdrawals = withdrawals.reduce((sum, w) => sum + w.amount, 0);
+  const businessExpenses = filteredExpenses.filter(e => e.type === 'business');
+
+  const exportReport = () => {
+    const records = {
+      incomes: filteredIncomes,
+      expenses: businessExpenses,
+      investments: filteredInvestments,
+      withdrawals: filteredWithdrawals,
+    };
+    const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+    downloadReport(buildBusinessSummaryReport(selectedMonth, records, summary, clients, basis), fiscalSettings ?? {});
+  };
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -47,7 +67,12 @@ export default function BusinessPage() {
         </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
           <MonthSelector currentMonth={selectedMonth} onMonthChange={setSelectedMonth} />
+          <WithdrawalForm />
           <ExpenseForm type="business" />
+          <Button variant="outline" className="gap-2" onClick={exportReport}>
+            <FileText className="w-4 h-4" />
+            Relatório PDF
+          </Button>
         </div>
       </div>
 
@@ -67,7 +92,7 @@ export default function BusinessPage() {
         />
         <StatCard
           title="Saques"
-          value={totalWithdrawals}
+          value={summary.totalWithdrawals}
           icon={ArrowRightLeft}
           variant="balance"
         />
@@ -85,6 +110,9 @@ export default function BusinessPage() {
         />
       </div>
 
+      {/* Budgets */}
+      <BudgetProgress type="business" />
+
       {/* Tabs */}
       <Tabs defaultValue="expenses" className="w-full">
         <TabsList className="w-full justify-start overflow-x-auto">
@@ -96,7 +124,7 @@ export default function BusinessPage() {
           <TabsTrigger value="withdrawals" className="text-xs sm:text-sm">
             <span className="hidden sm:inline">Saques</span>
             <span className="sm:hidden">Saq.</span>
-            <span className="ml-1">({withdrawals.length})</span>
+            <span className="ml-1">({filteredWithdrawals.length})</span>
           </TabsTrigger>
           <TabsTrigger value="income" className="text-xs sm:text-sm">
             <span className="hidden sm:inline">Recebimentos</span>
@@ -108,6 +136,9 @@ export default function BusinessPage() {
             <span className="sm:hidden">Invest.</span>
             <span className="ml-1">({filteredInvestments.length})</span>
           </TabsTrigger>
+          <TabsTrigger value="das" className="text-xs sm:text-sm">
+            DAS
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="expenses" className="mt-4">
@@ -130,12 +161,13 @@ export default function BusinessPage() {
                   Saques (Pro-labore)
                 </CardTitle>
                 <span className="text-lg font-bold text-primary">
-                  {formatCurrency(totalWithdrawals)}
+                  {formatCurrency(summary.totalWithdrawals)}
                 </span>
               </div>
             </CardHeader>
             <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
-              <ExpenseTable expenses={withdrawals} />
+              <LegacyWithdrawals />
+              <WithdrawalTable withdrawals={filteredWithdrawals} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -274,14 +306,17 @@ export default function BusinessPage() {
                               {formatCurrency(investment.amount)}
                             </p>
                           </div>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-muted-foreground hover:text-destructive flex-shrink-0"
-                            onClick={() => removeInvestment(investment.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <InvestmentForm investment={investment} editMode={true} />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => removeInvestment(investment.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </div>
                         <div className="flex flex-wrap gap-1.5">
                           <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-investment-light text-investment text-xs font-medium">
@@ -307,7 +342,7 @@ export default function BusinessPage() {
                             <TableHead>Categoria</TableHead>
                             <TableHead>Data</TableHead>
                             <TableHead className="text-right">Valor</TableHead>
-                            <TableHead className="w-[50px]"></TableHead>
+                            <TableHead className="w-[90px]"></TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -326,14 +361,17 @@ export default function BusinessPage() {
                                 {formatCurrency(investment.amount)}
                               </TableCell>
                               <TableCell>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                                  onClick={() => removeInvestment(investment.id)}
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
+                                <div className="flex items-center gap-1">
+                                  <InvestmentForm investment={investment} editMode={true} />
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                    onClick={() => removeInvestment(investment.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
                               </TableCell>
                             </TableRow>
                           ))}
@@ -346,6 +384,10 @@ export default function BusinessPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="das" className="mt-4">
+          <DASCalendar />
+        </TabsContent>
       </Tabs>
     </div>
   );
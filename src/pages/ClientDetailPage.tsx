@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useFinance } from "@/contexts/FinanceContext";
+import { ClientForm } from "@/components/forms/ClientForm";
+import { StatCard } from "@/components/StatCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Building2, CalendarClock, FileText, Mail, MapPin, Percent, Phone, Timer, TrendingUp, Wallet, Receipt } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format, getYear } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ClientAddress } from "@/types/finance";
+import { getPersonType, maskCEP, maskDocument, maskPhone } from "@/lib/documents";
+import { getFiscalYear } from "@/lib/meiLimit";
+import { buildClientStatementReport, downloadReport } from "@/lib/reports";
+import {
+  DEFAULT_CONCENTRATION_THRESHOLD,
+  getAverageDaysBetweenPayments,
+  getClientHistoryStart,
+  getLastPayment,
+  getMonthlyRevenue,
+  getRevenueShare,
+} from "@/lib/clientStats";
+import { DEFAULT_ACCOUNTING_BASIS } from "@/lib/dre";
+import { getReceivedAmount } from "@/lib/receivables";
+
+const formatAddress = (address: ClientAddress): string[] => {
+  const street = [address.street, address.number, address.complement].filter(Boolean).join(", ");
+  const city = [address.district, [address.city, address.state].filter(Boolean).join(" - ")].filter(Boolean).join(", ");
+  return [street, city, address.cep ? `CEP ${maskCEP(address.cep)}` : ""].filter(Boolean);
+};
+
+export default function ClientDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const { getClientById, incomes, expenses, fiscalSettings, loading, loadPeriod } = useFinance();
+  const client = id ? getClientById(id) : undefined;
+  const year = getFiscalYear();
+  const threshold = fiscalSettings?.concentrationThreshold ?? DEFAULT_CONCENTRATION_THRESHOLD;
+  const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+  const [statementYear, setStatementYear] = useState(String(year));
+
+  // Lifetime figures need every year since the business or the client started
+  const historyStart = useMemo(() => {
+    return getClientHistoryStart(client, fiscalSettings?.openingDate);
+  }, [client, fiscalSettings?.openingDate]);
+
+  useEffect(() => {
+    loadPeriod(historyStart, new Date());
+  }, [historyStart, loadPeriod]);
+
+  const clientIncomes = useMemo(() => {
+    return incomes
+      .filter(i => i.clientId === id)
+      .sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime());
+  }, [incomes, id]);
+
+  const timeline = useMemo(() => {
+    if (clientIncomes.length === 0) return [];
+    // Partial payments may come before the date the invoice was settled
+    const dates = clientIncomes.flatMap(i => [i.paymentDate, ...i.payments.map(p => p.date)]);
+    const first = new Date(Math.min(...dates.map(date => new Date(date).getTime())));
+    return getMonthlyRevenue(clientIncomes, first, new Date()).map(point => ({
+      month: format(point.month, "MMM/yy", { locale: ptBR }),
+      fullMonth: format(point.month, "MMMM 'de' yyyy", { locale: ptBR }),
+      amount: point.amount,
+      count: point.count,
+    }));
+  }, [clientIncomes]);
+
+  // Years with invoices due, for the statement
+  const statementYears = useMemo(() => {
+    const years = new Set([year, ...clientIncomes.map(i => getYear(i.dueDate))]);
+    return Array.from(years).sort((a, b) => b - a).map(String);
+  }, [clientIncomes, year]);
+
+  const yearShare = useMemo(() => (id ? getRevenueShare(incomes, id, year, basis) : 0), [incomes, id, year, basis]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  if (!client) {
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <Button variant="ghost" asChild className="gap-2 -ml-2">
+          <Link to="/clientes">
+            <ArrowLeft className="w-4 h-4" />
+            Clientes
+          </Link>
+        </Button>
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          {loading ? 'Carregando...' : 'Cliente não encontrado'}
+        </div>
+      </div>
+    );
+  }
+
+  const totalIncome = clientIncomes
+    .filter(i => !i.cancelled)
+    .reduce((sum, i) => sum + getReceivedAmount(i), 0);
+  const allocatedExpenses = expenses
+    .filter(e => e.paymentSourceId === client.id)
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  const personType = getPersonType(client.document);
+  const addressLines = client.address ? formatAddress(client.address) : [];
+  const lastPayment = getLastPayment(clientIncomes);
+  const averageDays = getAverageDaysBetweenPayments(clientIncomes);
+  const isConcentrated = yearShare > threshold;
+
+  const formatCompact = (value: number) =>
+    new Intl.NumberFormat("pt-BR", {
+      style: "currency",
+      currency: "BRL",
+      notation: "compact",
+    }).format(value);
+
+  const TimelineTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: (typeof timeline)[number] }[] }) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-popover border border-border rounded-lg p-3 shadow-lg">
+          <p className="font-medium text-foreground capitalize">{data.fullMonth}</p>
+          <p className="text-sm text-income mt-1">{formatCurrency(data.amount)}</p>
+          <p className="text-xs text-muted-foreground">
+            {data.count === 1 ? '1 recebimento' : `${data.count} recebimentos`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col gap-3">
+        <Button variant="ghost" asChild className="gap-2 -ml-2 self-start">
+          <Link to="/clientes">
+            <ArrowLeft className="w-4 h-4" />
+            Clientes
+          </Link>
+        </Button>
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 min-w-0">
+              <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground truncate">{client.name}</h1>
+              {client.archived && (
+                <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted text-muted-foreground text-xs font-medium flex-shrink-0">
+                  Arquivado
+                </span>
+              )}
+            </div>
+            <p className="text-sm sm:text-base text-muted-foreground mt-1">
+              {client.document
+                ? `${personType === 'PJ' ? 'CNPJ' : 'CPF'} ${maskDocument(client.document)}`
+                : 'Sem CPF/CNPJ cadastrado'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Select value={statementYear} onValueChange={setStatementYear}>
+              <SelectTrigger className="w-[90px]">
+                <SelectValue placeholder="Ano" />
+              </SelectTrigger>
+              <SelectContent>
+                {statementYears.map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => downloadReport(buildClientStatementReport(client, incomes, Number(statementYear)), fiscalSettings ?? {})}
+            >
+              <FileText className="w-4 h-4" />
+              <span className="hidden sm:inline">Extrato PDF</span>
+              <span className="sm:hidden">PDF</span>
+            </Button>
+            <ClientForm client={client} editMode={true} />
+          </div>
+        </div>
+      </div>
+
+      {isConcentrated && (
+        <div className="flex items-start gap-3 p-3 sm:p-4 rounded-lg border border-warning/40 bg-warning-light">
+          <AlertTriangle className="w-5 h-5 text-warning flex-shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-semibold text-foreground">
+              {yearShare.toFixed(0)}% da receita de {year} vem deste cliente
+            </p>
+            <p className="text-muted-foreground">
+              Acima de {threshold}%, a relação pode ser vista como vínculo empregatício disfarçado.
+              Diversificar os clientes reduz o risco de desenquadramento do MEI.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+        <StatCard title="Recebido" value={totalIncome} icon={TrendingUp} variant="income" />
+        <StatCard title="Alocado" value={allocatedExpenses} icon={Receipt} variant="expense" />
+        <StatCard title="Disponível" value={totalIncome - allocatedExpenses} icon={Wallet} variant="balance" />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+        <Card>
+          <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 text-primary flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground">Último pagamento</p>
+              <p className="font-semibold truncate">
+                {lastPayment
+                  ? `${format(new Date(lastPayment.date), "dd/MM/yyyy", { locale: ptBR })} • ${formatCurrency(lastPayment.amount)}`
+                  : '-'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+            <Timer className="w-5 h-5 text-primary flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground">Intervalo médio entre pagamentos</p>
+              <p className="font-semibold">
+                {averageDays !== null ? `${Math.round(averageDays)} dias` : '-'}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+            <Percent className={`w-5 h-5 flex-shrink-0 ${isConcentrated ? 'text-warning' : 'text-primary'}`} />
+            <div className="min-w-0">
+              <p className="text-xs text-muted-foreground">Participação na receita de {year}</p>
+              <p className={`font-semibold ${isConcentrated ? 'text-warning' : ''}`}>
+                {yearShare.toFixed(1).replace('.', ',')}%
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Timeline */}
+      {timeline.length > 0 && (
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg">Receita mensal</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={timeline} margin={{ top: 10, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="month" className="text-xs fill-muted-foreground" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={formatCompact} className="text-xs fill-muted-foreground" tick={{ fontSize: 12 }} />
+                <Tooltip content={<TimelineTooltip />} />
+                <Bar dataKey="amount" name="Receita" fill="hsl(var(--income))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Registration */}
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" />
+            Dados cadastrais
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">{personType === 'PF' ? 'Nome completo' : 'Razão social'}</p>
+            <p className="font-medium">{client.legalName || '-'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Nome fantasia</p>
+            <p className="font-medium">{client.tradeName || '-'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Tipo</p>
+            <p className="font-medium">
+              {personType === 'PJ' ? 'Pessoa jurídica' : personType === 'PF' ? 'Pessoa física' : '-'}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Inscrição municipal</p>
+            <p className="font-medium">{client.municipalRegistration || '-'}</p>
+          </div>
+          <div className="flex items-start gap-2">
+            <Mail className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+            {client.email ? (
+              <a href={`mailto:${client.email}`} className="font-medium text-primary hover:underline break-all">
+                {client.email}
+              </a>
+            ) : (
+              <span className="text-muted-foreground">-</span>
+            )}
+          </div>
+          <div className="flex items-start gap-2">
+            <Phone className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+            {client.phone ? (
+              <a href={`tel:+55${client.phone}`} className="font-medium text-primary hover:underline">
+                {maskPhone(client.phone)}
+              </a>
+            ) : (
+              <span className="text-muted-foreground">-</span>
+            )}
+          </div>
+          <div className="flex items-start gap-2 sm:col-span-2">
+            <MapPin className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+            {addressLines.length > 0 ? (
+              <div className="font-medium">
+                {addressLines.map(line => <p key={line}>{line}</p>)}
+              </div>
+            ) : (
+              <span className="text-muted-foreground">-</span>
+            )}
+          </div>
+          {client.notes && (
+            <div className="sm:col-span-2">
+              <p className="text-xs text-muted-foreground">Observações</p>
+              <p className="whitespace-pre-line">{client.notes}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Incomes */}
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-base sm:text-lg">Recebimentos</CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+          {clientIncomes.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              Nenhum recebimento deste cliente
+            </div>
+          ) : (
+            <>
+              {/* Mobile Cards View */}
+              <div className="space-y-3 md:hidden">
+                {clientIncomes.map((income) => (
+                  <div key={income.id} className="p-3 rounded-lg border border-border bg-card">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-sm text-foreground truncate">{income.description}</h3>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(income.paymentDate), "dd/MM/yyyy", { locale: ptBR })} • {income.category}
+                        </p>
+                      </div>
+                      <span className="font-display font-bold text-income flex-shrink-0">
+                        {formatCurrency(income.amount)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Desktop Table View */}
+              <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Descrição</TableHead>
+                      <TableHead>Categoria</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {clientIncomes.map((income) => (
+                      <TableRow key={income.id} className="hover:bg-muted/30">
+                        <TableCell className="font-medium">{income.description}</TableCell>
+                        <TableCell>{income.category}</TableCell>
+                        <TableCell>{format(new Date(income.paymentDate), "dd/MM/yyyy", { locale: ptBR })}</TableCell>
+                        <TableCell className="text-right font-medium text-income">{formatCurrency(income.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
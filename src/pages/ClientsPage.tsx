@@ -1,12 +1,24 @@
 import { forwardRef } from "react";
+import { Link } from "react-router-dom";
 import { useFinance } from "@/contexts/FinanceContext";
 import { ClientForm } from "@/components/forms/ClientForm";
+import { DeleteClientDialog } from "@/components/DeleteClientDialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trash2, Users, TrendingUp } from "lucide-react";
+import { AlertTriangle, ArchiveRestore, Users, TrendingUp } from "lucide-react";
+import { getPersonType, maskDocument } from "@/lib/documents";
+import { getFiscalYear } from "@/lib/meiLimit";
+import { DEFAULT_CONCENTRATION_THRESHOLD, getConcentratedClients } from "@/lib/clientStats";
+import { DEFAULT_ACCOUNTING_BASIS } from "@/lib/dre";
 
 const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
-  const { clients, incomes, expenses, removeClient } = useFinance();
+  const { clients, incomes, expenses, fiscalSettings, setClientArchived } = useFinance();
+  const activeClients = clients.filter(c => !c.archived);
+  const archivedClients = clients.filter(c => c.archived);
+  const year = getFiscalYear();
+  const threshold = fiscalSettings?.concentrationThreshold ?? DEFAULT_CONCENTRATION_THRESHOLD;
+  const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+  const concentratedClients = getConcentratedClients(incomes, year, threshold, basis);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -41,6 +53,13 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
 
   const totalRevenue = incomes.reduce((sum, i) => sum + i.amount, 0);
 
+  // Revenue split by the kind of document the client has
+  const revenueByPersonType = incomes.reduce((acc, income) => {
+    const type = getPersonType(clients.find(c => c.id === income.clientId)?.document);
+    if (type) acc[type] += income.amount;
+    return acc;
+  }, { PF: 0, PJ: 0 });
+
   return (
     <div ref={ref} className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
       {/* Header */}
@@ -62,7 +81,7 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
               </div>
               <div className="text-center sm:text-left">
                 <p className="text-xs sm:text-sm text-muted-foreground">Total de Clientes</p>
-                <p className="text-2xl sm:text-3xl font-display font-bold">{clients.length}</p>
+                <p className="text-2xl sm:text-3xl font-display font-bold">{activeClients.length}</p>
               </div>
             </div>
           </CardContent>
@@ -80,6 +99,9 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
                   <span className="sm:hidden">{formatCurrencyCompact(totalRevenue)}</span>
                   <span className="hidden sm:inline">{formatCurrency(totalRevenue)}</span>
                 </p>
+                <p className="text-xs text-muted-foreground">
+                  PJ {formatCurrencyCompact(revenueByPersonType.PJ)} • PF {formatCurrencyCompact(revenueByPersonType.PF)}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -92,15 +114,16 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
           <CardTitle className="text-base sm:text-lg">Lista de Clientes</CardTitle>
         </CardHeader>
         <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
-          {clients.length === 0 ? (
+          {activeClients.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground text-sm">
               Nenhum cliente cadastrado
             </div>
           ) : (
             <div className="grid gap-3 sm:gap-4">
-              {clients.map((client) => {
+              {activeClients.map((client) => {
                 const stats = getClientStats(client.id);
                 const available = stats.totalIncome - stats.allocatedExpenses;
+                const personType = getPersonType(client.document);
 
                 return (
                   <div 
@@ -114,7 +137,31 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
                         </span>
                       </div>
                       <div className="min-w-0 flex-1">
-                        <h3 className="font-semibold text-sm sm:text-base text-foreground truncate">{client.name}</h3>
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Link
+                            to={`/clientes/${client.id}`}
+                            className="font-semibold text-sm sm:text-base text-foreground truncate hover:text-primary hover:underline"
+                          >
+                            {client.name}
+                          </Link>
+                          {personType && (
+                            <span className="inline-flex items-center px-1.5 py-0.5 rounded-md bg-primary/10 text-primary text-[10px] font-medium flex-shrink-0">
+                              {personType}
+                            </span>
+                          )}
+                          {concentratedClients.includes(client.id) && (
+                            <span
+                              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-warning-light text-warning text-[10px] font-medium flex-shrink-0"
+                              title={`Mais de ${threshold}% da receita de ${year}`}
+                            >
+                              <AlertTriangle className="w-3 h-3" />
+                              Concentração
+                            </span>
+                          )}
+                        </div>
+                        {client.document && (
+                          <p className="text-xs text-muted-foreground">{maskDocument(client.document)}</p>
+                        )}
                         {/* Mobile: stacked layout */}
                         <div className="sm:hidden mt-1 space-y-0.5">
                           <p className="text-xs text-muted-foreground">
@@ -141,14 +188,10 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
                         </p>
                       </div>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-muted-foreground hover:text-destructive h-8 w-8 flex-shrink-0"
-                      onClick={() => removeClient(client.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <ClientForm client={client} editMode={true} />
+                      <DeleteClientDialog client={client} />
+                    </div>
                   </div>
                 );
               })}
@@ -156,6 +199,45 @@ const ClientsPage = forwardRef<HTMLDivElement>(function ClientsPage(_, ref) {
           )}
         </CardContent>
       </Card>
+
+      {archivedClients.length > 0 && (
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg">Arquivados</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+            <div className="grid gap-2">
+              {archivedClients.map((client) => (
+                <div
+                  key={client.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <Link
+                      to={`/clientes/${client.id}`}
+                      className="font-medium text-sm text-muted-foreground truncate hover:text-primary hover:underline"
+                    >
+                      {client.name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      Recebido: {formatCurrency(getClientStats(client.id).totalIncome)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 flex-shrink-0"
+                    onClick={() => setClientArchived(client.id, false)}
+                  >
+                    <ArchiveRestore className="h-4 w-4" />
+                    Reativar
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 });
@@ -0,0 +1,270 @@
+import { useFinance } from "@/contexts/FinanceContext";
+import { StatCard } from "@/components/StatCard";
+import { MonthSelector } from "@/components/MonthSelector";
+import { StatusBadge } from "@/components/StatusBadge";
+import { CreditCardForm } from "@/components/forms/CreditCardForm";
+import { CardPurchaseForm } from "@/components/forms/CardPurchaseForm";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, CreditCard as CreditCardIcon, Receipt, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  findInvoiceExpense,
+  getClosingDate,
+  getFutureInstallmentsTotal,
+  getInvoiceDueDate,
+  getInvoiceItems,
+  getInvoiceMonthDueIn,
+  getInvoiceTotal,
+} from "@/lib/creditCards";
+
+export default function CreditCardsPage() {
+  const {
+    creditCards,
+    cardPurchases,
+    expenses,
+    removeCreditCard,
+    removeCardPurchase,
+    selectedMonth,
+    setSelectedMonth
+  } = useFinance();
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  // Invoice of each card due in the selected month
+  const invoices = creditCards.map(card => {
+    const invoiceMonth = getInvoiceMonthDueIn(card, selectedMonth);
+    const items = getInvoiceItems(cardPurchases, card, invoiceMonth);
+    return {
+      card,
+      items,
+      total: getInvoiceTotal(items),
+      closingDate: getClosingDate(card, invoiceMonth),
+      dueDate: getInvoiceDueDate(card, invoiceMonth),
+      futureTotal: getFutureInstallmentsTotal(cardPurchases, card, invoiceMonth),
+      expense: findInvoiceExpense(expenses, card, invoiceMonth),
+    };
+  });
+
+  const totalInvoices = invoices.reduce((sum, invoice) => sum + invoice.total, 0);
+  const totalFuture = invoices.reduce((sum, invoice) => sum + invoice.futureTotal, 0);
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div className="flex flex-col gap-3">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Cartões de Crédito</h1>
+          <p className="text-sm sm:text-base text-muted-foreground mt-1">Compras, parcelas e faturas</p>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+          <MonthSelector currentMonth={selectedMonth} onMonthChange={setSelectedMonth} />
+          <CardPurchaseForm />
+          <CreditCardForm />
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+        <StatCard
+          title="Faturas do Mês"
+          value={totalInvoices}
+          icon={Receipt}
+          variant="expense"
+        />
+        <StatCard
+          title="Parcelas Futuras"
+          value={totalFuture}
+          icon={CalendarClock}
+          variant="pending"
+        />
+      </div>
+
+      {creditCards.length === 0 ? (
+        <Card>
+          <CardContent className="p-4 sm:p-6">
+            <div className="text-center py-8 text-muted-foreground text-sm">
+              Nenhum cartão cadastrado
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        invoices.map(({ card, items, total, closingDate, dueDate, futureTotal, expense }) => (
+          <Card key={card.id}>
+            <CardHeader className="p-4 sm:p-6">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                    <CreditCardIcon className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+                    {card.name}
+                  </CardTitle>
+                  <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                    Fecha em {format(closingDate, "dd/MM/yyyy", { locale: ptBR })} • vence em{' '}
+                    {format(dueDate, "dd/MM/yyyy", { locale: ptBR })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <CardPurchaseForm defaultCardId={card.id} />
+                  <CreditCardForm card={card} editMode={true} />
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Excluir {card.name}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Todas as compras do cartão serão removidas. As faturas já lançadas continuam nas despesas pessoais.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => removeCreditCard(card.id)}>Excluir</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+                <div className="rounded-lg border border-border p-3">
+                  <p className="text-muted-foreground text-xs">Fatura</p>
+                  <p className="font-display font-bold text-lg text-expense">{formatCurrency(total)}</p>
+                </div>
+                <div className="rounded-lg border border-border p-3">
+                  <p className="text-muted-foreground text-xs">Parcelas futuras</p>
+                  <p className="font-display font-bold text-lg">{formatCurrency(futureTotal)}</p>
+                </div>
+                <div className="rounded-lg border border-border p-3 col-span-2 sm:col-span-1">
+                  <p className="text-muted-foreground text-xs mb-1">Situação da fatura</p>
+                  {expense ? (
+                    <StatusBadge status={expense.status} />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Sem lançamento</span>
+                  )}
+                </div>
+              </div>
+
+              {items.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">
+                  Nenhuma compra nesta fatura
+                </div>
+              ) : (
+                <>
+                  {/* Mobile Cards View */}
+                  <div className="space-y-3 md:hidden">
+                    {items.map(({ purchase, installmentNumber, amount }) => (
+                      <div key={purchase.id} className="p-3 rounded-lg border border-border bg-card">
+                        <div className="flex items-start justify-between gap-2 mb-2">
+                          <div className="flex-1 min-w-0">
+                            <h3 className="font-medium text-sm text-foreground truncate">{purchase.description}</h3>
+                            <p className="text-lg font-display font-bold text-expense">{formatCurrency(amount)}</p>
+                          </div>
+                          <div className="flex items-center gap-1 flex-shrink-0">
+                            <CardPurchaseForm purchase={purchase} editMode={true} />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => removeCardPurchase(purchase.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5">
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-expense-light text-expense text-xs font-medium">
+                            {purchase.category}
+                          </span>
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                            {format(new Date(purchase.date), "dd/MM", { locale: ptBR })}
+                          </span>
+                          {purchase.installmentCount > 1 && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                              {installmentNumber}/{purchase.installmentCount}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Desktop Table View */}
+                  <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-muted/50">
+                          <TableHead>Descrição</TableHead>
+                          <TableHead>Categoria</TableHead>
+                          <TableHead>Data</TableHead>
+                          <TableHead>Parcela</TableHead>
+                          <TableHead className="text-right">Valor</TableHead>
+                          <TableHead className="w-[90px]"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {items.map(({ purchase, installmentNumber, amount }) => (
+                          <TableRow key={purchase.id} className="hover:bg-muted/30">
+                            <TableCell className="font-medium">{purchase.description}</TableCell>
+                            <TableCell>
+                              <span className="inline-flex items-center px-2 py-1 rounded-md bg-expense-light text-expense text-xs font-medium">
+                                {purchase.category}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              {format(new Date(purchase.date), "dd/MM/yyyy", { locale: ptBR })}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {purchase.installmentCount > 1 ? `${installmentNumber}/${purchase.installmentCount}` : 'À vista'}
+                            </TableCell>
+                            <TableCell className="text-right font-medium text-expense">
+                              {formatCurrency(amount)}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                <CardPurchaseForm purchase={purchase} editMode={true} />
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                  onClick={() => removeCardPurchase(purchase.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
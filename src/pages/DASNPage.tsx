@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { ChevronLeft, ChevronRight, Download, FileCheck, Printer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import { maskDocument } from "@/lib/documents";
+import {
+  REVENUE_TYPE_LABELS,
+  RevenueType,
+  buildDASNDeclaration,
+  getDefaultRevenueType,
+  getRevenueByCategory,
+  toDASNCsv,
+  toDASNJson,
+} from "@/lib/dasn";
+import { DEFAULT_ACCOUNTING_BASIS } from "@/lib/dre";
+
+const steps = ["Ano", "Receitas", "Empregado", "Resumo"];
+
+// The declaration is filed for the previous calendar year
+const lastYear = new Date().getFullYear() - 1;
+const years = Array.from({ length: 5 }, (_, i) => String(lastYear + 1 - i));
+
+export default function DASNPage() {
+  const { incomes, fiscalSettings, loadPeriod } = useFinance();
+  const [step, setStep] = useState(0);
+  const [year, setYear] = useState(String(lastYear));
+  const [cnpj, setCnpj] = useState("");
+  const [classification, setClassification] = useState<Record<string, RevenueType>>({});
+  const [hadEmployee, setHadEmployee] = useState(false);
+  const basis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+
+  useEffect(() => {
+    loadPeriod(new Date(Number(year), 0, 1), new Date(Number(year), 11, 31));
+  }, [year, loadPeriod]);
+
+  // Starts from the CNPJ saved in the profile
+  useEffect(() => {
+    if (fiscalSettings?.cnpj) setCnpj(maskDocument(fiscalSettings.cnpj));
+  }, [fiscalSettings?.cnpj]);
+
+  const revenueByCategory = useMemo(() => {
+    return getRevenueByCategory(incomes, Number(year), basis);
+  }, [incomes, year, basis]);
+
+  // Default classification follows the MEI activity and the income category
+  useEffect(() => {
+    const defaults: Record<string, RevenueType> = {};
+    Object.keys(revenueByCategory).forEach(category => {
+      defaults[category] = getDefaultRevenueType(category, fiscalSettings?.activityType);
+    });
+    setClassification(defaults);
+  }, [revenueByCategory, fiscalSettings]);
+
+  const declaration = useMemo(() => {
+    return buildDASNDeclaration(incomes, Number(year), basis, classification, hadEmployee, cnpj.trim());
+  }, [incomes, year, basis, classification, hadEmployee, cnpj]);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const summaryRows = [
+    { label: "Ano-calendário", value: String(declaration.anoCalendario) },
+    { label: "CNPJ", value: declaration.cnpj || "—" },
+    { label: "Receita bruta - comércio, indústria e transporte de cargas (ICMS)", value: formatCurrency(declaration.receitaBrutaComercioIndustria) },
+    { label: "Receita bruta - prestação de serviços (ISS)", value: formatCurrency(declaration.receitaBrutaServicos) },
+    { label: "Receita bruta total", value: formatCurrency(declaration.receitaBrutaTotal) },
+    { label: "Possui empregado", value: declaration.possuiEmpregado ? "Sim" : "Não" },
+  ];
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const rows = summaryRows
+      .map(row => `<tr><td>${row.label}</td><td class="value">${row.value}</td></tr>`)
+      .join('');
+
+    printWindow.document.write(`<!DOCTYPE html>
+      <html lang="pt-BR">
+        <head>
+          <meta charset="utf-8" />
+          <title>DASN-SIMEI ${declaration.anoCalendario}</title>
+          <style>
+            body { font-family: sans-serif; padding: 32px; color: #111; }
+            h1 { font-size: 20px; margin-bottom: 4px; }
+            p { color: #555; margin-top: 0; }
+            table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+            td { border-bottom: 1px solid #ddd; padding: 10px 4px; font-size: 14px; }
+            .value { text-align: right; font-weight: bold; white-space: nowrap; }
+          </style>
+        </head>
+        <body>
+          <h1>Resumo para a DASN-SIMEI</h1>
+          <p>Declaração Anual do Simples Nacional do MEI - ano-calendário ${declaration.anoCalendario}</p>
+          <table>${rows}</table>
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleExportJson = () => {
+    downloadFile(toDASNJson(declaration), `DASN-SIMEI_${declaration.anoCalendario}.json`, 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile('\uFEFF' + toDASNCsv(declaration), `DASN-SIMEI_${declaration.anoCalendario}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold">DASN-SIMEI</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">Declaração anual do MEI</p>
+      </div>
+
+      {/* Steps */}
+      <div className="flex items-center gap-2 overflow-x-auto">
+        {steps.map((label, index) => (
+          <div key={label} className="flex items-center gap-2 flex-shrink-0">
+            <span
+              className={cn(
+                "flex items-center justify-center w-6 h-6 rounded-full text-xs font-medium",
+                index <= step ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+              )}
+            >
+              {index + 1}
+            </span>
+            <span className={cn("text-sm", index === step ? "font-medium text-foreground" : "text-muted-foreground")}>
+              {label}
+            </span>
+            {index < steps.length - 1 && <Separator className="w-6 sm:w-10" />}
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <div className="flex items-center gap-2">
+            <FileCheck className="w-5 h-5 text-primary" />
+            <CardTitle className="text-base sm:text-lg">{steps[step]}</CardTitle>
+          </div>
+          <CardDescription className="text-xs sm:text-sm">
+            {step === 0 && "Escolha o ano-calendário da declaração"}
+            {step === 1 && "Classifique a receita bruta de cada categoria"}
+            {step === 2 && "Informe se houve empregado contratado no ano"}
+            {step === 3 && "Confira os valores antes de preencher a declaração no Portal do Empreendedor"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+          {step === 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Ano-calendário</Label>
+                <Select value={year} onValueChange={setYear}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {years.map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cnpj">CNPJ</Label>
+                <Input
+                  id="cnpj"
+                  value={cnpj}
+                  onChange={(e) => setCnpj(e.target.value)}
+                  placeholder="00.000.000/0000-00"
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 1 && (
+            Object.keys(revenueByCategory).length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">
+                Nenhuma receita em {year}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {Object.entries(revenueByCategory).map(([category, value]) => (
+                  <div
+                    key={category}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 rounded-lg border border-border"
+                  >
+                    <div>
+                      <p className="font-medium text-sm">{category}</p>
+                      <p className="text-sm text-income font-medium">{formatCurrency(value)}</p>
+                    </div>
+                    <RadioGroup
+                      value={classification[category]}
+                      onValueChange={(v) => setClassification(prev => ({ ...prev, [category]: v as RevenueType }))}
+                      className="flex gap-4"
+                    >
+                      {(Object.keys(REVENUE_TYPE_LABELS) as RevenueType[]).map(type => (
+                        <div key={type} className="flex items-center space-x-2">
+                          <RadioGroupItem value={type} id={`${category}-${type}`} />
+                          <Label htmlFor={`${category}-${type}`} className="font-normal cursor-pointer">
+                            {REVENUE_TYPE_LABELS[type]}
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {step === 2 && (
+            <RadioGroup
+              value={hadEmployee ? "yes" : "no"}
+              onValueChange={(v) => setHadEmployee(v === "yes")}
+              className="space-y-2"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="no" id="employee-no" />
+                <Label htmlFor="employee-no" className="font-normal cursor-pointer">
+                  Não tive empregado em {year}
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="yes" id="employee-yes" />
+                <Label htmlFor="employee-yes" className="font-normal cursor-pointer">
+                  Tive empregado contratado em algum momento de {year}
+                </Label>
+              </div>
+            </RadioGroup>
+          )}
+
+          {step === 3 && (
+            <>
+              <div className="space-y-1">
+                {summaryRows.map((row, index) => (
+                  <div
+                    key={row.label}
+                    className={cn(
+                      "flex justify-between gap-4 py-2 px-3 rounded-md text-sm",
+                      index === 4 && "bg-muted/50 font-medium"
+                    )}
+                  >
+                    <span>{row.label}</span>
+                    <span className="font-medium whitespace-nowrap">{row.value}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button variant="outline" className="gap-2" onClick={handlePrint}>
+                  <Printer className="w-4 h-4" />
+                  Imprimir
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={handleExportJson}>
+                  <Download className="w-4 h-4" />
+                  JSON
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={handleExportCsv}>
+                  <Download className="w-4 h-4" />
+                  CSV
+                </Button>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          <div className="flex justify-between">
+            <Button variant="ghost" className="gap-1" disabled={step === 0} onClick={() => setStep(step - 1)}>
+              <ChevronLeft className="w-4 h-4" />
+              Voltar
+            </Button>
+            {step < steps.length - 1 && (
+              <Button className="gap-1" onClick={() => setStep(step + 1)}>
+                Avançar
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,20 +1,32 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useFinance } from "@/contexts/FinanceContext";
-import { Download, FileSpreadsheet, TrendingUp, TrendingDown, Minus } from "lucide-react";
-import { format, startOfMonth, endOfMonth, isWithinInterval, getMonth, getYear, setMonth, setYear } from "date-fns";
+import { AccountingBasis } from "@/types/finance";
+import { Download, FileSpreadsheet, FileText, TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { addMonths, format, getMonth, getYear, setMonth, setYear, subMonths } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Separator } from "@/components/ui/separator";
-
-interface DRELine {
-  label: string;
-  value: number;
-  isTotal?: boolean;
-  isSubtotal?: boolean;
-  indent?: number;
-}
+import { cn } from "@/lib/utils";
+import { downloadFile } from "@/lib/download";
+import { buildDREReport, downloadReport } from "@/lib/reports";
+import { DEFAULT_DEPRECIATION_SETTINGS, getDepreciationLookback } from "@/lib/depreciation";
+import {
+  DEFAULT_ACCOUNTING_BASIS,
+  DREPeriod,
+  DREPeriodMode,
+  accountingBasisLabels,
+  drePeriodModeLabels,
+  formatDREPeriod,
+  getDRELines,
+  getDREPeriod,
+  getMonthDRE,
+  getPeriodMonths,
+  sumDRE,
+} from "@/lib/dre";
 
 const months = [
   { value: "0", label: "Janeiro" },
@@ -31,173 +43,122 @@ const months = [
   { value: "11", label: "Dezembro" },
 ];
 
+const quarters = [
+  { value: "0", label: "1º Trimestre" },
+  { value: "1", label: "2º Trimestre" },
+  { value: "2", label: "3º Trimestre" },
+  { value: "3", label: "4º Trimestre" },
+];
+
+const semesters = [
+  { value: "0", label: "1º Semestre" },
+  { value: "1", label: "2º Semestre" },
+];
+
 const currentYear = new Date().getFullYear();
 const years = Array.from({ length: 5 }, (_, i) => ({
   value: String(currentYear - 2 + i),
   label: String(currentYear - 2 + i),
 }));
 
+const parseMonthInput = (value: string) => {
+  const [year, month] = value.split('-').map(Number);
+  return new Date(year, month - 1, 1);
+};
+
 export default function DREPage() {
-  const { incomes, expenses, investments } = useFinance();
+  const { incomes, expenses, investments, withdrawals, fiscalSettings, updateFiscalSettings, isPeriodLoaded, loadPeriod } = useFinance();
+  const [periodMode, setPeriodMode] = useState<DREPeriodMode>('monthly');
   const [selectedMonth, setSelectedMonthState] = useState(getMonth(new Date()).toString());
   const [selectedYear, setSelectedYearState] = useState(getYear(new Date()).toString());
+  const [customFrom, setCustomFrom] = useState(`${currentYear}-01`);
+  const [customTo, setCustomTo] = useState(format(new Date(), 'yyyy-MM'));
 
   const selectedDate = useMemo(() => {
     return setYear(setMonth(new Date(), parseInt(selectedMonth)), parseInt(selectedYear));
   }, [selectedMonth, selectedYear]);
 
-  // Filter data by selected month
-  const periodIncomes = useMemo(() => {
-    const start = startOfMonth(selectedDate);
-    const end = endOfMonth(selectedDate);
-    return incomes.filter(income => 
-      isWithinInterval(new Date(income.paymentDate), { start, end })
-    );
-  }, [incomes, selectedDate]);
-
-  const periodExpenses = useMemo(() => {
-    const start = startOfMonth(selectedDate);
-    const end = endOfMonth(selectedDate);
-    const targetMonth = getMonth(selectedDate);
-    const targetYear = getYear(selectedDate);
-    
-    return expenses.filter(expense => {
-      if (isWithinInterval(new Date(expense.dueDate), { start, end })) {
-        return true;
-      }
-      if (expense.isFixed) {
-        const expenseDate = new Date(expense.dueDate);
-        const expenseMonth = getMonth(expenseDate);
-        const expenseYear = getYear(expenseDate);
-        return expenseYear < targetYear || (expenseYear === targetYear && expenseMonth <= targetMonth);
-      }
-      return false;
-    });
-  }, [expenses, selectedDate]);
-
-  const periodInvestments = useMemo(() => {
-    const start = startOfMonth(selectedDate);
-    const end = endOfMonth(selectedDate);
-    return investments.filter(investment => 
-      isWithinInterval(new Date(investment.date), { start, end })
-    );
-  }, [investments, selectedDate]);
-
-  // Calculate DRE values
-  const dreData = useMemo(() => {
-    // Group incomes by category
-    const incomeByCategory: Record<string, number> = {};
-    periodIncomes.forEach(income => {
-      incomeByCategory[income.category] = (incomeByCategory[income.category] || 0) + income.amount;
-    });
+  const period = useMemo((): DREPeriod => {
+    if (periodMode !== 'custom') return getDREPeriod(periodMode, selectedDate);
+    if (!customFrom || !customTo) return getDREPeriod('monthly', selectedDate);
 
-    // Group expenses by type and category
-    const businessExpensesByCategory: Record<string, number> = {};
-    const personalExpensesByCategory: Record<string, number> = {};
-    
-    periodExpenses.forEach(expense => {
-      if (expense.type === 'business') {
-        businessExpensesByCategory[expense.category] = (businessExpensesByCategory[expense.category] || 0) + expense.amount;
-      } else {
-        personalExpensesByCategory[expense.category] = (personalExpensesByCategory[expense.category] || 0) + expense.amount;
-      }
-    });
+    const [first, last] = [parseMonthInput(customFrom), parseMonthInput(customTo)].sort((a, b) => a.getTime() - b.getTime());
+    return { from: first, to: getDREPeriod('monthly', last).to };
+  }, [periodMode, selectedDate, customFrom, customTo]);
 
-    // Group investments by category
-    const investmentsByCategory: Record<string, number> = {};
-    periodInvestments.forEach(investment => {
-      investmentsByCategory[investment.category] = (investmentsByCategory[investment.category] || 0) + investment.amount;
-    });
+  const periodMonths = useMemo(() => getPeriodMonths(period), [period]);
+  const isMultiMonth = periodMonths.length > 1;
+
+  const depreciationSettings = fiscalSettings ?? DEFAULT_DEPRECIATION_SETTINGS;
+  const depreciationLookback = getDepreciationLookback(investments, depreciationSettings);
+  const accountingBasis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+
+  // Assets bought before the period still depreciate in it; a competence usually falls a month before the due date
+  const loadRange = useMemo(() => ({
+    from: subMonths(period.from, depreciationLookback),
+    to: addMonths(period.to, 1),
+  }), [period, depreciationLookback]);
+  const periodLoaded = isPeriodLoaded(loadRange.from, loadRange.to);
 
-    // Calculate totals
-    const totalRevenue = periodIncomes.reduce((sum, i) => sum + i.amount, 0);
-    const totalBusinessExpenses = periodExpenses.filter(e => e.type === 'business').reduce((sum, e) => sum + e.amount, 0);
-    const totalPersonalExpenses = periodExpenses.filter(e => e.type === 'personal').reduce((sum, e) => sum + e.amount, 0);
-    const totalInvestments = periodInvestments.reduce((sum, i) => sum + i.amount, 0);
-
-    const grossProfit = totalRevenue - totalBusinessExpenses;
-    const operatingResult = grossProfit - totalInvestments;
-    const netResult = operatingResult - totalPersonalExpenses;
-
-    return {
-      incomeByCategory,
-      businessExpensesByCategory,
-      personalExpensesByCategory,
-      investmentsByCategory,
-      totalRevenue,
-      totalBusinessExpenses,
-      totalPersonalExpenses,
-      totalInvestments,
-      grossProfit,
-      operatingResult,
-      netResult,
-    };
-  }, [periodIncomes, periodExpenses, periodInvestments]);
+  useEffect(() => {
+    loadPeriod(loadRange.from, loadRange.to);
+  }, [loadRange, loadPeriod]);
+
+  // One column per month; the total is their sum
+  const monthColumns = useMemo(() => {
+    const records = { incomes, expenses, investments, withdrawals };
+    return periodMonths.map(month => getMonthDRE(records, depreciationSettings, accountingBasis, month));
+  }, [incomes, expenses, investments, withdrawals, depreciationSettings, accountingBasis, periodMonths]);
+
+  const dreData = useMemo(() => sumDRE(monthColumns), [monthColumns]);
+  const dreLines = useMemo(() => getDRELines(monthColumns, dreData), [monthColumns, dreData]);
 
   const formatCurrency = (value: number) => {
     return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
   };
 
+  // Deductions are shown between parentheses, as in the statement below
+  const formatLineValue = (value: number) => {
+    return value < 0 ? `(${formatCurrency(-value)})` : formatCurrency(value);
+  };
+
+  const fileSuffix = isMultiMonth
+    ? `${format(period.from, 'yyyy-MM')}_${format(period.to, 'yyyy-MM')}`
+    : format(period.from, 'yyyy-MM');
+
   const exportToCSV = () => {
     const lines: string[] = [];
-    const periodLabel = format(selectedDate, "MMMM 'de' yyyy", { locale: ptBR });
+    const formatNumber = (value: number) => value.toFixed(2).replace('.', ',');
     
     lines.push(`DRE - Demonstração do Resultado do Exercício`);
-    lines.push(`Período: ${periodLabel}`);
-    lines.push(``);
-    lines.push(`Descrição;Valor`);
+    lines.push(`Período: ${formatDREPeriod(period)}`);
+    lines.push(accountingBasisLabels[accountingBasis]);
     lines.push(``);
-    
-    // Receitas
-    lines.push(`RECEITA OPERACIONAL BRUTA;`);
-    Object.entries(dreData.incomeByCategory).forEach(([category, value]) => {
-      lines.push(`  ${category};${value.toFixed(2).replace('.', ',')}`);
-    });
-    lines.push(`TOTAL RECEITAS;${dreData.totalRevenue.toFixed(2).replace('.', ',')}`);
-    lines.push(``);
-    
-    // Despesas Empresariais
-    lines.push(`(-) DESPESAS OPERACIONAIS;`);
-    Object.entries(dreData.businessExpensesByCategory).forEach(([category, value]) => {
-      lines.push(`  ${category};${(-value).toFixed(2).replace('.', ',')}`);
-    });
-    lines.push(`TOTAL DESPESAS OPERACIONAIS;${(-dreData.totalBusinessExpenses).toFixed(2).replace('.', ',')}`);
-    lines.push(``);
-    
-    lines.push(`LUCRO BRUTO;${dreData.grossProfit.toFixed(2).replace('.', ',')}`);
-    lines.push(``);
-    
-    // Investimentos
-    lines.push(`(-) INVESTIMENTOS;`);
-    Object.entries(dreData.investmentsByCategory).forEach(([category, value]) => {
-      lines.push(`  ${category};${(-value).toFixed(2).replace('.', ',')}`);
-    });
-    lines.push(`TOTAL INVESTIMENTOS;${(-dreData.totalInvestments).toFixed(2).replace('.', ',')}`);
-    lines.push(``);
-    
-    lines.push(`RESULTADO OPERACIONAL;${dreData.operatingResult.toFixed(2).replace('.', ',')}`);
+    lines.push(isMultiMonth
+      ? ['Descrição', ...periodMonths.map(month => format(month, 'MMM/yyyy', { locale: ptBR })), 'Total'].join(';')
+      : `Descrição;Valor`);
     lines.push(``);
-    
-    // Despesas Pessoais
-    lines.push(`(-) DESPESAS PESSOAIS;`);
-    Object.entries(dreData.personalExpensesByCategory).forEach(([category, value]) => {
-      lines.push(`  ${category};${(-value).toFixed(2).replace('.', ',')}`);
+
+    dreLines.forEach((line, index) => {
+      const label = line.indent ? `${'  '.repeat(line.indent)}${line.label}` : line.label.toUpperCase();
+      if (line.isHeader) {
+        lines.push(`${label};`);
+        return;
+      }
+      const values = isMultiMonth ? [...line.values, line.total] : [line.total];
+      lines.push([label, ...values.map(formatNumber)].join(';'));
+      if ((line.isSubtotal || line.isTotal) && index < dreLines.length - 1) {
+        lines.push(``);
+      }
     });
-    lines.push(`TOTAL DESPESAS PESSOAIS;${(-dreData.totalPersonalExpenses).toFixed(2).replace('.', ',')}`);
-    lines.push(``);
-    
-    lines.push(`RESULTADO LÍQUIDO DO PERÍODO;${dreData.netResult.toFixed(2).replace('.', ',')}`);
 
     const csvContent = lines.join('\n');
-    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `DRE_${format(selectedDate, 'yyyy-MM')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile('\uFEFF' + csvContent, `DRE_${fileSuffix}.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  const exportToPDF = () => {
+    const report = buildDREReport(dreLines, periodMonths, formatDREPeriod(period), accountingBasis, fileSuffix);
+    downloadReport(report, fiscalSettings ?? {});
   };
 
   const ResultIcon = ({ value }: { value: number }) => {
@@ -214,40 +175,133 @@ export default function DREPage() {
           <p className="text-sm sm:text-base text-muted-foreground">Demonstração do Resultado do Exercício</p>
         </div>
         
-        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
-          <div className="flex gap-2">
-            <Select value={selectedMonth} onValueChange={setSelectedMonthState}>
-              <SelectTrigger className="flex-1 sm:w-[140px]">
-                <SelectValue placeholder="Mês" />
-              </SelectTrigger>
-              <SelectContent>
-                {months.map((month) => (
-                  <SelectItem key={month.value} value={month.value}>
-                    {month.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            
-            <Select value={selectedYear} onValueChange={setSelectedYearState}>
-              <SelectTrigger className="w-[90px] sm:w-[100px]">
-                <SelectValue placeholder="Ano" />
-              </SelectTrigger>
-              <SelectContent>
-                {years.map((year) => (
-                  <SelectItem key={year.value} value={year.value}>
-                    {year.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="flex flex-col sm:flex-row sm:flex-wrap items-stretch sm:items-center gap-3">
+          <Select value={periodMode} onValueChange={(value) => setPeriodMode(value as DREPeriodMode)}>
+            <SelectTrigger className="sm:w-[200px]">
+              <SelectValue placeholder="Período" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(drePeriodModeLabels) as DREPeriodMode[]).map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {drePeriodModeLabels[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={accountingBasis}
+            onValueChange={(value) => updateFiscalSettings({ accountingBasis: value as AccountingBasis })}
+          >
+            <SelectTrigger className="sm:w-[200px]">
+              <SelectValue placeholder="Regime" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(accountingBasisLabels) as AccountingBasis[]).map((basis) => (
+                <SelectItem key={basis} value={basis}>
+                  {accountingBasisLabels[basis]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {periodMode === 'custom' ? (
+            <div className="flex items-center gap-2">
+              <Input
+                type="month"
+                aria-label="Mês inicial"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="flex-1 sm:w-[160px]"
+              />
+              <span className="text-sm text-muted-foreground">a</span>
+              <Input
+                type="month"
+                aria-label="Mês final"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="flex-1 sm:w-[160px]"
+              />
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              {(periodMode === 'monthly' || periodMode === 'ytd') && (
+                <Select value={selectedMonth} onValueChange={setSelectedMonthState}>
+                  <SelectTrigger className="flex-1 sm:w-[140px]">
+                    <SelectValue placeholder="Mês" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {months.map((month) => (
+                      <SelectItem key={month.value} value={month.value}>
+                        {periodMode === 'ytd' ? `Até ${month.label.toLowerCase()}` : month.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {periodMode === 'quarterly' && (
+                <Select
+                  value={String(Math.floor(parseInt(selectedMonth) / 3))}
+                  onValueChange={(value) => setSelectedMonthState(String(parseInt(value) * 3))}
+                >
+                  <SelectTrigger className="flex-1 sm:w-[140px]">
+                    <SelectValue placeholder="Trimestre" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {quarters.map((quarter) => (
+                      <SelectItem key={quarter.value} value={quarter.value}>
+                        {quarter.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {periodMode === 'semiannual' && (
+                <Select
+                  value={String(Math.floor(parseInt(selectedMonth) / 6))}
+                  onValueChange={(value) => setSelectedMonthState(String(parseInt(value) * 6))}
+                >
+                  <SelectTrigger className="flex-1 sm:w-[140px]">
+                    <SelectValue placeholder="Semestre" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {semesters.map((semester) => (
+                      <SelectItem key={semester.value} value={semester.value}>
+                        {semester.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              
+              <Select value={selectedYear} onValueChange={setSelectedYearState}>
+                <SelectTrigger className="w-[90px] sm:w-[100px]">
+                  <SelectValue placeholder="Ano" />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map((year) => (
+                    <SelectItem key={year.value} value={year.value}>
+                      {year.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           
-          <Button onClick={exportToCSV} variant="outline" className="gap-2">
+          <Button onClick={exportToCSV} variant="outline" className="gap-2" disabled={!periodLoaded}>
             <Download className="w-4 h-4" />
             <span className="hidden sm:inline">Exportar CSV</span>
             <span className="sm:hidden">CSV</span>
           </Button>
+
+          <Button onClick={exportToPDF} variant="outline" className="gap-2" disabled={!periodLoaded}>
+            <FileText className="w-4 h-4" />
+            <span className="hidden sm:inline">Exportar PDF</span>
+            <span className="sm:hidden">PDF</span>
+          </Button>
         </div>
       </div>
 
@@ -256,160 +310,281 @@ export default function DREPage() {
           <div className="flex items-center gap-2">
             <FileSpreadsheet className="w-5 h-5 text-primary" />
             <CardTitle className="text-base sm:text-lg">
-              {format(selectedDate, "MMMM 'de' yyyy", { locale: ptBR })}
+              {formatDREPeriod(period)}
             </CardTitle>
           </div>
           <CardDescription className="text-xs sm:text-sm">
-            Demonstração simplificada do resultado do período
+            {isMultiMonth
+              ? 'Resultado mês a mês com o total do período'
+              : 'Demonstração simplificada do resultado do período'}
+            {accountingBasis === 'cash'
+              ? ' • Receitas e despesas pelas datas em que foram recebidas e pagas'
+              : ' • Receitas e despesas pelo mês de competência'}
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
-          <div className="space-y-1">
-            {/* Receitas */}
-            <div className="py-2">
-              <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
-                Receita Operacional Bruta
-              </h3>
+          {!periodLoaded ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center space-y-3">
+                <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
+                <p className="text-sm text-muted-foreground">Carregando o período...</p>
+              </div>
             </div>
+          ) : (
+            <>
+              {/* Months side by side */}
+              {isMultiMonth && (
+                <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-muted/50">
+                          <TableHead className="min-w-[220px]">Descrição</TableHead>
+                          {periodMonths.map((month) => (
+                            <TableHead key={month.toISOString()} className="text-right whitespace-nowrap capitalize">
+                              {format(month, "MMM/yy", { locale: ptBR })}
+                            </TableHead>
+                          ))}
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {dreLines.map((line, index) => line.isHeader ? (
+                          <TableRow key={`${line.label}-${index}`} className="hover:bg-transparent">
+                            <TableCell
+                              colSpan={periodMonths.length + 2}
+                              className="pt-4 font-semibold text-xs text-muted-foreground uppercase tracking-wide"
+                            >
+                              {line.label}
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          <TableRow
+                            key={`${line.label}-${index}`}
+                            className={cn(
+                              "hover:bg-muted/30",
+                              line.isSubtotal && "bg-muted/50 font-medium",
+                              line.isTotal && "bg-primary/10 font-semibold"
+                            )}
+                          >
+                            <TableCell className={cn("whitespace-nowrap", line.indent && "pl-8")}>{line.label}</TableCell>
+                            {[...line.values, line.total].map((value, column) => (
+                              <TableCell
+                                key={column}
+                                className={cn(
+                                  "text-right whitespace-nowrap",
+                                  value > 0 ? "text-emerald-600" : value < 0 ? "text-red-500" : "text-muted-foreground",
+                                  column === line.values.length && "font-bold"
+                                )}
+                              >
+                                {formatLineValue(value)}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              {/* Period total */}
+              <div className={cn("space-y-1", isMultiMonth && "md:hidden")}>
+                {/* Receitas */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    Receita Operacional Bruta
+                  </h3>
+                </div>
             
-            {Object.entries(dreData.incomeByCategory).map(([category, value]) => (
-              <div key={category} className="flex justify-between py-1.5 pl-4">
-                <span className="text-sm">{category}</span>
-                <span className="text-sm font-medium text-emerald-600">{formatCurrency(value)}</span>
-              </div>
-            ))}
+                {Object.entries(dreData.incomeByCategory).map(([category, value]) => (
+                  <div key={category} className="flex justify-between py-1.5 pl-4">
+                    <span className="text-sm">{category}</span>
+                    <span className="text-sm font-medium text-emerald-600">{formatCurrency(value)}</span>
+                  </div>
+                ))}
             
-            {Object.keys(dreData.incomeByCategory).length === 0 && (
-              <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
-                Nenhuma receita no período
-              </div>
-            )}
+                {Object.keys(dreData.incomeByCategory).length === 0 && (
+                  <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
+                    Nenhuma receita no período
+                  </div>
+                )}
             
-            <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
-              <span>Total Receitas</span>
-              <span className="text-emerald-600">{formatCurrency(dreData.totalRevenue)}</span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Despesas Operacionais */}
-            <div className="py-2">
-              <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
-                (-) Despesas Operacionais
-              </h3>
-            </div>
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Total Receitas</span>
+                  <span className="text-emerald-600">{formatCurrency(dreData.totalRevenue)}</span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Despesas Operacionais */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    (-) Despesas Operacionais
+                  </h3>
+                </div>
             
-            {Object.entries(dreData.businessExpensesByCategory).map(([category, value]) => (
-              <div key={category} className="flex justify-between py-1.5 pl-4">
-                <span className="text-sm">{category}</span>
-                <span className="text-sm font-medium text-red-500">({formatCurrency(value)})</span>
-              </div>
-            ))}
+                {Object.entries(dreData.businessExpensesByCategory).map(([category, value]) => (
+                  <div key={category} className="flex justify-between py-1.5 pl-4">
+                    <span className="text-sm">{category}</span>
+                    <span className="text-sm font-medium text-red-500">({formatCurrency(value)})</span>
+                  </div>
+                ))}
             
-            {Object.keys(dreData.businessExpensesByCategory).length === 0 && (
-              <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
-                Nenhuma despesa operacional no período
-              </div>
-            )}
+                {Object.keys(dreData.businessExpensesByCategory).length === 0 && (
+                  <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
+                    Nenhuma despesa operacional no período
+                  </div>
+                )}
             
-            <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
-              <span>Total Despesas Operacionais</span>
-              <span className="text-red-500">({formatCurrency(dreData.totalBusinessExpenses)})</span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Lucro Bruto */}
-            <div className="flex justify-between py-3 bg-primary/10 px-3 rounded-md">
-              <div className="flex items-center gap-2">
-                <ResultIcon value={dreData.grossProfit} />
-                <span className="font-semibold">Lucro Bruto</span>
-              </div>
-              <span className={`font-bold ${dreData.grossProfit >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
-                {formatCurrency(dreData.grossProfit)}
-              </span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Investimentos */}
-            <div className="py-2">
-              <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
-                (-) Investimentos
-              </h3>
-            </div>
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Total Despesas Operacionais</span>
+                  <span className="text-red-500">({formatCurrency(dreData.totalBusinessExpenses)})</span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Lucro Bruto */}
+                <div className="flex justify-between py-3 bg-primary/10 px-3 rounded-md">
+                  <div className="flex items-center gap-2">
+                    <ResultIcon value={dreData.grossProfit} />
+                    <span className="font-semibold">Lucro Bruto</span>
+                  </div>
+                  <span className={`font-bold ${dreData.grossProfit >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                    {formatCurrency(dreData.grossProfit)}
+                  </span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Investimentos */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    (-) Investimentos
+                  </h3>
+                </div>
             
-            {Object.entries(dreData.investmentsByCategory).map(([category, value]) => (
-              <div key={category} className="flex justify-between py-1.5 pl-4">
-                <span className="text-sm">{category}</span>
-                <span className="text-sm font-medium text-amber-600">({formatCurrency(value)})</span>
-              </div>
-            ))}
+                {Object.entries(dreData.investmentsByCategory).map(([category, value]) => (
+                  <div key={category} className="flex justify-between py-1.5 pl-4">
+                    <span className="text-sm">{category}</span>
+                    <span className="text-sm font-medium text-amber-600">({formatCurrency(value)})</span>
+                  </div>
+                ))}
             
-            {Object.keys(dreData.investmentsByCategory).length === 0 && (
-              <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
-                Nenhum investimento no período
-              </div>
-            )}
+                {Object.keys(dreData.investmentsByCategory).length === 0 && (
+                  <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
+                    Nenhum investimento no período
+                  </div>
+                )}
             
-            <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
-              <span>Total Investimentos</span>
-              <span className="text-amber-600">({formatCurrency(dreData.totalInvestments)})</span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Resultado Operacional */}
-            <div className="flex justify-between py-3 bg-primary/10 px-3 rounded-md">
-              <div className="flex items-center gap-2">
-                <ResultIcon value={dreData.operatingResult} />
-                <span className="font-semibold">Resultado Operacional</span>
-              </div>
-              <span className={`font-bold ${dreData.operatingResult >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
-                {formatCurrency(dreData.operatingResult)}
-              </span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Despesas Pessoais */}
-            <div className="py-2">
-              <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
-                (-) Despesas Pessoais
-              </h3>
-            </div>
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Total Investimentos</span>
+                  <span className="text-amber-600">({formatCurrency(dreData.totalInvestments)})</span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Depreciação */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    (-) Depreciação
+                  </h3>
+                </div>
             
-            {Object.entries(dreData.personalExpensesByCategory).map(([category, value]) => (
-              <div key={category} className="flex justify-between py-1.5 pl-4">
-                <span className="text-sm">{category}</span>
-                <span className="text-sm font-medium text-red-500">({formatCurrency(value)})</span>
-              </div>
-            ))}
+                {Object.entries(dreData.depreciationByCategory).map(([category, value]) => (
+                  <div key={category} className="flex justify-between py-1.5 pl-4">
+                    <span className="text-sm">{category}</span>
+                    <span className="text-sm font-medium text-amber-600">({formatCurrency(value)})</span>
+                  </div>
+                ))}
             
-            {Object.keys(dreData.personalExpensesByCategory).length === 0 && (
-              <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
-                Nenhuma despesa pessoal no período
-              </div>
-            )}
+                {Object.keys(dreData.depreciationByCategory).length === 0 && (
+                  <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
+                    Nenhum bem em depreciação no período
+                  </div>
+                )}
             
-            <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
-              <span>Total Despesas Pessoais</span>
-              <span className="text-red-500">({formatCurrency(dreData.totalPersonalExpenses)})</span>
-            </div>
-
-            <Separator className="my-3" />
-
-            {/* Resultado Líquido */}
-            <div className={`flex justify-between py-4 px-4 rounded-lg ${dreData.netResult >= 0 ? 'bg-emerald-500/20 border border-emerald-500/30' : 'bg-red-500/20 border border-red-500/30'}`}>
-              <div className="flex items-center gap-2">
-                <ResultIcon value={dreData.netResult} />
-                <span className="font-bold text-lg">Resultado Líquido do Período</span>
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Total Depreciação</span>
+                  <span className="text-amber-600">({formatCurrency(dreData.totalDepreciation)})</span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Resultado Operacional */}
+                <div className="flex justify-between py-3 bg-primary/10 px-3 rounded-md">
+                  <div className="flex items-center gap-2">
+                    <ResultIcon value={dreData.operatingResult} />
+                    <span className="font-semibold">Resultado Operacional</span>
+                  </div>
+                  <span className={`font-bold ${dreData.operatingResult >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                    {formatCurrency(dreData.operatingResult)}
+                  </span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Distribuição de Lucros */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    (-) Distribuição de Lucros
+                  </h3>
+                </div>
+            
+                <div className="flex justify-between py-1.5 pl-4">
+                  <span className="text-sm">Saques</span>
+                  <span className="text-sm font-medium text-primary">({formatCurrency(dreData.totalWithdrawals)})</span>
+                </div>
+            
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Lucro Retido na Empresa</span>
+                  <span className={dreData.retainedProfit >= 0 ? 'text-emerald-600' : 'text-red-500'}>
+                    {formatCurrency(dreData.retainedProfit)}
+                  </span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Despesas Pessoais */}
+                <div className="py-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">
+                    (-) Despesas Pessoais
+                  </h3>
+                </div>
+            
+                {Object.entries(dreData.personalExpensesByCategory).map(([category, value]) => (
+                  <div key={category} className="flex justify-between py-1.5 pl-4">
+                    <span className="text-sm">{category}</span>
+                    <span className="text-sm font-medium text-red-500">({formatCurrency(value)})</span>
+                  </div>
+                ))}
+            
+                {Object.keys(dreData.personalExpensesByCategory).length === 0 && (
+                  <div className="py-1.5 pl-4 text-sm text-muted-foreground italic">
+                    Nenhuma despesa pessoal no período
+                  </div>
+                )}
+            
+                <div className="flex justify-between py-2 bg-muted/50 px-3 rounded-md font-medium">
+                  <span>Total Despesas Pessoais</span>
+                  <span className="text-red-500">({formatCurrency(dreData.totalPersonalExpenses)})</span>
+                </div>
+
+                <Separator className="my-3" />
+
+                {/* Resultado Líquido */}
+                <div className={`flex justify-between py-4 px-4 rounded-lg ${dreData.netResult >= 0 ? 'bg-emerald-500/20 border border-emerald-500/30' : 'bg-red-500/20 border border-red-500/30'}`}>
+                  <div className="flex items-center gap-2">
+                    <ResultIcon value={dreData.netResult} />
+                    <span className="font-bold text-lg">Resultado Líquido do Período</span>
+                  </div>
+                  <span className={`font-bold text-lg ${dreData.netResult >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                    {formatCurrency(dreData.netResult)}
+                  </span>
+                </div>
               </div>
-              <span className={`font-bold text-lg ${dreData.netResult >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
-                {formatCurrency(dreData.netResult)}
-              </span>
-            </div>
-          </div>
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
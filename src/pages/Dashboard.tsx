@@ -17,6 +17,7 @@ import {
   BarChart3
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DEFAULT_ACCOUNTING_BASIS, accountingBasisLabels } from "@/lib/dre";
 
 export default function Dashboard() {
   const { 
@@ -25,6 +26,7 @@ export default function Dashboard() {
     getPersonalSummary, 
     filteredExpenses,
     filteredIncomes,
+    fiscalSettings,
     selectedMonth,
     setSelectedMonth,
     loading
@@ -69,9 +71,9 @@ export default function Dashboard() {
       {/* Main Stats */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
         <StatCard
-          title="Total Recebido"
+          title="Receita"
           value={totalSummary.totalIncome}
-          subtitle="Receitas da empresa"
+          subtitle={accountingBasisLabels[fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS]}
           icon={TrendingUp}
           variant="income"
         />
@@ -0,0 +1,252 @@
+import { useEffect, useMemo } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { StatCard } from "@/components/StatCard";
+import { ForecastChart } from "@/components/charts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Building2, LineChart, User, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { getAccountBalance } from "@/lib/accounts";
+import { FORECAST_HISTORY_MONTHS, ForecastMonth, getCashFlowForecast, getForecastPeriod } from "@/lib/forecast";
+
+export default function ForecastPage() {
+  const {
+    clients,
+    incomes,
+    expenses,
+    investments,
+    recurringExpenses,
+    withdrawals,
+    transfers,
+    accounts,
+    creditCards,
+    cardPurchases,
+    fiscalSettings,
+    loadPeriod,
+  } = useFinance();
+
+  const period = useMemo(() => getForecastPeriod(), []);
+
+  // Balances need everything since the oldest opening date, the averages the last months
+  useEffect(() => {
+    const from = accounts.reduce((min, a) => a.openingDate < min ? a.openingDate : min, period.from);
+    loadPeriod(from, period.to);
+  }, [accounts, period, loadPeriod]);
+
+  const startBalances = useMemo(() => {
+    const records = { incomes, expenses, investments, transfers, withdrawals };
+    const today = new Date();
+    return accounts.reduce((balances, account) => {
+      const balance = getAccountBalance(account, accounts, records, today);
+      return account.type === 'business'
+        ? { ...balances, business: balances.business + balance }
+        : { ...balances, personal: balances.personal + balance };
+    }, { business: 0, personal: 0 });
+  }, [accounts, incomes, expenses, investments, transfers, withdrawals]);
+
+  const forecast = useMemo(() => getCashFlowForecast(
+    { clients, incomes, expenses, investments, recurringExpenses, withdrawals, creditCards, cardPurchases },
+    startBalances,
+    fiscalSettings
+  ), [clients, incomes, expenses, investments, recurringExpenses, withdrawals, creditCards, cardPurchases, startBalances, fiscalSettings]);
+
+  const negativeBusiness = forecast.filter(month => month.businessBalance < 0);
+  const negativePersonal = forecast.filter(month => month.personalBalance < 0);
+  const last = forecast[forecast.length - 1];
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const formatMonth = (month: Date) => format(month, "MMMM 'de' yyyy", { locale: ptBR });
+  const formatMonths = (months: ForecastMonth[]) => months.map(m => format(m.month, "MMM/yy", { locale: ptBR })).join(', ');
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Previsão de Caixa</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">Projeção dos próximos 12 meses</p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+        <StatCard
+          title="Caixa Empresa Hoje"
+          value={startBalances.business}
+          icon={Building2}
+          variant="balance"
+        />
+        <StatCard
+          title="Caixa Pessoal Hoje"
+          value={startBalances.personal}
+          icon={User}
+          variant="balance"
+        />
+        <StatCard
+          title="Empresa em 12 meses"
+          value={last?.businessBalance ?? 0}
+          icon={Wallet}
+          variant={last && last.businessBalance < 0 ? 'expense' : 'income'}
+        />
+        <StatCard
+          title="Pessoal em 12 meses"
+          value={last?.personalBalance ?? 0}
+          icon={Wallet}
+          variant={last && last.personalBalance < 0 ? 'expense' : 'income'}
+        />
+      </div>
+
+      {accounts.length === 0 && (
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Nenhuma conta cadastrada: a projeção parte de saldo zero. Cadastre suas contas para partir dos saldos reais.
+        </p>
+      )}
+
+      {/* Negative months */}
+      {(negativeBusiness.length > 0 || negativePersonal.length > 0) && (
+        <Card className="border-2 border-danger">
+          <CardContent className="p-4 sm:p-6 space-y-2">
+            <div className="flex items-center gap-2 font-semibold text-danger">
+              <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5" />
+              Caixa negativo previsto
+            </div>
+            {negativeBusiness.length > 0 && (
+              <p className="text-sm text-foreground">
+                Empresa a partir de <span className="font-medium capitalize">{formatMonth(negativeBusiness[0].month)}</span>
+                {' '}({formatMonths(negativeBusiness)})
+              </p>
+            )}
+            {negativePersonal.length > 0 && (
+              <p className="text-sm text-foreground">
+                Pessoal a partir de <span className="font-medium capitalize">{formatMonth(negativePersonal[0].month)}</span>
+                {' '}({formatMonths(negativePersonal)})
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Chart */}
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+            <LineChart className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+            Saldo Projetado
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Recebíveis em aberto, média de receita dos clientes nos últimos {FORECAST_HISTORY_MONTHS} meses,
+            despesas fixas, DAS, faturas de cartão, investimentos planejados e saques médios
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+          <ForecastChart forecast={forecast} />
+        </CardContent>
+      </Card>
+
+      {/* Months */}
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-base sm:text-lg">Mês a Mês</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Valores em atraso entram no mês atual
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+          {/* Mobile Cards View */}
+          <div className="space-y-3 md:hidden">
+            {forecast.map((month) => {
+              const negative = month.businessBalance < 0 || month.personalBalance < 0;
+              return (
+                <div
+                  key={month.month.toISOString()}
+                  className={cn("p-3 rounded-lg border bg-card", negative ? "border-danger bg-expense-light" : "border-border")}
+                >
+                  <h3 className="font-medium text-sm text-foreground capitalize mb-2">{formatMonth(month.month)}</h3>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+                    <span className="text-muted-foreground">Entradas</span>
+                    <span className="text-right text-income">{formatCurrency(month.receivables + month.expectedIncome)}</span>
+                    <span className="text-muted-foreground">Despesas PJ</span>
+                    <span className="text-right text-expense">{formatCurrency(month.businessExpenses)}</span>
+                    <span className="text-muted-foreground">Investimentos</span>
+                    <span className="text-right">{formatCurrency(month.investments)}</span>
+                    <span className="text-muted-foreground">Saques</span>
+                    <span className="text-right">{formatCurrency(month.withdrawals)}</span>
+                    <span className="text-muted-foreground">Despesas PF</span>
+                    <span className="text-right text-expense">{formatCurrency(month.personalExpenses)}</span>
+                  </div>
+                  <div className="flex justify-between mt-2 pt-2 border-t border-border text-sm font-medium">
+                    <span className={month.businessBalance >= 0 ? "text-income" : "text-danger"}>
+                      PJ {formatCurrency(month.businessBalance)}
+                    </span>
+                    <span className={month.personalBalance >= 0 ? "text-income" : "text-danger"}>
+                      PF {formatCurrency(month.personalBalance)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Desktop Table View */}
+          <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Mês</TableHead>
+                    <TableHead className="text-right">Recebíveis</TableHead>
+                    <TableHead className="text-right">Receita esperada</TableHead>
+                    <TableHead className="text-right">Despesas PJ</TableHead>
+                    <TableHead className="text-right">Investimentos</TableHead>
+                    <TableHead className="text-right">Saques</TableHead>
+                    <TableHead className="text-right">Caixa PJ</TableHead>
+                    <TableHead className="text-right">Despesas PF</TableHead>
+                    <TableHead className="text-right">Caixa PF</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.map((month) => (
+                    <TableRow
+                      key={month.month.toISOString()}
+                      className={cn(
+                        "hover:bg-muted/30",
+                        (month.businessBalance < 0 || month.personalBalance < 0) && "bg-expense-light"
+                      )}
+                    >
+                      <TableCell className="font-medium capitalize">
+                        {format(month.month, "MMM/yyyy", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell className="text-right text-income">{formatCurrency(month.receivables)}</TableCell>
+                      <TableCell className="text-right text-income">{formatCurrency(month.expectedIncome)}</TableCell>
+                      <TableCell className="text-right text-expense">
+                        {formatCurrency(month.businessExpenses)}
+                        {month.das > 0 && (
+                          <span className="block text-xs text-muted-foreground">DAS {formatCurrency(month.das)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.investments)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(month.withdrawals)}</TableCell>
+                      <TableCell className={cn("text-right font-bold", month.businessBalance >= 0 ? "text-income" : "text-danger")}>
+                        {formatCurrency(month.businessBalance)}
+                      </TableCell>
+                      <TableCell className="text-right text-expense">{formatCurrency(month.personalExpenses)}</TableCell>
+                      <TableCell className={cn("text-right font-bold", month.personalBalance >= 0 ? "text-income" : "text-danger")}>
+                        {formatCurrency(month.personalBalance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import { useMemo, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { AccountSelect } from "@/components/AccountSelect";
+import { DataWorkbook } from "@/components/DataWorkbook";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, FileUp, Link2, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { Expense, Income, ReconciliationMatch, StatementTransaction } from "@/types/finance";
+import { LAYOUT_LABELS, ParsedStatement, decodeStatementFile, parseStatement } from "@/lib/statementParser";
+import { guessClient, reconcileStatement } from "@/lib/reconciliation";
+import { businessCategories, incomeCategories, personalCategories } from "@/lib/categories";
+
+type ImportAction = 'reconcile' | 'income' | 'business' | 'personal' | 'ignore';
+
+interface RowState {
+  action: ImportAction;
+  category: string;
+  clientId: string;
+}
+
+const actionLabels: Record<ImportAction, string> = {
+  reconcile: "Conciliar",
+  income: "Nova receita",
+  business: "Despesa empresarial",
+  personal: "Despesa pessoal",
+  ignore: "Ignorar",
+};
+
+const categoriesByAction: Partial<Record<ImportAction, string[]>> = {
+  income: incomeCategories,
+  business: businessCategories,
+  personal: personalCategories,
+};
+
+const defaultAction = (tx: StatementTransaction, match?: ReconciliationMatch): ImportAction => {
+  if (match) return match.alreadyReconciled ? 'ignore' : 'reconcile';
+  return tx.amount > 0 ? 'income' : 'business';
+};
+
+export default function ImportPage() {
+  const {
+    incomes,
+    expenses,
+    clients,
+    getSelectableClients,
+    addIncomes,
+    addExpenses,
+    reconcileTransactions,
+  } = useFinance();
+
+  const [fileName, setFileName] = useState("");
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [matches, setMatches] = useState<Record<string, ReconciliationMatch>>({});
+  const [rows, setRows] = useState<Record<string, RowState>>({});
+  const [applying, setApplying] = useState(false);
+  const [accountId, setAccountId] = useState("");
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseStatement(decodeStatementFile(await file.arrayBuffer()));
+    if (parsed.transactions.length === 0) {
+      toast.error('Nenhum lançamento encontrado no arquivo');
+      return;
+    }
+
+    const found = reconcileStatement(parsed.transactions, { incomes, expenses, clients });
+    const initialRows: Record<string, RowState> = {};
+    parsed.transactions.forEach(tx => {
+      const action = defaultAction(tx, found[tx.id]);
+      initialRows[tx.id] = {
+        action,
+        category: "Outros",
+        clientId: tx.amount > 0 ? guessClient(tx, getSelectableClients())?.id || "" : "",
+      };
+    });
+
+    setFileName(file.name);
+    setStatement(parsed);
+    setMatches(found);
+    setRows(initialRows);
+  };
+
+  const updateRow = (id: string, updates: Partial<RowState>) => {
+    setRows(prev => ({ ...prev, [id]: { ...prev[id], ...updates } }));
+  };
+
+  // Bulk action for every transaction without a matching record
+  const setUnmatchedAction = (action: 'ignore' | 'credit-debit') => {
+    setRows(prev => {
+      const next = { ...prev };
+      statement?.transactions.forEach(tx => {
+        if (matches[tx.id]) return;
+        next[tx.id] = {
+          ...next[tx.id],
+          action: action === 'ignore' ? 'ignore' : defaultAction(tx),
+        };
+      });
+      return next;
+    });
+  };
+
+  const getMatchedRecord = (match: ReconciliationMatch): Income | Expense | undefined => {
+    return match.kind === 'income'
+      ? incomes.find(i => i.id === match.recordId)
+      : expenses.find(e => e.id === match.recordId);
+  };
+
+  const summary = useMemo(() => {
+    const counts: Record<ImportAction, number> = { reconcile: 0, income: 0, business: 0, personal: 0, ignore: 0 };
+    Object.values(rows).forEach(row => counts[row.action]++);
+    return counts;
+  }, [rows]);
+
+  const handleApply = async () => {
+    if (!statement) return;
+
+    const newIncomes: Omit<Income, 'id' | 'createdAt'>[] = [];
+    const newExpenses: Omit<Expense, 'id' | 'createdAt'>[] = [];
+    const expenseDates: { id: string; paymentDate: Date }[] = [];
+    const incomeDates: { id: string; paymentDate: Date }[] = [];
+
+    statement.transactions.forEach(tx => {
+      const row = rows[tx.id];
+      const match = matches[tx.id];
+
+      if (row.action === 'reconcile' && match) {
+        const record = getMatchedRecord(match);
+        if (match.kind === 'expense' && (record as Expense)?.status !== 'paid') {
+          expenseDates.push({ id: match.recordId, paymentDate: tx.date });
+        } else if (match.kind === 'income' && record && !match.alreadyReconciled) {
+          incomeDates.push({ id: match.recordId, paymentDate: tx.date });
+        }
+      } else if (row.action === 'income') {
+        newIncomes.push({
+          description: tx.description,
+          amount: Math.abs(tx.amount),
+          clientId: row.clientId,
+          paymentDate: tx.date,
+          category: row.category,
+          dueDate: tx.date,
+          payments: [{ date: tx.date, amount: Math.abs(tx.amount) }],
+          cancelled: false,
+          accountId: accountId || undefined,
+        });
+      } else if (row.action === 'business' || row.action === 'personal') {
+        newExpenses.push({
+          description: tx.description,
+          amount: Math.abs(tx.amount),
+          category: row.category,
+          dueDate: tx.date,
+          status: 'paid',
+          payments: [{ date: tx.date, amount: Math.abs(tx.amount) }],
+          type: row.action,
+          isFixed: false,
+          accountId: accountId || undefined,
+        });
+      }
+    });
+
+    if (newIncomes.some(i => !i.clientId)) {
+      toast.error('Selecione o cliente de todas as novas receitas');
+      return;
+    }
+
+    setApplying(true);
+    const ok = await addIncomes(newIncomes)
+      && await addExpenses(newExpenses)
+      && await reconcileTransactions(expenseDates, incomeDates);
+    setApplying(false);
+
+    if (ok) {
+      toast.success(
+        `Extrato importado: ${newIncomes.length} receita(s), ${newExpenses.length} despesa(s) e ` +
+        `${expenseDates.length + incomeDates.length} conciliação(ões)`
+      );
+      setStatement(null);
+      setMatches({});
+      setRows({});
+      setFileName("");
+    }
+  };
+
+  const renderActionSelect = (tx: StatementTransaction) => {
+    const options: ImportAction[] = tx.amount > 0
+      ? ['income', 'ignore']
+      : ['business', 'personal', 'ignore'];
+    if (matches[tx.id]) options.unshift('reconcile');
+
+    return (
+      <Select
+        value={rows[tx.id].action}
+        onValueChange={(v) => updateRow(tx.id, { action: v as ImportAction, category: "Outros" })}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{actionLabels[option]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderDetails = (tx: StatementTransaction) => {
+    const row = rows[tx.id];
+    const match = matches[tx.id];
+
+    if (row.action === 'reconcile' && match) {
+      const record = getMatchedRecord(match);
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+          <Link2 className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{record?.description}</span>
+        </span>
+      );
+    }
+
+    if (row.action === 'ignore') {
+      return match?.alreadyReconciled ? (
+        <span className="inline-flex items-center gap-1 text-xs text-income">
+          <CheckCircle className="w-3 h-3" />
+          Já conciliado
+        </span>
+      ) : null;
+    }
+
+    return (
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={row.category} onValueChange={(v) => updateRow(tx.id, { category: v })}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Categoria" />
+          </SelectTrigger>
+          <SelectContent>
+            {categoriesByAction[row.action]?.map(cat => (
+              <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {row.action === 'income' && (
+          <Select value={row.clientId} onValueChange={(v) => updateRow(tx.id, { clientId: v })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Cliente" />
+            </SelectTrigger>
+            <SelectContent>
+              {getSelectableClients(row.clientId).map(client => (
+                <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Importar</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          Extratos OFX ou CSV do Nubank, Inter e Itaú, e a planilha completa dos seus dados
+        </p>
+      </div>
+
+      {/* File Input */}
+      <Card className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="statement-file">Arquivo do extrato</Label>
+            <Input
+              id="statement-file"
+              type="file"
+              accept=".ofx,.csv,.txt"
+              onChange={handleFile}
+            />
+          </div>
+          <div className="sm:w-[260px]">
+            <AccountSelect value={accountId} onChange={setAccountId} side="business" label="Conta do extrato" />
+          </div>
+          {statement && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileUp className="w-4 h-4" />
+              <span className="truncate">{fileName} · {LAYOUT_LABELS[statement.layout]}</span>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {statement && (
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <CardTitle className="text-base sm:text-lg">
+                  {statement.transactions.length} lançamento(s)
+                </CardTitle>
+                <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                  {summary.reconcile} a conciliar · {summary.income} receita(s) ·{" "}
+                  {summary.business + summary.personal} despesa(s) · {summary.ignore} ignorado(s)
+                </p>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select onValueChange={(v) => setUnmatchedAction(v as 'ignore' | 'credit-debit')}>
+                  <SelectTrigger className="sm:w-[240px]">
+                    <SelectValue placeholder="Definir não conciliadas como" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit-debit">Receitas e despesas empresariais</SelectItem>
+                    <SelectItem value="ignore">Ignorar</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleApply} disabled={applying} className="gap-2">
+                  <Upload className="w-4 h-4" />
+                  Aplicar
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+            {/* Mobile Cards View */}
+            <div className="space-y-3 md:hidden">
+              {statement.transactions.map((tx) => (
+                <div key={tx.id} className="p-3 rounded-lg border border-border bg-card space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium text-sm text-foreground truncate">{tx.description}</h3>
+                      <p className="text-xs text-muted-foreground">
+                        {format(tx.date, "dd/MM/yyyy", { locale: ptBR })}
+                      </p>
+                    </div>
+                    <p className={`font-display font-bold ${tx.amount > 0 ? 'text-income' : 'text-expense'}`}>
+                      {formatCurrency(tx.amount)}
+                    </p>
+                  </div>
+                  {renderActionSelect(tx)}
+                  {renderDetails(tx)}
+                </div>
+              ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden md:block rounded-lg border border-border overflow-hidden">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Data</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead className="w-[190px]">Ação</TableHead>
+                      <TableHead className="min-w-[260px]">Detalhes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.transactions.map((tx) => (
+                      <TableRow key={tx.id} className="hover:bg-muted/30">
+                        <TableCell className="whitespace-nowrap">
+                          {format(tx.date, "dd/MM/yyyy", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell className="font-medium max-w-[280px] truncate">{tx.description}</TableCell>
+                        <TableCell className={`text-right font-medium ${tx.amount > 0 ? 'text-income' : 'text-expense'}`}>
+                          {formatCurrency(tx.amount)}
+                        </TableCell>
+                        <TableCell>{renderActionSelect(tx)}</TableCell>
+                        <TableCell>{renderDetails(tx)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <DataWorkbook />
+    </div>
+  );
+}
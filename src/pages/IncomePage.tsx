@@ -1,13 +1,17 @@
 import { useFinance } from "@/contexts/FinanceContext";
 import { StatCard } from "@/components/StatCard";
 import { IncomeForm } from "@/components/forms/IncomeForm";
+import { IncomePaymentsDialog } from "@/components/IncomePaymentsDialog";
+import { ReceivableStatusBadge } from "@/components/StatusBadge";
+import { AgingReport } from "@/components/AgingReport";
 import { MonthSelector } from "@/components/MonthSelector";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Clock, CheckCircle, Trash2 } from "lucide-react";
-import { format, startOfDay } from "date-fns";
+import { Clock, CheckCircle, AlertTriangle, Trash2 } from "lucide-react";
+import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { getOpenAmount, getReceivableStatus, getReceivedAmount } from "@/lib/receivables";
 
 export default function IncomePage() {
   const { 
@@ -18,15 +22,13 @@ export default function IncomePage() {
     setSelectedMonth
   } = useFinance();
 
-  const today = startOfDay(new Date());
-
-  // Separate received vs pending based on payment date
-  const receivedIncomes = filteredIncomes.filter(i => startOfDay(new Date(i.paymentDate)) <= today);
-  const pendingIncomes = filteredIncomes.filter(i => startOfDay(new Date(i.paymentDate)) > today);
-
-  const totalReceived = receivedIncomes.reduce((sum, i) => sum + i.amount, 0);
-  const totalPending = pendingIncomes.reduce((sum, i) => sum + i.amount, 0);
-  const totalIncome = totalReceived + totalPending;
+  const totalReceived = filteredIncomes.reduce((sum, i) => sum + getReceivedAmount(i), 0);
+  const totalPending = filteredIncomes
+    .filter(i => getReceivableStatus(i) !== 'overdue')
+    .reduce((sum, i) => sum + getOpenAmount(i), 0);
+  const totalOverdue = filteredIncomes
+    .filter(i => getReceivableStatus(i) === 'overdue')
+    .reduce((sum, i) => sum + getOpenAmount(i), 0);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -50,7 +52,7 @@ export default function IncomePage() {
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-2 gap-3 sm:gap-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 sm:gap-4">
         <StatCard
           title="Total Recebido"
           value={totalReceived}
@@ -63,6 +65,12 @@ export default function IncomePage() {
           icon={Clock}
           variant="pending"
         />
+        <StatCard
+          title="Vencido"
+          value={totalOverdue}
+          icon={AlertTriangle}
+          variant="expense"
+        />
       </div>
 
       {/* Income Table */}
@@ -81,17 +89,23 @@ export default function IncomePage() {
               <div className="space-y-3 md:hidden">
                 {filteredIncomes.map((income) => {
                   const client = getClientById(income.clientId);
-                  const isPending = startOfDay(new Date(income.paymentDate)) > today;
+                  const status = getReceivableStatus(income);
                   return (
                     <div key={income.id} className="p-3 rounded-lg border border-border bg-card">
                       <div className="flex items-start justify-between gap-2 mb-2">
                         <div className="flex-1 min-w-0">
                           <h3 className="font-medium text-sm text-foreground truncate">{income.description}</h3>
-                          <p className="text-lg font-display font-bold text-income">
+                          <p className={`text-lg font-display font-bold ${income.cancelled ? 'text-muted-foreground line-through' : 'text-income'}`}>
                             {formatCurrency(income.amount)}
                           </p>
+                          {(status === 'partial' || status === 'overdue') && getReceivedAmount(income) > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Recebido {formatCurrency(getReceivedAmount(income))}
+                            </p>
+                          )}
                         </div>
                         <div className="flex items-center gap-1 flex-shrink-0">
+                          <IncomePaymentsDialog income={income} />
                           <IncomeForm income={income} editMode={true} />
                           <Button
                             variant="ghost"
@@ -113,12 +127,7 @@ export default function IncomePage() {
                         <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
                           {format(new Date(income.paymentDate), "dd/MM", { locale: ptBR })}
                         </span>
-                        {isPending && (
-                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-warning-light text-warning text-xs">
-                            <Clock className="w-3 h-3" />
-                            Pendente
-                          </span>
-                        )}
+                        <ReceivableStatusBadge status={status} className="py-0.5" />
                       </div>
                     </div>
                   );
@@ -134,14 +143,16 @@ export default function IncomePage() {
                         <TableHead>Descrição</TableHead>
                         <TableHead>Cliente</TableHead>
                         <TableHead>Categoria</TableHead>
-                        <TableHead>Data</TableHead>
+                        <TableHead>Vencimento</TableHead>
+                        <TableHead>Situação</TableHead>
                         <TableHead className="text-right">Valor</TableHead>
-                        <TableHead className="w-[100px]"></TableHead>
+                        <TableHead className="w-[130px]"></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {filteredIncomes.map((income) => {
                         const client = getClientById(income.clientId);
+                        const status = getReceivableStatus(income);
                         return (
                           <TableRow key={income.id} className="hover:bg-muted/30">
                             <TableCell className="font-medium">{income.description}</TableCell>
@@ -156,13 +167,22 @@ export default function IncomePage() {
                               </span>
                             </TableCell>
                             <TableCell>
-                              {format(new Date(income.paymentDate), "dd/MM/yyyy", { locale: ptBR })}
+                              {format(new Date(income.dueDate), "dd/MM/yyyy", { locale: ptBR })}
                             </TableCell>
-                            <TableCell className="text-right font-medium text-income">
+                            <TableCell>
+                              <ReceivableStatusBadge status={status} />
+                            </TableCell>
+                            <TableCell className={`text-right font-medium ${income.cancelled ? 'text-muted-foreground line-through' : 'text-income'}`}>
                               {formatCurrency(income.amount)}
+                              {(status === 'partial' || status === 'overdue') && getReceivedAmount(income) > 0 && (
+                                <p className="text-xs font-normal text-muted-foreground">
+                                  Recebido {formatCurrency(getReceivedAmount(income))}
+                                </p>
+                              )}
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-1">
+                                <IncomePaymentsDialog income={income} />
                                 <IncomeForm income={income} editMode={true} />
                                 <Button
                                   variant="ghost"
@@ -185,6 +205,8 @@ export default function IncomePage() {
           )}
         </CardContent>
       </Card>
+
+      <AgingReport />
     </div>
   );
 }
@@ -2,22 +2,31 @@ import { useFinance } from "@/contexts/FinanceContext";
 import { StatCard } from "@/components/StatCard";
 import { InvestmentForm } from "@/components/forms/InvestmentForm";
 import { MonthSelector } from "@/components/MonthSelector";
+import { AssetRegister } from "@/components/AssetRegister";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { PiggyBank, Trash2 } from "lucide-react";
+import { CalendarClock, PiggyBank, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { investmentStatusLabels } from "@/lib/categories";
+import { InvestmentStatus } from "@/types/finance";
 
 export default function InvestmentsPage() {
   const { 
     filteredInvestments, 
     removeInvestment,
+    getClientById,
     selectedMonth,
     setSelectedMonth
   } = useFinance();
 
-  const totalInvestments = filteredInvestments.reduce((sum, i) => sum + i.amount, 0);
+  const executedInvestments = filteredInvestments.filter(i => i.status === 'executed');
+  const totalInvestments = executedInvestments.reduce((sum, i) => sum + i.amount, 0);
+  const totalPlanned = filteredInvestments
+    .filter(i => i.status === 'planned')
+    .reduce((sum, i) => sum + i.amount, 0);
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -26,8 +35,19 @@ export default function InvestmentsPage() {
     }).format(value);
   };
 
+  const renderStatus = (status: InvestmentStatus) => (
+    <span
+      className={cn(
+        "inline-flex items-center px-2 py-0.5 rounded-md text-xs font-medium",
+        status === 'executed' ? "bg-success-light text-success" : "bg-muted text-muted-foreground"
+      )}
+    >
+      {investmentStatusLabels[status]}
+    </span>
+  );
+
   // Group by category
-  const byCategory = filteredInvestments.reduce((acc, investment) => {
+  const byCategory = executedInvestments.reduce((acc, investment) => {
     acc[investment.category] = (acc[investment.category] || 0) + investment.amount;
     return acc;
   }, {} as Record<string, number>);
@@ -54,7 +74,13 @@ export default function InvestmentsPage() {
           icon={PiggyBank}
           variant="investment"
         />
-        {Object.entries(byCategory).slice(0, 3).map(([category, amount]) => (
+        <StatCard
+          title="Planejado"
+          value={totalPlanned}
+          icon={CalendarClock}
+          variant="pending"
+        />
+        {Object.entries(byCategory).slice(0, 2).map(([category, amount]) => (
           <StatCard
             key={category}
             title={category}
@@ -87,22 +113,36 @@ export default function InvestmentsPage() {
                           {formatCurrency(investment.amount)}
                         </p>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-muted-foreground hover:text-destructive flex-shrink-0"
-                        onClick={() => removeInvestment(investment.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <InvestmentForm investment={investment} editMode={true} />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => removeInvestment(investment.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                     <div className="flex flex-wrap gap-1.5">
+                      {renderStatus(investment.status)}
                       <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-investment-light text-investment text-xs font-medium">
                         {investment.category}
                       </span>
                       <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
                         {format(new Date(investment.date), "dd/MM", { locale: ptBR })}
                       </span>
+                      {investment.supplier && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                          {investment.supplier}
+                        </span>
+                      )}
+                      {investment.paymentSourceId && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-muted/50 text-xs text-muted-foreground">
+                          {getClientById(investment.paymentSourceId)?.name}
+                        </span>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -115,9 +155,12 @@ export default function InvestmentsPage() {
                     <TableRow className="bg-muted/50">
                       <TableHead>Descrição</TableHead>
                       <TableHead>Categoria</TableHead>
+                      <TableHead>Fornecedor</TableHead>
+                      <TableHead>Fonte</TableHead>
                       <TableHead>Data</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead className="text-right">Valor</TableHead>
-                      <TableHead className="w-[50px]"></TableHead>
+                      <TableHead className="w-[90px]"></TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -129,21 +172,29 @@ export default function InvestmentsPage() {
                             {investment.category}
                           </span>
                         </TableCell>
+                        <TableCell className="text-muted-foreground">{investment.supplier || '-'}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {investment.paymentSourceId ? getClientById(investment.paymentSourceId)?.name : '-'}
+                        </TableCell>
                         <TableCell>
                           {format(new Date(investment.date), "dd/MM/yyyy", { locale: ptBR })}
                         </TableCell>
+                        <TableCell>{renderStatus(investment.status)}</TableCell>
                         <TableCell className="text-right font-medium text-investment">
                           {formatCurrency(investment.amount)}
                         </TableCell>
                         <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                            onClick={() => removeInvestment(investment.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          <div className="flex items-center gap-1">
+                            <InvestmentForm investment={investment} editMode={true} />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                              onClick={() => removeInvestment(investment.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -154,6 +205,8 @@ export default function InvestmentsPage() {
           )}
         </CardContent>
       </Card>
+
+      <AssetRegister />
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { StatCard } from "@/components/StatCard";
 import { ExpenseTable } from "@/components/ExpenseTable";
 import { ExpenseForm } from "@/components/forms/ExpenseForm";
 import { MonthSelector } from "@/components/MonthSelector";
+import { BudgetProgress } from "@/components/BudgetProgress";
 import { TrendingDown, CheckCircle, Clock, Save, Wallet } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -101,6 +102,9 @@ export default function PersonalPage() {
         />
       </div>
 
+      {/* Budgets */}
+      <BudgetProgress type="personal" />
+
       {/* Expenses by Status Tabs */}
       <Tabs defaultValue="all" className="w-full">
         <TabsList className="w-full flex flex-wrap h-auto gap-1 p-1">
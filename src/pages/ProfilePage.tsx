@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2, FileText, Target, TrendingDown, Users } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { MEIActivity } from "@/types/finance";
+import { MEI_ACTIVITY_LABELS } from "@/lib/das";
+import { DEFAULT_LIMIT_SETTINGS, getAnnualLimit, getFiscalYear } from "@/lib/meiLimit";
+import { DEFAULT_DEPRECIATION_MONTHS } from "@/lib/depreciation";
+import { DEFAULT_CONCENTRATION_THRESHOLD } from "@/lib/clientStats";
+import { investmentCategories } from "@/lib/categories";
+import { isValidCNPJ, maskDocument, onlyDigits } from "@/lib/documents";
+
+const toDepreciationInputs = (months: Record<string, number>) => {
+  return Object.fromEntries(investmentCategories.map(category => [category, months[category] ? String(months[category]) : ""]));
+};
+
+export default function ProfilePage() {
+  const { fiscalSettings, updateFiscalSettings } = useFinance();
+  const [companyName, setCompanyName] = useState("");
+  const [cnpj, setCnpj] = useState("");
+  const [activityType, setActivityType] = useState<MEIActivity | "">("");
+  const [openingDate, setOpeningDate] = useState("");
+  const [annualLimit, setAnnualLimit] = useState(String(DEFAULT_LIMIT_SETTINGS.annualLimit));
+  const [attentionThreshold, setAttentionThreshold] = useState(String(DEFAULT_LIMIT_SETTINGS.attentionThreshold));
+  const [urgentThreshold, setUrgentThreshold] = useState(String(DEFAULT_LIMIT_SETTINGS.urgentThreshold));
+  const [concentrationThreshold, setConcentrationThreshold] = useState(String(DEFAULT_CONCENTRATION_THRESHOLD));
+  const [depreciationMonths, setDepreciationMonths] = useState(toDepreciationInputs(DEFAULT_DEPRECIATION_MONTHS));
+  const [saving, setSaving] = useState(false);
+
+  // Populate form with saved settings
+  useEffect(() => {
+    if (!fiscalSettings) return;
+    setCompanyName(fiscalSettings.companyName || "");
+    setCnpj(maskDocument(fiscalSettings.cnpj || ""));
+    setActivityType(fiscalSettings.activityType || "");
+    setOpeningDate(fiscalSettings.openingDate ? format(fiscalSettings.openingDate, 'yyyy-MM-dd') : "");
+    setAnnualLimit(String(fiscalSettings.annualLimit));
+    setAttentionThreshold(String(fiscalSettings.attentionThreshold));
+    setUrgentThreshold(String(fiscalSettings.urgentThreshold));
+    setConcentrationThreshold(String(fiscalSettings.concentrationThreshold));
+    setDepreciationMonths(toDepreciationInputs(fiscalSettings.depreciationMonths));
+  }, [fiscalSettings]);
+
+  const parseDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day, 12, 0, 0);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const limit = parseFloat(annualLimit);
+  const attention = parseInt(attentionThreshold);
+  const urgent = parseInt(urgentThreshold);
+  const concentration = parseInt(concentrationThreshold);
+  const year = getFiscalYear();
+  const yearLimit = !isNaN(limit)
+    ? getAnnualLimit({ annualLimit: limit, openingDate: openingDate ? parseDate(openingDate) : undefined, attentionThreshold: attention, urgentThreshold: urgent }, year)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (cnpj && !isValidCNPJ(cnpj)) {
+      toast.error('CNPJ inválido');
+      return;
+    }
+    if (isNaN(limit) || limit <= 0) {
+      toast.error('Informe um limite anual válido');
+      return;
+    }
+    if (isNaN(attention) || isNaN(urgent) || attention <= 0 || urgent >= 100 || attention >= urgent) {
+      toast.error('Os alertas devem estar entre 1% e 99%, com o urgente acima do de atenção');
+      return;
+    }
+
+    if (isNaN(concentration) || concentration <= 0 || concentration >= 100) {
+      toast.error('O alerta de concentração deve estar entre 1% e 99%');
+      return;
+    }
+
+    const lives = Object.entries(depreciationMonths).filter(([, value]) => value !== "");
+    if (lives.some(([, value]) => !(parseInt(value) > 0))) {
+      toast.error('A vida útil deve ser um número de meses maior que zero');
+      return;
+    }
+
+    setSaving(true);
+    const ok = await updateFiscalSettings({
+      companyName: companyName.trim() || undefined,
+      cnpj: onlyDigits(cnpj) || undefined,
+      ...(activityType ? { activityType } : {}),
+      annualLimit: limit,
+      openingDate: openingDate ? parseDate(openingDate) : undefined,
+      attentionThreshold: attention,
+      urgentThreshold: urgent,
+      concentrationThreshold: concentration,
+      depreciationMonths: Object.fromEntries(lives.map(([category, value]) => [category, parseInt(value)])),
+    });
+    setSaving(false);
+
+    if (ok) toast.success('Perfil atualizado com sucesso!');
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Perfil</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">Dados fiscais do seu MEI</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6">
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Empresa
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Identificação impressa no cabeçalho dos relatórios em PDF
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="companyName">Razão social</Label>
+              <Input
+                id="companyName"
+                value={companyName}
+                onChange={(e) => setCompanyName(e.target.value)}
+                placeholder="Nome da empresa"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cnpj">CNPJ</Label>
+              <Input
+                id="cnpj"
+                inputMode="numeric"
+                value={cnpj}
+                onChange={(e) => setCnpj(maskDocument(e.target.value))}
+                placeholder="00.000.000/0000-00"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <Building2 className="h-5 w-5 text-primary" />
+              Atividade
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Define o valor do DAS e a classificação das receitas na DASN-SIMEI
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo de atividade</Label>
+              <Select value={activityType} onValueChange={(v) => setActivityType(v as MEIActivity)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a atividade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MEI_ACTIVITY_LABELS) as MEIActivity[]).map(value => (
+                    <SelectItem key={value} value={value}>{MEI_ACTIVITY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="openingDate">Data de abertura do CNPJ</Label>
+              <Input
+                id="openingDate"
+                type="date"
+                value={openingDate}
+                onChange={(e) => setOpeningDate(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <Target className="h-5 w-5 text-primary" />
+              Limite de faturamento
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              No ano de abertura o limite é proporcional aos meses de atividade
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="annualLimit">Limite anual (R$)</Label>
+                <Input
+                  id="annualLimit"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={annualLimit}
+                  onChange={(e) => setAnnualLimit(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="attentionThreshold">Alerta de atenção (%)</Label>
+                <Input
+                  id="attentionThreshold"
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={attentionThreshold}
+                  onChange={(e) => setAttentionThreshold(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="urgentThreshold">Alerta urgente (%)</Label>
+                <Input
+                  id="urgentThreshold"
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={urgentThreshold}
+                  onChange={(e) => setUrgentThreshold(e.target.value)}
+                />
+              </div>
+            </div>
+            {yearLimit !== null && (
+              <p className="text-sm text-muted-foreground">
+                Limite para {year}: <span className="font-semibold text-foreground">{formatCurrency(yearLimit)}</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              Concentração de receita
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Receber quase tudo de um só cliente pode caracterizar vínculo empregatício disfarçado
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="concentrationThreshold">Alertar acima de (%)</Label>
+              <Input
+                id="concentrationThreshold"
+                type="number"
+                min="1"
+                max="99"
+                value={concentrationThreshold}
+                onChange={(e) => setConcentrationThreshold(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+              <TrendingDown className="h-5 w-5 text-primary" />
+              Depreciação
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Vida útil em meses por categoria de investimento. Categorias em branco entram na DRE de uma vez no mês da compra
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0 grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {investmentCategories.map(category => (
+              <div key={category} className="space-y-2">
+                <Label htmlFor={`depreciation-${category}`}>{category}</Label>
+                <Input
+                  id={`depreciation-${category}`}
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Sem depreciação"
+                  value={depreciationMonths[category]}
+                  onChange={(e) => setDepreciationMonths(prev => ({ ...prev, [category]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving}>
+            Salvar
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { useEffect, useMemo, useState } from "react";
+import { useFinance } from "@/contexts/FinanceContext";
+import { YearComparisonChart } from "@/components/charts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BarChart3, Layers } from "lucide-react";
+import { addMonths, format, setMonth, subMonths } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import { DEFAULT_DEPRECIATION_SETTINGS, getDepreciationLookback } from "@/lib/depreciation";
+import { DEFAULT_ACCOUNTING_BASIS, accountingBasisLabels } from "@/lib/dre";
+import {
+  COMPARISON_METRICS,
+  ComparisonBreakdown,
+  ComparisonMetric,
+  comparisonBreakdownLabels,
+  comparisonMetricLabels,
+  getCategoryComparison,
+  getClientRevenueComparison,
+  getCumulative,
+  getMetricValue,
+  getVariation,
+  getYearDRE,
+} from "@/lib/yearComparison";
+
+const currentYear = new Date().getFullYear();
+
+// Years offered for comparison, at most the last ten
+const MAX_YEARS = 10;
+
+// For the other metrics a decrease is the good news
+const HIGHER_IS_BETTER: ComparisonMetric[] = ['revenue', 'result'];
+
+const monthNames = Array.from({ length: 12 }, (_, month) => format(setMonth(new Date(), month), "MMMM", { locale: ptBR }));
+
+export default function YearComparisonPage() {
+  const { incomes, expenses, investments, withdrawals, fiscalSettings, getClientById, isPeriodLoaded, loadPeriod } = useFinance();
+  const [selectedYears, setSelectedYears] = useState<string[]>([String(currentYear - 1), String(currentYear)]);
+  const [metric, setMetric] = useState<ComparisonMetric>('revenue');
+  const [view, setView] = useState<'monthly' | 'cumulative'>('monthly');
+  const [breakdown, setBreakdown] = useState<ComparisonBreakdown>('category');
+
+  const availableYears = useMemo(() => {
+    const openingYear = fiscalSettings?.openingDate?.getFullYear() ?? currentYear - 4;
+    const first = Math.max(Math.min(openingYear, currentYear - 1), currentYear - MAX_YEARS + 1);
+    return Array.from({ length: currentYear - first + 1 }, (_, i) => first + i);
+  }, [fiscalSettings?.openingDate]);
+
+  const years = useMemo(() => selectedYears.map(Number).sort((a, b) => a - b), [selectedYears]);
+
+  const depreciationSettings = fiscalSettings ?? DEFAULT_DEPRECIATION_SETTINGS;
+  const depreciationLookback = getDepreciationLookback(investments, depreciationSettings);
+  const accountingBasis = fiscalSettings?.accountingBasis ?? DEFAULT_ACCOUNTING_BASIS;
+
+  // Same lookback as the DRE: earlier assets still depreciate, competences come before due dates
+  const loadRange = useMemo(() => ({
+    from: subMonths(new Date(years[0], 0, 1), depreciationLookback),
+    to: addMonths(new Date(years[years.length - 1], 11, 31), 1),
+  }), [years, depreciationLookback]);
+  const periodLoaded = isPeriodLoaded(loadRange.from, loadRange.to);
+
+  useEffect(() => {
+    loadPeriod(loadRange.from, loadRange.to);
+  }, [loadRange, loadPeriod]);
+
+  const yearData = useMemo(() => {
+    const records = { incomes, expenses, investments, withdrawals };
+    return years.map(year => getYearDRE(records, depreciationSettings, accountingBasis, year));
+  }, [incomes, expenses, investments, withdrawals, depreciationSettings, accountingBasis, years]);
+
+  const monthlyValues = useMemo(() => {
+    return yearData.map(data => data.months.map(month => getMetricValue(month, metric)));
+  }, [yearData, metric]);
+
+  const chartValues = useMemo(() => {
+    return view === 'cumulative' ? monthlyValues.map(getCumulative) : monthlyValues;
+  }, [monthlyValues, view]);
+
+  const breakdownRows = useMemo(() => {
+    if (breakdown === 'client') {
+      const records = { incomes, expenses: [], investments: [], withdrawals: [] };
+      return getClientRevenueComparison(records, depreciationSettings, accountingBasis, years);
+    }
+    return getCategoryComparison(yearData, metric);
+  }, [breakdown, incomes, depreciationSettings, accountingBasis, years, yearData, metric]);
+
+  const handleYearsChange = (values: string[]) => {
+    // At least two years stay selected
+    if (values.length >= 2) setSelectedYears(values);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', {
+      style: 'currency',
+      currency: 'BRL'
+    }).format(value);
+  };
+
+  const renderVariation = (current: number, previous: number, rowMetric: ComparisonMetric) => {
+    const variation = getVariation(current, previous);
+    if (variation === null || Math.abs(variation) < 0.05) {
+      return <span className="text-xs text-muted-foreground">{variation === null ? '—' : '0,0%'}</span>;
+    }
+    const improved = HIGHER_IS_BETTER.includes(rowMetric) ? variation > 0 : variation < 0;
+    return (
+      <span className={cn("text-xs font-medium", improved ? "text-income" : "text-expense")}>
+        {variation > 0 ? '+' : ''}{variation.toFixed(1).replace('.', ',')}%
+      </span>
+    );
+  };
+
+  const lastIndex = years.length - 1;
+  const breakdownMetric: ComparisonMetric = breakdown === 'client' ? 'revenue' : metric;
+
+  return (
+    <div className="space-y-4 sm:space-y-6 animate-fade-in overflow-x-hidden">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-display font-bold text-foreground">Comparativo Anual</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">
+          Ano contra ano, mês a mês · {accountingBasisLabels[accountingBasis]}
+        </p>
+      </div>
+
+      {/* Years */}
+      <Card className="p-4 sm:p-6 space-y-2">
+        <p className="text-sm font-medium text-foreground">Anos comparados</p>
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          value={selectedYears}
+          onValueChange={handleYearsChange}
+          className="flex-wrap justify-start"
+        >
+          {availableYears.map(year => (
+            <ToggleGroupItem key={year} value={String(year)} className="px-4">
+              {year}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">Selecione dois ou mais anos</p>
+      </Card>
+
+      {!periodLoaded ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-12">
+            <div className="text-center space-y-3">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
+              <p className="text-sm text-muted-foreground">Carregando os anos selecionados...</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Yearly totals */}
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base sm:text-lg">Totais por Ano</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                Variação em relação ao ano anterior da comparação. Clique em uma métrica para detalhá-la
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+              <div className="rounded-lg border border-border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead className="min-w-[180px]">Métrica</TableHead>
+                        {years.map(year => (
+                          <TableHead key={year} className="text-right min-w-[130px]">{year}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {COMPARISON_METRICS.map(rowMetric => (
+                        <TableRow
+                          key={rowMetric}
+                          className={cn("hover:bg-muted/30 cursor-pointer", rowMetric === metric && "bg-primary/5")}
+                          onClick={() => setMetric(rowMetric)}
+                        >
+                          <TableCell className={cn("font-medium", rowMetric === metric && "text-primary")}>
+                            {comparisonMetricLabels[rowMetric]}
+                          </TableCell>
+                          {yearData.map((data, index) => {
+                            const value = getMetricValue(data.total, rowMetric);
+                            return (
+                              <TableCell key={data.year} className="text-right">
+                                <div className={cn(rowMetric === 'result' && value < 0 && "text-expense")}>{formatCurrency(value)}</div>
+                                {index > 0 && renderVariation(value, getMetricValue(yearData[index - 1].total, rowMetric), rowMetric)}
+                              </TableCell>
+                            );
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Chart */}
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                  <BarChart3 className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+                  {comparisonMetricLabels[metric]}
+                </CardTitle>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Select value={metric} onValueChange={(v) => setMetric(v as ComparisonMetric)}>
+                    <SelectTrigger className="sm:w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPARISON_METRICS.map(value => (
+                        <SelectItem key={value} value={value}>{comparisonMetricLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Tabs value={view} onValueChange={(v) => setView(v as 'monthly' | 'cumulative')}>
+                    <TabsList>
+                      <TabsTrigger value="monthly" className="text-xs sm:text-sm">Mensal</TabsTrigger>
+                      <TabsTrigger value="cumulative" className="text-xs sm:text-sm">Acumulado</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+              <YearComparisonChart
+                years={years}
+                values={chartValues}
+                metricLabel={comparisonMetricLabels[metric]}
+                cumulative={view === 'cumulative'}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Months */}
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base sm:text-lg">Mês a Mês</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                {comparisonMetricLabels[metric]} de cada mês e a diferença entre {years[lastIndex]} e {years[lastIndex - 1]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+              <div className="rounded-lg border border-border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead>Mês</TableHead>
+                        {years.map(year => (
+                          <TableHead key={year} className="text-right min-w-[130px]">{year}</TableHead>
+                        ))}
+                        <TableHead className="text-right min-w-[130px]">Diferença</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {monthNames.map((monthName, month) => {
+                        const difference = monthlyValues[lastIndex][month] - monthlyValues[lastIndex - 1][month];
+                        return (
+                          <TableRow key={monthName} className="hover:bg-muted/30">
+                            <TableCell className="capitalize">{monthName}</TableCell>
+                            {monthlyValues.map((values, index) => (
+                              <TableCell key={years[index]} className="text-right">
+                                <div>{formatCurrency(values[month])}</div>
+                                {index > 0 && renderVariation(values[month], monthlyValues[index - 1][month], metric)}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right font-medium">
+                              {difference > 0 ? '+' : ''}{formatCurrency(difference)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell className="font-bold">Total</TableCell>
+                        {yearData.map((data, index) => {
+                          const value = getMetricValue(data.total, metric);
+                          return (
+                            <TableCell key={data.year} className="text-right font-bold">
+                              <div>{formatCurrency(value)}</div>
+                              {index > 0 && renderVariation(value, getMetricValue(yearData[index - 1].total, metric), metric)}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right font-bold">
+                          {formatCurrency(getMetricValue(yearData[lastIndex].total, metric) - getMetricValue(yearData[lastIndex - 1].total, metric))}
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Breakdown */}
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                    <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
+                    {breakdown === 'client' ? 'Receita por Cliente' : `${comparisonMetricLabels[metric]} por Categoria`}
+                  </CardTitle>
+                  <CardDescription className="text-xs sm:text-sm mt-1">
+                    Ordenado pelo valor de {years[lastIndex]}
+                  </CardDescription>
+                </div>
+                <Select value={breakdown} onValueChange={(v) => setBreakdown(v as ComparisonBreakdown)}>
+                  <SelectTrigger className="sm:w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(comparisonBreakdownLabels) as ComparisonBreakdown[]).map(value => (
+                      <SelectItem key={value} value={value}>{comparisonBreakdownLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 pt-0 sm:p-6 sm:pt-0">
+              {breakdownRows === null ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">
+                  {comparisonMetricLabels[metric]} não é dividido em categorias
+                </div>
+              ) : breakdownRows.length === 0 ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">
+                  Nenhum valor nos anos selecionados
+                </div>
+              ) : (
+                <div className="rounded-lg border border-border overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-muted/50">
+                          <TableHead className="min-w-[180px]">{breakdown === 'client' ? 'Cliente' : 'Categoria'}</TableHead>
+                          {years.map(year => (
+                            <TableHead key={year} className="text-right min-w-[130px]">{year}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {breakdownRows.map(row => (
+                          <TableRow key={row.key} className="hover:bg-muted/30">
+                            <TableCell className="font-medium">
+                              {breakdown === 'client' ? getClientById(row.key)?.name ?? 'Sem cliente' : row.key}
+                            </TableCell>
+                            {row.values.map((value, index) => (
+                              <TableCell key={years[index]} className="text-right">
+                                <div>{formatCurrency(value)}</div>
+                                {index > 0 && renderVariation(value, row.values[index - 1], breakdownMetric)}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
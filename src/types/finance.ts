@@ -1,43 +1,212 @@
 export type PaymentStatus = 'paid' | 'unpaid' | 'saved';
 
+export interface ClientAddress {
+  cep?: string; // Digits only
+  street?: string;
+  number?: string;
+  complement?: string;
+  district?: string;
+  city?: string;
+  state?: string; // UF
+}
+
 export interface Client {
   id: string;
-  name: string;
+  name: string; // How the client is shown across the app
+  document?: string; // CPF or CNPJ, digits only
+  legalName?: string; // Razão social, or full name for a CPF
+  tradeName?: string; // Nome fantasia
+  email?: string;
+  phone?: string; // Digits only, with area code
+  address?: ClientAddress;
+  municipalRegistration?: string; // Inscrição municipal, needed to issue NFS-e
+  notes?: string;
+  archived: boolean; // Hidden from selects but kept for the records that point to it
   createdAt: Date;
 }
 
+export interface IncomePayment {
+  date: Date;
+  amount: number;
+}
+
 export interface Income {
   id: string;
   description: string;
-  amount: number;
+  amount: number; // Invoiced amount
   clientId: string;
-  paymentDate: Date;
+  paymentDate: Date; // Date of the last payment once settled, the due date while open
   category: string;
+  issueDate?: Date; // Date the invoice was issued
+  dueDate: Date;
+  competenceDate?: Date; // First day of the month the revenue refers to; the issue date, or the due date, when unset
+  payments: IncomePayment[]; // Amounts actually received, possibly in several parts
+  cancelled: boolean;
+  accountId?: string; // Account the payments go into; the default business account when unset
   createdAt: Date;
 }
 
+export interface ExpensePayment {
+  date: Date;
+  amount: number;
+  sourceId?: string; // Client whose revenue paid this part
+}
+
 export interface Expense {
   id: string;
   description: string;
   amount: number;
   category: string;
   dueDate: Date;
-  status: PaymentStatus;
+  competenceDate?: Date; // First day of the month the expense refers to; the due date when unset
+  status: PaymentStatus; // "paid" once the payments cover the amount
+  payments: ExpensePayment[];
   paymentSourceId?: string; // Client ID used as payment source
   type: 'business' | 'personal';
   isFixed: boolean; // Fixed expense that repeats monthly
+  recurringExpenseId?: string; // Template this occurrence was materialized from
+  occurrenceDate?: Date; // Scheduled date of the occurrence, kept even if dueDate is edited
+  dasCompetence?: Date; // First day of the month a DAS-MEI guide refers to
+  installmentGroupId?: string; // Shared by the installments of the same purchase
+  installmentNumber?: number; // 1-based
+  installmentCount?: number;
+  creditCardId?: string; // Set on the expense that pays a credit card invoice
+  invoiceMonth?: Date; // First day of the month the invoice closes in
+  accountId?: string; // Account the payments come out of; the default account of the type when unset
+  createdAt: Date;
+}
+
+export interface CreditCard {
+  id: string;
+  name: string;
+  closingDay: number; // 1-31; purchases from this day on go to the next invoice
+  dueDay: number; // 1-31
+  createdAt: Date;
+}
+
+// Purchase made with a credit card; installments land on consecutive invoices
+export interface CardPurchase {
+  id: string;
+  cardId: string;
+  description: string;
+  amount: number; // Total of the purchase
+  category: string;
+  date: Date;
+  installmentCount: number; // 1 for purchases paid at once
   createdAt: Date;
 }
 
+export type RecurrenceFrequency = 'monthly' | 'bimonthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  dayOfMonth: number; // 1-31, clamped to the last day of shorter months
+  startDate: Date;
+  endDate?: Date;
+  count?: number; // Total number of occurrences counted from startDate
+}
+
+// Template of a fixed expense; each occurrence is materialized as a regular Expense
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  amount: number;
+  category: string;
+  type: 'business' | 'personal';
+  paymentSourceId?: string;
+  accountId?: string;
+  rule: RecurrenceRule;
+  excludedDates: Date[]; // Occurrences removed individually, never materialized again
+  createdAt: Date;
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export type InvestmentStatus = 'planned' | 'executed';
+
 export interface Investment {
   id: string;
   description: string;
   amount: number;
   category: string;
   date: Date;
+  status: InvestmentStatus; // Planned investments don't leave the cash yet
+  paymentSourceId?: string; // Client whose revenue paid for it
+  supplier?: string;
+  depreciationMonths?: number; // Useful life of equipment, in months
+  accountId?: string; // Account it was paid from; the default business account when unset
   createdAt: Date;
 }
 
+export type AccountType = 'business' | 'personal' | 'wallet' | 'savings';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType; // Conta PJ, conta PF, carteira or poupança
+  openingBalance: number;
+  openingDate: Date; // Date the opening balance refers to; earlier records don't move the account
+  archived: boolean;
+  createdAt: Date;
+}
+
+// Profit taken out of the business (pro-labore or distribution), leaving the PJ account
+export interface Withdrawal {
+  id: string;
+  date: Date;
+  amount: number;
+  sourceClientId?: string; // Client whose revenue is being withdrawn
+  accountId?: string; // Destination account; the default personal account when unset
+  description?: string;
+  createdAt: Date;
+}
+
+// What happens to the part of a month's budget that wasn't spent
+export type BudgetRollover = 'none' | 'previous' | 'accumulate';
+
+// Monthly spending plan for one expense category
+export interface Budget {
+  id: string;
+  category: string;
+  type: 'business' | 'personal';
+  amount: number; // Planned per month
+  rollover: BudgetRollover;
+  startMonth: Date; // First month the budget applies to; rollovers never go back further
+  createdAt: Date;
+}
+
+// Money moved between two of the user's accounts
+export interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: Date;
+  description?: string;
+  createdAt: Date;
+}
+
+export type MEIActivity = 'comercio' | 'servicos' | 'ambos';
+
+// Cash: what was received and paid in the period. Accrual: what the period earned and incurred
+export type AccountingBasis = 'cash' | 'accrual';
+
+// Per-user MEI settings, stored as a single row
+export interface FiscalSettings {
+  id: string;
+  companyName?: string; // Razão social shown on the reports
+  cnpj?: string; // Digits only
+  activityType?: MEIActivity;
+  annualLimit: number;
+  openingDate?: Date; // Start of activity; the limit is prorated in the opening year
+  attentionThreshold: number; // Percentage of the limit
+  urgentThreshold: number; // Percentage of the limit
+  dasGeneratedUntil?: Date; // Last DAS competence generated automatically
+  depreciationMonths: Record<string, number>; // Useful life by investment category, in months
+  concentrationThreshold: number; // Share of the yearly revenue from a single client that raises a warning, %
+  accountingBasis: AccountingBasis; // Regime the DRE and the monthly summary follow
+}
+
 export interface FinancialSummary {
   totalIncome: number;
   totalExpenses: number;
@@ -52,3 +221,20 @@ export interface FinancialSummary {
   personalPaidExpenses: number; // Despesas pessoais pagas
   expensesBySource: Record<string, number>;
 }
+
+export type StatementLayout = 'ofx' | 'nubank' | 'nubank-card' | 'inter' | 'itau' | 'generic';
+
+// Bank statement line parsed from an OFX or CSV export
+export interface StatementTransaction {
+  id: string; // FITID for OFX, derived from the row contents for CSV
+  date: Date;
+  amount: number; // Positive for credits, negative for debits
+  description: string;
+}
+
+export interface ReconciliationMatch {
+  kind: 'income' | 'expense';
+  recordId: string;
+  alreadyReconciled: boolean; // Income already received on that date or expense already paid
+  score: number;
+}